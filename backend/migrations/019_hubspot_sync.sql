@@ -0,0 +1,33 @@
+-- Migration 019: HubSpot Sync
+-- Supports the HubSpot cron sync (services/hubspot/cron-sync.ts), which upserts
+-- companies into accounts and links closed-won deals to contracts.
+--
+-- Idempotent — safe to run more than once.
+
+-- ============================================================================
+-- 1. accounts.hubspot_account_id — upsert key
+-- ============================================================================
+-- The sync upserts with ON CONFLICT (hubspot_account_id), which needs a real
+-- unique constraint (not a partial index). NULLs stay distinct, so accounts
+-- that aren't in HubSpot are unaffected.
+--
+-- If this fails, there are duplicate HubSpot IDs to merge first:
+--   SELECT hubspot_account_id, count(*) FROM accounts
+--   WHERE hubspot_account_id IS NOT NULL GROUP BY 1 HAVING count(*) > 1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'accounts_hubspot_account_id_key'
+  ) THEN
+    ALTER TABLE accounts
+      ADD CONSTRAINT accounts_hubspot_account_id_key UNIQUE (hubspot_account_id);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 2. contracts.deal_id — lookup index
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_contracts_deal_id ON contracts(deal_id);
@@ -0,0 +1,41 @@
+-- Migration 020: ClickUp Webhooks
+-- Registry of ClickUp webhooks created per contract folder. The webhook
+-- receiver (/api/webhooks/clickup) looks up the signing secret here, and the
+-- clickup-webhooks cron job uses it to register, renew and retire webhooks.
+
+-- ============================================================================
+-- 1. pulse_clickup_webhooks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pulse_clickup_webhooks (
+    webhook_id text PRIMARY KEY,              -- ClickUp webhook ID
+    contract_id uuid REFERENCES contracts(contract_id) ON DELETE SET NULL,
+    clickup_folder_id text NOT NULL,
+    endpoint text NOT NULL,
+    events jsonb,
+    secret text NOT NULL,                     -- HMAC secret returned by ClickUp on create
+    status text DEFAULT 'active',             -- ClickUp health status: 'active', 'failing', 'suspended'
+    fail_count integer DEFAULT 0,
+    last_event_at timestamptz,
+    last_checked_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_clickup_webhooks_folder ON pulse_clickup_webhooks(clickup_folder_id);
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+-- Webhook secrets: no public access (service role only)
+-- No policy created = no access
+
+ALTER TABLE pulse_clickup_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_pulse_clickup_webhooks_updated_at
+    BEFORE UPDATE ON pulse_clickup_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE pulse_clickup_webhooks IS 'ClickUp webhooks registered per contract folder for near-real-time task sync';
+COMMENT ON COLUMN pulse_clickup_webhooks.secret IS 'Per-webhook signing secret used to verify X-Signature';
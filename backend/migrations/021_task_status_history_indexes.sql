@@ -0,0 +1,10 @@
+-- Migration 021: Task Status History Indexes
+-- pulse_task_status_history is now written by the ClickUp cron sync and webhook
+-- receiver, and read by the cycle-time analytics endpoint, which loads each
+-- task's transitions in order.
+
+CREATE INDEX IF NOT EXISTS idx_pulse_task_status_history_task_changed
+    ON pulse_task_status_history(task_id, changed_at);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_task_status_history_changed_at
+    ON pulse_task_status_history(changed_at);
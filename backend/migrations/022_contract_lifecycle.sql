@@ -0,0 +1,38 @@
+-- Migration 022: Contract Lifecycle
+-- Event log for contract status and date changes. Written by the
+-- contract-lifecycle cron job (renewals, expiries, renewal alerts) and by
+-- PUT /api/contracts/:id when a user edits status or term fields.
+
+-- ============================================================================
+-- 1. contract_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_events (
+    event_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    event_type text NOT NULL,                 -- 'renewed', 'expired', 'alert_sent', 'updated'
+    source text NOT NULL DEFAULT 'lifecycle', -- 'lifecycle' (cron) or 'api' (user edit)
+    reason text,
+    changes jsonb,                            -- { field: { from, to } }
+    metadata jsonb,                           -- e.g. { alert_type, lead_days, target_date } for alerts
+    created_by uuid,                          -- users.id for 'api' events
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_events_contract ON contract_events(contract_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_contract_events_type ON contract_events(event_type, created_at DESC);
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+
+ALTER TABLE contract_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on contract_events"
+    ON contract_events FOR SELECT
+    TO authenticated
+    USING (true);
+
+COMMENT ON TABLE contract_events IS 'Audit log of contract status/date changes and lifecycle alerts';
+COMMENT ON COLUMN contract_events.changes IS 'Changed fields as { field: { from, to } }';
+COMMENT ON COLUMN contract_events.metadata IS 'Event details; alert_sent rows carry alert_type, lead_days and target_date for de-duplication';
@@ -0,0 +1,185 @@
+-- Migration 023: Contract Amendments
+-- Change-order history for a contract's commercial terms. Each amendment
+-- records the fields it changed ({ field: { from, to } }), when the change
+-- takes effect and why. PUT /api/contracts/:id writes one whenever amount,
+-- allotment, rate or term dates change; future-dated amendments are applied
+-- to the contract row by the contract-lifecycle cron on their effective date
+-- (logged to contract_events with event_type 'amended').
+--
+-- contract_terms_as_of() and contract_points_summary_as_of() read the history
+-- back so MRR and allotment can be computed for any date.
+
+-- ============================================================================
+-- 1. contract_amendments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_amendments (
+    amendment_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    effective_date date NOT NULL,
+    amendment_type text NOT NULL DEFAULT 'change_order', -- 'upsell', 'downsell', 'change_order', 'renewal', 'correction'
+    reason text,
+    changes jsonb NOT NULL,                   -- { field: { from, to } }
+    applied_at timestamptz,                   -- when the contract row was updated; NULL = pending (future-dated)
+    created_by uuid,                          -- users.id
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_contract ON contract_amendments(contract_id, effective_date);
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_pending ON contract_amendments(effective_date)
+    WHERE applied_at IS NULL;
+
+-- ============================================================================
+-- 2. Terms as of a date
+-- ============================================================================
+-- A field's value on p_as_of is the "to" of the latest amendment effective on
+-- or before that date; failing that, the "from" of the earliest amendment
+-- after it; failing that (never amended), the current contract value.
+
+CREATE OR REPLACE FUNCTION contract_terms_as_of(
+  p_as_of date DEFAULT current_date,
+  p_contract_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  contract_id uuid,
+  amount numeric,
+  monthly_points_allotment integer,
+  dollar_per_hour numeric
+)
+LANGUAGE sql STABLE AS $$
+  WITH fields AS (
+    SELECT
+      c.contract_id,
+      c.amount,
+      c.monthly_points_allotment,
+      c.dollar_per_hour,
+      (SELECT a.changes->'amount' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'amount' AND a.effective_date <= p_as_of
+        ORDER BY a.effective_date DESC, a.created_at DESC LIMIT 1) AS amount_before,
+      (SELECT a.changes->'amount' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'amount' AND a.effective_date > p_as_of
+        ORDER BY a.effective_date ASC, a.created_at ASC LIMIT 1) AS amount_after,
+      (SELECT a.changes->'monthly_points_allotment' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'monthly_points_allotment' AND a.effective_date <= p_as_of
+        ORDER BY a.effective_date DESC, a.created_at DESC LIMIT 1) AS allotment_before,
+      (SELECT a.changes->'monthly_points_allotment' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'monthly_points_allotment' AND a.effective_date > p_as_of
+        ORDER BY a.effective_date ASC, a.created_at ASC LIMIT 1) AS allotment_after,
+      (SELECT a.changes->'dollar_per_hour' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'dollar_per_hour' AND a.effective_date <= p_as_of
+        ORDER BY a.effective_date DESC, a.created_at DESC LIMIT 1) AS rate_before,
+      (SELECT a.changes->'dollar_per_hour' FROM contract_amendments a
+        WHERE a.contract_id = c.contract_id AND a.changes ? 'dollar_per_hour' AND a.effective_date > p_as_of
+        ORDER BY a.effective_date ASC, a.created_at ASC LIMIT 1) AS rate_after
+    FROM contracts c
+    WHERE p_contract_ids IS NULL OR c.contract_id = ANY(p_contract_ids)
+  )
+  SELECT
+    f.contract_id,
+    CASE
+      WHEN f.amount_before IS NOT NULL THEN (f.amount_before->>'to')::numeric
+      WHEN f.amount_after IS NOT NULL THEN (f.amount_after->>'from')::numeric
+      ELSE f.amount
+    END,
+    CASE
+      WHEN f.allotment_before IS NOT NULL THEN (f.allotment_before->>'to')::numeric::integer
+      WHEN f.allotment_after IS NOT NULL THEN (f.allotment_after->>'from')::numeric::integer
+      ELSE f.monthly_points_allotment
+    END,
+    CASE
+      WHEN f.rate_before IS NOT NULL THEN (f.rate_before->>'to')::numeric
+      WHEN f.rate_after IS NOT NULL THEN (f.rate_after->>'from')::numeric
+      ELSE f.dollar_per_hour
+    END
+  FROM fields f;
+$$;
+
+-- ============================================================================
+-- 3. Points summary as of a date
+-- ============================================================================
+-- Same columns as the contract_points_summary materialized view, but with
+-- invoices, credit memos and deliveries counted up to p_as_of and the burden
+-- computed from the allotment in effect on that date. points_working is a
+-- live snapshot, so it is only returned for today or later.
+
+CREATE OR REPLACE FUNCTION contract_points_summary_as_of(
+  p_as_of date DEFAULT current_date
+)
+RETURNS TABLE (
+  contract_id uuid,
+  contract_name text,
+  amount numeric,
+  monthly_points_allotment integer,
+  points_purchased numeric,
+  points_credited numeric,
+  points_delivered numeric,
+  points_working numeric,
+  points_balance numeric,
+  points_burden numeric
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    c.contract_id,
+    c.contract_name,
+    t.amount,
+    t.monthly_points_allotment,
+    COALESCE(inv.points_purchased, 0),
+    COALESCE(cm.points_credited, 0),
+    COALESCE(delivered.points_delivered, 0),
+    CASE WHEN p_as_of >= current_date THEN COALESCE(working.points_working, 0) END,
+    (COALESCE(inv.points_purchased, 0) + COALESCE(cm.points_credited, 0)
+     - COALESCE(delivered.points_delivered, 0)),
+    (COALESCE(inv.points_purchased, 0) + COALESCE(cm.points_credited, 0)
+     - COALESCE(delivered.points_delivered, 0)
+     - (1.5 * COALESCE(t.monthly_points_allotment, 0)))
+  FROM contracts c
+  JOIN contract_terms_as_of(p_as_of) t ON t.contract_id = c.contract_id
+  LEFT JOIN (
+    SELECT pi.contract_id, SUM(pi.points) AS points_purchased
+    FROM pulse_invoices pi
+    WHERE pi.transaction_date <= p_as_of
+    GROUP BY pi.contract_id
+  ) inv ON c.contract_id = inv.contract_id
+  LEFT JOIN (
+    SELECT pcm.contract_id, SUM(pcm.points) AS points_credited
+    FROM pulse_credit_memos pcm
+    WHERE pcm.transaction_date <= p_as_of
+    GROUP BY pcm.contract_id
+  ) cm ON c.contract_id = cm.contract_id
+  LEFT JOIN (
+    SELECT pt.contract_id, SUM(pt.points) AS points_delivered
+    FROM pulse_tasks pt
+    WHERE pt.status = 'delivered' AND pt.date_done < (p_as_of + 1)
+    GROUP BY pt.contract_id
+  ) delivered ON c.contract_id = delivered.contract_id
+  LEFT JOIN (
+    SELECT pt.contract_id, SUM(pt.points) AS points_working
+    FROM pulse_tasks pt
+    WHERE pt.status = 'working'
+    GROUP BY pt.contract_id
+  ) working ON c.contract_id = working.contract_id
+  WHERE c.contract_status = 'active' AND c.hosting = false;
+$$;
+
+-- ============================================================================
+-- 4. Row Level Security
+-- ============================================================================
+
+ALTER TABLE contract_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on contract_amendments"
+    ON contract_amendments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_contract_amendments_updated_at
+    BEFORE UPDATE ON contract_amendments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE contract_amendments IS 'Change orders / amendments to contract terms, with effective dates and before/after values';
+COMMENT ON COLUMN contract_amendments.changes IS 'Changed fields as { field: { from, to } }';
+COMMENT ON COLUMN contract_amendments.applied_at IS 'When the change was written to contracts; NULL until a future-dated amendment takes effect';
+COMMENT ON FUNCTION contract_terms_as_of(date, uuid[]) IS 'amount / monthly_points_allotment / dollar_per_hour in effect on a date, from contract_amendments';
+COMMENT ON FUNCTION contract_points_summary_as_of(date) IS 'contract_points_summary computed as of a date, using the allotment in effect then';
@@ -0,0 +1,80 @@
+-- Migration 024: Contract Imports
+-- CSV/XLSX contract import. An upload is parsed, mapped and validated into a
+-- job holding the planned inserts/updates (the dry-run preview); committing
+-- the job applies the plan in batches, saving a cursor after each batch so an
+-- interrupted commit resumes where it stopped.
+
+-- ============================================================================
+-- 1. contract_import_mappings (saved column-mapping profiles)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_import_mappings (
+    mapping_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    description text,
+    mapping jsonb NOT NULL,                   -- { "Source Column": "contract_field" }
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- ============================================================================
+-- 2. contract_import_jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_import_jobs (
+    job_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    status text NOT NULL DEFAULT 'previewed', -- 'previewed', 'committing', 'completed', 'failed'
+    file_name text,
+    mapping_id uuid REFERENCES contract_import_mappings(mapping_id) ON DELETE SET NULL,
+    mapping jsonb,                            -- effective mapping used for this file
+    total_rows integer DEFAULT 0,
+    plan jsonb NOT NULL DEFAULT '[]',         -- planned operations: [{ row, action, contract_id, data, changes }]
+    row_errors jsonb DEFAULT '[]',            -- validation errors: [{ row, contract_name, errors }]
+    cursor integer DEFAULT 0,                 -- index into plan of the next operation to apply
+    inserted integer DEFAULT 0,
+    updated integer DEFAULT 0,
+    failed integer DEFAULT 0,
+    commit_errors jsonb DEFAULT '[]',         -- [{ row, contract_name, error }]
+    error_message text,
+    created_by uuid,
+    committed_by uuid,
+    commit_started_at timestamptz,
+    completed_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_import_jobs_status ON contract_import_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_contract_import_jobs_created_at ON contract_import_jobs(created_at DESC);
+
+-- ============================================================================
+-- 3. Row Level Security
+-- ============================================================================
+
+ALTER TABLE contract_import_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contract_import_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on contract_import_mappings"
+    ON contract_import_mappings FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow authenticated read on contract_import_jobs"
+    ON contract_import_jobs FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_contract_import_mappings_updated_at
+    BEFORE UPDATE ON contract_import_mappings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_contract_import_jobs_updated_at
+    BEFORE UPDATE ON contract_import_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE contract_import_mappings IS 'Saved column-mapping profiles for CSV/XLSX contract imports';
+COMMENT ON TABLE contract_import_jobs IS 'CSV/XLSX contract import jobs: dry-run plan plus resumable batched commit state';
+COMMENT ON COLUMN contract_import_jobs.cursor IS 'Next plan index to apply; a resumed commit starts here';
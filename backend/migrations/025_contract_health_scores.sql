@@ -0,0 +1,44 @@
+-- Migration 025: Contract Health Scores
+-- Daily composite health score per active contract, combining points burden
+-- trend, meeting sentiment trend, meeting recency, overdue invoices and the
+-- blocked-task ratio. Each row keeps the component breakdown and the weights
+-- used, so a score can be explained after the weights change.
+
+-- ============================================================================
+-- 1. contract_health_scores
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_health_scores (
+    score_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    score_date date NOT NULL,
+    score numeric,                            -- 0-100, NULL when nothing could be scored
+    status text,                              -- 'healthy', 'at_risk', 'critical'
+    components jsonb NOT NULL DEFAULT '{}',   -- { component: { score, weight, effective_weight, inputs } }
+    weights jsonb NOT NULL DEFAULT '{}',      -- configured weights at scoring time
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(contract_id, score_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_health_scores_date ON contract_health_scores(score_date DESC);
+CREATE INDEX IF NOT EXISTS idx_contract_health_scores_status ON contract_health_scores(status);
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+
+ALTER TABLE contract_health_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on contract_health_scores"
+    ON contract_health_scores FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_contract_health_scores_updated_at
+    BEFORE UPDATE ON contract_health_scores
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE contract_health_scores IS 'Daily composite contract health score with per-component breakdown';
+COMMENT ON COLUMN contract_health_scores.components IS 'Per-component score (0-100 or null), weights and raw inputs';
@@ -0,0 +1,50 @@
+-- Migration 026: Contract Risk Signals
+-- Churn-risk early warnings. The daily detector keeps one row per contract
+-- per signal type: detected signals are active, ones no longer detected are
+-- resolved. A signal is alerted when its fingerprint (the state it describes,
+-- e.g. which invoices are overdue) differs from the one last alerted, so an
+-- unchanged signal isn't repeated and a resolved one alerts again if it returns.
+
+-- ============================================================================
+-- 1. contract_risk_signals
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contract_risk_signals (
+    signal_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    signal_type text NOT NULL,                -- 'negative_sentiment', 'negative_points_balance', 'no_delivery', 'missed_payments', 'notice_window'
+    status text NOT NULL DEFAULT 'active',    -- 'active', 'resolved'
+    fingerprint text NOT NULL,                -- current state of the signal
+    alerted_fingerprint text,                 -- state last alerted on; NULL = not alerted yet
+    summary text NOT NULL,
+    details jsonb DEFAULT '{}',
+    first_detected_at timestamptz DEFAULT now(),
+    last_detected_at timestamptz DEFAULT now(),
+    last_alerted_at timestamptz,
+    alert_channel text,                       -- Slack user / channel ID the last alert went to
+    resolved_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(contract_id, signal_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_risk_signals_status ON contract_risk_signals(status);
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+
+ALTER TABLE contract_risk_signals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on contract_risk_signals"
+    ON contract_risk_signals FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_contract_risk_signals_updated_at
+    BEFORE UPDATE ON contract_risk_signals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE contract_risk_signals IS 'Churn-risk signals per contract, with alert de-duplication state';
+COMMENT ON COLUMN contract_risk_signals.alerted_fingerprint IS 'Fingerprint at the last Slack alert; re-alert only when fingerprint differs';
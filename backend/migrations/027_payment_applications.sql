@@ -0,0 +1,58 @@
+-- Migration 027: Payment Applications
+-- Which invoices each QuickBooks payment was applied to, and for how much,
+-- from the payment's LinkedTxn lines. Invoices get the applied total and last
+-- payment date rolled up from here; the AR aging report reads open balances.
+
+-- ============================================================================
+-- 1. pulse_payment_applications
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pulse_payment_applications (
+    application_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    quickbooks_realm_id text NOT NULL,
+    quickbooks_payment_id text NOT NULL,
+    quickbooks_invoice_id text NOT NULL,
+    payment_id uuid REFERENCES pulse_payments(payment_id) ON DELETE CASCADE,
+    invoice_id uuid REFERENCES pulse_invoices(invoice_id) ON DELETE SET NULL, -- NULL until the invoice is synced
+    contract_id uuid REFERENCES contracts(contract_id),
+    amount decimal(12,2) NOT NULL,
+    payment_date date,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(quickbooks_realm_id, quickbooks_payment_id, quickbooks_invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_payment_applications_invoice
+    ON pulse_payment_applications(quickbooks_realm_id, quickbooks_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_pulse_payment_applications_contract ON pulse_payment_applications(contract_id);
+
+-- ============================================================================
+-- 2. Invoice payment roll-up
+-- ============================================================================
+
+ALTER TABLE pulse_invoices ADD COLUMN IF NOT EXISTS amount_paid decimal(12,2) DEFAULT 0;
+ALTER TABLE pulse_invoices ADD COLUMN IF NOT EXISTS last_payment_date date;
+
+-- Open-invoice lookups for AR aging
+CREATE INDEX IF NOT EXISTS idx_pulse_invoices_open_due
+    ON pulse_invoices(due_date)
+    WHERE status = 'open' AND is_deleted = false;
+
+-- ============================================================================
+-- 3. Row Level Security
+-- ============================================================================
+
+ALTER TABLE pulse_payment_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on pulse_payment_applications"
+    ON pulse_payment_applications FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_pulse_payment_applications_updated_at
+    BEFORE UPDATE ON pulse_payment_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE pulse_payment_applications IS 'QuickBooks payment amounts applied to invoices (from Payment LinkedTxn)';
+COMMENT ON COLUMN pulse_invoices.amount_paid IS 'Sum of pulse_payment_applications.amount for this invoice';
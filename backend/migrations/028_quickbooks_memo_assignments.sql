@@ -0,0 +1,72 @@
+-- Migration 028: QuickBooks Memo Assignments
+-- Invoices and credit memos are linked to contracts from the contract number
+-- parsed out of their memo. The parser now reports how confident it was, and
+-- documents it can't link land in a triage queue where someone assigns the
+-- contract by hand. Manual assignments live in their own table so the sync
+-- re-applies them instead of overwriting them on every run.
+
+-- ============================================================================
+-- 1. Parse confidence on synced documents
+-- ============================================================================
+
+-- exact  = strict "ContractNumber:MID...;Points:...;" format
+-- high   = labelled contract number with loose punctuation/spacing
+-- low    = bare MID number with no label (not auto-linked)
+-- none   = no contract number found
+-- manual = contract assigned by hand (quickbooks_memo_assignments)
+ALTER TABLE pulse_invoices ADD COLUMN IF NOT EXISTS memo_confidence text
+    CHECK (memo_confidence IN ('exact', 'high', 'low', 'none', 'manual'));
+ALTER TABLE pulse_credit_memos ADD COLUMN IF NOT EXISTS memo_confidence text
+    CHECK (memo_confidence IN ('exact', 'high', 'low', 'none', 'manual'));
+
+-- Triage queue lookups
+CREATE INDEX IF NOT EXISTS idx_pulse_invoices_unlinked
+    ON pulse_invoices(transaction_date)
+    WHERE contract_id IS NULL AND is_deleted = false;
+CREATE INDEX IF NOT EXISTS idx_pulse_credit_memos_unlinked
+    ON pulse_credit_memos(transaction_date)
+    WHERE contract_id IS NULL AND is_deleted = false;
+
+-- ============================================================================
+-- 2. quickbooks_memo_assignments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quickbooks_memo_assignments (
+    assignment_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    quickbooks_realm_id text NOT NULL,
+    document_type text NOT NULL CHECK (document_type IN ('invoice', 'credit_memo')),
+    quickbooks_id text NOT NULL,
+    contract_id uuid REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    contract_external_id text,                -- contract's MID number at assignment time
+    points numeric,                           -- overrides the parsed points when set
+    ignored boolean NOT NULL DEFAULT false,   -- intentionally not linked to any contract
+    note text,
+    created_by uuid,                          -- users.id
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(quickbooks_realm_id, document_type, quickbooks_id),
+    CHECK (ignored OR contract_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quickbooks_memo_assignments_contract
+    ON quickbooks_memo_assignments(contract_id);
+
+-- ============================================================================
+-- 3. Row Level Security
+-- ============================================================================
+
+ALTER TABLE quickbooks_memo_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on quickbooks_memo_assignments"
+    ON quickbooks_memo_assignments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_quickbooks_memo_assignments_updated_at
+    BEFORE UPDATE ON quickbooks_memo_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE quickbooks_memo_assignments IS 'Manual contract assignments for QuickBooks invoices/credit memos, re-applied by every sync';
+COMMENT ON COLUMN pulse_invoices.memo_confidence IS 'How the contract link was made: exact, high, low, none or manual';
+COMMENT ON COLUMN pulse_credit_memos.memo_confidence IS 'How the contract link was made: exact, high, low, none or manual';
@@ -0,0 +1,41 @@
+-- Migration 029: Team Cost Rates
+-- Internal hourly cost per ClickUp member, used by the profitability report to
+-- cost time entries. Rates are effective-dated so past months keep the rate
+-- that applied then; members without a rate use PROFITABILITY_DEFAULT_COST_RATE.
+
+-- ============================================================================
+-- 1. team_cost_rates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS team_cost_rates (
+    rate_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    clickup_user_id text NOT NULL REFERENCES pulse_clickup_users(id) ON DELETE CASCADE,
+    hourly_cost numeric(10,2) NOT NULL CHECK (hourly_cost >= 0),
+    effective_from date NOT NULL,
+    note text,
+    created_by uuid,                          -- users.id
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(clickup_user_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_cost_rates_user ON team_cost_rates(clickup_user_id, effective_from DESC);
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+
+ALTER TABLE team_cost_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on team_cost_rates"
+    ON team_cost_rates FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_team_cost_rates_updated_at
+    BEFORE UPDATE ON team_cost_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE team_cost_rates IS 'Internal hourly cost per ClickUp member, effective from a date';
+COMMENT ON COLUMN team_cost_rates.hourly_cost IS 'Fully loaded internal cost per hour, in dollars';
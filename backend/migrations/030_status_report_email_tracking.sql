@@ -0,0 +1,81 @@
+-- Migration 030: Status Report Email Tracking
+-- Records which transport sent each client status report and what happened to
+-- it afterwards. Delivery, bounce, complaint and open events arrive on
+-- POST /api/webhooks/email-events; each one is kept in compass_report_email_events
+-- and rolled up onto the compass_reports row so account managers can see a
+-- bounced report without digging through logs.
+
+-- ============================================================================
+-- 1. compass_reports delivery columns
+-- ============================================================================
+
+ALTER TABLE compass_reports
+    ADD COLUMN IF NOT EXISTS transport text,                 -- 'n8n', 'smtp', 'outbox'
+    ADD COLUMN IF NOT EXISTS provider_message_id text,       -- id returned by the transport, used to match events
+    ADD COLUMN IF NOT EXISTS delivery_status text,           -- 'delivered', 'bounced', 'complained'; null until an event arrives
+    ADD COLUMN IF NOT EXISTS delivered_at timestamptz,
+    ADD COLUMN IF NOT EXISTS bounced_at timestamptz,
+    ADD COLUMN IF NOT EXISTS bounce_reason text,
+    ADD COLUMN IF NOT EXISTS first_opened_at timestamptz,
+    ADD COLUMN IF NOT EXISTS open_count integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS send_error text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'valid_delivery_status'
+  ) THEN
+    ALTER TABLE compass_reports
+      ADD CONSTRAINT valid_delivery_status
+      CHECK (delivery_status IS NULL OR delivery_status IN ('delivered', 'bounced', 'complained'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_compass_reports_provider_message_id
+    ON compass_reports(provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+
+COMMENT ON COLUMN compass_reports.transport IS 'Email transport that sent the report: n8n, smtp or outbox';
+COMMENT ON COLUMN compass_reports.provider_message_id IS 'Message id returned by the transport, matched against incoming email events';
+COMMENT ON COLUMN compass_reports.delivery_status IS 'Worst delivery outcome across recipients: bounced/complained outrank delivered';
+COMMENT ON COLUMN compass_reports.send_error IS 'Transport error when send_status is failed';
+
+-- ============================================================================
+-- 2. compass_report_email_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS compass_report_email_events (
+    event_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_id uuid NOT NULL REFERENCES compass_reports(report_id) ON DELETE CASCADE,
+    event_type text NOT NULL,                 -- 'delivered', 'bounced', 'complained', 'opened'
+    recipient text,
+    provider_message_id text,
+    provider_event_id text,                   -- dedupe key from the provider, when it sends one
+    reason text,                              -- bounce/complaint detail
+    occurred_at timestamptz NOT NULL,
+    payload jsonb,                            -- raw event as received
+    created_at timestamptz DEFAULT now(),
+
+    CONSTRAINT valid_email_event_type CHECK (event_type IN ('delivered', 'bounced', 'complained', 'opened'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_compass_report_email_events_report
+    ON compass_report_email_events(report_id, occurred_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compass_report_email_events_provider_event
+    ON compass_report_email_events(provider_event_id)
+    WHERE provider_event_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. Row Level Security
+-- ============================================================================
+
+ALTER TABLE compass_report_email_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on compass_report_email_events"
+    ON compass_report_email_events FOR SELECT
+    TO authenticated
+    USING (true);
+
+COMMENT ON TABLE compass_report_email_events IS 'Delivery, bounce, complaint and open events for emailed client status reports';
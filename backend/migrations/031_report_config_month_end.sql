@@ -0,0 +1,17 @@
+-- Migration 031: Report Config Month-End Days
+-- Monthly client status reports may now be scheduled on day_of_month 29-31.
+-- Months without that day send on their last day instead (the rule lives in
+-- src/utils/scheduling.ts).
+
+-- ============================================================================
+-- 1. Relax the day_of_month constraint
+-- ============================================================================
+
+ALTER TABLE compass_report_configs
+    DROP CONSTRAINT IF EXISTS valid_day_of_month;
+
+ALTER TABLE compass_report_configs
+    ADD CONSTRAINT valid_day_of_month
+    CHECK (day_of_month IS NULL OR (day_of_month >= 1 AND day_of_month <= 31));
+
+COMMENT ON COLUMN compass_report_configs.day_of_month IS '1-31, required for monthly cadence; 29-31 send on the last day of shorter months';
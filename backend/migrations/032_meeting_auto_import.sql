@@ -0,0 +1,118 @@
+-- Migration 032: Meeting Auto-Import
+-- Scheduled Fireflies importer (POST /api/cron/fireflies-import). Recent
+-- transcripts are matched to contracts by per-contract rules; matched ones
+-- become compass_meetings rows, the rest wait in a review queue until someone
+-- assigns a contract or dismisses them.
+
+-- ============================================================================
+-- 1. meeting_import_rules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS meeting_import_rules (
+    rule_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    rule_type text NOT NULL,                  -- 'email_domain', 'title_keyword', 'calendar_tag'
+    value text NOT NULL,                      -- 'acme.com', 'Acme sync', 'ACME'
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid,                          -- users.id
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+
+    CONSTRAINT valid_meeting_import_rule_type CHECK (rule_type IN ('email_domain', 'title_keyword', 'calendar_tag'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_import_rules_unique
+    ON meeting_import_rules(contract_id, rule_type, lower(value));
+
+-- ============================================================================
+-- 2. meeting_import_queue
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS meeting_import_queue (
+    queue_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source text NOT NULL DEFAULT 'fireflies',
+    external_id text NOT NULL,
+    title text,
+    meeting_date timestamptz,
+    duration_seconds integer,
+    participant_emails text[],
+    reason text NOT NULL,                     -- 'unmatched', 'ambiguous'
+    candidate_contract_ids uuid[],            -- contracts whose rules matched, when ambiguous
+    status text NOT NULL DEFAULT 'pending',   -- 'pending', 'imported', 'dismissed'
+    meeting_id uuid REFERENCES compass_meetings(meeting_id) ON DELETE SET NULL,
+    resolved_by uuid,                         -- users.id
+    resolved_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+
+    CONSTRAINT valid_meeting_import_reason CHECK (reason IN ('unmatched', 'ambiguous')),
+    CONSTRAINT valid_meeting_import_status CHECK (status IN ('pending', 'imported', 'dismissed')),
+    UNIQUE(source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_import_queue_pending
+    ON meeting_import_queue(meeting_date DESC)
+    WHERE status = 'pending';
+
+-- ============================================================================
+-- 3. One meeting per external recording
+-- ============================================================================
+
+-- The routes and the importer check before inserting; this closes the race
+-- between a manual import and the cron picking up the same recording.
+--
+-- Recordings imported twice before this index existed keep their oldest row.
+-- The later copies are detached rather than deleted (their notes and
+-- embeddings stay): external_id moves to raw_metadata.duplicate_of_external_id
+-- and is cleared, which takes them out of the partial index.
+WITH ranked AS (
+    SELECT meeting_id,
+           row_number() OVER (
+               PARTITION BY source, external_id
+               ORDER BY created_at ASC NULLS LAST, meeting_id
+           ) AS position
+    FROM compass_meetings
+    WHERE external_id IS NOT NULL
+)
+UPDATE compass_meetings m
+SET raw_metadata = COALESCE(m.raw_metadata, '{}'::jsonb)
+        || jsonb_build_object('duplicate_of_external_id', m.external_id),
+    external_id = NULL
+FROM ranked
+WHERE m.meeting_id = ranked.meeting_id
+  AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compass_meetings_source_external_id
+    ON compass_meetings(source, external_id)
+    WHERE external_id IS NOT NULL;
+
+-- ============================================================================
+-- 4. Row Level Security
+-- ============================================================================
+
+ALTER TABLE meeting_import_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meeting_import_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on meeting_import_rules"
+    ON meeting_import_rules FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow authenticated read on meeting_import_queue"
+    ON meeting_import_queue FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_meeting_import_rules_updated_at
+    BEFORE UPDATE ON meeting_import_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_meeting_import_queue_updated_at
+    BEFORE UPDATE ON meeting_import_queue
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE meeting_import_rules IS 'Rules matching recorded meetings to a contract: participant email domain, title keyword or calendar-invite tag';
+COMMENT ON TABLE meeting_import_queue IS 'Recorded meetings the auto-importer could not match to exactly one contract, awaiting review';
+COMMENT ON COLUMN meeting_import_rules.value IS 'Domain (acme.com), case-insensitive title substring, or tag written in the invite title as [TAG] or #TAG (Fireflies does not expose the invite description)';
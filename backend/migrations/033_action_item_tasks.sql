@@ -0,0 +1,49 @@
+-- Migration 033: Action Item Tasks
+-- Meeting note action items pushed to the contract's ClickUp ToDos list. Each
+-- row links one item (by its id inside compass_notes.action_items) to the task
+-- created for it, so the item's completed flag can follow the task when it
+-- closes (ClickUp webhook, with the ClickUp cron sync as the safety net).
+
+-- ============================================================================
+-- 1. compass_action_item_tasks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS compass_action_item_tasks (
+    link_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    note_id uuid NOT NULL REFERENCES compass_notes(note_id) ON DELETE CASCADE,
+    contract_id uuid NOT NULL REFERENCES contracts(contract_id) ON DELETE CASCADE,
+    item_id text NOT NULL,                    -- compass_notes.action_items[].id
+    clickup_task_id text NOT NULL,
+    clickup_task_url text,
+    assignee_clickup_id text,                 -- pulse_clickup_users.id
+    pushed_by uuid,                           -- users.id
+    pushed_at timestamptz NOT NULL DEFAULT now(),
+    completed_at timestamptz,                 -- when the task was seen closed
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+
+    UNIQUE(clickup_task_id),
+    UNIQUE(note_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_compass_action_item_tasks_open
+    ON compass_action_item_tasks(clickup_task_id)
+    WHERE completed_at IS NULL;
+
+-- ============================================================================
+-- 2. Row Level Security
+-- ============================================================================
+
+ALTER TABLE compass_action_item_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read on compass_action_item_tasks"
+    ON compass_action_item_tasks FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_compass_action_item_tasks_updated_at
+    BEFORE UPDATE ON compass_action_item_tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE compass_action_item_tasks IS 'Meeting note action items pushed to ClickUp, with the task used to sync completion back';
@@ -0,0 +1,18 @@
+/**
+ * Action Item Tracker Configuration
+ * Which notes the tracker and weekly digest look at, and where undeliverable
+ * digests go
+ */
+
+import { parseIntEnv } from '../utils/env.js';
+
+export const actionItemsConfig = {
+  // Only notes dated within this window are scanned; older promises are
+  // assumed settled or stale
+  lookbackDays: parseIntEnv(process.env.ACTION_ITEMS_LOOKBACK_DAYS, 180),
+
+  // Digests that can't be DMed (no assignee match, no Slack user) go here
+  fallbackSlackChannel: process.env.ACTION_ITEMS_SLACK_CHANNEL,
+};
+
+export default actionItemsConfig;
@@ -0,0 +1,41 @@
+/**
+ * Capacity Configuration
+ * Weekly hours, points-to-hours conversion and overload thresholds for the
+ * team capacity planner
+ */
+
+import { parseFloatEnv } from '../utils/env.js';
+
+// "12345678=32,87654321=20" — ClickUp user ID = weekly hours
+function parseMemberHours(value: string | undefined): Record<string, number> {
+  const hours: Record<string, number> = {};
+  for (const pair of (value || '').split(',')) {
+    const [userId, raw] = pair.split('=').map(v => v.trim());
+    const weekly = parseFloat(raw);
+    if (userId && Number.isFinite(weekly) && weekly >= 0) {
+      hours[userId] = weekly;
+    }
+  }
+  return hours;
+}
+
+export const capacityConfig = {
+  // Available hours per person per week
+  weeklyHours: parseFloatEnv(process.env.CAPACITY_WEEKLY_HOURS, 40),
+
+  // Per-person overrides, e.g. part-timers: CAPACITY_MEMBER_HOURS="12345678=24"
+  memberWeeklyHours: parseMemberHours(process.env.CAPACITY_MEMBER_HOURS),
+
+  // Hours assumed per point for open tasks without a ClickUp time estimate
+  hoursPerPoint: parseFloatEnv(process.env.CAPACITY_HOURS_PER_POINT, 1),
+
+  // Committed hours above this share of available hours flag the week as overloaded
+  overloadThreshold: parseFloatEnv(process.env.CAPACITY_OVERLOAD_THRESHOLD, 1.0),
+
+  // Default look-back (logged vs available) and look-ahead (committed) windows
+  defaultPastWeeks: 4,
+  defaultWeeks: 4,
+  maxWeeks: 12,
+};
+
+export default capacityConfig;
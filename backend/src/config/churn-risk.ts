@@ -0,0 +1,29 @@
+/**
+ * Churn-Risk Configuration
+ * Thresholds for the early-warning signals and where alerts go
+ */
+
+import { parseIntEnv } from '../utils/env.js';
+
+export const churnRiskConfig = {
+  // Sustained negative sentiment: this many most recent scored meetings in
+  // the lookback window are all negative
+  negativeSentimentMeetings: parseIntEnv(process.env.CHURN_RISK_NEGATIVE_MEETINGS, 2),
+  sentimentLookbackDays: 60,
+
+  // No delivered tasks for this many weeks
+  noDeliveryWeeks: parseIntEnv(process.env.CHURN_RISK_NO_DELIVERY_WEEKS, 3),
+
+  // Open invoices this many days past due count as missed payments
+  paymentGraceDays: parseIntEnv(process.env.CHURN_RISK_PAYMENT_GRACE_DAYS, 15),
+
+  // Flag the notice deadline (auto-renewing) or end date (non-renewing) once
+  // it is this close
+  noticeWindowDays: parseIntEnv(process.env.CHURN_RISK_NOTICE_WINDOW_DAYS, 45),
+
+  // Alerts go to the account manager as a DM; this channel takes the ones
+  // that can't be delivered that way (no account manager, no Slack match)
+  fallbackSlackChannel: process.env.CHURN_RISK_SLACK_CHANNEL,
+};
+
+export default churnRiskConfig;
@@ -0,0 +1,70 @@
+/**
+ * Contract Health Configuration
+ * Component weights, scoring windows and status thresholds for health scores
+ */
+
+import { HEALTH_COMPONENT_KEYS, type HealthWeights } from '../types/contract-health.js';
+import { parseIntEnv } from '../utils/env.js';
+
+const DEFAULT_WEIGHTS: HealthWeights = {
+  points_burden_trend: 30,
+  sentiment_trend: 20,
+  meeting_recency: 15,
+  overdue_invoices: 20,
+  blocked_tasks: 15,
+};
+
+// "points_burden_trend=40,meeting_recency=10" — unlisted components keep
+// their default weight; 0 turns a component off
+function parseWeights(value: string | undefined): HealthWeights {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const pair of (value || '').split(',')) {
+    const [key, raw] = pair.split('=').map(v => v.trim());
+    const weight = parseFloat(raw);
+    if (HEALTH_COMPONENT_KEYS.includes(key as keyof HealthWeights) && Number.isFinite(weight) && weight >= 0) {
+      weights[key as keyof HealthWeights] = weight;
+    }
+  }
+  return weights;
+}
+
+// Recency falls off linearly between the two, so the full-score window has to
+// end before the max; an inverted pair falls back to the defaults
+function parseMeetingRecencyDays(): { fullDays: number; maxDays: number } {
+  const fullDays = parseIntEnv(process.env.CONTRACT_HEALTH_MEETING_FULL_DAYS, 14);
+  const maxDays = parseIntEnv(process.env.CONTRACT_HEALTH_MEETING_MAX_DAYS, 60);
+  if (fullDays < maxDays) return { fullDays, maxDays };
+
+  console.warn(
+    `CONTRACT_HEALTH_MEETING_FULL_DAYS (${fullDays}) must be below CONTRACT_HEALTH_MEETING_MAX_DAYS (${maxDays}); using 14 and 60`
+  );
+  return { fullDays: 14, maxDays: 60 };
+}
+
+const meetingRecencyDays = parseMeetingRecencyDays();
+
+export const healthConfig = {
+  // Relative weights, e.g. CONTRACT_HEALTH_WEIGHTS="points_burden_trend=30,sentiment_trend=20"
+  weights: parseWeights(process.env.CONTRACT_HEALTH_WEIGHTS),
+
+  // Points burden is compared against its value this many days ago
+  burdenTrendDays: parseIntEnv(process.env.CONTRACT_HEALTH_BURDEN_TREND_DAYS, 30),
+
+  // Meetings in this window feed sentiment and recency; the most recent
+  // sentimentRecentDays are compared against the rest of the window
+  meetingLookbackDays: 90,
+  sentimentRecentDays: 30,
+
+  // Full recency score up to this many days since the last meeting, zero at the max
+  meetingRecencyFullDays: meetingRecencyDays.fullDays,
+  meetingRecencyMaxDays: meetingRecencyDays.maxDays,
+
+  // Invoices this many days past due score zero on age
+  overdueMaxDays: 90,
+
+  // Status thresholds on the 0-100 score
+  healthyMin: 70,
+  atRiskMin: 40,
+};
+
+export default healthConfig;
@@ -0,0 +1,22 @@
+/**
+ * Contract Lifecycle Configuration
+ * Lead times and channels for renewal / notice-deadline alerts
+ */
+
+function parseLeadDays(value: string | undefined): number[] {
+  const parsed = (value || '')
+    .split(',')
+    .map(v => parseInt(v.trim(), 10))
+    .filter(v => Number.isFinite(v) && v >= 0);
+  return parsed.length > 0 ? parsed : [60, 30, 14, 7];
+}
+
+export const lifecycleConfig = {
+  // Days before a notice deadline / end date at which to alert, e.g. "60,30,14,7"
+  alertLeadDays: parseLeadDays(process.env.CONTRACT_ALERT_LEAD_DAYS).sort((a, b) => b - a),
+
+  // Used when a contract has no slack_channel_internal or the post fails
+  fallbackSlackChannel: process.env.CONTRACT_ALERTS_SLACK_CHANNEL,
+};
+
+export default lifecycleConfig;
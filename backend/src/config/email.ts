@@ -0,0 +1,45 @@
+/**
+ * Email Configuration
+ * Transport selection and credentials for outbound client emails (status
+ * reports), plus the shared secret for delivery event callbacks
+ */
+
+import { isValidEmailTransport, type EmailTransportName } from '../types/email.js';
+import { parseIntEnv } from '../utils/env.js';
+
+function parseTransport(value: string | undefined): EmailTransportName {
+  const normalized = (value || '').trim().toLowerCase();
+  return isValidEmailTransport(normalized) ? normalized : 'n8n';
+}
+
+const smtpPort = parseIntEnv(process.env.SMTP_PORT, 587);
+
+export const emailConfig = {
+  // 'n8n' (default, the existing webhook), 'smtp', or 'outbox' (files on disk, for testing)
+  transport: parseTransport(process.env.EMAIL_TRANSPORT),
+
+  // Sender address for SMTP; n8n workflows set their own
+  from: process.env.EMAIL_FROM || '',
+
+  n8n: {
+    webhookUrl: process.env.N8N_WEBHOOK_URL || '',
+  },
+
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: smtpPort,
+    // Implicit TLS on 465, STARTTLS otherwise unless SMTP_SECURE says so
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : smtpPort === 465,
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+  },
+
+  outbox: {
+    dir: process.env.EMAIL_OUTBOX_DIR || 'outbox',
+  },
+
+  // Shared secret for POST /api/webhooks/email-events (x-email-events-secret header)
+  eventsSecret: process.env.EMAIL_EVENTS_SECRET || '',
+};
+
+export default emailConfig;
@@ -0,0 +1,22 @@
+/**
+ * Finance Configuration
+ * Slack destination and limits for finance digests, the tolerance used when
+ * reconciling billed points against allotments, and profitability defaults
+ */
+
+export const financeConfig = {
+  // Finance Slack channel for the weekly AR aging digest; unset = digest off
+  slackChannel: process.env.FINANCE_SLACK_CHANNEL,
+
+  // Overdue contracts listed in the digest
+  digestTopContracts: 10,
+
+  // Points a month's net billing may differ from its allotment before it is
+  // flagged as over- or under-billed (absorbs rounding on prorated invoices)
+  pointsVarianceTolerance: parseFloat(process.env.POINTS_VARIANCE_TOLERANCE || '1'),
+
+  // Hourly cost for members without a team_cost_rates row
+  defaultCostRate: parseFloat(process.env.PROFITABILITY_DEFAULT_COST_RATE || '75'),
+};
+
+export default financeConfig;
@@ -0,0 +1,32 @@
+/**
+ * Meeting Auto-Import Configuration
+ * How far back the Fireflies importer looks and which email domains are ours
+ */
+
+import { parseIntEnv } from '../utils/env.js';
+
+function parseListEnv(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export const meetingImportConfig = {
+  // Transcripts recorded in this window are considered on each run; anything
+  // already imported or queued is skipped, so overlap between runs is fine
+  lookbackDays: parseIntEnv(process.env.MEETING_IMPORT_LOOKBACK_DAYS, 3),
+
+  // Upper bound on transcripts listed per run
+  maxTranscripts: parseIntEnv(process.env.MEETING_IMPORT_MAX_TRANSCRIPTS, 200),
+
+  // Our own domains: never used for email_domain matching, and meetings with
+  // only these participants (internal calls) are skipped instead of queued
+  internalDomains: parseListEnv(process.env.MEETING_IMPORT_INTERNAL_DOMAINS),
+
+  // Treat the domain of the contract's account website as an implicit
+  // email_domain rule
+  useAccountDomains: process.env.MEETING_IMPORT_USE_ACCOUNT_DOMAINS !== 'false',
+};
+
+export default meetingImportConfig;
@@ -76,7 +76,11 @@ export const syncConfig = {
   quickbooks: {
     // OAuth-based, tokens stored in database
     clientId: process.env.QUICKBOOKS_CLIENT_ID,
-    clientSecret: process.env.QUICKBOOKS_CLIENT_SECRET
+    clientSecret: process.env.QUICKBOOKS_CLIENT_SECRET,
+
+    // Memo parsing: 'tolerant' accepts hand-typed variants with a confidence
+    // level, 'strict' only "ContractNumber:MID...;Points:...;"
+    memoParsing: (process.env.QUICKBOOKS_MEMO_PARSING === 'strict' ? 'strict' : 'tolerant') as 'strict' | 'tolerant'
   }
 };
 
@@ -13,9 +13,17 @@ import quickbooksPdfRouter from './routes/quickbooks-pdf.js';
 import cronRouter from './routes/cron.js';
 import webhooksRouter from './routes/webhooks.js';
 import tallyWebhookRouter from './routes/webhooks-tally.js';
+import clickupWebhookRouter from './routes/webhooks-clickup.js';
+import emailEventsWebhookRouter from './routes/webhooks-email.js';
 import notesRouter from './routes/compass/notes.js';
 import meetingsRouter from './routes/compass/meetings.js';
+import meetingImportsRouter from './routes/compass/meeting-imports.js';
+import actionItemsRouter from './routes/compass/action-items.js';
 import reportsRouter from './routes/pulse/reports.js';
+import analyticsRouter from './routes/pulse/analytics.js';
+import contractHealthRouter from './routes/pulse/contract-health.js';
+import financeRouter from './routes/pulse/finance.js';
+import capacityRouter from './routes/pulse/capacity.js';
 import statusReportsRouter from './routes/compass/status-reports.js';
 import deliverablesRouter from './routes/compass/deliverables.js';
 import processLibraryRouter from './routes/compass/process-library.js';
@@ -101,6 +109,12 @@ app.use('/api/webhooks', webhooksRouter);
 // Tally webhook (no auth middleware - authenticated via HMAC signature)
 app.use('/api/webhooks/tally', tallyWebhookRouter);
 
+// ClickUp webhook (no auth middleware - authenticated via per-webhook HMAC signature)
+app.use('/api/webhooks/clickup', clickupWebhookRouter);
+
+// Email delivery events (no auth middleware - authenticated via x-email-events-secret header)
+app.use('/api/webhooks/email-events', emailEventsWebhookRouter);
+
 // Protected routes (require authentication)
 app.use('/api/users', authMiddleware, usersRouter);
 app.use('/api/contracts', authMiddleware, contractsRouter);
@@ -111,6 +125,12 @@ app.use('/api/quickbooks', authMiddleware, quickbooksPdfRouter);
 app.use('/api/compass/notes', authMiddleware, notesRouter);
 app.use('/api/compass/meetings', authMiddleware, meetingsRouter);
 
+// Compass meeting auto-import rules and review queue (require authentication)
+app.use('/api/compass/meeting-imports', authMiddleware, meetingImportsRouter);
+
+// Compass action item tracker across notes (require authentication)
+app.use('/api/compass/action-items', authMiddleware, actionItemsRouter);
+
 // Compass status reports (require authentication)
 app.use('/api/compass/status-reports', authMiddleware, statusReportsRouter);
 
@@ -135,6 +155,18 @@ app.use('/api/compass/brand-voice', authMiddleware, brandVoiceRouter);
 // Pulse reports (require authentication)
 app.use('/api/pulse/reports', authMiddleware, reportsRouter);
 
+// Pulse analytics (require authentication)
+app.use('/api/pulse/analytics', authMiddleware, analyticsRouter);
+
+// Pulse contract health (require authentication)
+app.use('/api/pulse/contracts', authMiddleware, contractHealthRouter);
+
+// Pulse finance (require authentication)
+app.use('/api/pulse/finance', authMiddleware, financeRouter);
+
+// Pulse team capacity (require authentication)
+app.use('/api/pulse/capacity', authMiddleware, capacityRouter);
+
 // 404 handler
 app.use((_req, res) => {
   res.status(404).json({ error: 'Not found' });
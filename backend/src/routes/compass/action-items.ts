@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { listActionItems, bulkUpdateActionItems } from '../../services/meetings/action-item-tracker.js';
+import {
+  isValidActionItemStatusFilter,
+  ACTION_ITEM_STATUS_FILTER_VALUES,
+  type BulkUpdateActionItemsDTO,
+} from '../../types/notes.js';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/compass/action-items
+// Action items across meeting notes
+// Query: contract_id?, assignee? (ClickUp user id or name), status? (open|overdue|completed|all, default open),
+//        due_from?, due_to? (YYYY-MM-DD, inclusive)
+router.get(
+  '/',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const { contract_id, assignee, status, due_from, due_to } = req.query as Record<string, string | undefined>;
+
+    if (status && !isValidActionItemStatusFilter(status)) {
+      res.status(400).json({
+        error: `Invalid status. Valid values: ${ACTION_ITEM_STATUS_FILTER_VALUES.join(', ')}`,
+      });
+      return;
+    }
+    if ((due_from && !DATE_PATTERN.test(due_from)) || (due_to && !DATE_PATTERN.test(due_to))) {
+      res.status(400).json({ error: 'due_from and due_to must be YYYY-MM-DD' });
+      return;
+    }
+
+    try {
+      const items = await listActionItems({
+        contract_id,
+        assignee,
+        status: status && isValidActionItemStatusFilter(status) ? status : undefined,
+        due_from,
+        due_to,
+      });
+      res.json({
+        action_items: items,
+        total: items.length,
+        overdue: items.filter((i) => i.overdue).length,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Action Items] List error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// PATCH /api/compass/action-items
+// Bulk update: { items: [{ note_id, id, completed?, assignee?, due? }] }
+// assignee / due: null clears the field. For items pushed to ClickUp,
+// completing / reopening moves the task and a new assignee is set on it too.
+router.patch(
+  '/',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const items = req.body?.items as BulkUpdateActionItemsDTO['items'] | undefined;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({ error: 'items must be a non-empty array' });
+      return;
+    }
+
+    const errors: string[] = [];
+    items.forEach((change, index) => {
+      if (!change || typeof change.note_id !== 'string' || typeof change.id !== 'string') {
+        errors.push(`items[${index}]: note_id and id are required`);
+        return;
+      }
+      if (change.completed !== undefined && typeof change.completed !== 'boolean') {
+        errors.push(`items[${index}]: completed must be a boolean`);
+      }
+      if (change.assignee !== undefined && change.assignee !== null && typeof change.assignee !== 'string') {
+        errors.push(`items[${index}]: assignee must be a string or null`);
+      }
+      if (change.due !== undefined && change.due !== null &&
+          (typeof change.due !== 'string' || isNaN(Date.parse(change.due)))) {
+        errors.push(`items[${index}]: due must be an ISO date or null`);
+      }
+    });
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Validation failed', details: errors });
+      return;
+    }
+
+    try {
+      const result = await bulkUpdateActionItems(items);
+      res.json(result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Action Items] Bulk update error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
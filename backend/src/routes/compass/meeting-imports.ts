@@ -0,0 +1,317 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { select, insert, update, del } from '../../utils/edge-functions.js';
+import { importFirefliesMeeting, resolveQueueItem } from '../../services/meetings/auto-import.js';
+import {
+  isValidMeetingImportRuleType,
+  isValidMeetingImportQueueStatus,
+  MEETING_IMPORT_RULE_TYPE_VALUES,
+  MEETING_IMPORT_QUEUE_STATUS_VALUES,
+  type MeetingImportRule,
+  type MeetingImportQueueItem,
+} from '../../types/meeting-imports.js';
+
+const router = Router();
+
+// ============================================================================
+// Matching rules
+// ============================================================================
+
+// GET /api/compass/meeting-imports/rules
+// Query: contract_id? (all contracts when omitted)
+router.get(
+  '/rules',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const contractId = req.query.contract_id as string | undefined;
+
+    try {
+      const rules = await select<MeetingImportRule[]>('meeting_import_rules', {
+        filters: contractId ? { contract_id: contractId } : undefined,
+        order: [{ column: 'created_at', ascending: true }],
+      });
+      res.json({ rules: rules || [] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] List rules error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/compass/meeting-imports/rules
+// Body: { contract_id, rule_type: 'email_domain'|'title_keyword'|'calendar_tag', value }
+router.post(
+  '/rules',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { contract_id, rule_type, value } = req.body;
+
+    if (!contract_id) {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+    if (!rule_type || !isValidMeetingImportRuleType(rule_type)) {
+      res.status(400).json({
+        error: `Invalid rule_type. Valid values: ${MEETING_IMPORT_RULE_TYPE_VALUES.join(', ')}`,
+      });
+      return;
+    }
+    if (!value || typeof value !== 'string' || !value.trim()) {
+      res.status(400).json({ error: 'value is required' });
+      return;
+    }
+
+    // Domains are stored bare: '@Acme.com' -> 'acme.com'
+    const normalized = rule_type === 'email_domain'
+      ? value.trim().toLowerCase().replace(/^@/, '')
+      : rule_type === 'calendar_tag'
+        ? value.trim().replace(/^#|^\[|\]$/g, '')
+        : value.trim();
+
+    if (rule_type === 'email_domain' && !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(normalized)) {
+      res.status(400).json({ error: `Invalid email domain: ${value}` });
+      return;
+    }
+
+    try {
+      const contracts = await select<Array<{ contract_id: string }>>('contracts', {
+        select: 'contract_id',
+        filters: { contract_id },
+        limit: 1,
+      });
+      if (contracts.length === 0) {
+        res.status(400).json({ error: 'Invalid contract_id: contract not found' });
+        return;
+      }
+
+      const rows = await insert<MeetingImportRule[]>('meeting_import_rules', {
+        contract_id,
+        rule_type,
+        value: normalized,
+        created_by: req.user.user_id,
+      }, { select: '*' });
+      res.status(201).json({ rule: rows[0] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] Create rule error:', err);
+      res.status(message.includes('duplicate') ? 409 : 500).json({ error: message });
+    }
+  }
+);
+
+// PUT /api/compass/meeting-imports/rules/:id
+// Body: { is_active }
+router.put(
+  '/rules/:id',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const { is_active } = req.body;
+
+    if (typeof is_active !== 'boolean') {
+      res.status(400).json({ error: 'is_active must be a boolean' });
+      return;
+    }
+
+    try {
+      const rows = await update<MeetingImportRule[]>(
+        'meeting_import_rules',
+        { is_active },
+        { rule_id: req.params.id },
+        { select: '*' }
+      );
+      if (!rows || rows.length === 0) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+      res.json({ rule: rows[0] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] Update rule error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// DELETE /api/compass/meeting-imports/rules/:id
+router.delete(
+  '/rules/:id',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await del('meeting_import_rules', { rule_id: req.params.id });
+      res.status(204).send();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] Delete rule error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// ============================================================================
+// Review queue
+// ============================================================================
+
+// GET /api/compass/meeting-imports/queue
+// Query: status? (default pending), limit?, offset?
+router.get(
+  '/queue',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const status = (req.query.status as string) || 'pending';
+    if (!isValidMeetingImportQueueStatus(status)) {
+      res.status(400).json({
+        error: `Invalid status. Valid values: ${MEETING_IMPORT_QUEUE_STATUS_VALUES.join(', ')}`,
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    try {
+      const items = await select<MeetingImportQueueItem[]>('meeting_import_queue', {
+        filters: { status },
+        order: [{ column: 'meeting_date', ascending: false }],
+        limit,
+        offset,
+      });
+      res.json({ items: items || [], limit, offset });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] List queue error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/compass/meeting-imports/queue/:id/import
+// Body: { contract_id }
+// Imports the queued meeting into the chosen contract and starts processing
+router.post(
+  '/queue/:id/import',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { contract_id } = req.body;
+    if (!contract_id) {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+
+    try {
+      const items = await select<MeetingImportQueueItem[]>('meeting_import_queue', {
+        filters: { queue_id: req.params.id },
+        limit: 1,
+      });
+      const item = items[0];
+      if (!item) {
+        res.status(404).json({ error: 'Queue item not found' });
+        return;
+      }
+      if (item.status !== 'pending') {
+        res.status(409).json({ error: `Queue item is already ${item.status}`, meeting_id: item.meeting_id });
+        return;
+      }
+
+      const contracts = await select<Array<{ contract_id: string }>>('contracts', {
+        select: 'contract_id',
+        filters: { contract_id },
+        limit: 1,
+      });
+      if (contracts.length === 0) {
+        res.status(400).json({ error: 'Invalid contract_id: contract not found' });
+        return;
+      }
+
+      if (!process.env.FIREFLIES_API_KEY) {
+        res.status(503).json({
+          error: 'Fireflies integration not configured',
+          details: 'FIREFLIES_API_KEY environment variable is not set.',
+        });
+        return;
+      }
+
+      let meeting: { meeting_id: string };
+      try {
+        meeting = await importFirefliesMeeting(item.external_id, contract_id, null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        if (!message.includes('duplicate')) throw err;
+
+        // Already imported by hand: point the queue item at that meeting so
+        // it leaves the review queue
+        const existing = await select<Array<{ meeting_id: string }>>('compass_meetings', {
+          select: 'meeting_id',
+          filters: { source: item.source, external_id: item.external_id },
+          limit: 1,
+        });
+        if (existing.length === 0) throw err;
+        await resolveQueueItem(item.queue_id, 'imported', req.user.user_id, existing[0].meeting_id);
+        res.status(409).json({
+          error: 'This recording was already imported',
+          meeting_id: existing[0].meeting_id,
+        });
+        return;
+      }
+      await resolveQueueItem(item.queue_id, 'imported', req.user.user_id, meeting.meeting_id);
+
+      res.status(201).json({
+        meeting_id: meeting.meeting_id,
+        processing: { status: 'pending' },
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] Import queued meeting error:', err);
+      res.status(message.includes('duplicate') ? 409 : 500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/compass/meeting-imports/queue/:id/dismiss
+// Not a client meeting (or not worth importing); it won't be picked up again
+router.post(
+  '/queue/:id/dismiss',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    try {
+      const items = await select<MeetingImportQueueItem[]>('meeting_import_queue', {
+        select: 'queue_id,status',
+        filters: { queue_id: req.params.id },
+        limit: 1,
+      });
+      if (items.length === 0) {
+        res.status(404).json({ error: 'Queue item not found' });
+        return;
+      }
+      if (items[0].status !== 'pending') {
+        res.status(409).json({ error: `Queue item is already ${items[0].status}` });
+        return;
+      }
+
+      await resolveQueueItem(req.params.id, 'dismissed', req.user.user_id);
+      res.status(204).send();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Meeting Import] Dismiss queued meeting error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
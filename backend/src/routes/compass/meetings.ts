@@ -1,222 +1,55 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { requireRole } from '../../middleware/auth.js';
 import {
   CreateMeetingDTO,
   UpdateMeetingDTO,
+  UploadMeetingTranscriptDTO,
   MeetingSource,
   TranscriptSegment,
   validateMeetingData,
   isValidMeetingSource,
   MEETING_SOURCE_VALUES,
   extractFirefliesId,
+  extractZoomMeetingId,
+  extractOtterId,
+  transcriptFileFormat,
+  TRANSCRIPT_FILE_FORMATS,
 } from '../../types/meetings.js';
-import { fetchTranscript } from '../../services/fireflies/client.js';
+import { fetchTranscript, toTranscriptSegments } from '../../services/fireflies/client.js';
+import { fetchRecordingTranscript, isZoomConfigured } from '../../services/zoom/client.js';
+import { fetchSpeech } from '../../services/otter/client.js';
+import type { ProcessingState } from '../../services/master-marketer/types.js';
 import {
-  submitMeetingNotes,
-  pollUntilComplete,
-} from '../../services/master-marketer/client.js';
-import type {
-  MeetingNotesSubmission,
-  ProcessingState,
-  JobOutput,
-} from '../../services/master-marketer/types.js';
-import { update as edgeFnUpdate, insert as edgeFnInsert, del as edgeFnDel } from '../../utils/edge-functions.js';
+  processMeetingInBackground,
+  formatTranscriptText,
+  startImportedMeetingProcessing,
+} from '../../services/meetings/processing.js';
+import { del as edgeFnDel } from '../../utils/edge-functions.js';
 import { ingestContent } from '../../services/rag/ingestion.js';
-import { extractTranscriptText } from '../../utils/transcript.js';
+import {
+  extractTranscriptText,
+  parseTranscriptFile,
+  transcriptDurationSeconds,
+  transcriptSpeakers,
+} from '../../utils/transcript.js';
 
 const router = Router();
 
-// ============================================================================
-// Background Processing Helpers (module-internal)
-// ============================================================================
-
-/**
- * Update the processing state in raw_metadata via the edge-functions proxy.
- * Uses service-role so it works even after the user JWT expires.
- */
-async function updateProcessingState(
-  meetingId: string,
-  state: ProcessingState['master_marketer']
-): Promise<void> {
-  try {
-    await edgeFnUpdate(
-      'compass_meetings',
-      { raw_metadata: { master_marketer: state } },
-      { meeting_id: meetingId }
-    );
-  } catch (err) {
-    console.error(`Failed to update processing state for meeting ${meetingId}:`, err);
-  }
-}
-
-/**
- * Write the AI analysis results back to the database:
- * 1. Update compass_meetings.sentiment with the AI sentiment
- * 2. Insert a compass_note with note_type='meeting', is_auto_generated=true
- */
-async function writeProcessingResults(
-  meetingId: string,
-  contractId: string,
-  title: string,
-  date: string,
-  output: JobOutput
-): Promise<void> {
-  // 1. Update meeting sentiment
-  await edgeFnUpdate(
-    'compass_meetings',
-    {
-      sentiment: {
-        label: output.sentiment.label,
-        confidence: output.sentiment.confidence,
-        bullets: output.key_topics,
-        highlights: [],
-        topics: output.key_topics,
-        model: 'master-marketer',
-        version: 1,
-        generated_at: new Date().toISOString(),
-      },
-      raw_metadata: {
-        master_marketer: {
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        },
-      },
-    },
-    { meeting_id: meetingId }
-  );
-
-  // 2. Build note content from the AI output
-  const contentParts: string[] = [];
-  if (output.summary) {
-    contentParts.push(`## Summary\n\n${output.summary}`);
-  }
-  if (output.decisions && output.decisions.length > 0) {
-    contentParts.push(`## Decisions\n\n${output.decisions.map((d) => `- ${d}`).join('\n')}`);
-  }
-  if (output.key_topics && output.key_topics.length > 0) {
-    contentParts.push(`## Key Topics\n\n${output.key_topics.map((t) => `- ${t}`).join('\n')}`);
-  }
-
-  const actionItems = (output.action_items || []).map((item) => ({
-    text: item,
-    completed: false,
-  }));
-
-  // Calculate week number from the meeting date
-  const meetingDate = new Date(date);
-  const startOfYear = new Date(meetingDate.getFullYear(), 0, 1);
-  const dayOfYear = Math.floor(
-    (meetingDate.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000)
-  );
-  const weekNumber = Math.ceil((dayOfYear + startOfYear.getDay() + 1) / 7);
-
-  const noteContent = contentParts.join('\n\n');
-
-  const insertedNotes = await edgeFnInsert<{ note_id: string }[]>('compass_notes', {
-    contract_id: contractId,
-    meeting_id: meetingId,
-    note_type: 'meeting',
-    title: `Meeting Notes: ${title}`,
-    content_raw: noteContent,
-    note_date: date,
-    week_number: weekNumber,
-    year: meetingDate.getFullYear(),
-    status: 'published',
-    action_items: actionItems,
-    is_auto_generated: true,
-  }, { select: 'note_id' });
-
-  // Auto-embed the generated summary note.
-  // The raw transcript is embedded separately under source_type='meeting' at
-  // create/update time — do NOT re-ingest under that source_id here, or the
-  // summary would overwrite the transcript chunks (ingestContent deletes by
-  // source_id before inserting).
-  if (noteContent && process.env.OPENAI_API_KEY && insertedNotes?.[0]) {
-    try {
-      await ingestContent({
-        contract_id: contractId,
-        source_type: 'note',
-        source_id: insertedNotes[0].note_id,
-        title: `Meeting Notes: ${title}`,
-        content: noteContent,
-      });
-    } catch (embedErr) {
-      console.error('[Meetings] Note embedding failed (non-blocking):', embedErr);
-    }
-  }
-}
-
-/**
- * Core background pipeline: submit transcript to Master Marketer, poll for results, write back.
- * Runs as fire-and-forget — errors are logged and written to raw_metadata.
- */
-async function processMeetingInBackground(
-  meetingId: string,
-  contractId: string,
-  transcript: string,
-  title: string,
-  date: string,
-  participants: string[]
-): Promise<void> {
-  try {
-    // Mark as submitted
-    await updateProcessingState(meetingId, {
-      status: 'submitted',
-      submitted_at: new Date().toISOString(),
-    });
-
-    // Submit to Master Marketer
-    const submission: MeetingNotesSubmission = {
-      title,
-      date,
-      participants,
-      transcript,
-      metadata: {
-        source: 'fireflies',
-        meeting_id: meetingId,
-        contract_id: contractId,
-      },
-    };
-
-    const { jobId } = await submitMeetingNotes(submission);
-
-    // Update state with job ID
-    await updateProcessingState(meetingId, {
-      status: 'polling',
-      job_id: jobId,
-      submitted_at: new Date().toISOString(),
-    });
-
-    // Poll until complete
-    const result = await pollUntilComplete(jobId);
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+});
 
-    if (!result.output) {
-      throw new Error('Master Marketer returned completed status but no output');
+// Surface multer errors (size limit, wrong field) as 400s
+function uploadFile(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid upload' });
+      return;
     }
-
-    // Write results back
-    await writeProcessingResults(meetingId, contractId, title, date, result.output);
-
-    console.log(`Meeting ${meetingId} processed successfully (job ${jobId})`);
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    console.error(`Background processing failed for meeting ${meetingId}:`, errorMessage);
-
-    await updateProcessingState(meetingId, {
-      status: 'failed',
-      error: errorMessage,
-      completed_at: new Date().toISOString(),
-    });
-  }
-}
-
-/**
- * Format transcript segments into a plain text string for Master Marketer
- */
-function formatTranscriptText(segments: TranscriptSegment[]): string {
-  return segments
-    .map((s) => (s.speaker ? `${s.speaker}: ${s.text}` : s.text))
-    .join('\n');
+    next();
+  });
 }
 
 // ============================================================================
@@ -502,6 +335,11 @@ router.post(
       .single();
 
     if (error) {
+      // Unique (source, external_id): another request imported it first
+      if (error.code === '23505') {
+        res.status(409).json({ error: 'A meeting with this source and external_id already exists' });
+        return;
+      }
       console.error('Error creating meeting:', error);
       res.status(500).json({ error: 'Failed to create meeting' });
       return;
@@ -530,6 +368,137 @@ router.post(
   }
 );
 
+/**
+ * POST /api/compass/meetings/upload
+ * Create a meeting from an uploaded transcript file (multipart/form-data)
+ * Fields: file (.vtt, .srt, .docx, .txt), contract_id, meeting_date,
+ *         title?, participants? (comma-separated), recording_url?
+ *
+ * Speakers and timestamps are kept as TranscriptSegment[]; participants and
+ * duration_seconds are inferred from the cues unless given. Returns 201 with
+ * the meeting immediately, then processes it like an imported meeting.
+ */
+router.post(
+  '/upload',
+  requireRole('admin', 'team_member'),
+  uploadFile,
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({ error: 'file is required' });
+      return;
+    }
+
+    const { contract_id, meeting_date, title, participants, recording_url }: UploadMeetingTranscriptDTO = req.body;
+
+    if (!contract_id) {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+
+    if (!meeting_date) {
+      res.status(400).json({ error: 'meeting_date is required' });
+      return;
+    }
+
+    const validationErrors = validateMeetingData({ meeting_date, recording_url: recording_url || undefined });
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validationErrors,
+      });
+      return;
+    }
+
+    const fileName = req.file.originalname;
+    const format = transcriptFileFormat(fileName);
+    if (!format) {
+      res.status(400).json({
+        error: `Unsupported file type: ${fileName}. Allowed: ${TRANSCRIPT_FILE_FORMATS.map((f) => `.${f}`).join(', ')}`,
+      });
+      return;
+    }
+
+    let segments: TranscriptSegment[];
+    try {
+      segments = await parseTranscriptFile(format, req.file.buffer);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[Meetings] Failed to parse ${format} transcript ${fileName}:`, message);
+      res.status(400).json({ error: `Could not read ${format.toUpperCase()} file`, details: message });
+      return;
+    }
+
+    if (segments.length === 0) {
+      res.status(400).json({ error: 'No transcript text found in file' });
+      return;
+    }
+
+    // Verify contract exists
+    const { data: contract, error: contractError } = await req.supabase
+      .from('contracts')
+      .select('contract_id')
+      .eq('contract_id', contract_id)
+      .single();
+
+    if (contractError || !contract) {
+      res.status(400).json({ error: 'Invalid contract_id: contract not found' });
+      return;
+    }
+
+    const participantList: string[] = typeof participants === 'string' && participants.trim()
+      ? participants.split(',').map((p: string) => p.trim()).filter(Boolean)
+      : transcriptSpeakers(segments);
+    const meetingTitle: string = title || fileName.replace(/\.[^.]+$/, '');
+    const meetingDate = new Date(meeting_date).toISOString();
+
+    const { data: meeting, error: insertError } = await req.supabase
+      .from('compass_meetings')
+      .insert({
+        contract_id,
+        meeting_date: meetingDate,
+        source: 'manual' as MeetingSource,
+        external_id: null,
+        title: meetingTitle,
+        participants: participantList.length > 0 ? participantList : null,
+        duration_seconds: transcriptDurationSeconds(segments),
+        recording_url: recording_url || null,
+        transcript: segments,
+        raw_metadata: {
+          upload: { file_name: fileName, format, size_bytes: req.file.size },
+          master_marketer: { status: 'pending' },
+        },
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating meeting from upload:', insertError);
+      res.status(500).json({ error: 'Failed to create meeting' });
+      return;
+    }
+
+    res.status(201).json({
+      meeting,
+      processing: { status: 'pending' },
+    });
+
+    startImportedMeetingProcessing(
+      meeting,
+      contract_id,
+      'manual',
+      segments,
+      meetingTitle,
+      meetingDate,
+      participantList
+    );
+  }
+);
+
 /**
  * POST /api/compass/meetings/from-fireflies
  * Create a meeting by fetching transcript from Fireflies API
@@ -626,15 +595,7 @@ router.post(
       return;
     }
 
-    // Map Fireflies sentences to TranscriptSegment[]
-    const transcriptSegments: TranscriptSegment[] = (firefliesData.sentences || []).map(
-      (s) => ({
-        speaker: s.speaker_name,
-        text: s.text,
-        start_time: s.start_time,
-        end_time: s.end_time,
-      })
-    );
+    const transcriptSegments = toTranscriptSegments(firefliesData);
 
     // Insert meeting into compass_meetings
     const { data: meeting, error: insertError } = await req.supabase
@@ -658,6 +619,10 @@ router.post(
       .single();
 
     if (insertError) {
+      if (insertError.code === '23505') {
+        res.status(409).json({ error: 'A meeting with this Fireflies ID already exists' });
+        return;
+      }
       console.error('Error creating meeting from Fireflies:', insertError);
       res.status(500).json({ error: 'Failed to create meeting' });
       return;
@@ -669,36 +634,310 @@ router.post(
       processing: { status: 'pending' },
     });
 
-    const transcriptText = formatTranscriptText(transcriptSegments);
+    startImportedMeetingProcessing(
+      meeting,
+      contract_id,
+      'fireflies',
+      transcriptSegments,
+      firefliesData.title,
+      firefliesData.date,
+      firefliesData.participants || []
+    );
+  }
+);
 
-    // Fire-and-forget: embed the raw transcript so the chat can cite direct quotes.
-    // (Manual-create embeds inline above; this path needs its own because the
-    // response was already sent and MM no longer handles transcript ingestion.)
-    if (transcriptText && process.env.OPENAI_API_KEY) {
-      ingestContent({
-        contract_id,
-        source_type: 'meeting',
-        source_id: meeting.meeting_id,
-        title: firefliesData.title || 'Meeting',
-        content: transcriptText,
-      }).catch((embedErr) => {
-        console.error('[Meetings] Fireflies transcript embedding failed (non-blocking):', embedErr);
+/**
+ * POST /api/compass/meetings/from-zoom
+ * Create a meeting from a Zoom cloud recording's transcript
+ * Body: { contract_id, zoom_url } or { contract_id, zoom_meeting_id }
+ *
+ * A numeric meeting ID resolves to its latest recorded occurrence; pass the
+ * instance UUID to import an earlier one. Deduped on the instance UUID.
+ * Returns 201 with the meeting immediately, then processes it like Fireflies.
+ */
+router.post(
+  '/from-zoom',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { contract_id, zoom_url, zoom_meeting_id } = req.body;
+
+    if (!contract_id) {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+
+    if (!zoom_url && !zoom_meeting_id) {
+      res.status(400).json({ error: 'Either zoom_url or zoom_meeting_id is required' });
+      return;
+    }
+
+    const zoomId = extractZoomMeetingId(String(zoom_meeting_id || zoom_url));
+    if (!zoomId) {
+      res.status(400).json({
+        error: 'Could not extract Zoom meeting ID from URL',
+        details: 'Recording share links do not include the meeting ID. Use the meeting join URL or zoom_meeting_id.',
+      });
+      return;
+    }
+
+    if (!isZoomConfigured()) {
+      res.status(503).json({
+        error: 'Zoom integration not configured',
+        details: 'ZOOM_ACCOUNT_ID, ZOOM_CLIENT_ID and ZOOM_CLIENT_SECRET environment variables are not set. Please use the manual create endpoint and paste the transcript content directly.',
+        extracted_id: zoomId,
+      });
+      return;
+    }
+
+    // Verify contract exists
+    const { data: contract, error: contractError } = await req.supabase
+      .from('contracts')
+      .select('contract_id')
+      .eq('contract_id', contract_id)
+      .single();
+
+    if (contractError || !contract) {
+      res.status(400).json({ error: 'Invalid contract_id: contract not found' });
+      return;
+    }
+
+    // Fetch recording + transcript from Zoom
+    let zoomData;
+    try {
+      zoomData = await fetchRecordingTranscript(zoomId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Zoom API error:', message);
+      res.status(502).json({
+        error: 'Failed to fetch recording from Zoom',
+        details: message,
+      });
+      return;
+    }
+
+    if (!zoomData) {
+      res.status(404).json({
+        error: 'Cloud recording not found in Zoom',
+        zoom_meeting_id: zoomId,
+      });
+      return;
+    }
+
+    if (!zoomData.has_transcript || zoomData.segments.length === 0) {
+      res.status(422).json({
+        error: 'Zoom recording has no transcript',
+        details: 'Audio transcription may still be processing, or is not enabled for this account.',
+        zoom_meeting_id: zoomId,
+      });
+      return;
+    }
+
+    // Check for duplicates. Recurring meetings share a numeric ID, so this
+    // has to wait until the fetch tells us which occurrence it is.
+    const { data: existing } = await req.supabase
+      .from('compass_meetings')
+      .select('meeting_id')
+      .eq('external_id', zoomData.uuid)
+      .eq('source', 'zoom')
+      .single();
+
+    if (existing) {
+      res.status(409).json({
+        error: 'A meeting with this Zoom recording already exists',
+        existing_meeting_id: existing.meeting_id,
       });
+      return;
     }
 
-    // Fire-and-forget: auto-process if Master Marketer is configured
-    if (process.env.MASTER_MARKETER_URL && process.env.MASTER_MARKETER_API_KEY) {
-      processMeetingInBackground(
-        meeting.meeting_id,
+    const { data: meeting, error: insertError } = await req.supabase
+      .from('compass_meetings')
+      .insert({
         contract_id,
-        transcriptText,
-        firefliesData.title || 'Untitled Meeting',
-        firefliesData.date,
-        firefliesData.participants || []
-      ).catch(() => {
-        // Already handled inside processMeetingInBackground
+        meeting_date: zoomData.start_time,
+        source: 'zoom' as MeetingSource,
+        external_id: zoomData.uuid,
+        title: zoomData.topic,
+        participants: zoomData.participants,
+        duration_seconds: zoomData.duration ? Math.round(zoomData.duration * 60) : null,
+        recording_url: zoomData.share_url || null,
+        transcript: zoomData.segments,
+        raw_metadata: {
+          zoom_meeting_id: zoomData.meeting_id,
+          master_marketer: { status: 'pending' },
+        },
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        res.status(409).json({ error: 'A meeting with this Zoom recording already exists' });
+        return;
+      }
+      console.error('Error creating meeting from Zoom:', insertError);
+      res.status(500).json({ error: 'Failed to create meeting' });
+      return;
+    }
+
+    res.status(201).json({
+      meeting,
+      processing: { status: 'pending' },
+    });
+
+    startImportedMeetingProcessing(
+      meeting,
+      contract_id,
+      'zoom',
+      zoomData.segments,
+      zoomData.topic,
+      zoomData.start_time,
+      zoomData.participants
+    );
+  }
+);
+
+/**
+ * POST /api/compass/meetings/from-otter
+ * Create a meeting from an Otter conversation
+ * Body: { contract_id, otter_url } or { contract_id, otter_id }
+ *
+ * Returns 201 with the meeting immediately, then processes it like Fireflies.
+ */
+router.post(
+  '/from-otter',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { contract_id, otter_url, otter_id } = req.body;
+
+    if (!contract_id) {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+
+    if (!otter_url && !otter_id) {
+      res.status(400).json({ error: 'Either otter_url or otter_id is required' });
+      return;
+    }
+
+    const otid = otter_id || extractOtterId(otter_url);
+    if (!otid) {
+      res.status(400).json({ error: 'Could not extract Otter conversation ID from URL' });
+      return;
+    }
+
+    if (!process.env.OTTER_API_KEY) {
+      res.status(503).json({
+        error: 'Otter integration not configured',
+        details: 'OTTER_API_KEY environment variable is not set. Please use the manual create endpoint and paste the transcript content directly.',
+        extracted_id: otid,
+      });
+      return;
+    }
+
+    // Verify contract exists
+    const { data: contract, error: contractError } = await req.supabase
+      .from('contracts')
+      .select('contract_id')
+      .eq('contract_id', contract_id)
+      .single();
+
+    if (contractError || !contract) {
+      res.status(400).json({ error: 'Invalid contract_id: contract not found' });
+      return;
+    }
+
+    // Check for duplicates
+    const { data: existing } = await req.supabase
+      .from('compass_meetings')
+      .select('meeting_id')
+      .eq('external_id', otid)
+      .eq('source', 'otter')
+      .single();
+
+    if (existing) {
+      res.status(409).json({
+        error: 'A meeting with this Otter ID already exists',
+        existing_meeting_id: existing.meeting_id,
+      });
+      return;
+    }
+
+    // Fetch conversation from Otter
+    let otterData;
+    try {
+      otterData = await fetchSpeech(otid);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Otter API error:', message);
+      res.status(502).json({
+        error: 'Failed to fetch transcript from Otter',
+        details: message,
       });
+      return;
+    }
+
+    if (!otterData) {
+      res.status(404).json({
+        error: 'Conversation not found in Otter',
+        otter_id: otid,
+      });
+      return;
+    }
+
+    const { data: meeting, error: insertError } = await req.supabase
+      .from('compass_meetings')
+      .insert({
+        contract_id,
+        meeting_date: otterData.date,
+        source: 'otter' as MeetingSource,
+        external_id: otterData.id,
+        title: otterData.title,
+        participants: otterData.participants,
+        duration_seconds: otterData.duration_seconds || null,
+        recording_url: otterData.url,
+        transcript: otterData.segments,
+        raw_metadata: {
+          otter_summary: otterData.summary || null,
+          master_marketer: { status: 'pending' },
+        },
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        res.status(409).json({ error: 'A meeting with this Otter ID already exists' });
+        return;
+      }
+      console.error('Error creating meeting from Otter:', insertError);
+      res.status(500).json({ error: 'Failed to create meeting' });
+      return;
     }
+
+    res.status(201).json({
+      meeting,
+      processing: { status: 'pending' },
+    });
+
+    startImportedMeetingProcessing(
+      meeting,
+      contract_id,
+      'otter',
+      otterData.segments,
+      otterData.title,
+      otterData.date,
+      otterData.participants
+    );
   }
 );
 
@@ -788,7 +1027,8 @@ router.post(
       transcriptText,
       meeting.title || 'Untitled Meeting',
       meeting.meeting_date,
-      meeting.participants || []
+      meeting.participants || [],
+      meeting.source as MeetingSource
     ).catch(() => {
       // Already handled inside processMeetingInBackground
     });
@@ -866,6 +1106,10 @@ router.put(
       .single();
 
     if (error) {
+      if (error.code === '23505') {
+        res.status(409).json({ error: 'A meeting with this source and external_id already exists' });
+        return;
+      }
       console.error('Error updating meeting:', error);
       res.status(500).json({ error: 'Failed to update meeting' });
       return;
@@ -12,7 +12,15 @@ import {
   NOTE_STATUS_VALUES,
 } from '../../types/notes.js';
 import { ingestContent } from '../../services/rag/ingestion.js';
-import { del } from '../../utils/edge-functions.js';
+import { del, select } from '../../utils/edge-functions.js';
+import { ClickUpClient, findTodosList } from '../../services/clickup/client.js';
+import {
+  normalizeActionItems,
+  matchAssignee,
+  loadClickUpUsers,
+  preserveActionItemLinks,
+  pushActionItems,
+} from '../../services/meetings/action-items.js';
 
 const router = Router();
 
@@ -178,6 +186,141 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   res.json({ note });
 });
 
+/**
+ * GET /api/compass/notes/:id/action-items
+ * Action items on a note for review before pushing to ClickUp, each with the
+ * ClickUp member its assignee matched (if any) and its task once pushed
+ */
+router.get(
+  '/:id/action-items',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    try {
+      const notes = await select<Array<{ note_id: string; contract_id: string; action_items: unknown }>>('compass_notes', {
+        select: 'note_id,contract_id,action_items',
+        filters: { note_id: req.params.id },
+        limit: 1,
+      });
+      if (notes.length === 0) {
+        res.status(404).json({ error: 'Note not found' });
+        return;
+      }
+
+      // Read-only: items without a stored id get a derived one the push
+      // endpoint recomputes, and pushing saves it
+      const { items } = normalizeActionItems(notes[0].action_items, notes[0].note_id);
+
+      const users = items.some((i) => i.assignee && !i.clickup_task_id) ? await loadClickUpUsers() : [];
+
+      res.json({
+        note_id: notes[0].note_id,
+        contract_id: notes[0].contract_id,
+        action_items: items.map((item) => {
+          const match = item.clickup_task_id ? null : matchAssignee(item.assignee, users);
+          return {
+            ...item,
+            suggested_assignee: match ? { clickup_user_id: match.id, name: match.full_name || match.username } : null,
+          };
+        }),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Notes] Action items fetch error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+/**
+ * POST /api/compass/notes/:id/action-items/push
+ * Create ClickUp tasks in the contract's ToDos list for the selected items
+ * Body: PushActionItemsDTO { items: [{ id, name?, assignee_clickup_id?, due? }] }
+ */
+router.post(
+  '/:id/action-items/push',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const selections = req.body?.items;
+    if (!Array.isArray(selections) || selections.length === 0 ||
+        !selections.every((s) => s && typeof s.id === 'string')) {
+      res.status(400).json({ error: 'items must be a non-empty array of { id }' });
+      return;
+    }
+
+    const token = process.env.CLICKUP_API_TOKEN;
+    if (!token) {
+      res.status(503).json({
+        error: 'ClickUp integration not configured',
+        details: 'CLICKUP_API_TOKEN environment variable is not set',
+      });
+      return;
+    }
+
+    try {
+      const notes = await select<Array<{ note_id: string; contract_id: string; title: string; note_date: string; action_items: unknown }>>('compass_notes', {
+        select: 'note_id,contract_id,title,note_date,action_items',
+        filters: { note_id: req.params.id },
+        limit: 1,
+      });
+      const note = notes[0];
+      if (!note) {
+        res.status(404).json({ error: 'Note not found' });
+        return;
+      }
+
+      const contracts = await select<Array<{ contract_id: string; contract_name: string; clickup_folder_id: string | null; account_manager: string | null }>>('contracts', {
+        select: 'contract_id,contract_name,clickup_folder_id,account_manager',
+        filters: { contract_id: note.contract_id },
+        limit: 1,
+      });
+      const contract = contracts[0];
+      if (!contract?.clickup_folder_id) {
+        res.status(422).json({ error: 'Contract has no ClickUp folder configured' });
+        return;
+      }
+
+      const client = new ClickUpClient(token);
+      const list = await findTodosList(client, contract.clickup_folder_id);
+      if (!list) {
+        res.status(422).json({
+          error: 'No ToDos list found in the contract\'s ClickUp folder',
+          details: 'Looked for a list named "ToDos" / "To Dos" / "To-Dos".',
+        });
+        return;
+      }
+
+      const results = await pushActionItems({
+        note,
+        contract,
+        client,
+        listId: list.id,
+        selections,
+        userId: req.user.user_id,
+      });
+
+      res.json({
+        list_id: list.id,
+        created: results.filter((r) => r.outcome === 'created').length,
+        results,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Notes] Action items push error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
 /**
  * POST /api/compass/notes
  * Create a new note
@@ -334,7 +477,7 @@ router.put(
     // Check if note exists
     const { data: existingNote, error: fetchError } = await req.supabase
       .from('compass_notes')
-      .select('note_id')
+      .select('note_id, action_items')
       .eq('note_id', id)
       .single();
 
@@ -358,7 +501,11 @@ router.put(
     if (updateData.week_number !== undefined) updateFields.week_number = updateData.week_number;
     if (updateData.year !== undefined) updateFields.year = updateData.year;
     if (updateData.status !== undefined) updateFields.status = updateData.status;
-    if (updateData.action_items !== undefined) updateFields.action_items = updateData.action_items;
+    if (updateData.action_items !== undefined) {
+      updateFields.action_items = updateData.action_items === null
+        ? null
+        : preserveActionItemLinks(updateData.action_items, existingNote.action_items, id);
+    }
 
     if (Object.keys(updateFields).length === 0) {
       res.status(400).json({ error: 'No fields to update' });
@@ -12,6 +12,7 @@ import type {
   CompassReportListItem,
 } from '../../types/client-reports.js';
 import { insert, update, select, del } from '../../utils/edge-functions.js';
+import { isValidTimeOfDay, isValidTimeZone } from '../../utils/scheduling.js';
 
 const router = Router();
 
@@ -201,6 +202,22 @@ router.put(
       return;
     }
 
+    if (updates.day_of_month !== undefined && updates.day_of_month !== null &&
+        (updates.day_of_month < 1 || updates.day_of_month > 31)) {
+      res.status(400).json({ error: 'day_of_month must be 1-31' });
+      return;
+    }
+
+    if (updates.send_time !== undefined && !isValidTimeOfDay(updates.send_time)) {
+      res.status(400).json({ error: 'send_time must be HH:MM or HH:MM:SS' });
+      return;
+    }
+
+    if (updates.timezone !== undefined && !isValidTimeZone(updates.timezone)) {
+      res.status(400).json({ error: `timezone must be an IANA timezone (e.g. America/New_York), got "${updates.timezone}"` });
+      return;
+    }
+
     // Verify config exists
     const { data: existing, error: fetchError } = await req.supabase
       .from('compass_report_configs')
@@ -386,7 +403,7 @@ router.get(
       const { data, error, count } = await req.supabase
         .from('compass_reports')
         .select(
-          'report_id, contract_id, report_type, period_start, period_end, subject, recipients, send_status, sent_at, created_at',
+          'report_id, contract_id, report_type, period_start, period_end, subject, recipients, send_status, sent_at, delivery_status, bounce_reason, first_opened_at, open_count, created_at',
           { count: 'exact' }
         )
         .eq('contract_id', contract_id)
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { ClickUpCronSyncService } from '../services/clickup/cron-sync.js';
 import { ProcessLibrarySyncService } from '../services/clickup/process-library-sync.js';
 import { QuickBooksCronSyncService } from '../services/quickbooks/cron-sync.js';
+import { HubSpotCronSyncService } from '../services/hubspot/cron-sync.js';
 import { ManagementReportService } from '../services/reports/management-report.js';
 import { ClientStatusReportService } from '../services/reports/client-status-report.js';
 import { backfillEmbeddings } from '../services/rag/backfill.js';
@@ -9,6 +10,15 @@ import { processScheduledNotes } from '../services/strategy-notes/scheduler.js';
 import { recoverStuckDeliverables, diagnoseDeliverables, recoverDeliverable } from '../services/deliverable-generation/recover.js';
 import { syncConfig } from '../config/sync-config.js';
 import { backfillServiceCategories } from '../services/clickup/service-category.js';
+import { ClickUpWebhookService } from '../services/clickup/webhooks.js';
+import { runContractLifecycle } from '../services/contracts/lifecycle.js';
+import { runHealthScoring } from '../services/contracts/health.js';
+import { runChurnRiskDetection } from '../services/contracts/churn-risk.js';
+import { postArAgingDigest } from '../services/finance/ar-aging.js';
+import { runFirefliesImport } from '../services/meetings/auto-import.js';
+import { syncActionItemCompletion } from '../services/meetings/action-items.js';
+import { postActionItemDigest } from '../services/meetings/action-item-tracker.js';
+import { isValidReportType, REPORT_TYPE_VALUES } from '../types/reports.js';
 
 const router = Router();
 
@@ -95,6 +105,14 @@ router.post('/clickup-sync', verifyCronSecret, async (req: Request, res: Respons
     const syncService = new ClickUpCronSyncService();
     const results = await syncService.runSync({ mode: mode as 'incremental' | 'full' });
 
+    // Catch action items whose ClickUp task closed without a webhook reaching us
+    let actionItemsCompleted = 0;
+    try {
+      actionItemsCompleted = await syncActionItemCompletion();
+    } catch (err) {
+      console.error('[Cron] Action item completion sync failed:', err);
+    }
+
     const duration = Date.now() - startTime;
     console.log(`[Cron] ClickUp sync completed in ${duration}ms`);
     console.log(`[Cron] Results: ${results.tasksProcessed} tasks, ${results.foldersProcessed} folders, ${results.usersProcessed} users`);
@@ -112,7 +130,9 @@ router.post('/clickup-sync', verifyCronSecret, async (req: Request, res: Respons
         tasksProcessed: results.tasksProcessed,
         timeEntriesProcessed: results.timeEntriesProcessed,
         usersProcessed: results.usersProcessed,
-        invoiceTasksProcessed: results.invoiceTasksProcessed
+        invoiceTasksProcessed: results.invoiceTasksProcessed,
+        statusChangesRecorded: results.statusChangesRecorded,
+        actionItemsCompleted
       },
       errors: results.errors.length > 0 ? results.errors : undefined
     });
@@ -179,7 +199,8 @@ router.post('/clickup-full-sync', verifyCronSecret, async (req: Request, res: Re
         tasksProcessed: results.tasksProcessed,
         timeEntriesProcessed: results.timeEntriesProcessed,
         usersProcessed: results.usersProcessed,
-        invoiceTasksProcessed: results.invoiceTasksProcessed
+        invoiceTasksProcessed: results.invoiceTasksProcessed,
+        statusChangesRecorded: results.statusChangesRecorded
       },
       errors: results.errors.length > 0 ? results.errors : undefined
     });
@@ -322,16 +343,108 @@ router.post('/quickbooks-full-sync', verifyCronSecret, async (req: Request, res:
   }
 });
 
+// POST /api/cron/hubspot-sync
+// Triggered by Render Cron Job for HubSpot company/deal sync
+//
+// Render Cron Job Configuration:
+// - Name: hubspot-incremental-sync
+// - Schedule: 0 * * * 1-5 (hourly on weekdays)
+// - Command: curl -X POST "https://your-app.onrender.com/api/cron/hubspot-sync?secret=$CRON_SECRET"
+//
+// Full resync (re-reads every company and closed-won deal):
+// - Schedule: 0 23 * * 0 (Sunday 11 PM UTC)
+// - Command: curl -X POST "https://your-app.onrender.com/api/cron/hubspot-sync?mode=full&secret=$CRON_SECRET"
+router.post('/hubspot-sync', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  console.log('[Cron] Starting HubSpot sync...');
+
+  try {
+    if (!syncConfig.hubspot.apiKey) {
+      res.status(503).json({
+        error: 'HubSpot integration not configured',
+        details: 'HUBSPOT_API_KEY environment variable is not set'
+      });
+      return;
+    }
+
+    if (!process.env.BACKEND_API_KEY) {
+      console.error('[Cron] BACKEND_API_KEY not configured');
+      res.status(503).json({
+        error: 'Database proxy not configured',
+        details: 'BACKEND_API_KEY environment variable is not set'
+      });
+      return;
+    }
+
+    const mode = (req.query.mode as string) || (req.body?.mode as string) || 'incremental';
+    const validModes = ['incremental', 'full'];
+    if (!validModes.includes(mode)) {
+      res.status(400).json({ error: 'Invalid mode. Must be "incremental" or "full"' });
+      return;
+    }
+
+    const syncService = new HubSpotCronSyncService();
+    const results = await syncService.runSync({ mode: mode as 'incremental' | 'full' });
+
+    const duration = Date.now() - startTime;
+    console.log(`[Cron] HubSpot sync completed in ${duration}ms`);
+    console.log(`[Cron] Results: ${results.companiesProcessed} companies, ${results.dealsLinked} deals linked`);
+
+    res.json({
+      success: true,
+      mode,
+      syncId: results.syncId,
+      status: results.status,
+      duration: `${duration}ms`,
+      stats: {
+        companiesProcessed: results.companiesProcessed,
+        accountsCreated: results.accountsCreated,
+        accountsUpdated: results.accountsUpdated,
+        dealsProcessed: results.dealsProcessed,
+        dealsLinked: results.dealsLinked,
+        dealsAlreadyLinked: results.dealsAlreadyLinked,
+        dealsUnmatched: results.dealsUnmatched
+      },
+      errors: results.errors.length > 0 ? results.errors : undefined
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(`[Cron] HubSpot sync failed after ${duration}ms:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: message,
+      duration: `${duration}ms`
+    });
+  }
+});
+
 // POST /api/cron/generate-management-report
-// Triggered by Render Cron Job for weekly management report
+// Triggered by Render Cron Jobs for the weekly, monthly and quarterly management reports
+// Query: ?type=weekly|monthly|quarterly (default weekly)
 //
 // Render Cron Job Configuration:
 // - Name: management-report-weekly
 // - Schedule: 0 12 * * 1 (Monday 12:00 UTC / 7 AM ET)
 // - Command: curl -X POST "https://your-app.onrender.com/api/cron/generate-management-report?secret=$CRON_SECRET"
+// - Name: management-report-monthly
+// - Schedule: 0 12 1 * * (1st of the month 12:00 UTC)
+// - Command: curl -X POST "https://your-app.onrender.com/api/cron/generate-management-report?type=monthly&secret=$CRON_SECRET"
+// - Name: management-report-quarterly
+// - Schedule: 0 12 1 1,4,7,10 * (1st of each quarter 12:00 UTC)
+// - Command: curl -X POST "https://your-app.onrender.com/api/cron/generate-management-report?type=quarterly&secret=$CRON_SECRET"
 router.post('/generate-management-report', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
   const startTime = Date.now();
-  console.log('[Cron] Starting management report generation...');
+  const reportType = (req.query.type as string) || 'weekly';
+
+  if (!isValidReportType(reportType)) {
+    res.status(400).json({ error: `type must be one of: ${REPORT_TYPE_VALUES.join(', ')}` });
+    return;
+  }
+
+  console.log(`[Cron] Starting ${reportType} management report generation...`);
 
   try {
     if (!process.env.BACKEND_API_KEY) {
@@ -344,7 +457,7 @@ router.post('/generate-management-report', verifyCronSecret, async (req: Request
     }
 
     const service = new ManagementReportService();
-    const result = await service.generateReport({ triggeredBy: 'scheduled' });
+    const result = await service.generateReport({ triggeredBy: 'scheduled', reportType });
 
     const duration = Date.now() - startTime;
     console.log(`[Cron] Management report completed in ${duration}ms`);
@@ -353,6 +466,7 @@ router.post('/generate-management-report', verifyCronSecret, async (req: Request
       success: true,
       report_id: result.reportId,
       summary: result.summary,
+      timings: result.timings,
       duration: `${duration}ms`
     });
   } catch (error) {
@@ -775,6 +889,321 @@ router.post('/clickup-archived-sync', verifyCronSecret, async (req: Request, res
   }
 });
 
+// POST /api/cron/clickup-webhooks
+// Triggered by Render Cron Job
+//
+// Registers a ClickUp webhook for every active contract folder, re-enables
+// webhooks ClickUp has marked failing/suspended, and removes webhooks for
+// folders that are no longer synced. The clickup-sync job keeps running
+// alongside as the safety net for missed deliveries.
+//
+// ?dryRun=1 reports what would change and writes nothing.
+//
+// Render Cron Job Configuration:
+// - Name: clickup-webhooks
+// - Schedule: 10 * * * * (hourly at :10)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/clickup-webhooks?secret=$CRON_SECRET"
+router.post('/clickup-webhooks', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    if (!syncConfig.clickup.apiToken) {
+      res.status(503).json({ error: 'ClickUp integration not configured' });
+      return;
+    }
+    if (!process.env.BACKEND_API_KEY) {
+      res.status(503).json({ error: 'Database proxy not configured' });
+      return;
+    }
+    if (!process.env.BACKEND_URL) {
+      res.status(503).json({
+        error: 'Webhook endpoint not configured',
+        details: 'BACKEND_URL environment variable is not set'
+      });
+      return;
+    }
+
+    const service = new ClickUpWebhookService();
+    const result = await service.registerFolderWebhooks({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] ClickUp webhooks ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.folders} folders, ` +
+      `${result.created} created, ${result.reactivated} re-enabled, ${result.removed} removed, ` +
+      `${result.healthy} healthy, ${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] ClickUp webhook registration failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/contract-lifecycle
+// Triggered by Render Cron Job
+//
+// Applies future-dated contract amendments that have become effective, rolls
+// auto-renewing contracts into their next term once the renewal date passes,
+// marks non-renewing contracts inactive after their end date, and posts Slack
+// alerts as notice deadlines / end dates approach (lead times from
+// CONTRACT_ALERT_LEAD_DAYS). Changes and alerts are logged to contract_events.
+//
+// ?dryRun=1 reports what would change and writes/posts nothing.
+//
+// Render Cron Job Configuration:
+// - Name: contract-lifecycle
+// - Schedule: 0 13 * * * (daily at 13:00 UTC)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/contract-lifecycle?secret=$CRON_SECRET"
+router.post('/contract-lifecycle', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    const result = await runContractLifecycle({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] Contract lifecycle ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.contracts} contracts, ` +
+      `${result.amendments_applied} amendments applied, ${result.renewed} renewed, ${result.expired} expired, ${result.alerts_sent} alerts, ` +
+      `${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Contract lifecycle failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/contract-health
+// Triggered by Render Cron Job
+//
+// Scores every active, non-hosting contract (points burden trend, meeting
+// sentiment and recency, overdue invoices, blocked tasks; weights from
+// CONTRACT_HEALTH_WEIGHTS) and stores today's score with its breakdown in
+// contract_health_scores. Re-running on the same day overwrites that day.
+//
+// ?dryRun=1 computes the scores without storing them.
+//
+// Render Cron Job Configuration:
+// - Name: contract-health
+// - Schedule: 0 11 * * * (daily at 11:00 UTC, before the Monday management report)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/contract-health?secret=$CRON_SECRET"
+router.post('/contract-health', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    const result = await runHealthScoring({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] Contract health ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.contracts} contracts, ` +
+      `${result.by_status.healthy} healthy, ${result.by_status.at_risk} at risk, ${result.by_status.critical} critical, ` +
+      `${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Contract health failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/churn-risk
+// Triggered by Render Cron Job
+//
+// Scans active contracts for churn-risk signals (sustained negative meeting
+// sentiment, negative points balance, no deliveries for N weeks, overdue
+// invoices, notice period opening) and sends each account manager one Slack
+// DM covering their new or changed signals (fallback: CHURN_RISK_SLACK_CHANNEL).
+// Signal state is kept in contract_risk_signals so unchanged signals aren't repeated.
+//
+// ?dryRun=1 reports the signals and alerts without writing or posting.
+//
+// Render Cron Job Configuration:
+// - Name: churn-risk
+// - Schedule: 30 12 * * 1-5 (weekdays at 12:30 UTC)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/churn-risk?secret=$CRON_SECRET"
+router.post('/churn-risk', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    const result = await runChurnRiskDetection({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] Churn risk ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.contracts} contracts, ` +
+      `${result.signals_active} active signals (${result.signals_new_or_changed} new/changed, ${result.signals_resolved} resolved), ` +
+      `${result.alerts_sent} alerts, ${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Churn risk failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/fireflies-import
+// Triggered by Render Cron Job
+//
+// Lists Fireflies transcripts from the last MEETING_IMPORT_LOOKBACK_DAYS and
+// matches each to a contract by meeting_import_rules (calendar tag, participant
+// email domain, title keyword). Matches become compass_meetings and go through
+// Master Marketer processing; unmatched or ambiguous ones land in
+// meeting_import_queue for review. Transcripts already imported or queued are skipped.
+//
+// ?dryRun=1 reports what would be imported or queued without writing.
+//
+// Render Cron Job Configuration:
+// - Name: fireflies-import
+// - Schedule: 0 * * * 1-5 (hourly on weekdays)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/fireflies-import?secret=$CRON_SECRET"
+router.post('/fireflies-import', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  if (!process.env.FIREFLIES_API_KEY) {
+    console.error('[Cron] FIREFLIES_API_KEY not configured');
+    res.status(503).json({
+      error: 'Fireflies integration not configured',
+      details: 'FIREFLIES_API_KEY environment variable is not set'
+    });
+    return;
+  }
+
+  try {
+    const result = await runFirefliesImport({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] Fireflies import ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.listed} listed, ` +
+      `${result.imported} imported, ${result.queued} queued, ${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Fireflies import failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/action-item-digest
+// Triggered by Render Cron Job
+//
+// DMs each team member their open and overdue meeting action items across all
+// accounts (assignee from the ClickUp task, else matched by name); items with no
+// matched assignee go to the contract's account manager. Undeliverable digests
+// go to ACTION_ITEMS_SLACK_CHANNEL.
+//
+// ?dryRun=1 builds the digests without posting.
+//
+// Render Cron Job Configuration:
+// - Name: action-item-digest
+// - Schedule: 0 13 * * 1 (Monday 13:00 UTC / 8 AM ET)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/action-item-digest?secret=$CRON_SECRET"
+router.post('/action-item-digest', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    const result = await postActionItemDigest({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Cron] Action item digest ${dryRun ? '(DRY RUN) ' : ''}complete: ${result.open_items} open, ` +
+      `${result.overdue_items} overdue, ${result.sent}/${result.recipients} sent, ${result.errors.length} errors (${durationMs}ms)`
+    );
+
+    res.json({ success: true, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] Action item digest failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/cron/ar-aging-digest
+// Triggered by Render Cron Job
+//
+// Posts the AR aging summary (bucket totals, per-realm totals, most overdue
+// contracts with their account managers) to FINANCE_SLACK_CHANNEL. Optional:
+// with no channel configured the digest is built but not posted.
+//
+// ?dryRun=1 returns the digest text without posting.
+//
+// Render Cron Job Configuration:
+// - Name: ar-aging-digest
+// - Schedule: 0 13 * * 1 (Monday 13:00 UTC / 8 AM ET, after the morning QuickBooks sync)
+// - Command: curl -fsS -X POST "https://your-app.onrender.com/api/cron/ar-aging-digest?secret=$CRON_SECRET"
+router.post('/ar-aging-digest', verifyCronSecret, async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+
+  try {
+    const result = await postArAgingDigest({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    if (!result.channel) {
+      console.warn('[Cron] AR aging digest: FINANCE_SLACK_CHANNEL not configured, not posted');
+    }
+    console.log(
+      `[Cron] AR aging digest ${dryRun ? '(DRY RUN) ' : ''}${result.posted ? `posted to ${result.channel}` : 'not posted'}: ` +
+      `${result.totals.invoice_count} open invoices, ${result.totals.total} outstanding (${durationMs}ms)`
+    );
+
+    res.json({ success: true, dry_run: dryRun, ...result, duration_ms: durationMs, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Cron] AR aging digest failed:', error);
+    res.status(500).json({
+      success: false,
+      dry_run: dryRun,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // POST /api/cron/recover-deliverables
 // Triggered by Render Cron Job
 //
@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { computeCycleTime } from '../../services/analytics/cycle-time.js';
+
+const router = Router();
+
+// GET /api/pulse/analytics/cycle-time?contract_id=
+// Time-in-status, lead time (not_started -> delivered) and blocked share,
+// for the whole contract and per list type. Built from pulse_task_status_history.
+router.get(
+  '/cycle-time',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { contract_id } = req.query;
+    if (!contract_id || typeof contract_id !== 'string') {
+      res.status(400).json({ error: 'contract_id query parameter is required' });
+      return;
+    }
+
+    try {
+      const { data: contract, error: contractError } = await req.supabase
+        .from('contracts')
+        .select('contract_id, contract_name')
+        .eq('contract_id', contract_id)
+        .maybeSingle();
+
+      if (contractError) {
+        console.error('[Analytics] Contract lookup error:', contractError);
+        res.status(500).json({ error: contractError.message });
+        return;
+      }
+
+      if (!contract) {
+        res.status(404).json({ error: 'Contract not found' });
+        return;
+      }
+
+      const report = await computeCycleTime(req.supabase, contract_id);
+
+      res.json({
+        contract_name: contract.contract_name,
+        ...report,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Analytics] Cycle-time error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
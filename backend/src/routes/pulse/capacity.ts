@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { computeCapacity } from '../../services/analytics/capacity.js';
+
+const router = Router();
+
+// GET /api/pulse/capacity?team_manager_id=&weeks=4&past_weeks=4
+// Per person and week: hours logged vs available (past weeks) and hours/points
+// committed from open tasks by due date (this week onwards), with overload
+// warnings. team_manager_id limits the people to those working on that
+// manager's active contracts (their whole workload is still counted).
+router.get(
+  '/',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { team_manager_id, weeks, past_weeks } = req.query;
+    const parsedWeeks = typeof weeks === 'string' ? parseInt(weeks, 10) : undefined;
+    const parsedPastWeeks = typeof past_weeks === 'string' ? parseInt(past_weeks, 10) : undefined;
+
+    if (parsedWeeks !== undefined && (!Number.isFinite(parsedWeeks) || parsedWeeks < 1)) {
+      res.status(400).json({ error: 'weeks must be a positive integer' });
+      return;
+    }
+    if (parsedPastWeeks !== undefined && (!Number.isFinite(parsedPastWeeks) || parsedPastWeeks < 0)) {
+      res.status(400).json({ error: 'past_weeks must be a non-negative integer' });
+      return;
+    }
+
+    try {
+      const report = await computeCapacity({
+        teamManagerId: typeof team_manager_id === 'string' && team_manager_id ? team_manager_id : undefined,
+        weeks: parsedWeeks,
+        pastWeeks: parsedPastWeeks,
+      });
+
+      res.json(report);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Capacity] Error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { upsert } from '../../utils/edge-functions.js';
+import { computeContractHealth, getContractHealthHistory } from '../../services/contracts/health.js';
+import type { ContractHealthScore } from '../../types/contract-health.js';
+
+const router = Router();
+
+// GET /api/pulse/contracts/:id/health?days=90&refresh=1
+// Current composite health score with its component breakdown, plus the
+// stored daily history. Today's score is computed (and stored) on demand if
+// the daily run hasn't produced it yet, or when refresh=1.
+router.get(
+  '/:id/health',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const contractId = req.params.id;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 365);
+    const refresh = req.query.refresh === '1' || req.query.refresh === 'true';
+
+    try {
+      const { data: contract, error: contractError } = await req.supabase
+        .from('contracts')
+        .select('contract_id, contract_name, contract_status')
+        .eq('contract_id', contractId)
+        .maybeSingle();
+
+      if (contractError) {
+        console.error('[Contract Health] Contract lookup error:', contractError);
+        res.status(500).json({ error: contractError.message });
+        return;
+      }
+
+      if (!contract) {
+        res.status(404).json({ error: 'Contract not found' });
+        return;
+      }
+
+      let history = await getContractHealthHistory(contractId, days);
+      const today = new Date().toISOString().slice(0, 10);
+
+      if (refresh || history[0]?.score_date !== today) {
+        const scored = (await computeContractHealth([contractId])).get(contractId);
+        if (scored) {
+          const rows = await upsert<ContractHealthScore[]>('contract_health_scores', scored, {
+            onConflict: 'contract_id,score_date',
+            select: '*',
+          });
+          const stored = rows?.[0] ?? ({ ...scored } as ContractHealthScore);
+          history = [stored, ...history.filter((h) => h.score_date !== today)];
+        }
+      }
+
+      res.json({
+        contract_id: contract.contract_id,
+        contract_name: contract.contract_name,
+        contract_status: contract.contract_status,
+        current: history[0] ?? null,
+        history: history.map((h) => ({ score_date: h.score_date, score: h.score, status: h.status })),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Health] Error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
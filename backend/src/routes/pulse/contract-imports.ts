@@ -0,0 +1,364 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { requireRole } from '../../middleware/auth.js';
+import { select, insert, update, del } from '../../utils/edge-functions.js';
+import { parseCsv, parseXlsx, ParsedSheet } from '../../utils/spreadsheet.js';
+import {
+  MAX_IMPORT_ROWS,
+  buildImportPreview,
+  getImportJob,
+  resolveColumnMapping,
+  startImportCommit,
+} from '../../services/contracts/import.js';
+import type { ContractImportMapping, ImportColumnMapping } from '../../types/contract-imports.js';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+});
+
+// Surface multer errors (size limit, wrong field) as 400s
+function uploadFile(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid upload' });
+      return;
+    }
+    next();
+  });
+}
+
+function isColumnMapping(value: unknown): value is ImportColumnMapping {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value as Record<string, unknown>).every((v) => typeof v === 'string');
+}
+
+// ============================================================================
+// Column-mapping profiles
+// ============================================================================
+
+// GET /api/contracts/import/mappings
+router.get(
+  '/mappings',
+  requireRole('admin', 'team_member'),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const mappings = await select<ContractImportMapping[]>('contract_import_mappings', {
+        order: [{ column: 'name', ascending: true }],
+      });
+      res.json({ mappings: mappings || [] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] List mappings error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/contracts/import/mappings
+// Body: { name, description?, mapping: { "Source Column": "contract_field" } }
+router.post(
+  '/mappings',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { name, description, mapping } = req.body;
+
+    if (!name || typeof name !== 'string') {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+    if (!isColumnMapping(mapping)) {
+      res.status(400).json({ error: 'mapping must be an object of column name -> contract field' });
+      return;
+    }
+
+    const { invalidTargets } = resolveColumnMapping(Object.keys(mapping), mapping);
+    if (invalidTargets.length > 0) {
+      res.status(400).json({ error: 'Unknown target fields', details: invalidTargets });
+      return;
+    }
+
+    try {
+      const rows = await insert<ContractImportMapping[]>('contract_import_mappings', {
+        name,
+        description: description || null,
+        mapping,
+        created_by: req.user.user_id,
+      }, { select: '*' });
+      res.status(201).json({ mapping: rows[0] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Create mapping error:', err);
+      res.status(message.includes('duplicate') ? 409 : 500).json({ error: message });
+    }
+  }
+);
+
+// PUT /api/contracts/import/mappings/:id
+router.put(
+  '/mappings/:id',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    const { name, description, mapping } = req.body;
+    const updates: Record<string, unknown> = {};
+
+    if (name !== undefined) {
+      if (!name || typeof name !== 'string') {
+        res.status(400).json({ error: 'name must be a non-empty string' });
+        return;
+      }
+      updates.name = name;
+    }
+    if (description !== undefined) updates.description = description || null;
+    if (mapping !== undefined) {
+      if (!isColumnMapping(mapping)) {
+        res.status(400).json({ error: 'mapping must be an object of column name -> contract field' });
+        return;
+      }
+      const { invalidTargets } = resolveColumnMapping(Object.keys(mapping), mapping);
+      if (invalidTargets.length > 0) {
+        res.status(400).json({ error: 'Unknown target fields', details: invalidTargets });
+        return;
+      }
+      updates.mapping = mapping;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      res.status(400).json({ error: 'Nothing to update' });
+      return;
+    }
+
+    try {
+      const rows = await update<ContractImportMapping[]>(
+        'contract_import_mappings',
+        updates,
+        { mapping_id: req.params.id },
+        { select: '*' }
+      );
+      if (!rows || rows.length === 0) {
+        res.status(404).json({ error: 'Mapping not found' });
+        return;
+      }
+      res.json({ mapping: rows[0] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Update mapping error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// DELETE /api/contracts/import/mappings/:id
+router.delete(
+  '/mappings/:id',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await del('contract_import_mappings', { mapping_id: req.params.id });
+      res.status(204).send();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Delete mapping error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// ============================================================================
+// Upload -> preview -> commit
+// ============================================================================
+
+// POST /api/contracts/import/preview (multipart/form-data)
+// Fields: file (.csv or .xlsx), mapping_id? (saved profile), mapping? (JSON,
+// overrides the profile), save_mapping_as? (save the effective mapping).
+// Validates every row and returns the dry-run diff; nothing is written to
+// contracts until POST /jobs/:jobId/commit.
+router.post(
+  '/preview',
+  requireRole('admin', 'team_member'),
+  uploadFile,
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const file = req.file;
+    if (!file) {
+      res.status(400).json({ error: 'file is required (multipart field "file")' });
+      return;
+    }
+
+    const { mapping_id, mapping: mappingField, save_mapping_as } = req.body as Record<string, string | undefined>;
+
+    try {
+      // 1. Parse
+      const lowerName = file.originalname.toLowerCase();
+      let sheet: ParsedSheet;
+      if (lowerName.endsWith('.xlsx')) {
+        sheet = await parseXlsx(file.buffer);
+      } else if (lowerName.endsWith('.csv') || lowerName.endsWith('.tsv') || lowerName.endsWith('.txt')) {
+        sheet = parseCsv(file.buffer.toString('utf8'));
+      } else {
+        res.status(400).json({ error: 'Unsupported file type. Upload a .csv or .xlsx file' });
+        return;
+      }
+
+      if (sheet.headers.length === 0 || sheet.rows.length === 0) {
+        res.status(400).json({ error: 'File has no data rows' });
+        return;
+      }
+      if (sheet.rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({ error: `File has ${sheet.rows.length} rows; the limit is ${MAX_IMPORT_ROWS}` });
+        return;
+      }
+
+      // 2. Resolve the column mapping: saved profile, then ad-hoc overrides
+      let profile: ImportColumnMapping = {};
+      if (mapping_id) {
+        const rows = await select<ContractImportMapping[]>('contract_import_mappings', {
+          filters: { mapping_id },
+          limit: 1,
+        });
+        if (!rows || rows.length === 0) {
+          res.status(400).json({ error: 'mapping_id not found' });
+          return;
+        }
+        profile = { ...rows[0].mapping };
+      }
+      if (mappingField) {
+        let adHoc: unknown;
+        try {
+          adHoc = JSON.parse(mappingField);
+        } catch {
+          adHoc = null;
+        }
+        if (!isColumnMapping(adHoc)) {
+          res.status(400).json({ error: 'mapping must be a JSON object of column name -> contract field' });
+          return;
+        }
+        profile = { ...profile, ...adHoc };
+      }
+
+      const { mapping, unmapped, invalidTargets } = resolveColumnMapping(sheet.headers, profile);
+      if (invalidTargets.length > 0) {
+        res.status(400).json({ error: 'Unknown target fields', details: invalidTargets });
+        return;
+      }
+      if (Object.keys(mapping).length === 0) {
+        res.status(400).json({ error: 'No columns map to contract fields', unmapped_columns: unmapped });
+        return;
+      }
+
+      let savedMappingId = mapping_id || null;
+      if (save_mapping_as) {
+        const saved = await insert<ContractImportMapping[]>('contract_import_mappings', {
+          name: save_mapping_as,
+          mapping,
+          created_by: req.user.user_id,
+        }, { select: 'mapping_id' });
+        savedMappingId = saved[0].mapping_id;
+      }
+
+      // 3. Validate, match and store the plan
+      const preview = await buildImportPreview({
+        sheet,
+        mapping,
+        unmapped,
+        fileName: file.originalname,
+        mappingId: savedMappingId,
+        userId: req.user.user_id,
+      });
+
+      console.log(
+        `[Contract Import] Preview ${preview.job_id} (${file.originalname}): ${preview.summary.inserts} inserts, ` +
+        `${preview.summary.updates} updates, ${preview.summary.unchanged} unchanged, ${preview.summary.errors} errors`
+      );
+
+      res.json({ ...preview, mapping_id: savedMappingId, mapping });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Preview error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/contracts/import/jobs/:jobId
+// Job status and progress (poll after commit)
+router.get(
+  '/jobs/:jobId',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = await getImportJob(req.params.jobId);
+      if (!job) {
+        res.status(404).json({ error: 'Import job not found' });
+        return;
+      }
+
+      const { plan, ...rest } = job;
+      res.json({
+        job: {
+          ...rest,
+          planned_operations: plan.length,
+          remaining_operations: Math.max(0, plan.length - job.cursor),
+        },
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Get job error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/contracts/import/jobs/:jobId/commit
+// Applies the previewed plan in the background (202). Calling it again on an
+// interrupted or failed job resumes from the last completed batch.
+router.post(
+  '/jobs/:jobId/commit',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    try {
+      const { outcome, job } = await startImportCommit(req.params.jobId, req.user.user_id);
+
+      switch (outcome) {
+        case 'not_found':
+          res.status(404).json({ error: 'Import job not found' });
+          return;
+        case 'already_completed':
+          res.status(409).json({ error: 'Import job already completed', job_id: job!.job_id });
+          return;
+        case 'already_running':
+          res.status(409).json({ error: 'Import job is already committing', job_id: job!.job_id, cursor: job!.cursor });
+          return;
+        default:
+          res.status(202).json({
+            job_id: job!.job_id,
+            status: 'committing',
+            resumed_from: job!.cursor,
+            planned_operations: job!.plan.length,
+          });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Contract Import] Commit error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
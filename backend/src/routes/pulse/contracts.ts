@@ -4,11 +4,36 @@ import {
   CreateContractDTO,
   UpdateContractDTO,
   ContractListItem,
-  ContractWithAccount
+  ContractWithAccount,
+  ContractAmendment,
+  AmendmentType,
+  AMENDMENT_TYPE_VALUES,
+  CONTRACT_STATUS_VALUES,
+  isValidContractStatus
 } from '../../types/contracts';
+import {
+  TRACKED_CONTRACT_FIELDS,
+  diffContractFields,
+  recordContractEvent
+} from '../../services/contracts/events.js';
+import { AMENDABLE_CONTRACT_FIELDS, createAmendment } from '../../services/contracts/amendments.js';
+import {
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  buildContractExport,
+  exportColumnLabels,
+  findUnknownExportColumns
+} from '../../services/contracts/export.js';
+import { toCsv, buildXlsx } from '../../utils/spreadsheet.js';
+import contractImportsRouter from './contract-imports.js';
 
 const router = Router();
 
+// CSV/XLSX import: /import/preview, /import/jobs/*, /import/mappings.
+// Mounted here (before /:id) so it shares this router's auth; a POST to
+// /import itself falls through to the JSON import below.
+router.use('/import', contractImportsRouter);
+
 /**
  * GET /api/contracts
  * List contracts based on user role:
@@ -78,6 +103,7 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
  * - admin/team_member only
  * - Matches existing contracts by external_id or contract_name
  * - Updates if found, inserts if not
+ * - CSV/XLSX files go through /api/contracts/import/preview + commit instead
  */
 router.post('/import', async (req: Request, res: Response): Promise<void> => {
   console.log('[Import] Starting contract import...');
@@ -238,11 +264,98 @@ router.post('/import', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/contracts/export
+ * Contract portfolio export with points balances and QuickBooks totals
+ * - same role filtering as GET /api/contracts
+ * - format: json (default), csv or xlsx
+ * - columns: comma-separated column keys (default set if omitted); unknown
+ *   keys are rejected. GET /api/contracts/export?format=columns lists them.
+ * - status: optional contract_status filter
+ */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'json';
+    if (format === 'columns') {
+      res.json({ columns: EXPORT_COLUMNS, default_columns: DEFAULT_EXPORT_COLUMNS });
+      return;
+    }
+    if (!['json', 'csv', 'xlsx'].includes(format)) {
+      res.status(400).json({ error: 'format must be one of: json, csv, xlsx' });
+      return;
+    }
+
+    const columns = typeof req.query.columns === 'string' && req.query.columns.trim()
+      ? Array.from(new Set(req.query.columns.split(',').map((c) => c.trim()).filter(Boolean)))
+      : DEFAULT_EXPORT_COLUMNS;
+    const unknownColumns = findUnknownExportColumns(columns);
+    if (unknownColumns.length > 0) {
+      res.status(400).json({ error: 'Unknown columns', details: unknownColumns });
+      return;
+    }
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (statusParam && !isValidContractStatus(statusParam)) {
+      res.status(400).json({ error: `Invalid status. Must be one of: ${CONTRACT_STATUS_VALUES.join(', ')}` });
+      return;
+    }
+    const status = statusParam && isValidContractStatus(statusParam) ? statusParam : undefined;
+
+    // Clients only export contracts they have explicit access to
+    let contractIds: string[] | undefined;
+    if (req.user.role === 'client') {
+      const { data: accessList } = await req.supabase
+        .from('user_contract_access')
+        .select('contract_id')
+        .eq('user_id', req.user.user_id);
+
+      contractIds = accessList?.map((a) => a.contract_id) || [];
+    }
+
+    const rows = await buildContractExport({ columns, contractIds, status });
+    const fileBase = `contracts-export-${new Date().toISOString().split('T')[0]}`;
+
+    if (format === 'csv') {
+      const csv = toCsv(
+        exportColumnLabels(columns),
+        rows.map((row) => columns.map((c) => row[c]))
+      );
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.csv"`);
+      res.send(csv);
+      return;
+    }
+
+    if (format === 'xlsx') {
+      const buffer = await buildXlsx([{
+        name: 'Contracts',
+        headers: exportColumnLabels(columns),
+        rows: rows.map((row) => columns.map((c) => row[c])),
+      }]);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.xlsx"`);
+      res.send(buffer);
+      return;
+    }
+
+    res.json({ columns, count: rows.length, contracts: rows });
+  } catch (error) {
+    console.error('Error exporting contracts:', error);
+    res.status(500).json({ error: 'Failed to export contracts' });
+  }
+});
+
 /**
  * GET /api/contracts/:id
  * Get a single contract detail
  * - admin/team_member: Can access any contract
  * - client: Can only access if they have user_contract_access
+ * - includes the amendment (change-order) history
  */
 router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -325,13 +438,76 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.json({ contract });
+    // Amendment / change-order history, newest effective first
+    const { data: amendments, error: amendmentsError } = await req.supabase
+      .from('contract_amendments')
+      .select('amendment_id, effective_date, amendment_type, reason, changes, applied_at, created_by, created_at')
+      .eq('contract_id', id)
+      .order('effective_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (amendmentsError) {
+      console.error('Error fetching contract amendments:', amendmentsError);
+    }
+
+    res.json({ contract, amendments: amendments || [] });
   } catch (error) {
     console.error('Error fetching contract:', error);
     res.status(500).json({ error: 'Failed to fetch contract' });
   }
 });
 
+/**
+ * GET /api/contracts/:id/events
+ * Status and term-date change history for a contract (newest first):
+ * lifecycle renewals/expiries, renewal alerts and user edits
+ * - client: only for contracts they have access to
+ */
+router.get('/:id/events', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (req.user.role === 'client') {
+      const { data: access } = await req.supabase
+        .from('user_contract_access')
+        .select('id')
+        .eq('user_id', req.user.user_id)
+        .eq('contract_id', id)
+        .single();
+
+      if (!access) {
+        res.status(403).json({
+          error: 'Access denied to this contract',
+          code: 'CONTRACT_ACCESS_DENIED'
+        });
+        return;
+      }
+    }
+
+    const { data: events, error } = await req.supabase
+      .from('contract_events')
+      .select('event_id, contract_id, event_type, source, reason, changes, metadata, created_by, created_at')
+      .eq('contract_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching contract events:', error);
+      res.status(500).json({ error: 'Failed to fetch contract events' });
+      return;
+    }
+
+    res.json({ events: events || [] });
+  } catch (error) {
+    console.error('Error fetching contract events:', error);
+    res.status(500).json({ error: 'Failed to fetch contract events' });
+  }
+});
+
 /**
  * POST /api/contracts
  * Create a new contract
@@ -409,6 +585,10 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
  * PUT /api/contracts/:id
  * Update a contract
  * - admin/team_member only
+ * - changes to amount, allotment, rate or term dates are recorded as an
+ *   amendment; optional effective_date (YYYY-MM-DD, default today),
+ *   amendment_type and change_reason describe it. A future effective_date
+ *   leaves those fields unchanged until the lifecycle cron applies them.
  */
 router.put('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -427,10 +607,24 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     }
 
     const { id } = req.params;
-    const updateData: Partial<CreateContractDTO> = req.body;
+    // Amendment metadata — recorded in contract_amendments / contract_events,
+    // not stored on the contract
+    const {
+      change_reason,
+      effective_date,
+      amendment_type,
+      ...updateData
+    }: Partial<CreateContractDTO> & {
+      change_reason?: string;
+      effective_date?: string;
+      amendment_type?: AmendmentType;
+    } = req.body;
 
     // Validate enum values if provided
     const validationErrors = validateContractEnums(updateData);
+    if (amendment_type && !AMENDMENT_TYPE_VALUES.includes(amendment_type)) {
+      validationErrors.push(`Invalid amendment_type: ${amendment_type}. Valid values: ${AMENDMENT_TYPE_VALUES.join(', ')}`);
+    }
     if (validationErrors.length > 0) {
       res.status(400).json({
         error: 'Invalid enum values',
@@ -439,12 +633,42 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { data: contract, error } = await req.supabase
+    const today = new Date().toISOString().split('T')[0];
+    if (effective_date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(effective_date)) {
+      res.status(400).json({ error: 'effective_date must be YYYY-MM-DD' });
+      return;
+    }
+    const effectiveDate = effective_date || today;
+
+    // Current status/term/commercial fields, so edits can be written to the
+    // amendment history and event log
+    const { data: before } = await req.supabase
       .from('contracts')
-      .update(updateData)
+      .select([...new Set([...TRACKED_CONTRACT_FIELDS, ...AMENDABLE_CONTRACT_FIELDS])].join(', '))
       .eq('contract_id', id)
-      .select()
-      .single();
+      .maybeSingle();
+
+    const beforeFields = (before || {}) as unknown as Record<string, unknown>;
+    const amendmentChanges = before
+      ? diffContractFields(beforeFields, updateData as Record<string, unknown>, AMENDABLE_CONTRACT_FIELDS)
+      : {};
+    const hasAmendment = Object.keys(amendmentChanges).length > 0;
+
+    // A future-dated amendment leaves the contract on its current terms until
+    // the lifecycle cron applies it on the effective date
+    const deferAmendment = hasAmendment && effectiveDate > today;
+    const immediateData: Record<string, unknown> = { ...updateData };
+    if (deferAmendment) {
+      for (const field of Object.keys(amendmentChanges)) {
+        delete immediateData[field];
+      }
+    }
+
+    const query = Object.keys(immediateData).length > 0
+      ? req.supabase.from('contracts').update(immediateData).eq('contract_id', id).select().single()
+      : req.supabase.from('contracts').select().eq('contract_id', id).single();
+
+    const { data: contract, error } = await query;
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -456,7 +680,46 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.json({ contract });
+    const reason = typeof change_reason === 'string' ? change_reason : null;
+    let amendment: ContractAmendment | null = null;
+
+    // The update itself succeeded — don't fail the request over history rows
+    if (hasAmendment) {
+      try {
+        amendment = await createAmendment({
+          contract_id: id,
+          effective_date: effectiveDate,
+          amendment_type,
+          reason,
+          changes: amendmentChanges,
+          applied: !deferAmendment,
+          created_by: req.user.user_id
+        });
+      } catch (amendmentError) {
+        console.error('Error recording contract amendment:', amendmentError);
+      }
+    }
+
+    if (before) {
+      const changes = diffContractFields(beforeFields, immediateData);
+      if (Object.keys(changes).length > 0) {
+        try {
+          await recordContractEvent({
+            contract_id: id,
+            event_type: 'updated',
+            source: 'api',
+            reason,
+            changes,
+            metadata: amendment ? { amendment_id: amendment.amendment_id } : null,
+            created_by: req.user.user_id
+          });
+        } catch (eventError) {
+          console.error('Error recording contract event:', eventError);
+        }
+      }
+    }
+
+    res.json({ contract, amendment });
   } catch (error) {
     console.error('Error updating contract:', error);
     res.status(500).json({ error: 'Failed to update contract' });
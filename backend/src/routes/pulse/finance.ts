@@ -0,0 +1,484 @@
+import { Router, Request, Response } from 'express';
+import { requireRole } from '../../middleware/auth.js';
+import { computeArAging } from '../../services/finance/ar-aging.js';
+import {
+  computePointsReconciliation,
+  MAX_RECONCILIATION_MONTHS,
+} from '../../services/finance/points-reconciliation.js';
+import { computeMrrSeries, mrrCsvRows, MAX_MRR_MONTHS } from '../../services/finance/mrr.js';
+import { computeProfitability, MAX_PROFITABILITY_MONTHS } from '../../services/finance/profitability.js';
+import { isValidMonth } from '../../services/finance/months.js';
+import { toCsv } from '../../utils/spreadsheet.js';
+import {
+  assignMemoContract,
+  ignoreMemoDocument,
+  listMemoTriage,
+  removeMemoAssignment,
+} from '../../services/quickbooks/memo-triage.js';
+import { MEMO_DOCUMENT_TYPES, type MemoDocumentType, type TeamCostRate } from '../../types/finance.js';
+import { select, upsert, del } from '../../utils/edge-functions.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// contract_id filters an `in` query on a uuid column, so anything that isn't
+// a uuid has to be rejected here rather than failing in Postgres
+function isValidContractIdQuery(value: unknown): boolean {
+  return value === undefined || value === '' || (typeof value === 'string' && UUID_PATTERN.test(value));
+}
+
+// Optional from/to YYYY-MM query params; the error message, or null when valid
+function monthRangeError(from: unknown, to: unknown): string | null {
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !isValidMonth(value))) {
+      return `${name} must be YYYY-MM`;
+    }
+  }
+  if (typeof from === 'string' && typeof to === 'string' && from > to) {
+    return 'from must not be after to';
+  }
+  return null;
+}
+
+// GET /api/pulse/finance/ar-aging?realm_id=&contract_id=&include_invoices=1
+// Open QuickBooks invoices aged into current / 1-30 / 31-60 / 61-90 / 90+
+// buckets, totalled per contract (with account manager), per realm and overall.
+router.get(
+  '/ar-aging',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { realm_id, contract_id } = req.query;
+    const includeInvoices = req.query.include_invoices === '1' || req.query.include_invoices === 'true';
+    if (!isValidContractIdQuery(contract_id)) {
+      res.status(400).json({ error: 'contract_id must be a UUID' });
+      return;
+    }
+
+    try {
+      const report = await computeArAging({
+        realmId: typeof realm_id === 'string' && realm_id ? realm_id : undefined,
+        contractIds: typeof contract_id === 'string' && contract_id ? [contract_id] : undefined,
+        includeInvoices,
+      });
+
+      res.json(report);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] AR aging error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/pulse/finance/points-reconciliation?from=YYYY-MM&to=YYYY-MM&contract_id=
+// Per contract and month: points billed (invoices + credit memos) vs the
+// allotment in effect and the points delivered, with over/under-billed flags.
+// Also lists invoices/credit memos whose memo didn't parse or matched no contract.
+router.get(
+  '/points-reconciliation',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { from, to, contract_id } = req.query;
+    const rangeError = monthRangeError(from, to);
+    if (rangeError) {
+      res.status(400).json({ error: rangeError });
+      return;
+    }
+    if (!isValidContractIdQuery(contract_id)) {
+      res.status(400).json({ error: 'contract_id must be a UUID' });
+      return;
+    }
+
+    try {
+      const report = await computePointsReconciliation({
+        from: typeof from === 'string' ? from : undefined,
+        to: typeof to === 'string' ? to : undefined,
+        contractIds: typeof contract_id === 'string' && contract_id ? [contract_id] : undefined,
+      });
+
+      res.json(report);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (message.startsWith('Range too long')) {
+        res.status(400).json({ error: message, details: { max_months: MAX_RECONCILIATION_MONTHS } });
+        return;
+      }
+      console.error('[Finance] Points reconciliation error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/pulse/finance/mrr?from=YYYY-MM&to=YYYY-MM&include_contracts=1&format=json|csv&level=month|contract
+// Monthly MRR movement (new / expansion / contraction / churned), ARR, net and
+// gross revenue retention, and recognized revenue from QuickBooks.
+// format=csv downloads one row per month, or per contract-month with level=contract.
+router.get(
+  '/mrr',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { from, to } = req.query;
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    const level = req.query.level === 'contract' ? 'contract' : 'month';
+
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({ error: 'format must be json or csv' });
+      return;
+    }
+    const rangeError = monthRangeError(from, to);
+    if (rangeError) {
+      res.status(400).json({ error: rangeError });
+      return;
+    }
+
+    try {
+      const report = await computeMrrSeries({
+        from: typeof from === 'string' ? from : undefined,
+        to: typeof to === 'string' ? to : undefined,
+        includeContracts:
+          req.query.include_contracts === '1' || req.query.include_contracts === 'true' ||
+          (format === 'csv' && level === 'contract'),
+      });
+
+      if (format === 'csv') {
+        const { headers, rows } = mrrCsvRows(report, level);
+        const fileBase = `mrr-${level === 'contract' ? 'contracts-' : ''}${report.from}-to-${report.to}`;
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.csv"`);
+        res.send(toCsv(headers, rows));
+        return;
+      }
+
+      res.json(report);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (message.startsWith('Range too long')) {
+        res.status(400).json({ error: message, details: { max_months: MAX_MRR_MONTHS } });
+        return;
+      }
+      console.error('[Finance] MRR series error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/pulse/finance/profitability?from=YYYY-MM&to=YYYY-MM&contract_id=
+// Hours, cost (member cost rates), recognized revenue, effective hourly rate,
+// cost per point and margin per contract, month and service category.
+router.get(
+  '/profitability',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { from, to, contract_id } = req.query;
+    const rangeError = monthRangeError(from, to);
+    if (rangeError) {
+      res.status(400).json({ error: rangeError });
+      return;
+    }
+    if (!isValidContractIdQuery(contract_id)) {
+      res.status(400).json({ error: 'contract_id must be a UUID' });
+      return;
+    }
+
+    try {
+      const report = await computeProfitability({
+        from: typeof from === 'string' ? from : undefined,
+        to: typeof to === 'string' ? to : undefined,
+        contractIds: typeof contract_id === 'string' && contract_id ? [contract_id] : undefined,
+      });
+
+      res.json(report);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (message.startsWith('Range too long')) {
+        res.status(400).json({ error: message, details: { max_months: MAX_PROFITABILITY_MONTHS } });
+        return;
+      }
+      console.error('[Finance] Profitability error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/pulse/finance/cost-rates?clickup_user_id=
+// Internal hourly cost rates per ClickUp member, newest first
+router.get(
+  '/cost-rates',
+  requireRole('admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { clickup_user_id } = req.query;
+
+    try {
+      const rates = await select<TeamCostRate[]>('team_cost_rates', {
+        select: '*',
+        filters: typeof clickup_user_id === 'string' && clickup_user_id ? { clickup_user_id } : undefined,
+        order: [
+          { column: 'clickup_user_id', ascending: true },
+          { column: 'effective_from', ascending: false },
+        ],
+      });
+
+      res.json({ rates: rates || [] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] List cost rates error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// PUT /api/pulse/finance/cost-rates
+// Body: { clickup_user_id, hourly_cost, effective_from?: YYYY-MM-DD (default today), note? }
+// One rate per member per effective date; re-sending the same date replaces it
+router.put(
+  '/cost-rates',
+  requireRole('admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { clickup_user_id, hourly_cost, effective_from, note } = req.body;
+
+    if (!clickup_user_id || typeof clickup_user_id !== 'string') {
+      res.status(400).json({ error: 'clickup_user_id is required' });
+      return;
+    }
+    if (typeof hourly_cost !== 'number' || !Number.isFinite(hourly_cost) || hourly_cost < 0) {
+      res.status(400).json({ error: 'hourly_cost must be a non-negative number' });
+      return;
+    }
+    if (effective_from !== undefined && (typeof effective_from !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effective_from))) {
+      res.status(400).json({ error: 'effective_from must be YYYY-MM-DD' });
+      return;
+    }
+
+    try {
+      const rows = await upsert<TeamCostRate[]>('team_cost_rates', {
+        clickup_user_id,
+        hourly_cost,
+        effective_from: effective_from || new Date().toISOString().slice(0, 10),
+        note: typeof note === 'string' ? note : null,
+        created_by: req.user.user_id,
+      }, { onConflict: 'clickup_user_id,effective_from', select: '*' });
+
+      res.json({ rate: rows[0] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Save cost rate error:', err);
+      res.status(message.includes('foreign key') ? 400 : 500).json({ error: message });
+    }
+  }
+);
+
+// DELETE /api/pulse/finance/cost-rates/:id
+router.delete(
+  '/cost-rates/:id',
+  requireRole('admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    try {
+      const deleted = await del<TeamCostRate[]>('team_cost_rates', { rate_id: req.params.id }, { select: 'rate_id' });
+      if (!deleted || deleted.length === 0) {
+        res.status(404).json({ error: 'Cost rate not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Delete cost rate error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// GET /api/pulse/finance/memo-triage?type=invoice|credit_memo&realm_id=&include_ignored=1
+// QuickBooks invoices/credit memos not linked to a contract, with the contract
+// their memo most likely refers to.
+router.get(
+  '/memo-triage',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { type, realm_id } = req.query;
+    if (type !== undefined && !isMemoDocumentType(type)) {
+      res.status(400).json({ error: `type must be one of: ${MEMO_DOCUMENT_TYPES.join(', ')}` });
+      return;
+    }
+
+    try {
+      const items = await listMemoTriage({
+        documentType: type,
+        realmId: typeof realm_id === 'string' && realm_id ? realm_id : undefined,
+        includeIgnored: req.query.include_ignored === '1' || req.query.include_ignored === 'true',
+      });
+
+      res.json({ items, count: items.length });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Memo triage error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/pulse/finance/memo-triage/:type/:id/assign
+// Body: { contract_id, points?, note? }
+// Links the document now and on every future sync
+router.post(
+  '/memo-triage/:type/:id/assign',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { type, id } = req.params;
+    const { contract_id, points, note } = req.body;
+    if (!isMemoDocumentType(type)) {
+      res.status(400).json({ error: `type must be one of: ${MEMO_DOCUMENT_TYPES.join(', ')}` });
+      return;
+    }
+    if (!contract_id || typeof contract_id !== 'string') {
+      res.status(400).json({ error: 'contract_id is required' });
+      return;
+    }
+    if (points !== undefined && points !== null && (typeof points !== 'number' || !Number.isFinite(points))) {
+      res.status(400).json({ error: 'points must be a number' });
+      return;
+    }
+
+    try {
+      const assignment = await assignMemoContract({
+        documentType: type,
+        id,
+        contractId: contract_id,
+        points: points ?? null,
+        note: typeof note === 'string' ? note : null,
+        userId: req.user.user_id,
+      });
+
+      if (!assignment) {
+        res.status(404).json({ error: 'Document or contract not found' });
+        return;
+      }
+      res.json({ assignment });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Memo assign error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// POST /api/pulse/finance/memo-triage/:type/:id/ignore
+// Body: { note? } — not billed against a contract; drops out of the queue
+router.post(
+  '/memo-triage/:type/:id/ignore',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { type, id } = req.params;
+    if (!isMemoDocumentType(type)) {
+      res.status(400).json({ error: `type must be one of: ${MEMO_DOCUMENT_TYPES.join(', ')}` });
+      return;
+    }
+
+    try {
+      const assignment = await ignoreMemoDocument({
+        documentType: type,
+        id,
+        note: typeof req.body?.note === 'string' ? req.body.note : null,
+        userId: req.user.user_id,
+      });
+
+      if (!assignment) {
+        res.status(404).json({ error: 'Document not found' });
+        return;
+      }
+      res.json({ assignment });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Memo ignore error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+// DELETE /api/pulse/finance/memo-triage/:type/:id/assignment
+// Removes a manual assignment; the next sync re-links from the memo
+router.delete(
+  '/memo-triage/:type/:id/assignment',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { type, id } = req.params;
+    if (!isMemoDocumentType(type)) {
+      res.status(400).json({ error: `type must be one of: ${MEMO_DOCUMENT_TYPES.join(', ')}` });
+      return;
+    }
+
+    try {
+      const removed = await removeMemoAssignment({ documentType: type, id });
+      if (!removed) {
+        res.status(404).json({ error: 'No assignment for this document' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Finance] Memo unassign error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+function isMemoDocumentType(value: unknown): value is MemoDocumentType {
+  return typeof value === 'string' && (MEMO_DOCUMENT_TYPES as string[]).includes(value);
+}
+
+export default router;
@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { requireRole } from '../../middleware/auth.js';
 import { ManagementReportService } from '../../services/reports/management-report.js';
+import {
+  buildReportXlsx,
+  isValidReportExportFormat,
+  renderReportPdf,
+  reportExportFileBase,
+  REPORT_EXPORT_FORMATS,
+} from '../../services/reports/report-export.js';
+import { isValidReportType, REPORT_TYPE_VALUES } from '../../types/reports.js';
 import type { ManagementReportListItem, ManagementReport } from '../../types/reports.js';
 
 const router = Router();
@@ -87,8 +95,72 @@ router.get(
   }
 );
 
+// GET /api/pulse/reports/:id/export?format=pdf|xlsx
+// Server-rendered copy of a completed report for presenting outside the app
+router.get(
+  '/:id/export',
+  requireRole('admin', 'team_member'),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.supabase || !req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const format = (req.query.format as string) || 'pdf';
+    if (!isValidReportExportFormat(format)) {
+      res.status(400).json({ error: `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+
+    try {
+      const { data, error } = await req.supabase
+        .from('pulse_management_reports')
+        .select('*')
+        .eq('report_id', req.params.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Reports] Export error:', error);
+        res.status(500).json({ error: error.message });
+        return;
+      }
+
+      if (!data) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+
+      const report = data as ManagementReport;
+      if (report.status !== 'completed') {
+        res.status(409).json({ error: `Report is ${report.status}, only completed reports can be exported` });
+        return;
+      }
+
+      const fileBase = reportExportFileBase(report);
+
+      if (format === 'xlsx') {
+        const buffer = await buildReportXlsx(report);
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.xlsx"`);
+        res.send(buffer);
+        return;
+      }
+
+      const buffer = await renderReportPdf(report);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.pdf"`);
+      res.send(buffer);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Reports] Export error:', err);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
 // POST /api/pulse/reports/generate
 // Manual trigger — returns 202 with report_id immediately
+// Body: { report_type?: 'weekly' | 'monthly' | 'quarterly' } (default weekly)
 router.post(
   '/generate',
   requireRole('admin', 'team_member'),
@@ -98,6 +170,12 @@ router.post(
       return;
     }
 
+    const reportType = req.body?.report_type ?? 'weekly';
+    if (typeof reportType !== 'string' || !isValidReportType(reportType)) {
+      res.status(400).json({ error: `report_type must be one of: ${REPORT_TYPE_VALUES.join(', ')}` });
+      return;
+    }
+
     try {
       const service = new ManagementReportService();
 
@@ -105,6 +183,7 @@ router.post(
       const generatePromise = service.generateReport({
         triggeredBy: 'manual',
         userId: req.user.auth_id,
+        reportType,
       });
 
       // Wait just long enough to get the report_id from the placeholder row
@@ -115,6 +194,7 @@ router.post(
         message: 'Report generation completed',
         report_id: result.reportId,
         summary: result.summary,
+        timings: result.timings,
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { requireRole } from '../../middleware/auth.js';
 import { ClickUpSyncService } from '../../services/clickup/sync.js';
+import { HubSpotCronSyncService } from '../../services/hubspot/cron-sync.js';
 import { syncConfig } from '../../config/sync-config.js';
 
 const router = Router();
@@ -274,23 +275,57 @@ router.post(
 /**
  * POST /api/sync/hubspot
  * Trigger a HubSpot sync (admin/team_member only)
+ * Upserts companies into accounts and links closed-won deals to contracts.
+ * Returns immediately with syncId, sync runs in background
  */
 router.post(
   '/hubspot',
   requireRole('admin', 'team_member'),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      // TODO: Implement HubSpot sync service
-      // HubSpot uses API key from environment
+      if (!syncConfig.hubspot.apiKey) {
+        res.status(503).json({
+          error: 'HubSpot integration not configured',
+          details: 'HUBSPOT_API_KEY environment variable is not set'
+        });
+        return;
+      }
 
+      // The sync writes through the db-proxy (no user context in the background)
+      if (!process.env.BACKEND_API_KEY) {
+        res.status(503).json({
+          error: 'Database proxy not configured',
+          details: 'BACKEND_API_KEY environment variable is not set'
+        });
+        return;
+      }
+
+      const { mode = 'incremental' } = req.body as { mode?: 'incremental' | 'full' };
+      if (!['incremental', 'full'].includes(mode)) {
+        res.status(400).json({ error: 'Invalid mode. Must be "incremental" or "full"' });
+        return;
+      }
+
+      // Return immediately; the syncId matches the pulse_sync_logs row
+      const syncId = crypto.randomUUID();
       res.json({
-        success: true,
-        message: 'HubSpot sync triggered',
-        syncedAt: new Date().toISOString(),
+        syncId,
+        status: 'started',
+        message: 'HubSpot sync started in background'
+      });
+
+      setImmediate(async () => {
+        try {
+          const syncService = new HubSpotCronSyncService();
+          const results = await syncService.runSync({ mode, syncId });
+          console.log('[HubSpot Sync] Background sync completed:', JSON.stringify(results, null, 2));
+        } catch (error) {
+          console.error('[HubSpot Sync] Background sync failed:', error);
+        }
       });
     } catch (error) {
       console.error('HubSpot sync error:', error);
-      res.status(500).json({ error: 'Failed to sync with HubSpot' });
+      res.status(500).json({ error: 'Failed to start HubSpot sync' });
     }
   }
 );
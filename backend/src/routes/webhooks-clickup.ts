@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import {
+  ClickUpWebhookService,
+  ClickUpWebhookPayload,
+  verifyClickUpSignature,
+} from '../services/clickup/webhooks.js';
+import { syncConfig } from '../config/sync-config.js';
+
+const router = Router();
+
+/**
+ * POST /api/webhooks/clickup
+ *
+ * ClickUp task events for registered contract folders (see
+ * /api/cron/clickup-webhooks). Each webhook has its own secret, so the
+ * signature is checked against the secret stored for payload.webhook_id.
+ *
+ * Acknowledges with 200 as soon as the signature checks out and applies the
+ * event in the background — ClickUp marks a webhook failing (and eventually
+ * suspends it) when deliveries are slow or non-2xx. A dropped event is picked
+ * up by the regular cron sync.
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+  const payload = req.body as ClickUpWebhookPayload;
+
+  if (!payload?.webhook_id || !payload?.event) {
+    res.status(400).json({ error: 'Invalid payload' });
+    return;
+  }
+
+  if (!syncConfig.clickup.apiToken || !process.env.BACKEND_API_KEY) {
+    console.error('[ClickUp Webhook] CLICKUP_API_TOKEN or BACKEND_API_KEY not configured');
+    res.status(503).json({ error: 'ClickUp webhook processing not configured' });
+    return;
+  }
+
+  let service: ClickUpWebhookService;
+  try {
+    service = new ClickUpWebhookService();
+    const stored = await service.getStoredWebhook(payload.webhook_id);
+    if (!stored) {
+      console.warn(`[ClickUp Webhook] Unknown webhook ${payload.webhook_id}`);
+      res.status(401).json({ error: 'Unknown webhook' });
+      return;
+    }
+
+    if (!verifyClickUpSignature(rawBody, req.header('x-signature'), stored.secret)) {
+      console.warn(`[ClickUp Webhook] Signature verification failed for webhook ${payload.webhook_id}`);
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+  } catch (err) {
+    console.error('[ClickUp Webhook] Failed to verify webhook:', err);
+    res.status(500).json({ error: 'Failed to verify webhook' });
+    return;
+  }
+
+  res.status(200).json({ ok: true });
+
+  setImmediate(async () => {
+    try {
+      const result = await service.handleEvent(payload);
+      console.log(
+        `[ClickUp Webhook] ${result.event} task=${result.task_id} -> ${result.outcome}` +
+        `${result.reason ? ` (${result.reason})` : ''}`
+      );
+    } catch (err) {
+      console.error(`[ClickUp Webhook] Failed to apply ${payload.event} for task ${payload.task_id}:`, err);
+    }
+  });
+});
+
+export default router;
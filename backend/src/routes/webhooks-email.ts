@@ -0,0 +1,66 @@
+/**
+ * Email Delivery Event Webhook (server-to-server, no JWT auth)
+ *
+ * Authenticated via x-email-events-secret header against EMAIL_EVENTS_SECRET.
+ *
+ * POST /api/webhooks/email-events
+ * Body: one event, an array of events, or { events: [...] }, each
+ *   { event: 'delivered' | 'bounced' | 'complained' | 'opened',
+ *     report_id?, message_id?, event_id?, recipient?, reason?, timestamp? }
+ *
+ * The n8n email workflow (or a provider webhook mapped through n8n) posts
+ * here; report_id is included in every n8n send so it can be echoed back.
+ */
+
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { emailConfig } from '../config/email.js';
+import { ingestEmailEvents } from '../services/email/events.js';
+
+const router = Router();
+
+function verifyEventsSecret(req: Request, res: Response, next: () => void) {
+  const secret = emailConfig.eventsSecret;
+  if (!secret) {
+    console.error('[Email Events] EMAIL_EVENTS_SECRET not configured');
+    res.status(500).json({ error: 'Webhook auth not configured' });
+    return;
+  }
+
+  const provided = req.header('x-email-events-secret') || '';
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
+
+router.post('/', verifyEventsSecret, async (req: Request, res: Response): Promise<void> => {
+  const body = req.body as unknown;
+  const events = Array.isArray(body)
+    ? body
+    : body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+      ? (body as { events: unknown[] }).events
+      : body && typeof body === 'object'
+        ? [body]
+        : [];
+
+  if (events.length === 0) {
+    res.status(400).json({ error: 'Expected an event, an array of events, or { events: [...] }' });
+    return;
+  }
+
+  try {
+    const result = await ingestEmailEvents(events);
+    res.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[Email Events] Ingest error:', err);
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import crypto from 'crypto';
 import { select } from '../utils/edge-functions.js';
 import { postSlackMessage } from '../services/slack/client.js';
-import { ClickUpClient } from '../services/clickup/client.js';
+import { ClickUpClient, findTodosList } from '../services/clickup/client.js';
 
 const router = Router();
 
@@ -41,11 +41,6 @@ interface ClickUpUserRow {
   full_name: string | null;
 }
 
-interface ClickUpListRow {
-  id: string;
-  name: string;
-}
-
 function verifyTallySignature(
   rawBody: Buffer | undefined,
   signature: string | undefined,
@@ -342,9 +337,7 @@ router.post('/project-intake', async (req: Request, res: Response): Promise<void
 
     const clickup = new ClickUpClient(token);
 
-    const lists = (await clickup.getListsInFolder(contract.clickup_folder_id)) as ClickUpListRow[];
-    const normalize = (s: string) => s.toLowerCase().replace(/[\s-]+/g, '');
-    const todosList = lists.find((l) => l.name && normalize(l.name) === 'todos');
+    const todosList = await findTodosList(clickup, contract.clickup_folder_id);
     if (!todosList) {
       await postFailureAlert(
         `No ToDos list found in folder ${contract.clickup_folder_id} (contract: ${contract.contract_name}). Looked for any list matching "ToDos" / "To Dos" / "To-Dos".`,
@@ -0,0 +1,364 @@
+/**
+ * Team Capacity Planner
+ *
+ * Per person and per week: hours logged (pulse_time_entries) against hours
+ * available for the weeks behind us, and hours and points committed for the
+ * weeks ahead from open tasks (pulse_tasks) assigned to them, bucketed by
+ * due_date. A week whose committed hours exceed the overload threshold is
+ * flagged.
+ *
+ * An open task's hours are its remaining ClickUp estimate (time_estimate -
+ * time_spent), or points x hours-per-point when it has no estimate. Tasks
+ * with several assignees are split evenly between them. Overdue open tasks
+ * are reported separately rather than piled onto the current week.
+ */
+
+import { select, selectAll } from '../../utils/edge-functions.js';
+import { capacityConfig } from '../../config/capacity.js';
+import type {
+  CapacityContractLoad,
+  CapacityMember,
+  CapacityReport,
+  CapacityWarning,
+  CapacityWeek,
+  CapacityWeekPhase,
+} from '../../types/analytics.js';
+import { addDays, DAY_MS, HOUR_MS } from '../../utils/dates.js';
+import { round2 } from '../../utils/numbers.js';
+
+const OPEN_STATUSES = ['not_started', 'working', 'blocked', 'at_risk'];
+
+// Filter lists are sent in the proxy request; keep them a manageable size
+const ID_CHUNK_SIZE = 200;
+
+export interface CapacityOptions {
+  teamManagerId?: string;
+  weeks?: number;         // weeks ahead, including the current one
+  pastWeeks?: number;
+}
+
+interface OpenTaskRow {
+  task_id: string;
+  contract_id: string | null;
+  points: number | null;
+  time_estimate: number | null;
+  time_spent: number | null;
+  due_date: string | null;
+  assignees: unknown;
+}
+
+interface TimeEntryRow {
+  entry_id: string;
+  task_id: string | null;
+  clickup_user_id: string | null;
+  duration_ms: number;
+  start_date: string;
+}
+
+interface MemberRow {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  email: string | null;
+}
+
+interface MemberTally {
+  logged: Map<string, number>;
+  committed: Map<string, { hours: number; points: number; tasks: number }>;
+  overdue: { tasks: number; points: number; hours: number };
+  unscheduled: { tasks: number; points: number };
+  unestimated: number;
+  contracts: Map<string, CapacityContractLoad>;
+}
+
+export async function computeCapacity(options: CapacityOptions = {}): Promise<CapacityReport> {
+  const weeksAhead = clampWeeks(options.weeks, capacityConfig.defaultWeeks);
+  const pastWeeks = clampWeeks(options.pastWeeks, capacityConfig.defaultPastWeeks, 0);
+
+  const currentWeek = weekStart(new Date().toISOString().slice(0, 10));
+  const weekStarts: string[] = [];
+  for (let i = -pastWeeks; i < weeksAhead; i++) weekStarts.push(addDays(currentWeek, i * 7));
+  const phaseOf = (week: string): CapacityWeekPhase =>
+    week < currentWeek ? 'past' : week === currentWeek ? 'current' : 'upcoming';
+  const windowEnd = addDays(weekStarts[weekStarts.length - 1], 7);
+
+  // Team manager scope: their contracts' tasks decide who is shown
+  let scopedContracts: Set<string> | null = null;
+  if (options.teamManagerId) {
+    const contracts = await select<Array<{ contract_id: string }>>('contracts', {
+      select: 'contract_id',
+      filters: { team_manager: options.teamManagerId, contract_status: 'active' },
+    });
+    scopedContracts = new Set((contracts || []).map((c) => c.contract_id));
+  }
+
+  const [openTasks, entries, members] = await Promise.all([
+    selectAll<OpenTaskRow>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id,points,time_estimate,time_spent,due_date,assignees',
+      filters: { status: { in: OPEN_STATUSES }, is_deleted: false, is_archived: false },
+    }),
+    selectAll<TimeEntryRow>('pulse_time_entries', 'entry_id', {
+      select: 'entry_id,task_id,clickup_user_id,duration_ms,start_date',
+      filters: { start_date: { gte: `${weekStarts[0]}T00:00:00Z`, lt: `${addDays(currentWeek, 7)}T00:00:00Z` } },
+    }),
+    selectAll<MemberRow>('pulse_clickup_users', 'id', {
+      select: 'id,username,full_name,email',
+      filters: { is_assignable: true },
+    }),
+  ]);
+
+  const tallies = new Map<string, MemberTally>();
+  const tallyFor = (userId: string): MemberTally => {
+    let tally = tallies.get(userId);
+    if (!tally) {
+      tally = {
+        logged: new Map(),
+        committed: new Map(),
+        overdue: { tasks: 0, points: 0, hours: 0 },
+        unscheduled: { tasks: 0, points: 0 },
+        unestimated: 0,
+        contracts: new Map(),
+      };
+      tallies.set(userId, tally);
+    }
+    return tally;
+  };
+  const inScope = new Set<string>();
+
+  // Committed work
+  for (const task of openTasks) {
+    const assignees = parseAssignees(task.assignees);
+    if (assignees.length === 0) continue;
+    if (scopedContracts && task.contract_id && scopedContracts.has(task.contract_id)) {
+      for (const userId of assignees) inScope.add(userId);
+    }
+
+    const { hours, estimated } = remainingHours(task);
+    const share = 1 / assignees.length;
+    const points = (Number(task.points) || 0) * share;
+    const due = task.due_date ? task.due_date.slice(0, 10) : null;
+
+    for (const userId of assignees) {
+      const tally = tallyFor(userId);
+      if (!estimated) tally.unestimated++;
+
+      if (!due) {
+        tally.unscheduled.tasks++;
+        tally.unscheduled.points += points;
+        continue;
+      }
+      if (due < currentWeek) {
+        tally.overdue.tasks++;
+        tally.overdue.points += points;
+        tally.overdue.hours += hours * share;
+        continue;
+      }
+      if (due >= windowEnd) continue;
+
+      const week = weekStart(due);
+      const committed = tally.committed.get(week) || { hours: 0, points: 0, tasks: 0 };
+      committed.hours += hours * share;
+      committed.points += points;
+      committed.tasks++;
+      tally.committed.set(week, committed);
+
+      const key = task.contract_id || '';
+      const load = tally.contracts.get(key) || { contract_id: task.contract_id, contract_name: null, hours: 0, points: 0, tasks: 0 };
+      load.hours += hours * share;
+      load.points += points;
+      load.tasks++;
+      tally.contracts.set(key, load);
+    }
+  }
+
+  // Logged time
+  let entryContracts = new Map<string, string | null>();
+  if (scopedContracts) {
+    entryContracts = await fetchTaskContracts(
+      Array.from(new Set(entries.map((e) => e.task_id).filter((id): id is string => !!id)))
+    );
+  }
+  for (const entry of entries) {
+    if (!entry.clickup_user_id) continue;
+    const hours = (Number(entry.duration_ms) || 0) / HOUR_MS;
+    if (hours <= 0) continue;
+
+    const contractId = entry.task_id ? entryContracts.get(entry.task_id) : null;
+    if (scopedContracts && contractId && scopedContracts.has(contractId)) inScope.add(entry.clickup_user_id);
+
+    const tally = tallyFor(entry.clickup_user_id);
+    const week = weekStart(entry.start_date.slice(0, 10));
+    tally.logged.set(week, (tally.logged.get(week) || 0) + hours);
+  }
+
+  // Contract names for the load breakdown
+  const contractIds = new Set<string>();
+  for (const tally of tallies.values()) {
+    for (const key of tally.contracts.keys()) if (key) contractIds.add(key);
+  }
+  const contractNames = await fetchContractNames(Array.from(contractIds));
+
+  const shown = members.filter((m) => (scopedContracts ? inScope.has(m.id) : true));
+  const memberRows: CapacityMember[] = shown.map((member) => {
+    const tally = tallyFor(member.id);
+    const capacity = capacityConfig.memberWeeklyHours[member.id] ?? capacityConfig.weeklyHours;
+    const warnings: CapacityWarning[] = [];
+
+    const weeks = weekStarts.map((week): CapacityWeek => {
+      const phase = phaseOf(week);
+      const logged = phase === 'upcoming' ? null : round2(tally.logged.get(week) || 0);
+      const committed = phase === 'past' ? null : tally.committed.get(week) || { hours: 0, points: 0, tasks: 0 };
+      const load = committed && capacity > 0 ? round2(committed.hours / capacity) : null;
+      const overloaded = load !== null && load > capacityConfig.overloadThreshold;
+      if (overloaded) {
+        warnings.push({
+          type: 'overloaded',
+          week_start: week,
+          message: `${round2(committed!.hours)}h committed against ${capacity}h available in the week of ${week}`,
+        });
+      }
+
+      return {
+        week_start: week,
+        phase,
+        available_hours: capacity,
+        logged_hours: logged,
+        utilization: logged !== null && capacity > 0 ? round2(logged / capacity) : null,
+        committed_hours: committed ? round2(committed.hours) : null,
+        committed_points: committed ? round2(committed.points) : null,
+        committed_tasks: committed ? committed.tasks : null,
+        load,
+        overloaded,
+      };
+    });
+
+    if (tally.overdue.tasks > 0) {
+      warnings.push({
+        type: 'overdue_tasks',
+        message: `${tally.overdue.tasks} open task(s) past due (${round2(tally.overdue.points)} points)`,
+      });
+    }
+    if (tally.unestimated > 0) {
+      warnings.push({
+        type: 'unestimated_tasks',
+        message: `${tally.unestimated} open task(s) with neither a time estimate nor points`,
+      });
+    }
+
+    return {
+      clickup_user_id: member.id,
+      name: member.full_name || member.username,
+      email: member.email,
+      weekly_capacity_hours: capacity,
+      weeks,
+      overdue: {
+        tasks: tally.overdue.tasks,
+        points: round2(tally.overdue.points),
+        hours: round2(tally.overdue.hours),
+      },
+      unscheduled: { tasks: tally.unscheduled.tasks, points: round2(tally.unscheduled.points) },
+      contracts: Array.from(tally.contracts.values())
+        .map((c) => ({
+          ...c,
+          contract_name: c.contract_id ? contractNames.get(c.contract_id) ?? null : null,
+          hours: round2(c.hours),
+          points: round2(c.points),
+        }))
+        .sort((a, b) => b.hours - a.hours),
+      warnings,
+    };
+  });
+
+  // Most loaded first
+  const peakLoad = (m: CapacityMember): number => Math.max(0, ...m.weeks.map((w) => w.load ?? 0));
+  memberRows.sort((a, b) => peakLoad(b) - peakLoad(a) || (a.name || '').localeCompare(b.name || ''));
+
+  return {
+    generated_at: new Date().toISOString(),
+    team_manager_id: options.teamManagerId ?? null,
+    week_starts: weekStarts,
+    hours_per_point: capacityConfig.hoursPerPoint,
+    members: memberRows,
+    totals: weekStarts.map((week, i) => {
+      const phase = phaseOf(week);
+      const sumOf = (pick: (w: CapacityWeek) => number | null): number =>
+        round2(memberRows.reduce((total, m) => total + (pick(m.weeks[i]) ?? 0), 0));
+      return {
+        week_start: week,
+        phase,
+        available_hours: sumOf((w) => w.available_hours),
+        logged_hours: phase === 'upcoming' ? null : sumOf((w) => w.logged_hours),
+        committed_hours: phase === 'past' ? null : sumOf((w) => w.committed_hours),
+        committed_points: phase === 'past' ? null : sumOf((w) => w.committed_points),
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// ClickUp assignees as stored by the task sync: [{ id, username, email }], possibly JSON-encoded
+function parseAssignees(value: unknown): string[] {
+  let list = value;
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+  return Array.from(new Set(
+    list
+      .map((a) => (a && typeof a === 'object' && 'id' in a ? String((a as { id: unknown }).id) : null))
+      .filter((id): id is string => !!id)
+  ));
+}
+
+function remainingHours(task: OpenTaskRow): { hours: number; estimated: boolean } {
+  const estimate = Number(task.time_estimate) || 0;
+  if (estimate > 0) {
+    return { hours: Math.max(0, estimate - (Number(task.time_spent) || 0)) / HOUR_MS, estimated: true };
+  }
+  const points = Number(task.points) || 0;
+  if (points > 0) return { hours: points * capacityConfig.hoursPerPoint, estimated: true };
+  return { hours: 0, estimated: false };
+}
+
+async function fetchTaskContracts(taskIds: string[]): Promise<Map<string, string | null>> {
+  const map = new Map<string, string | null>();
+  for (let i = 0; i < taskIds.length; i += ID_CHUNK_SIZE) {
+    const rows = await selectAll<{ task_id: string; contract_id: string | null }>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id',
+      filters: { task_id: { in: taskIds.slice(i, i + ID_CHUNK_SIZE) } },
+    });
+    for (const row of rows) map.set(row.task_id, row.contract_id);
+  }
+  return map;
+}
+
+async function fetchContractNames(contractIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (let i = 0; i < contractIds.length; i += ID_CHUNK_SIZE) {
+    const rows = await select<Array<{ contract_id: string; contract_name: string }>>('contracts', {
+      select: 'contract_id,contract_name',
+      filters: { contract_id: { in: contractIds.slice(i, i + ID_CHUNK_SIZE) } },
+    });
+    for (const row of rows || []) names.set(row.contract_id, row.contract_name);
+  }
+  return names;
+}
+
+function clampWeeks(value: number | undefined, fallback: number, min = 1): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.min(capacityConfig.maxWeeks, Math.max(min, Math.floor(value)));
+}
+
+// Monday of the (UTC) week containing the date
+function weekStart(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  const offset = (d.getUTCDay() + 6) % 7;
+  return new Date(d.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,255 @@
+/**
+ * Cycle-Time Analytics
+ *
+ * Builds per-task status timelines from pulse_task_status_history and rolls
+ * them up per contract and per list type: time in each status, lead time from
+ * not_started to delivered, and the share of time spent blocked (waiting on
+ * client).
+ *
+ * Only tasks with at least one recorded transition are timed. History is
+ * written from the first sync that saw a change, so tasks that have not moved
+ * since then would otherwise report their whole age as one status.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CycleTimeBreakdown,
+  CycleTimeReport,
+  LeadTimeStats,
+  StatusTimeStats,
+} from '../../types/analytics.js';
+
+// Statuses that end a task's timeline — time after reaching them isn't counted
+const TERMINAL_STATUSES = ['delivered', 'archived'];
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface TaskRow {
+  task_id: string;
+  list_type: string | null;
+  status: string | null;
+  date_created: string | null;
+}
+
+interface HistoryRow {
+  task_id: string;
+  status_from: string | null;
+  status_to: string | null;
+  changed_at: string;
+}
+
+interface TaskTimeline {
+  list_type: string;
+  // ms spent per status
+  durations: Record<string, number>;
+  lead_time_ms: number | null;
+}
+
+/**
+ * Compute cycle-time metrics for one contract
+ */
+export async function computeCycleTime(
+  supabase: SupabaseClient,
+  contractId: string
+): Promise<CycleTimeReport> {
+  const tasks = await fetchTasks(supabase, contractId);
+  const history = await fetchHistory(supabase, tasks.map((t) => t.task_id));
+
+  const historyByTask = new Map<string, HistoryRow[]>();
+  for (const row of history) {
+    const rows = historyByTask.get(row.task_id) || [];
+    rows.push(row);
+    historyByTask.set(row.task_id, rows);
+  }
+
+  const now = Date.now();
+  const timelines: TaskTimeline[] = [];
+  for (const task of tasks) {
+    const rows = historyByTask.get(task.task_id);
+    if (!rows || rows.length === 0) continue;
+    timelines.push(buildTimeline(task, rows, now));
+  }
+
+  const taskCountByListType = new Map<string, number>();
+  for (const task of tasks) {
+    const listType = task.list_type || 'Unknown';
+    taskCountByListType.set(listType, (taskCountByListType.get(listType) || 0) + 1);
+  }
+
+  const byListType: Record<string, CycleTimeBreakdown> = {};
+  for (const [listType, count] of taskCountByListType) {
+    byListType[listType] = summarize(
+      timelines.filter((t) => t.list_type === listType),
+      count
+    );
+  }
+
+  return {
+    contract_id: contractId,
+    generated_at: new Date(now).toISOString(),
+    overall: summarize(timelines, tasks.length),
+    by_list_type: byListType,
+  };
+}
+
+/**
+ * Walk a task's transitions in order and attribute elapsed time to statuses.
+ *
+ * The first segment runs from date_created in the first transition's
+ * status_from. The last segment runs to now unless the task is in a terminal
+ * status. Lead time is first not_started (or creation, for tasks created
+ * straight into work) to first delivered.
+ */
+function buildTimeline(task: TaskRow, rows: HistoryRow[], now: number): TaskTimeline {
+  const sorted = [...rows].sort(
+    (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+  );
+
+  const durations: Record<string, number> = {};
+  const firstChange = new Date(sorted[0].changed_at).getTime();
+  const created = task.date_created ? new Date(task.date_created).getTime() : firstChange;
+
+  let cursor = Math.min(created, firstChange);
+  let current = sorted[0].status_from || 'not_started';
+  let notStartedAt: number | null = current === 'not_started' ? cursor : null;
+  let deliveredAt: number | null = null;
+
+  const addTime = (status: string, from: number, to: number) => {
+    if (TERMINAL_STATUSES.includes(status) || to <= from) return;
+    durations[status] = (durations[status] || 0) + (to - from);
+  };
+
+  for (const row of sorted) {
+    const at = new Date(row.changed_at).getTime();
+    addTime(current, cursor, at);
+
+    current = row.status_to || current;
+    cursor = Math.max(cursor, at);
+
+    if (current === 'not_started' && notStartedAt === null) notStartedAt = at;
+    if (current === 'delivered' && deliveredAt === null) deliveredAt = at;
+  }
+
+  addTime(current, cursor, now);
+
+  const leadStart = notStartedAt ?? created;
+  return {
+    list_type: task.list_type || 'Unknown',
+    durations,
+    lead_time_ms: deliveredAt !== null && deliveredAt >= leadStart ? deliveredAt - leadStart : null,
+  };
+}
+
+function summarize(timelines: TaskTimeline[], tasksAnalyzed: number): CycleTimeBreakdown {
+  const totals: Record<string, { ms: number; tasks: number }> = {};
+  for (const timeline of timelines) {
+    for (const [status, ms] of Object.entries(timeline.durations)) {
+      totals[status] = totals[status] || { ms: 0, tasks: 0 };
+      totals[status].ms += ms;
+      totals[status].tasks += 1;
+    }
+  }
+
+  const timeInStatus: Record<string, StatusTimeStats> = {};
+  let trackedMs = 0;
+  for (const [status, { ms, tasks }] of Object.entries(totals)) {
+    trackedMs += ms;
+    timeInStatus[status] = {
+      total_hours: round(ms / HOUR_MS),
+      avg_hours_per_task: round(ms / HOUR_MS / tasks),
+      tasks,
+    };
+  }
+
+  const blockedMs = totals.blocked?.ms || 0;
+
+  return {
+    tasks_analyzed: tasksAnalyzed,
+    tasks_with_history: timelines.length,
+    time_in_status: timeInStatus,
+    lead_time: leadTimeStats(
+      timelines.map((t) => t.lead_time_ms).filter((ms): ms is number => ms !== null)
+    ),
+    blocked_share: trackedMs > 0 ? round(blockedMs / trackedMs, 4) : null,
+  };
+}
+
+function leadTimeStats(leadTimesMs: number[]): LeadTimeStats {
+  if (leadTimesMs.length === 0) {
+    return { count: 0, avg_days: null, median_days: null, p90_days: null };
+  }
+
+  const days = leadTimesMs.map((ms) => ms / DAY_MS).sort((a, b) => a - b);
+  const avg = days.reduce((sum, d) => sum + d, 0) / days.length;
+
+  return {
+    count: days.length,
+    avg_days: round(avg),
+    median_days: round(percentile(days, 0.5)),
+    p90_days: round(percentile(days, 0.9)),
+  };
+}
+
+// Nearest-rank percentile over an ascending array
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+async function fetchTasks(supabase: SupabaseClient, contractId: string): Promise<TaskRow[]> {
+  const tasks: TaskRow[] = [];
+
+  // Page through — large contracts exceed PostgREST's default 1000-row cap
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('pulse_tasks')
+      .select('task_id, list_type, status, date_created')
+      .eq('contract_id', contractId)
+      .eq('is_deleted', false)
+      .order('task_id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch tasks: ${error.message}`);
+    }
+
+    tasks.push(...((data || []) as TaskRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return tasks;
+}
+
+async function fetchHistory(supabase: SupabaseClient, taskIds: string[]): Promise<HistoryRow[]> {
+  const history: HistoryRow[] = [];
+
+  for (let i = 0; i < taskIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = taskIds.slice(i, i + ID_CHUNK_SIZE);
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('pulse_task_status_history')
+        .select('task_id, status_from, status_to, changed_at')
+        .in('task_id', chunk)
+        .order('changed_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch status history: ${error.message}`);
+      }
+
+      history.push(...((data || []) as HistoryRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return history;
+}
@@ -1,5 +1,14 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 
+export interface ClickUpWebhook {
+  id: string;
+  endpoint: string;
+  events: string[];
+  folder_id?: string | number | null;
+  secret?: string;
+  health?: { status: string; fail_count: number };
+}
+
 /**
  * ClickUp API Client
  * Handles authentication and API calls to ClickUp
@@ -136,6 +145,28 @@ export class ClickUpClient {
     return response.data;
   }
 
+  /**
+   * Update a task's status, assignees, etc.
+   * PUT /v2/task/{task_id}
+   *
+   * WRITES TO CLICKUP. Assignees are changed with { add, rem } user ids.
+   */
+  async updateTask(taskId: string, payload: {
+    status?: string;
+    assignees?: { add?: number[]; rem?: number[] };
+  }) {
+    const response = await this.client.put(`/task/${taskId}`, payload);
+    return response.data;
+  }
+
+  /**
+   * Get a list, including its statuses ({ status, type: open|custom|done|closed })
+   */
+  async getList(listId: string) {
+    const response = await this.client.get(`/list/${listId}`);
+    return response.data as { id: string; name: string; statuses?: Array<{ status: string; type: string }> };
+  }
+
   /**
    * Get time entries for a team within a date range
    */
@@ -176,12 +207,16 @@ export class ClickUpClient {
     return response.data;
   }
 
-  async getTeamTimeEntries(teamId: string, startDate: Date, endDate: Date) {
-    const params = {
+  async getTeamTimeEntries(teamId: string, startDate: Date, endDate: Date, options: { taskId?: string } = {}) {
+    const params: Record<string, string> = {
       start_date: startDate.getTime().toString(),
       end_date: endDate.getTime().toString()
     };
 
+    if (options.taskId) {
+      params.task_id = options.taskId;
+    }
+
     const response = await this.client.get(`/team/${teamId}/time_entries`, { params });
     return response.data.data || [];
   }
@@ -194,6 +229,46 @@ export class ClickUpClient {
     return response.data.data || [];
   }
 
+  /**
+   * Get all webhooks registered for a team
+   */
+  async getWebhooks(teamId: string) {
+    const response = await this.client.get(`/team/${teamId}/webhook`);
+    return (response.data.webhooks || []) as ClickUpWebhook[];
+  }
+
+  /**
+   * Create a webhook scoped to a folder.
+   * The response carries the signing secret — it is only returned here.
+   */
+  async createWebhook(teamId: string, payload: {
+    endpoint: string;
+    events: string[];
+    folder_id?: string;
+  }): Promise<{ id: string; webhook: ClickUpWebhook }> {
+    const response = await this.client.post(`/team/${teamId}/webhook`, payload);
+    return response.data;
+  }
+
+  /**
+   * Update a webhook. Setting status 'active' re-enables a suspended webhook.
+   */
+  async updateWebhook(webhookId: string, payload: {
+    endpoint: string;
+    events: string[];
+    status: 'active' | 'inactive';
+  }) {
+    const response = await this.client.put(`/webhook/${webhookId}`, payload);
+    return response.data;
+  }
+
+  /**
+   * Delete a webhook
+   */
+  async deleteWebhook(webhookId: string) {
+    await this.client.delete(`/webhook/${webhookId}`);
+  }
+
   /**
    * Check if an error is a permission error (should skip, not fail)
    */
@@ -224,6 +299,19 @@ export class ClickUpClient {
   }
 }
 
+/**
+ * The folder's ToDos list ("ToDos" / "To Dos" / "To-Dos"), or null. Tally
+ * intake and pushed meeting action items both create tasks there.
+ */
+export async function findTodosList(
+  client: ClickUpClient,
+  folderId: string
+): Promise<{ id: string; name: string } | null> {
+  const lists = (await client.getListsInFolder(folderId)) as Array<{ id: string; name: string }>;
+  const normalize = (s: string) => s.toLowerCase().replace(/[\s-]+/g, '');
+  return lists.find((l) => l.name && normalize(l.name) === 'todos') || null;
+}
+
 /**
  * Retry wrapper with exponential backoff
  */
@@ -68,6 +68,7 @@ interface SyncResults {
   timeEntriesProcessed: number;
   usersProcessed: number;
   invoiceTasksProcessed: number;
+  statusChangesRecorded: number;
   errors: Array<{ context: string; error: string }>;
   startedAt: Date;
   completedAt?: Date;
@@ -168,6 +169,7 @@ export class ClickUpCronSyncService {
       timeEntriesProcessed: 0,
       usersProcessed: 0,
       invoiceTasksProcessed: 0,
+      statusChangesRecorded: 0,
       errors: [],
       startedAt
     };
@@ -234,6 +236,9 @@ export class ClickUpCronSyncService {
                 this.transformTask(task, folder.contract_id, folder.clickup_folder_id)
               );
 
+              // Current statuses, so status changes can be written to history
+              const previousStatuses = await this.getCurrentStatuses(batch.map(task => task.id));
+
               // Upsert the entire batch in one request
               const { error } = await dbProxy.upsert('pulse_tasks', transformedBatch, {
                 onConflict: 'clickup_task_id'
@@ -242,6 +247,8 @@ export class ClickUpCronSyncService {
               if (error) {
                 console.error(`[ClickUp Cron Sync] Batch upsert error:`, error);
                 // Continue with next batch rather than failing entire folder
+              } else {
+                results.statusChangesRecorded += await this.recordStatusTransitions(transformedBatch, previousStatuses);
               }
 
               // Small delay between batches to avoid overwhelming the Edge Function
@@ -949,12 +956,12 @@ export class ClickUpCronSyncService {
         // ONE query per list, not per task. Querying per task is an N+1 that
         // turns into thousands of sequential edge-function round-trips and
         // exceeds the HTTP timeout before returning.
-        const existingById = new Map<string, { is_archived: boolean; status: string }>();
+        const existingById = new Map<string, { task_id: string; is_archived: boolean; status: string }>();
         try {
           const { data: existingRows } = await dbProxy.select<
-            Array<{ clickup_task_id: string; is_archived: boolean; status: string }>
+            Array<{ task_id: string; clickup_task_id: string; is_archived: boolean; status: string }>
           >('pulse_tasks', {
-            columns: 'clickup_task_id, is_archived, status',
+            columns: 'task_id, clickup_task_id, is_archived, status',
             // Keyed on folder, not list: a task that moved lists keeps its
             // folder, so a list-keyed lookup would report it as missing.
             filters: { clickup_folder_id: folder.clickup_folder_id }
@@ -963,6 +970,7 @@ export class ClickUpCronSyncService {
           for (const row of existingRows || []) {
             if (row?.clickup_task_id) {
               existingById.set(row.clickup_task_id, {
+                task_id: row.task_id,
                 is_archived: row.is_archived,
                 status: row.status
               });
@@ -1036,6 +1044,7 @@ export class ClickUpCronSyncService {
               });
             } else {
               result.updated += batch.length;
+              await this.recordStatusTransitions(batch, existingById);
             }
             if (i + batchSize < toWrite.length) {
               await new Promise((resolve) => setTimeout(resolve, 100));
@@ -1048,6 +1057,180 @@ export class ClickUpCronSyncService {
     return result;
   }
 
+  // ══════════════════════════════════════════════════════════════
+  // Single-task sync
+  //
+  // Used by the ClickUp webhook receiver to apply one task's change as it
+  // happens. Goes through the same transformTask/mapStatus rules as the batch
+  // passes so a webhook-written row is indistinguishable from a cron-written
+  // one — the 15-minute sync still runs and reconciles anything missed.
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Fetch one task from ClickUp and upsert it into pulse_tasks.
+   * Records a status history row when the mapped status changes.
+   */
+  async syncTask(
+    clickupTaskId: string,
+    change: { changedAt?: string | null; changedBy?: string | null; raw?: unknown } = {}
+  ): Promise<{ outcome: 'upserted' | 'skipped'; reason?: string; statusChanged?: boolean }> {
+    const task = await fetchWithRetry(() => this.client.getTask(clickupTaskId)) as ClickUpTask;
+
+    const folderId = task.folder?.id;
+    const listName = task.list?.name || '';
+    if (!folderId) {
+      return { outcome: 'skipped', reason: 'no_folder' };
+    }
+    if (task.list?.id && syncConfig.clickup.blacklistedLists.byId.includes(task.list.id)) {
+      return { outcome: 'skipped', reason: 'blacklisted_list' };
+    }
+    if (shouldSkipList(listName)) {
+      return { outcome: 'skipped', reason: 'skipped_list' };
+    }
+
+    // Only folders belonging to an active contract are synced
+    const folder = (await this.getFoldersToSync()).find(f => f.clickup_folder_id === folderId);
+    if (!folder) {
+      return { outcome: 'skipped', reason: 'folder_not_synced' };
+    }
+
+    const previousStatuses = await this.getCurrentStatuses([clickupTaskId]);
+
+    const transformed = this.transformTask(
+      {
+        ...task,
+        list_id: task.list?.id,
+        list_name: listName,
+        list_type: detectListType(listName),
+        folder_id: folderId
+      },
+      folder.contract_id,
+      folderId
+    );
+
+    const { error } = await dbProxy.upsert('pulse_tasks', transformed, {
+      onConflict: 'clickup_task_id'
+    });
+
+    if (error) {
+      throw new Error(`Failed to upsert task ${clickupTaskId}: ${error.message}`);
+    }
+
+    const recorded = await this.recordStatusTransitions([transformed], previousStatuses, change);
+
+    return { outcome: 'upserted', statusChanged: recorded > 0 };
+  }
+
+  /**
+   * Flag a task as deleted (ClickUp no longer returns it, so there is nothing to fetch)
+   */
+  async markTaskDeleted(clickupTaskId: string): Promise<void> {
+    const { error } = await dbProxy.update('pulse_tasks', {
+      is_deleted: true,
+      deletion_detected_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, { clickup_task_id: clickupTaskId });
+
+    if (error) {
+      throw new Error(`Failed to mark task ${clickupTaskId} deleted: ${error.message}`);
+    }
+  }
+
+  /**
+   * Re-sync the time entries for one task (within the full-sync lookback window)
+   */
+  async syncTaskTimeEntries(clickupTaskId: string): Promise<number> {
+    const teamId = syncConfig.clickup.teamId;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - syncConfig.clickup.timeEntryLookbackDays.full);
+
+    const entries = await fetchWithRetry(() =>
+      this.client.getTeamTimeEntries(teamId, startDate, new Date(), { taskId: clickupTaskId })
+    );
+
+    for (const entry of entries as ClickUpTimeEntry[]) {
+      await this.storeTimeEntry(entry);
+    }
+
+    return entries.length;
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // Status history
+  //
+  // pulse_task_status_history gets a row whenever a task's *mapped* status
+  // changes (raw ClickUp renames that map to the same status are not
+  // transitions). Polling only sees the end state between two runs, so a
+  // cron-detected change is stamped with the task's date_updated; the webhook
+  // path passes the exact time and user from ClickUp's history item instead.
+  // New tasks get no row — there is no "from" status yet.
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Current status per ClickUp task ID, for tasks we already hold
+   */
+  private async getCurrentStatuses(
+    clickupTaskIds: string[]
+  ): Promise<Map<string, { task_id: string; status: string | null }>> {
+    const map = new Map<string, { task_id: string; status: string | null }>();
+    if (clickupTaskIds.length === 0) return map;
+
+    const { data, error } = await dbProxy.select<Array<{ task_id: string; clickup_task_id: string; status: string | null }>>('pulse_tasks', {
+      columns: 'task_id, clickup_task_id, status',
+      filters: { clickup_task_id: { in: clickupTaskIds } }
+    });
+
+    if (error) {
+      console.error('[ClickUp Cron Sync] Error loading current task statuses:', error);
+      return map;
+    }
+
+    for (const row of data || []) {
+      map.set(row.clickup_task_id, { task_id: row.task_id, status: row.status });
+    }
+    return map;
+  }
+
+  /**
+   * Insert history rows for tasks whose mapped status differs from before.
+   * Returns the number of transitions recorded.
+   */
+  private async recordStatusTransitions(
+    rows: Record<string, unknown>[],
+    previous: Map<string, { task_id: string; status: string | null }>,
+    change: { changedAt?: string | null; changedBy?: string | null; raw?: unknown } = {}
+  ): Promise<number> {
+    const transitions: Record<string, unknown>[] = [];
+
+    for (const row of rows) {
+      const clickupTaskId = row.clickup_task_id as string;
+      const before = previous.get(clickupTaskId);
+      const newStatus = row.status as string;
+
+      if (!before || before.status === newStatus) continue;
+
+      transitions.push({
+        task_id: before.task_id,
+        clickup_task_id: clickupTaskId,
+        status_from: before.status,
+        status_to: newStatus,
+        changed_at: change.changedAt || (row.date_updated as string | null) || new Date().toISOString(),
+        changed_by: change.changedBy || null,
+        raw_data: JSON.stringify(change.raw ?? { source: 'cron', status_raw: row.status_raw })
+      });
+    }
+
+    if (transitions.length === 0) return 0;
+
+    const { error } = await dbProxy.insert('pulse_task_status_history', transitions);
+    if (error) {
+      console.error('[ClickUp Cron Sync] Error recording status transitions:', error);
+      return 0;
+    }
+
+    return transitions.length;
+  }
+
   async markDeletedTasks(): Promise<number> {
     const thresholdDays = syncConfig.clickup.deletedTaskThresholdDays;
     const cutoffDate = new Date();
@@ -7,5 +7,5 @@
  * Environment variable: CLICKUP_API_TOKEN
  */
 
-export { ClickUpClient, fetchWithRetry } from './client.js';
+export { ClickUpClient, fetchWithRetry, findTodosList } from './client.js';
 export { ClickUpSyncService } from './sync.js';
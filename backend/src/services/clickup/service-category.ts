@@ -429,6 +429,27 @@ function readExistingLabel(
   return null;
 }
 
+/**
+ * A synced task's Service Category label from pulse_tasks.custom_fields (the
+ * task's ClickUp custom_fields, options included, stored as JSON), or null
+ * when the task has no value or the field isn't on its list.
+ */
+export function readStoredServiceCategory(customFields: unknown): string | null {
+  let fields = customFields;
+  if (typeof fields === 'string') {
+    try {
+      fields = JSON.parse(fields);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(fields)) return null;
+
+  const resolved = resolveServiceCategoryField(fields);
+  if (!resolved) return null;
+  return readExistingLabel({ id: '', name: '', custom_fields: fields }, resolved);
+}
+
 async function classifyBatch(
   tasks: ClickUpTaskLite[],
   contractName: string,
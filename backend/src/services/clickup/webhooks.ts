@@ -0,0 +1,364 @@
+import crypto from 'crypto';
+import { ClickUpClient, ClickUpWebhook, fetchWithRetry } from './client.js';
+import { ClickUpCronSyncService } from './cron-sync.js';
+import { syncConfig, shouldSkipFolder } from '../../config/sync-config.js';
+import { dbProxy } from '../../utils/db-proxy.js';
+import { syncActionItemCompletion } from '../meetings/action-items.js';
+
+/**
+ * ClickUp Webhook Service
+ *
+ * Near-real-time task sync. One webhook is registered per active contract
+ * folder; events are applied through ClickUpCronSyncService's single-task
+ * methods so mapping rules stay identical to the cron passes. The cron sync
+ * keeps running as the reconciliation safety net for anything a webhook misses.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'taskCreated',
+  'taskUpdated',
+  'taskStatusUpdated',
+  'taskDeleted',
+  'taskTimeTracked',
+];
+
+export interface ClickUpWebhookPayload {
+  event: string;
+  webhook_id: string;
+  task_id?: string;
+  history_items?: Array<{
+    id: string;
+    type?: number;
+    date?: string;
+    field?: string;
+    user?: { id: number; username?: string };
+    before?: unknown;
+    after?: unknown;
+  }>;
+}
+
+interface StoredWebhook {
+  webhook_id: string;
+  contract_id: string | null;
+  clickup_folder_id: string;
+  endpoint: string;
+  secret: string;
+  status: string | null;
+}
+
+interface ActiveFolder {
+  contract_id: string;
+  clickup_folder_id: string;
+  contract_name: string;
+}
+
+export interface WebhookEventResult {
+  event: string;
+  task_id: string | null;
+  outcome: 'applied' | 'skipped' | 'ignored';
+  reason?: string;
+}
+
+export interface WebhookRegistrationResult {
+  dry_run: boolean;
+  endpoint: string;
+  folders: number;
+  created: number;
+  reactivated: number;
+  removed: number;
+  healthy: number;
+  errors: Array<{ context: string; error: string }>;
+}
+
+/**
+ * Verify ClickUp's X-Signature header: hex HMAC-SHA256 of the raw body,
+ * keyed with the webhook's secret.
+ */
+export function verifyClickUpSignature(
+  rawBody: Buffer | undefined,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!rawBody || !signature) return false;
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  try {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    if (a.length !== b.length) return false;
+    return crypto.timingSafeEqual(a, b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The public URL ClickUp should deliver to
+ */
+export function getWebhookEndpoint(): string | null {
+  const backendUrl = process.env.BACKEND_URL;
+  if (!backendUrl) return null;
+  return `${backendUrl.replace(/\/+$/, '')}/api/webhooks/clickup`;
+}
+
+export class ClickUpWebhookService {
+  private client: ClickUpClient;
+
+  constructor() {
+    const token = syncConfig.clickup.apiToken;
+    if (!token) {
+      throw new Error('CLICKUP_API_TOKEN environment variable is required');
+    }
+    this.client = new ClickUpClient(token);
+  }
+
+  /**
+   * Look up a registered webhook (for its signing secret)
+   */
+  async getStoredWebhook(webhookId: string): Promise<StoredWebhook | null> {
+    const { data, error } = await dbProxy.select<StoredWebhook[]>('pulse_clickup_webhooks', {
+      columns: 'webhook_id, contract_id, clickup_folder_id, endpoint, secret, status',
+      filters: { webhook_id: webhookId },
+      single: true
+    });
+
+    if (error) {
+      throw new Error(`Failed to load webhook ${webhookId}: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // Event handling
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Apply one webhook event to pulse_tasks / pulse_time_entries /
+   * pulse_task_status_history.
+   */
+  async handleEvent(payload: ClickUpWebhookPayload): Promise<WebhookEventResult> {
+    const taskId = payload.task_id || null;
+    const result: WebhookEventResult = { event: payload.event, task_id: taskId, outcome: 'applied' };
+
+    if (!taskId) {
+      return { ...result, outcome: 'ignored', reason: 'no_task_id' };
+    }
+
+    const syncService = new ClickUpCronSyncService();
+    const historyItem = payload.history_items?.[0];
+
+    switch (payload.event) {
+      case 'taskCreated':
+      case 'taskUpdated':
+      case 'taskStatusUpdated': {
+        const synced = await syncService.syncTask(taskId, {
+          changedAt: historyItem?.date ? new Date(parseInt(historyItem.date, 10)).toISOString() : null,
+          changedBy: historyItem?.user?.id?.toString() || null,
+          raw: historyItem || null,
+        });
+        if (synced.outcome === 'skipped') {
+          return { ...result, outcome: 'skipped', reason: synced.reason };
+        }
+        // Tasks pushed from meeting action items carry completion back to the note
+        if (synced.statusChanged) {
+          await syncActionItemCompletion([taskId]);
+        }
+        break;
+      }
+
+      case 'taskDeleted':
+        await syncService.markTaskDeleted(taskId);
+        break;
+
+      case 'taskTimeTracked':
+        await syncService.syncTaskTimeEntries(taskId);
+        break;
+
+      default:
+        return { ...result, outcome: 'ignored', reason: 'unhandled_event' };
+    }
+
+    await dbProxy.update('pulse_clickup_webhooks', {
+      last_event_at: new Date().toISOString()
+    }, { webhook_id: payload.webhook_id });
+
+    return result;
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // Registration & renewal
+  //
+  // ClickUp suspends a webhook after repeated delivery failures and never
+  // resumes it on its own, so this runs on a schedule:
+  //   - active contract folder with no webhook  -> create
+  //   - webhook whose health is not 'active'    -> re-enable
+  //   - webhook for a folder no longer synced   -> delete
+  // ══════════════════════════════════════════════════════════════
+
+  async registerFolderWebhooks(options: { dryRun?: boolean } = {}): Promise<WebhookRegistrationResult> {
+    const { dryRun = false } = options;
+    const endpoint = getWebhookEndpoint();
+    if (!endpoint) {
+      throw new Error('BACKEND_URL environment variable is required to register webhooks');
+    }
+
+    const teamId = syncConfig.clickup.teamId;
+    const result: WebhookRegistrationResult = {
+      dry_run: dryRun,
+      endpoint,
+      folders: 0,
+      created: 0,
+      reactivated: 0,
+      removed: 0,
+      healthy: 0,
+      errors: [],
+    };
+
+    const folders = await this.getActiveFolders();
+    result.folders = folders.length;
+    const folderIds = new Set(folders.map(f => f.clickup_folder_id));
+
+    // Only consider webhooks pointing at this backend — other integrations
+    // on the same workspace are left alone
+    const remote = (await fetchWithRetry(() => this.client.getWebhooks(teamId)))
+      .filter(w => w.endpoint === endpoint);
+    const remoteByFolder = new Map<string, ClickUpWebhook>();
+    for (const webhook of remote) {
+      if (webhook.folder_id) {
+        remoteByFolder.set(String(webhook.folder_id), webhook);
+      }
+    }
+
+    const { data: stored } = await dbProxy.select<StoredWebhook[]>('pulse_clickup_webhooks', {
+      columns: 'webhook_id, contract_id, clickup_folder_id, endpoint, secret, status'
+    });
+    const storedIds = new Set((stored || []).map(w => w.webhook_id));
+
+    // 1. Create or renew per active folder
+    for (const folder of folders) {
+      const webhook = remoteByFolder.get(folder.clickup_folder_id);
+
+      try {
+        // A webhook we have no secret for can't be verified — replace it
+        if (webhook && !storedIds.has(webhook.id)) {
+          if (!dryRun) {
+            await fetchWithRetry(() => this.client.deleteWebhook(webhook.id));
+          }
+          result.removed++;
+        } else if (webhook) {
+          const health = webhook.health?.status || 'active';
+          if (health !== 'active') {
+            if (!dryRun) {
+              await fetchWithRetry(() => this.client.updateWebhook(webhook.id, {
+                endpoint,
+                events: WEBHOOK_EVENTS,
+                status: 'active',
+              }));
+              await dbProxy.update('pulse_clickup_webhooks', {
+                status: 'active',
+                fail_count: 0,
+                last_checked_at: new Date().toISOString()
+              }, { webhook_id: webhook.id });
+            }
+            result.reactivated++;
+            console.log(`[ClickUp Webhooks] Re-enabled ${health} webhook ${webhook.id} for ${folder.contract_name}`);
+          } else {
+            if (!dryRun) {
+              await dbProxy.update('pulse_clickup_webhooks', {
+                status: 'active',
+                fail_count: webhook.health?.fail_count ?? 0,
+                last_checked_at: new Date().toISOString()
+              }, { webhook_id: webhook.id });
+            }
+            result.healthy++;
+          }
+          continue;
+        }
+
+        if (!dryRun) {
+          const created = await fetchWithRetry(() => this.client.createWebhook(teamId, {
+            endpoint,
+            events: WEBHOOK_EVENTS,
+            folder_id: folder.clickup_folder_id,
+          }));
+
+          const { error } = await dbProxy.upsert('pulse_clickup_webhooks', {
+            webhook_id: created.id,
+            contract_id: folder.contract_id,
+            clickup_folder_id: folder.clickup_folder_id,
+            endpoint,
+            events: JSON.stringify(WEBHOOK_EVENTS),
+            secret: created.webhook?.secret,
+            status: 'active',
+            fail_count: 0,
+            last_checked_at: new Date().toISOString()
+          }, { onConflict: 'webhook_id' });
+
+          if (error) {
+            throw new Error(`Created webhook ${created.id} but failed to store it: ${error.message}`);
+          }
+        }
+        result.created++;
+        console.log(`[ClickUp Webhooks] Registered webhook for ${folder.contract_name} (folder ${folder.clickup_folder_id})`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push({ context: `folder:${folder.clickup_folder_id}`, error: message });
+        console.error(`[ClickUp Webhooks] Failed to register webhook for folder ${folder.clickup_folder_id}:`, message);
+      }
+    }
+
+    // 2. Retire webhooks for folders that are no longer synced
+    for (const webhook of remote) {
+      const folderId = webhook.folder_id ? String(webhook.folder_id) : null;
+      if (folderId && folderIds.has(folderId)) continue;
+
+      try {
+        if (!dryRun) {
+          await fetchWithRetry(() => this.client.deleteWebhook(webhook.id));
+          await dbProxy.delete('pulse_clickup_webhooks', { webhook_id: webhook.id });
+        }
+        result.removed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push({ context: `webhook:${webhook.id}`, error: message });
+      }
+    }
+
+    // 3. Drop stored rows ClickUp no longer knows about
+    if (!dryRun) {
+      const remoteIds = new Set(remote.map(w => w.id));
+      for (const row of stored || []) {
+        if (!remoteIds.has(row.webhook_id)) {
+          await dbProxy.delete('pulse_clickup_webhooks', { webhook_id: row.webhook_id });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Active contract folders, with the same exclusions as the cron sync
+   */
+  private async getActiveFolders(): Promise<ActiveFolder[]> {
+    const { data, error } = await dbProxy.select<ActiveFolder[]>('contracts', {
+      columns: 'contract_id, clickup_folder_id, contract_name',
+      filters: { contract_status: 'active' }
+    });
+
+    if (error) {
+      throw new Error(`Failed to load contract folders: ${error.message}`);
+    }
+
+    const seen = new Set<string>();
+    return (data || []).filter(folder => {
+      if (!folder.clickup_folder_id || seen.has(folder.clickup_folder_id)) return false;
+      if (syncConfig.clickup.blacklistedLists.byId.includes(folder.clickup_folder_id)) return false;
+      if (folder.contract_name && shouldSkipFolder(folder.contract_name)) return false;
+      seen.add(folder.clickup_folder_id);
+      return true;
+    });
+  }
+}
+
+export default ClickUpWebhookService;
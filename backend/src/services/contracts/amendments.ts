@@ -0,0 +1,144 @@
+/**
+ * Contract Amendments
+ *
+ * Change-order history for a contract's commercial terms. The contract row
+ * always holds the terms in effect today; contract_amendments keeps what they
+ * were before, so MRR and allotment can be computed as of any date
+ * (contract_terms_as_of / contract_points_summary_as_of, migration 023).
+ *
+ * Amendments effective today or earlier are applied to the contract row when
+ * they're created. Future-dated ones are stored pending (applied_at NULL) and
+ * applied by the contract-lifecycle cron once their effective date arrives.
+ */
+
+import { select, insert, update, rpc } from '../../utils/edge-functions.js';
+import { recordContractEvent } from './events.js';
+import type {
+  AmendmentType,
+  ContractAmendment,
+  ContractFieldChanges,
+  ContractTermsAsOf,
+} from '../../types/contracts.js';
+
+// Fields whose changes are kept as amendments
+export const AMENDABLE_CONTRACT_FIELDS = [
+  'amount',
+  'monthly_points_allotment',
+  'dollar_per_hour',
+  'contract_start_date',
+  'contract_end_date',
+  'contract_renewal_date',
+  'initial_term_length',
+  'subsequent_term_length',
+  'notice_period',
+] as const;
+
+export interface AmendmentsApplyResult {
+  applied: number;
+  errors: Array<{ contract_id: string; error: string }>;
+}
+
+export async function createAmendment(amendment: {
+  contract_id: string;
+  effective_date: string;
+  amendment_type?: AmendmentType;
+  reason?: string | null;
+  changes: ContractFieldChanges;
+  applied: boolean;
+  created_by?: string | null;
+}): Promise<ContractAmendment> {
+  const rows = await insert<ContractAmendment[]>('contract_amendments', {
+    contract_id: amendment.contract_id,
+    effective_date: amendment.effective_date,
+    amendment_type: amendment.amendment_type || 'change_order',
+    reason: amendment.reason ?? null,
+    changes: amendment.changes,
+    applied_at: amendment.applied ? new Date().toISOString() : null,
+    created_by: amendment.created_by ?? null,
+  }, { select: '*' });
+
+  return rows[0];
+}
+
+/**
+ * Apply pending amendments whose effective date has arrived. Pending
+ * amendments are applied oldest first so later ones win.
+ */
+export async function applyDueAmendments(
+  today: string,
+  options: { dryRun?: boolean } = {}
+): Promise<AmendmentsApplyResult> {
+  const { dryRun = false } = options;
+  const result: AmendmentsApplyResult = { applied: 0, errors: [] };
+
+  const pending = await select<ContractAmendment[]>('contract_amendments', {
+    select: 'amendment_id, contract_id, effective_date, amendment_type, reason, changes',
+    filters: { applied_at: { is: null }, effective_date: { lte: today } },
+    order: [
+      { column: 'effective_date', ascending: true },
+      { column: 'created_at', ascending: true },
+    ],
+  });
+
+  for (const amendment of pending || []) {
+    try {
+      const updates: Record<string, unknown> = {};
+      for (const [field, change] of Object.entries(amendment.changes || {})) {
+        updates[field] = change.to;
+      }
+
+      if (!dryRun) {
+        if (Object.keys(updates).length > 0) {
+          await update('contracts', updates, { contract_id: amendment.contract_id });
+        }
+        await update('contract_amendments', { applied_at: new Date().toISOString() }, {
+          amendment_id: amendment.amendment_id,
+        });
+        await recordContractEvent({
+          contract_id: amendment.contract_id,
+          event_type: 'amended',
+          source: 'lifecycle',
+          reason: amendment.reason || `Amendment effective ${amendment.effective_date} applied`,
+          changes: amendment.changes,
+          metadata: { amendment_id: amendment.amendment_id, amendment_type: amendment.amendment_type },
+        });
+      }
+      result.applied++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push({
+        contract_id: amendment.contract_id,
+        error: `Amendment ${amendment.amendment_id}: ${message}`,
+      });
+      console.error(`[Contract Amendments] Failed to apply ${amendment.amendment_id}:`, message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * amount / monthly_points_allotment / dollar_per_hour in effect on a date,
+ * keyed by contract_id. Omit contractIds for all contracts.
+ */
+export async function getContractTermsAsOf(
+  asOf: string,
+  contractIds?: string[]
+): Promise<Map<string, ContractTermsAsOf>> {
+  const rows = await rpc<ContractTermsAsOf[]>('contract_terms_as_of', {
+    p_as_of: asOf,
+    p_contract_ids: contractIds && contractIds.length > 0 ? contractIds : null,
+  });
+
+  const terms = new Map<string, ContractTermsAsOf>();
+  for (const row of rows || []) {
+    terms.set(row.contract_id, {
+      contract_id: row.contract_id,
+      amount: row.amount !== null ? Number(row.amount) : null,
+      monthly_points_allotment:
+        row.monthly_points_allotment !== null ? Number(row.monthly_points_allotment) : null,
+      dollar_per_hour: row.dollar_per_hour !== null ? Number(row.dollar_per_hour) : null,
+    });
+  }
+  return terms;
+}
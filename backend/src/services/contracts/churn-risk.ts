@@ -0,0 +1,467 @@
+/**
+ * Churn-Risk Detector
+ *
+ * Daily scan of active, non-hosting contracts for early-warning signals:
+ *   - negative_sentiment:      the last N scored meetings were all negative
+ *   - negative_points_balance: points_balance below zero (contract_points_summary)
+ *   - no_delivery:             no delivered tasks for N weeks
+ *   - missed_payments:         open invoices past due beyond the grace period
+ *   - notice_window:           notice deadline (auto-renewing) or end date
+ *                              (non-renewing) is coming up
+ *
+ * Signal state lives in contract_risk_signals. New or changed signals are
+ * collected per account manager and sent as one Slack DM each (fallback:
+ * CHURN_RISK_SLACK_CHANNEL); a signal whose fingerprint hasn't changed since
+ * its last alert is not repeated.
+ */
+
+import { select, selectAll, insert, update } from '../../utils/edge-functions.js';
+import { postSlackMessage, lookupSlackUserIdByEmail } from '../slack/client.js';
+import { churnRiskConfig } from '../../config/churn-risk.js';
+import { computeTermEnd, computeNoticeDeadline } from './lifecycle.js';
+import type { Contract } from '../../types/contracts.js';
+import type { ContractRiskSignal, DetectedRiskSignal, RiskSignalType } from '../../types/churn-risk.js';
+import { addDays, daysBetween } from '../../utils/dates.js';
+import { round2 } from '../../utils/numbers.js';
+
+type RiskContract = Pick<
+  Contract,
+  | 'contract_id'
+  | 'contract_name'
+  | 'external_id'
+  | 'contract_status'
+  | 'contract_start_date'
+  | 'contract_end_date'
+  | 'contract_renewal_date'
+  | 'initial_term_length'
+  | 'subsequent_term_length'
+  | 'notice_period'
+  | 'autorenewal'
+  | 'slack_channel_internal'
+  | 'account_manager'
+  | 'monthly_points_allotment'
+>;
+
+interface MeetingRow {
+  meeting_id: string;
+  contract_id: string;
+  meeting_date: string;
+  title: string | null;
+  sentiment: { label?: string } | null;
+}
+
+interface InvoiceRow {
+  invoice_id: string;
+  contract_id: string;
+  doc_number: string | null;
+  balance: number | null;
+  due_date: string;
+}
+
+interface ManagerRow {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  email: string | null;
+}
+
+export interface ChurnRiskResult {
+  dry_run: boolean;
+  contracts: number;
+  signals_active: number;
+  signals_new_or_changed: number;
+  signals_resolved: number;
+  alerts_sent: number;
+  alerts: Array<{ account_manager: string | null; channel: string | null; contracts: number; signals: number }>;
+  errors: Array<{ contract_id?: string; error: string }>;
+}
+
+const SIGNAL_LABELS: Record<RiskSignalType, string> = {
+  negative_sentiment: 'Negative sentiment',
+  negative_points_balance: 'Negative points balance',
+  no_delivery: 'No deliveries',
+  missed_payments: 'Missed payments',
+  notice_window: 'Notice period opening',
+};
+
+export async function runChurnRiskDetection(options: { dryRun?: boolean } = {}): Promise<ChurnRiskResult> {
+  const { dryRun = false } = options;
+  const today = new Date().toISOString().slice(0, 10);
+  const now = new Date().toISOString();
+
+  const result: ChurnRiskResult = {
+    dry_run: dryRun,
+    contracts: 0,
+    signals_active: 0,
+    signals_new_or_changed: 0,
+    signals_resolved: 0,
+    alerts_sent: 0,
+    alerts: [],
+    errors: [],
+  };
+
+  const contracts = await select<RiskContract[]>('contracts', {
+    select:
+      'contract_id, contract_name, external_id, contract_status, contract_start_date, contract_end_date, ' +
+      'contract_renewal_date, initial_term_length, subsequent_term_length, notice_period, autorenewal, ' +
+      'slack_channel_internal, account_manager, monthly_points_allotment',
+    filters: { contract_status: 'active', hosting: false },
+  }) || [];
+  result.contracts = contracts.length;
+
+  // 1. Detect
+  const detected = contracts.length > 0 ? await detectSignals(contracts, today) : [];
+  result.signals_active = detected.length;
+
+  // 2. Reconcile with stored state: every signal of the contracts checked,
+  // plus open signals of contracts no longer active (cancelled, paused), so
+  // those get resolved too
+  const [forContracts, open] = await Promise.all([
+    contracts.length > 0
+      ? selectAll<ContractRiskSignal>('contract_risk_signals', 'signal_id', {
+          filters: { contract_id: { in: contracts.map((c) => c.contract_id) } },
+        })
+      : Promise.resolve([] as ContractRiskSignal[]),
+    selectAll<ContractRiskSignal>('contract_risk_signals', 'signal_id', {
+      filters: { status: 'active' },
+    }),
+  ]);
+  const stored = Array.from(new Map([...forContracts, ...open].map((s) => [s.signal_id, s])).values());
+  const storedByKey = new Map(stored.map((s) => [signalKey(s.contract_id, s.signal_type), s]));
+  const detectedKeys = new Set(detected.map((d) => signalKey(d.contract_id, d.signal_type)));
+
+  const toAlert: Array<{ signal: DetectedRiskSignal; signalId: string | null }> = [];
+
+  for (const signal of detected) {
+    const existing = storedByKey.get(signalKey(signal.contract_id, signal.signal_type));
+    const needsAlert = !existing || existing.status !== 'active' || existing.alerted_fingerprint !== signal.fingerprint;
+    if (needsAlert) result.signals_new_or_changed++;
+
+    if (dryRun) {
+      if (needsAlert) toAlert.push({ signal, signalId: existing?.signal_id ?? null });
+      continue;
+    }
+
+    try {
+      let signalId: string;
+      if (existing) {
+        const reopened = existing.status !== 'active';
+        await update('contract_risk_signals', {
+          status: 'active',
+          fingerprint: signal.fingerprint,
+          summary: signal.summary,
+          details: signal.details,
+          last_detected_at: now,
+          resolved_at: null,
+          ...(reopened ? { first_detected_at: now, alerted_fingerprint: null } : {}),
+        }, { signal_id: existing.signal_id });
+        signalId = existing.signal_id;
+      } else {
+        const rows = await insert<ContractRiskSignal[]>('contract_risk_signals', {
+          contract_id: signal.contract_id,
+          signal_type: signal.signal_type,
+          fingerprint: signal.fingerprint,
+          summary: signal.summary,
+          details: signal.details,
+        }, { select: 'signal_id' });
+        signalId = rows[0].signal_id;
+      }
+      if (needsAlert) toAlert.push({ signal, signalId });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      result.errors.push({ contract_id: signal.contract_id, error: message });
+    }
+  }
+
+  for (const existing of stored) {
+    if (existing.status !== 'active') continue;
+    if (detectedKeys.has(signalKey(existing.contract_id, existing.signal_type))) continue;
+
+    result.signals_resolved++;
+    if (dryRun) continue;
+    try {
+      await update('contract_risk_signals', {
+        status: 'resolved',
+        resolved_at: now,
+        alerted_fingerprint: null,
+      }, { signal_id: existing.signal_id });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      result.errors.push({ contract_id: existing.contract_id, error: message });
+    }
+  }
+
+  if (toAlert.length === 0) return result;
+
+  // 3. One consolidated alert per account manager
+  const contractsById = new Map(contracts.map((c) => [c.contract_id, c]));
+  const byManager = new Map<string | null, typeof toAlert>();
+  for (const item of toAlert) {
+    const manager = contractsById.get(item.signal.contract_id)?.account_manager ?? null;
+    const list = byManager.get(manager);
+    if (list) list.push(item);
+    else byManager.set(manager, [item]);
+  }
+
+  const managerIds = Array.from(byManager.keys()).filter((id): id is string => !!id);
+  const managers = managerIds.length > 0
+    ? await select<ManagerRow[]>('pulse_clickup_users', {
+        select: 'id,full_name,username,email',
+        filters: { id: { in: managerIds } },
+      })
+    : [];
+  const managersById = new Map((managers || []).map((m) => [m.id, m]));
+
+  for (const [managerId, items] of byManager) {
+    const manager = managerId ? managersById.get(managerId) ?? null : null;
+    const managerName = manager?.full_name || manager?.username || null;
+    const text = buildAlertText(managerName, items.map((i) => i.signal), contractsById);
+    const contractCount = new Set(items.map((i) => i.signal.contract_id)).size;
+
+    if (dryRun) {
+      result.alerts.push({ account_manager: managerName, channel: null, contracts: contractCount, signals: items.length });
+      continue;
+    }
+
+    const channel = await postAlert(manager, managerName, text);
+    result.alerts.push({ account_manager: managerName, channel, contracts: contractCount, signals: items.length });
+    if (!channel) {
+      result.errors.push({ error: `Failed to deliver churn-risk alert for ${managerName || 'unassigned contracts'}` });
+      continue;
+    }
+
+    result.alerts_sent++;
+    for (const { signal, signalId } of items) {
+      if (!signalId) continue;
+      try {
+        await update('contract_risk_signals', {
+          alerted_fingerprint: signal.fingerprint,
+          last_alerted_at: now,
+          alert_channel: channel,
+        }, { signal_id: signalId });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        result.errors.push({ contract_id: signal.contract_id, error: message });
+      }
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+async function detectSignals(contracts: RiskContract[], today: string): Promise<DetectedRiskSignal[]> {
+  const ids = contracts.map((c) => c.contract_id);
+  const deliverySince = addDays(today, -churnRiskConfig.noDeliveryWeeks * 7);
+
+  const [meetings, points, deliveredTasks, overdueInvoices] = await Promise.all([
+    selectAll<MeetingRow>('compass_meetings', 'meeting_id', {
+      select: 'meeting_id,contract_id,meeting_date,title,sentiment',
+      filters: {
+        contract_id: { in: ids },
+        meeting_date: { gte: addDays(today, -churnRiskConfig.sentimentLookbackDays) },
+      },
+    }),
+    select<Array<{ contract_id: string; points_balance: number | null }>>('contract_points_summary', {
+      select: 'contract_id,points_balance',
+      filters: { contract_id: { in: ids } },
+    }),
+    selectAll<{ task_id: string; contract_id: string }>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id',
+      filters: {
+        contract_id: { in: ids },
+        status: 'delivered',
+        is_deleted: false,
+        date_done: { gte: deliverySince },
+      },
+    }),
+    selectAll<InvoiceRow>('pulse_invoices', 'invoice_id', {
+      select: 'invoice_id,contract_id,doc_number,balance,due_date',
+      filters: {
+        contract_id: { in: ids },
+        status: 'open',
+        is_deleted: false,
+        balance: { gt: 0 },
+        due_date: { lt: addDays(today, -churnRiskConfig.paymentGraceDays) },
+      },
+    }),
+  ]);
+
+  const meetingsByContract = groupBy(meetings, (m) => m.contract_id);
+  const balanceByContract = new Map((points || []).map((p) => [p.contract_id, p.points_balance]));
+  const deliveredContracts = new Set(deliveredTasks.map((t) => t.contract_id));
+  const invoicesByContract = groupBy(overdueInvoices, (i) => i.contract_id);
+
+  const signals: DetectedRiskSignal[] = [];
+
+  for (const contract of contracts) {
+    const id = contract.contract_id;
+
+    // Sustained negative sentiment
+    const scored = (meetingsByContract.get(id) || [])
+      .filter((m) => m.sentiment?.label)
+      .sort((a, b) => b.meeting_date.localeCompare(a.meeting_date));
+    const lastN = scored.slice(0, churnRiskConfig.negativeSentimentMeetings);
+    if (lastN.length === churnRiskConfig.negativeSentimentMeetings && lastN.every((m) => m.sentiment!.label === 'negative')) {
+      signals.push({
+        contract_id: id,
+        signal_type: 'negative_sentiment',
+        fingerprint: lastN[0].meeting_id,
+        summary: `Last ${lastN.length} meetings negative (latest ${lastN[0].meeting_date.slice(0, 10)}${lastN[0].title ? `: ${lastN[0].title}` : ''})`,
+        details: { meeting_ids: lastN.map((m) => m.meeting_id) },
+      });
+    }
+
+    // Points balance below zero; re-alert each time it drops another month's allotment
+    const balance = balanceByContract.get(id);
+    if (balance !== undefined && balance !== null && Number(balance) < 0) {
+      const allotment = Number(contract.monthly_points_allotment) || 0;
+      const monthsOver = allotment > 0 ? Math.ceil(-Number(balance) / allotment) : 1;
+      signals.push({
+        contract_id: id,
+        signal_type: 'negative_points_balance',
+        fingerprint: `months_over:${monthsOver}`,
+        summary: `Points balance ${Number(balance)}${allotment > 0 ? ` (${monthsOver} month(s) of allotment)` : ''}`,
+        details: { points_balance: Number(balance), monthly_points_allotment: allotment || null },
+      });
+    }
+
+    // No deliveries for N weeks (contracts older than the window only)
+    if (contract.contract_start_date && contract.contract_start_date.slice(0, 10) <= deliverySince && !deliveredContracts.has(id)) {
+      signals.push({
+        contract_id: id,
+        signal_type: 'no_delivery',
+        fingerprint: 'no_delivery',
+        summary: `No tasks delivered in ${churnRiskConfig.noDeliveryWeeks} weeks`,
+        details: { weeks: churnRiskConfig.noDeliveryWeeks, since: deliverySince },
+      });
+    }
+
+    // Missed payments; a newly overdue invoice changes the fingerprint
+    const overdue = invoicesByContract.get(id) || [];
+    if (overdue.length > 0) {
+      const total = overdue.reduce((sum, i) => sum + (Number(i.balance) || 0), 0);
+      const oldestDays = Math.max(...overdue.map((i) => daysBetween(i.due_date.slice(0, 10), today)));
+      signals.push({
+        contract_id: id,
+        signal_type: 'missed_payments',
+        fingerprint: overdue.map((i) => i.invoice_id).sort().join(','),
+        summary: `${overdue.length} invoice(s) overdue, $${total.toFixed(2)} outstanding (oldest ${oldestDays} days past due)`,
+        details: {
+          invoices: overdue.map((i) => ({ doc_number: i.doc_number, balance: Number(i.balance), due_date: i.due_date })),
+          total_overdue: round2(total),
+        },
+      });
+    }
+
+    // Notice period opening
+    const targetDate = contract.autorenewal ? computeNoticeDeadline(contract) : computeTermEnd(contract);
+    if (targetDate) {
+      const daysLeft = daysBetween(today, targetDate);
+      if (daysLeft >= 0 && daysLeft <= churnRiskConfig.noticeWindowDays) {
+        signals.push({
+          contract_id: id,
+          signal_type: 'notice_window',
+          fingerprint: targetDate,
+          summary: contract.autorenewal
+            ? `Notice deadline ${targetDate} (${daysLeft} days) — client can cancel before renewal`
+            : `Contract ends ${targetDate} (${daysLeft} days) and does not auto-renew`,
+          details: { target_date: targetDate, days_left: daysLeft, autorenewal: !!contract.autorenewal },
+        });
+      }
+    }
+  }
+
+  return signals;
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+function buildAlertText(
+  managerName: string | null,
+  signals: DetectedRiskSignal[],
+  contractsById: Map<string, RiskContract>
+): string {
+  const byContract = groupBy(signals, (s) => s.contract_id);
+
+  const lines: string[] = [];
+  lines.push(`:warning: *Churn-risk signals${managerName ? ` for ${managerName}` : ' (no account manager)'}*`);
+  lines.push(`_${byContract.size} contract(s) with new or changed signals_`);
+
+  for (const [contractId, contractSignals] of byContract) {
+    const contract = contractsById.get(contractId);
+    lines.push('');
+    lines.push(`*${contract?.contract_name ?? contractId}*${contract?.external_id ? ` (${contract.external_id})` : ''}`);
+    for (const signal of contractSignals) {
+      lines.push(`• *${SIGNAL_LABELS[signal.signal_type]}:* ${signal.summary}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * DM the account manager (matched to Slack by email); fall back to
+ * CHURN_RISK_SLACK_CHANNEL. Returns the Slack user / channel used, or null.
+ */
+async function postAlert(manager: ManagerRow | null, managerName: string | null, text: string): Promise<string | null> {
+  let reason = manager ? 'account manager has no email in ClickUp' : 'contracts have no account manager';
+
+  if (manager?.email) {
+    try {
+      const slackUserId = await lookupSlackUserIdByEmail(manager.email);
+      if (slackUserId) {
+        const result = await postSlackMessage({ channel: slackUserId, text });
+        if (result.ok) return slackUserId;
+        reason = `DM failed: ${result.error}`;
+      } else {
+        reason = `no Slack user for ${manager.email}`;
+      }
+    } catch (err) {
+      reason = `DM threw: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    console.warn(`[Churn Risk] Could not DM ${managerName}: ${reason}`);
+  }
+
+  const fallback = churnRiskConfig.fallbackSlackChannel;
+  if (!fallback) {
+    console.error('[Churn Risk] No CHURN_RISK_SLACK_CHANNEL configured — cannot post alert');
+    return null;
+  }
+
+  try {
+    const result = await postSlackMessage({
+      channel: fallback,
+      text: `${text}\n\n_(posted here because ${reason})_`,
+    });
+    if (result.ok) return fallback;
+    console.error(`[Churn Risk] Fallback channel post failed: ${result.error}`);
+  } catch (err) {
+    console.error('[Churn Risk] Fallback channel post threw:', err);
+  }
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function signalKey(contractId: string, signalType: string): string {
+  return `${contractId}:${signalType}`;
+}
+
+function groupBy<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const list = groups.get(key);
+    if (list) list.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
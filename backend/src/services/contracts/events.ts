@@ -0,0 +1,67 @@
+/**
+ * Contract Event Log
+ *
+ * Helpers for contract_events: the audit trail of status and term-date
+ * changes, whether made by the lifecycle cron, an applied amendment or a
+ * user edit.
+ */
+
+import { insert } from '../../utils/edge-functions.js';
+import type {
+  ContractEventSource,
+  ContractEventType,
+  ContractFieldChanges,
+} from '../../types/contracts.js';
+
+// Term and date fields whose changes are recorded in contract_events
+export const TRACKED_CONTRACT_FIELDS = [
+  'contract_status',
+  'contract_start_date',
+  'contract_end_date',
+  'contract_renewal_date',
+  'initial_term_length',
+  'subsequent_term_length',
+  'notice_period',
+  'autorenewal',
+] as const;
+
+/**
+ * Diff fields (tracked fields by default) between the stored contract and an
+ * update payload. Fields absent from the payload are not compared.
+ */
+export function diffContractFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[] = TRACKED_CONTRACT_FIELDS
+): ContractFieldChanges {
+  const changes: ContractFieldChanges = {};
+  for (const field of fields) {
+    if (!(field in after)) continue;
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+export async function recordContractEvent(event: {
+  contract_id: string;
+  event_type: ContractEventType;
+  source: ContractEventSource;
+  reason?: string | null;
+  changes?: ContractFieldChanges | null;
+  metadata?: Record<string, unknown> | null;
+  created_by?: string | null;
+}): Promise<void> {
+  await insert('contract_events', {
+    contract_id: event.contract_id,
+    event_type: event.event_type,
+    source: event.source,
+    reason: event.reason ?? null,
+    changes: event.changes ?? null,
+    metadata: event.metadata ?? null,
+    created_by: event.created_by ?? null,
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Contract Portfolio Export
+ *
+ * One row per contract with its terms, the contract_points_summary balances
+ * and QuickBooks totals (invoices, credit memos, payments) joined in, for
+ * GET /api/contracts/export. Callers pick columns from EXPORT_COLUMNS; the
+ * route handles role filtering and passes the contract ids a client may see.
+ *
+ * Points columns are empty for hosting and non-active contracts, which the
+ * materialized view doesn't cover.
+ */
+
+import { select, selectAll } from '../../utils/edge-functions.js';
+import { round2 } from '../../utils/numbers.js';
+import type { ContractStatus } from '../../types/contracts.js';
+
+export type ExportColumnGroup = 'contract' | 'points' | 'financial';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  group: ExportColumnGroup;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  // Contract
+  { key: 'contract_id', label: 'Contract ID', group: 'contract' },
+  { key: 'external_id', label: 'External ID', group: 'contract' },
+  { key: 'contract_name', label: 'Contract Name', group: 'contract' },
+  { key: 'account_name', label: 'Account', group: 'contract' },
+  { key: 'contract_status', label: 'Status', group: 'contract' },
+  { key: 'contract_type', label: 'Type', group: 'contract' },
+  { key: 'engagement_type', label: 'Engagement', group: 'contract' },
+  { key: 'priority', label: 'Priority', group: 'contract' },
+  { key: 'payment_type', label: 'Payment Type', group: 'contract' },
+  { key: 'hosting', label: 'Hosting', group: 'contract' },
+  { key: 'amount', label: 'MRR', group: 'contract' },
+  { key: 'monthly_points_allotment', label: 'Monthly Points', group: 'contract' },
+  { key: 'dollar_per_hour', label: '$/Hour', group: 'contract' },
+  { key: 'contract_start_date', label: 'Start Date', group: 'contract' },
+  { key: 'contract_end_date', label: 'End Date', group: 'contract' },
+  { key: 'contract_renewal_date', label: 'Renewal Date', group: 'contract' },
+  { key: 'next_invoice_date', label: 'Next Invoice Date', group: 'contract' },
+  { key: 'initial_term_length', label: 'Initial Term (days)', group: 'contract' },
+  { key: 'subsequent_term_length', label: 'Renewal Term (days)', group: 'contract' },
+  { key: 'notice_period', label: 'Notice Period (days)', group: 'contract' },
+  { key: 'autorenewal', label: 'Auto-renews', group: 'contract' },
+  { key: 'account_manager_name', label: 'Account Manager', group: 'contract' },
+  { key: 'team_manager_name', label: 'Team Manager', group: 'contract' },
+  { key: 'quickbooks_customer_id', label: 'QuickBooks Customer ID', group: 'contract' },
+  // Points (contract_points_summary)
+  { key: 'points_purchased', label: 'Points Purchased', group: 'points' },
+  { key: 'points_credited', label: 'Points Credited', group: 'points' },
+  { key: 'points_delivered', label: 'Points Delivered', group: 'points' },
+  { key: 'points_working', label: 'Points Working', group: 'points' },
+  { key: 'points_balance', label: 'Points Balance', group: 'points' },
+  { key: 'points_burden', label: 'Points Burden', group: 'points' },
+  // Financial (QuickBooks)
+  { key: 'invoice_count', label: 'Invoices', group: 'financial' },
+  { key: 'invoiced_total', label: 'Invoiced Total', group: 'financial' },
+  { key: 'open_balance', label: 'Open Balance', group: 'financial' },
+  { key: 'last_invoice_date', label: 'Last Invoice Date', group: 'financial' },
+  { key: 'credits_total', label: 'Credit Memos Total', group: 'financial' },
+  { key: 'payments_total', label: 'Payments Total', group: 'financial' },
+  { key: 'last_payment_date', label: 'Last Payment Date', group: 'financial' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'external_id',
+  'contract_name',
+  'account_name',
+  'contract_status',
+  'contract_type',
+  'amount',
+  'monthly_points_allotment',
+  'contract_start_date',
+  'contract_end_date',
+  'account_manager_name',
+  'points_purchased',
+  'points_delivered',
+  'points_balance',
+  'invoiced_total',
+  'open_balance',
+  'payments_total',
+  'last_payment_date',
+];
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+export interface ContractExportOptions {
+  columns: string[];
+  contractIds?: string[];        // restrict to these (client access); undefined = all
+  status?: ContractStatus;
+}
+
+interface ContractRow {
+  contract_id: string;
+  external_id: string | null;
+  contract_name: string;
+  contract_status: string;
+  contract_type: string;
+  engagement_type: string | null;
+  priority: string | null;
+  payment_type: string | null;
+  hosting: boolean | null;
+  amount: number | null;
+  monthly_points_allotment: number | null;
+  dollar_per_hour: number | null;
+  contract_start_date: string | null;
+  contract_end_date: string | null;
+  contract_renewal_date: string | null;
+  next_invoice_date: string | null;
+  initial_term_length: number | null;
+  subsequent_term_length: number | null;
+  notice_period: number | null;
+  autorenewal: boolean | null;
+  account_manager: string | null;
+  team_manager: string | null;
+  quickbooks_customer_id: string | null;
+  account: { name: string } | null;
+}
+
+interface PointsSummaryRow {
+  contract_id: string;
+  points_purchased: number | null;
+  points_credited: number | null;
+  points_delivered: number | null;
+  points_working: number | null;
+  points_balance: number | null;
+  points_burden: number | null;
+}
+
+interface FinancialTotals {
+  invoice_count: number;
+  invoiced_total: number;
+  open_balance: number;
+  last_invoice_date: string | null;
+  credits_total: number;
+  payments_total: number;
+  last_payment_date: string | null;
+}
+
+const CONTRACT_SELECT = [
+  'contract_id', 'external_id', 'contract_name', 'contract_status', 'contract_type',
+  'engagement_type', 'priority', 'payment_type', 'hosting', 'amount',
+  'monthly_points_allotment', 'dollar_per_hour', 'contract_start_date', 'contract_end_date',
+  'contract_renewal_date', 'next_invoice_date', 'initial_term_length', 'subsequent_term_length',
+  'notice_period', 'autorenewal', 'account_manager', 'team_manager', 'quickbooks_customer_id',
+  'account:accounts(name)',
+].join(',');
+
+/**
+ * Returns the unknown keys in a requested column list
+ */
+export function findUnknownExportColumns(columns: string[]): string[] {
+  const known = new Set(EXPORT_COLUMNS.map((c) => c.key));
+  return columns.filter((c) => !known.has(c));
+}
+
+/**
+ * Build the export rows, keyed by column key, in contract_name order
+ */
+export async function buildContractExport(options: ContractExportOptions): Promise<ExportRow[]> {
+  const { columns, contractIds, status } = options;
+
+  if (contractIds && contractIds.length === 0) return [];
+
+  const filters: Record<string, unknown> = {};
+  if (contractIds) filters.contract_id = { in: contractIds };
+  if (status) filters.contract_status = status;
+
+  const contracts = await select<ContractRow[]>('contracts', {
+    select: CONTRACT_SELECT,
+    filters,
+    order: [{ column: 'contract_name', ascending: true }],
+  });
+  if (!contracts || contracts.length === 0) return [];
+
+  const ids = contracts.map((c) => c.contract_id);
+  const groups = new Set(
+    EXPORT_COLUMNS.filter((c) => columns.includes(c.key)).map((c) => c.group)
+  );
+
+  // Only fetch what the selected columns need
+  const [managers, points, financials] = await Promise.all([
+    columns.includes('account_manager_name') || columns.includes('team_manager_name')
+      ? fetchManagerNames(contracts)
+      : Promise.resolve(new Map<string, string>()),
+    groups.has('points') ? fetchPointsSummaries(ids) : Promise.resolve(new Map<string, PointsSummaryRow>()),
+    groups.has('financial') ? fetchFinancialTotals(ids) : Promise.resolve(new Map<string, FinancialTotals>()),
+  ]);
+
+  return contracts.map((contract) => {
+    const { account, account_manager, team_manager, ...fields } = contract;
+    const pointsRow = points.get(contract.contract_id);
+    const totals = financials.get(contract.contract_id) || emptyTotals();
+
+    const full: ExportRow = {
+      ...fields,
+      account_name: account?.name ?? null,
+      account_manager_name: account_manager ? managers.get(account_manager) ?? null : null,
+      team_manager_name: team_manager ? managers.get(team_manager) ?? null : null,
+      points_purchased: pointsRow?.points_purchased ?? null,
+      points_credited: pointsRow?.points_credited ?? null,
+      points_delivered: pointsRow?.points_delivered ?? null,
+      points_working: pointsRow?.points_working ?? null,
+      points_balance: pointsRow?.points_balance ?? null,
+      points_burden: pointsRow?.points_burden ?? null,
+      ...totals,
+    };
+
+    const row: ExportRow = {};
+    for (const key of columns) row[key] = full[key] ?? null;
+    return row;
+  });
+}
+
+/**
+ * Header labels for a column list
+ */
+export function exportColumnLabels(columns: string[]): string[] {
+  const labels = new Map(EXPORT_COLUMNS.map((c) => [c.key, c.label]));
+  return columns.map((key) => labels.get(key) || key);
+}
+
+// ============================================================================
+// Data fetching
+// ============================================================================
+
+async function fetchManagerNames(contracts: ContractRow[]): Promise<Map<string, string>> {
+  const managerIds = new Set<string>();
+  for (const c of contracts) {
+    if (c.account_manager) managerIds.add(c.account_manager);
+    if (c.team_manager) managerIds.add(c.team_manager);
+  }
+
+  const names = new Map<string, string>();
+  if (managerIds.size === 0) return names;
+
+  const users = await select<Array<{ id: string; full_name: string | null; username: string | null }>>(
+    'pulse_clickup_users',
+    {
+      select: 'id,full_name,username',
+      filters: { id: { in: Array.from(managerIds) } },
+    }
+  );
+  for (const u of users || []) {
+    const name = u.full_name || u.username;
+    if (name) names.set(u.id, name);
+  }
+  return names;
+}
+
+async function fetchPointsSummaries(contractIds: string[]): Promise<Map<string, PointsSummaryRow>> {
+  const rows = await select<PointsSummaryRow[]>('contract_points_summary', {
+    select: 'contract_id,points_purchased,points_credited,points_delivered,points_working,points_balance,points_burden',
+    filters: { contract_id: { in: contractIds } },
+  });
+  return new Map((rows || []).map((r) => [r.contract_id, r]));
+}
+
+async function fetchFinancialTotals(contractIds: string[]): Promise<Map<string, FinancialTotals>> {
+  const filters = { contract_id: { in: contractIds }, is_deleted: false };
+  const [invoices, credits, payments] = await Promise.all([
+    selectAll<{ contract_id: string; amount: number | null; balance: number | null; transaction_date: string | null; status: string | null }>(
+      'pulse_invoices',
+      'invoice_id',
+      { select: 'invoice_id,contract_id,amount,balance,transaction_date,status', filters }
+    ),
+    selectAll<{ contract_id: string; amount: number | null }>(
+      'pulse_credit_memos',
+      'credit_memo_id',
+      { select: 'credit_memo_id,contract_id,amount', filters }
+    ),
+    selectAll<{ contract_id: string; amount: number | null; payment_date: string | null }>(
+      'pulse_payments',
+      'payment_id',
+      { select: 'payment_id,contract_id,amount,payment_date', filters }
+    ),
+  ]);
+
+  const totals = new Map<string, FinancialTotals>();
+  const totalsFor = (contractId: string): FinancialTotals => {
+    let t = totals.get(contractId);
+    if (!t) {
+      t = emptyTotals();
+      totals.set(contractId, t);
+    }
+    return t;
+  };
+
+  for (const inv of invoices) {
+    if (inv.status === 'void') continue;
+    const t = totalsFor(inv.contract_id);
+    t.invoice_count++;
+    t.invoiced_total += Number(inv.amount) || 0;
+    t.open_balance += Number(inv.balance) || 0;
+    if (inv.transaction_date && (!t.last_invoice_date || inv.transaction_date > t.last_invoice_date)) {
+      t.last_invoice_date = inv.transaction_date;
+    }
+  }
+
+  for (const cm of credits) {
+    totalsFor(cm.contract_id).credits_total += Number(cm.amount) || 0;
+  }
+
+  for (const p of payments) {
+    const t = totalsFor(p.contract_id);
+    t.payments_total += Number(p.amount) || 0;
+    if (p.payment_date && (!t.last_payment_date || p.payment_date > t.last_payment_date)) {
+      t.last_payment_date = p.payment_date;
+    }
+  }
+
+  for (const t of totals.values()) {
+    t.invoiced_total = round2(t.invoiced_total);
+    t.open_balance = round2(t.open_balance);
+    t.credits_total = round2(t.credits_total);
+    t.payments_total = round2(t.payments_total);
+  }
+
+  return totals;
+}
+
+function emptyTotals(): FinancialTotals {
+  return {
+    invoice_count: 0,
+    invoiced_total: 0,
+    open_balance: 0,
+    last_invoice_date: null,
+    credits_total: 0,
+    payments_total: 0,
+    last_payment_date: null,
+  };
+}
@@ -0,0 +1,434 @@
+/**
+ * Contract Health Scores
+ *
+ * Composite 0-100 score per contract from five components, each scored 0-100:
+ *   - points_burden_trend: current points burden relative to the monthly
+ *     allotment, adjusted by how much it moved over the trend window
+ *   - sentiment_trend:     meeting sentiment (compass_meetings.sentiment) over
+ *     the last 30 days, adjusted by the change against the prior 60
+ *   - meeting_recency:     days since the last meeting
+ *   - overdue_invoices:    open invoice balance past due, relative to MRR, and
+ *     how far past due the oldest one is
+ *   - blocked_tasks:       share of open tasks that are blocked
+ *
+ * Weights come from CONTRACT_HEALTH_WEIGHTS (config/contract-health.ts). A
+ * component with no data scores null and its weight is spread over the rest.
+ * Scores are stored once per contract per day with the full breakdown.
+ */
+
+import { select, selectAll, upsert, rpc } from '../../utils/edge-functions.js';
+import { healthConfig } from '../../config/contract-health.js';
+import {
+  HEALTH_COMPONENT_KEYS,
+  type ContractHealthScore,
+  type ContractHealthSummary,
+  type HealthComponent,
+  type HealthComponentKey,
+  type HealthComponents,
+  type HealthStatus,
+} from '../../types/contract-health.js';
+import { round2 } from '../../utils/numbers.js';
+import { addDays, daysBetween } from '../../utils/dates.js';
+
+export type ScoredContractHealth = Omit<ContractHealthScore, 'score_id' | 'created_at' | 'updated_at'>;
+
+export interface HealthRunResult {
+  dry_run: boolean;
+  score_date: string;
+  contracts: number;
+  scored: number;
+  by_status: Record<HealthStatus | 'unscored', number>;
+  errors: Array<{ contract_id: string; error: string }>;
+}
+
+interface ContractRow {
+  contract_id: string;
+  amount: number | null;
+  monthly_points_allotment: number | null;
+}
+
+interface BurdenRow {
+  contract_id: string;
+  points_burden: number | null;
+}
+
+interface MeetingRow {
+  meeting_id: string;
+  contract_id: string;
+  meeting_date: string;
+  sentiment: { label?: string; confidence?: number } | null;
+}
+
+interface OverdueInvoiceRow {
+  invoice_id: string;
+  contract_id: string;
+  balance: number | null;
+  due_date: string;
+}
+
+interface OpenTaskRow {
+  task_id: string;
+  contract_id: string;
+  status: string;
+}
+
+const SENTIMENT_VALUES: Record<string, number> = {
+  positive: 1,
+  neutral: 0.5,
+  negative: 0,
+};
+
+const OPEN_TASK_STATUSES = ['not_started', 'working', 'blocked', 'at_risk'];
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score the given contracts as of today. Omit contractIds for every active,
+ * non-hosting contract. Nothing is stored.
+ */
+export async function computeContractHealth(contractIds?: string[]): Promise<Map<string, ScoredContractHealth>> {
+  const today = new Date().toISOString().slice(0, 10);
+  const results = new Map<string, ScoredContractHealth>();
+  if (contractIds && contractIds.length === 0) return results;
+
+  const contracts = await select<ContractRow[]>('contracts', {
+    select: 'contract_id,amount,monthly_points_allotment',
+    filters: contractIds
+      ? { contract_id: { in: contractIds } }
+      : { contract_status: 'active', hosting: false },
+  });
+  if (!contracts || contracts.length === 0) return results;
+
+  const ids = contracts.map((c) => c.contract_id);
+  const trendStart = addDays(today, -healthConfig.burdenTrendDays);
+  const meetingsSince = addDays(today, -healthConfig.meetingLookbackDays);
+
+  // Set-based fetches: one query per source for the whole batch
+  const [currentBurden, pastBurden, meetings, overdueInvoices, openTasks] = await Promise.all([
+    select<BurdenRow[]>('contract_points_summary', {
+      select: 'contract_id,points_burden',
+      filters: { contract_id: { in: ids } },
+    }),
+    rpc<BurdenRow[]>('contract_points_summary_as_of', { p_as_of: trendStart }),
+    selectAll<MeetingRow>('compass_meetings', 'meeting_id', {
+      select: 'meeting_id,contract_id,meeting_date,sentiment',
+      filters: { contract_id: { in: ids }, meeting_date: { gte: meetingsSince } },
+    }),
+    selectAll<OverdueInvoiceRow>('pulse_invoices', 'invoice_id', {
+      select: 'invoice_id,contract_id,balance,due_date',
+      filters: {
+        contract_id: { in: ids },
+        status: 'open',
+        is_deleted: false,
+        balance: { gt: 0 },
+        due_date: { lt: today },
+      },
+    }),
+    selectAll<OpenTaskRow>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id,status',
+      filters: {
+        contract_id: { in: ids },
+        status: { in: OPEN_TASK_STATUSES },
+        is_deleted: false,
+      },
+    }),
+  ]);
+
+  const currentBurdenMap = new Map((currentBurden || []).map((r) => [r.contract_id, r.points_burden]));
+  const pastBurdenMap = new Map((pastBurden || []).map((r) => [r.contract_id, r.points_burden]));
+  const meetingsByContract = groupBy(meetings, (m) => m.contract_id);
+  const invoicesByContract = groupBy(overdueInvoices, (i) => i.contract_id);
+  const tasksByContract = groupBy(openTasks, (t) => t.contract_id);
+
+  for (const contract of contracts) {
+    const components: HealthComponents = {
+      points_burden_trend: scoreBurdenTrend(
+        toNumber(currentBurdenMap.get(contract.contract_id)),
+        toNumber(pastBurdenMap.get(contract.contract_id)),
+        toNumber(contract.monthly_points_allotment)
+      ),
+      sentiment_trend: scoreSentimentTrend(meetingsByContract.get(contract.contract_id) || [], today),
+      meeting_recency: scoreMeetingRecency(meetingsByContract.get(contract.contract_id) || [], today),
+      overdue_invoices: scoreOverdueInvoices(
+        invoicesByContract.get(contract.contract_id) || [],
+        toNumber(contract.amount),
+        today
+      ),
+      blocked_tasks: scoreBlockedTasks(tasksByContract.get(contract.contract_id) || []),
+    };
+
+    const score = combineComponents(components);
+    results.set(contract.contract_id, {
+      contract_id: contract.contract_id,
+      score_date: today,
+      score,
+      status: score === null ? null : statusForScore(score),
+      components,
+      weights: { ...healthConfig.weights },
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Daily run: score every active, non-hosting contract and store the result
+ * (one row per contract per day; re-running the same day overwrites it).
+ */
+export async function runHealthScoring(options: { dryRun?: boolean } = {}): Promise<HealthRunResult> {
+  const { dryRun = false } = options;
+  const scores = await computeContractHealth();
+
+  const result: HealthRunResult = {
+    dry_run: dryRun,
+    score_date: new Date().toISOString().slice(0, 10),
+    contracts: scores.size,
+    scored: 0,
+    by_status: { healthy: 0, at_risk: 0, critical: 0, unscored: 0 },
+    errors: [],
+  };
+
+  for (const health of scores.values()) {
+    result.by_status[health.status ?? 'unscored']++;
+  }
+
+  if (dryRun) return result;
+
+  const rows = Array.from(scores.values());
+  for (let i = 0; i < rows.length; i += 100) {
+    const batch = rows.slice(i, i + 100);
+    try {
+      await upsert('contract_health_scores', batch, { onConflict: 'contract_id,score_date' });
+      result.scored += batch.length;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      for (const row of batch) result.errors.push({ contract_id: row.contract_id, error: message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stored scores for one contract, newest first, back to `days` ago
+ */
+export async function getContractHealthHistory(contractId: string, days: number): Promise<ContractHealthScore[]> {
+  const since = addDays(new Date().toISOString().slice(0, 10), -days);
+  const rows = await select<ContractHealthScore[]>('contract_health_scores', {
+    filters: { contract_id: contractId, score_date: { gte: since } },
+    order: [{ column: 'score_date', ascending: false }],
+  });
+  return (rows || []).map(normalizeScoreRow);
+}
+
+/**
+ * Latest stored score per contract on or before a date, keyed by contract_id
+ */
+export async function getLatestHealthScores(
+  contractIds: string[],
+  onOrBefore: string
+): Promise<Map<string, ContractHealthScore>> {
+  const latest = new Map<string, ContractHealthScore>();
+  if (contractIds.length === 0) return latest;
+
+  // Scores are daily, so a week back always covers the last cron run
+  const rows = await selectAll<ContractHealthScore>('contract_health_scores', 'score_id', {
+    filters: {
+      contract_id: { in: contractIds },
+      score_date: { lte: onOrBefore, gte: addDays(onOrBefore, -7) },
+    },
+  });
+
+  for (const row of rows) {
+    const existing = latest.get(row.contract_id);
+    if (!existing || row.score_date > existing.score_date) {
+      latest.set(row.contract_id, normalizeScoreRow(row));
+    }
+  }
+  return latest;
+}
+
+/**
+ * Compact form for report snapshots
+ */
+export function toHealthSummary(health: Pick<ContractHealthScore, 'score' | 'status' | 'score_date' | 'components'>): ContractHealthSummary {
+  const components = {} as Record<HealthComponentKey, number | null>;
+  for (const key of HEALTH_COMPONENT_KEYS) {
+    components[key] = health.components[key]?.score ?? null;
+  }
+  return {
+    score: health.score,
+    status: health.status,
+    score_date: health.score_date,
+    components,
+  };
+}
+
+export function statusForScore(score: number): HealthStatus {
+  if (score >= healthConfig.healthyMin) return 'healthy';
+  if (score >= healthConfig.atRiskMin) return 'at_risk';
+  return 'critical';
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+function scoreBurdenTrend(current: number | null, past: number | null, allotment: number | null): HealthComponent {
+  const inputs = {
+    points_burden: current,
+    points_burden_before: past,
+    trend_days: healthConfig.burdenTrendDays,
+    monthly_points_allotment: allotment,
+  };
+  if (current === null || !allotment || allotment <= 0) return component(null, inputs);
+
+  // A burden of one full month's allotment (or worse) scores zero on level;
+  // growing burden costs up to half that again, shrinking burden earns it back
+  const level = current <= 0 ? 100 : 100 - Math.min(100, (current / allotment) * 100);
+  const delta = past === null ? 0 : (current - past) / allotment;
+  return component(clamp(level - delta * 50), inputs);
+}
+
+function scoreSentimentTrend(meetings: MeetingRow[], today: string): HealthComponent {
+  const recentSince = addDays(today, -healthConfig.sentimentRecentDays);
+  const recent: number[] = [];
+  const prior: number[] = [];
+
+  for (const m of meetings) {
+    const value = m.sentiment?.label ? SENTIMENT_VALUES[m.sentiment.label] : undefined;
+    if (value === undefined) continue;
+    (m.meeting_date.slice(0, 10) >= recentSince ? recent : prior).push(value);
+  }
+
+  const recentAvg = average(recent);
+  const priorAvg = average(prior);
+  const inputs = {
+    recent_meetings: recent.length,
+    recent_average: recentAvg !== null ? round2(recentAvg) : null,
+    prior_meetings: prior.length,
+    prior_average: priorAvg !== null ? round2(priorAvg) : null,
+  };
+
+  if (recentAvg === null && priorAvg === null) return component(null, inputs);
+  if (recentAvg === null) return component(clamp(priorAvg! * 100), inputs);
+
+  const change = priorAvg === null ? 0 : recentAvg - priorAvg;
+  return component(clamp(recentAvg * 100 + change * 25), inputs);
+}
+
+function scoreMeetingRecency(meetings: MeetingRow[], today: string): HealthComponent {
+  const last = meetings.reduce<string | null>(
+    (latest, m) => (!latest || m.meeting_date > latest ? m.meeting_date : latest),
+    null
+  );
+  const { meetingRecencyFullDays: fullDays, meetingRecencyMaxDays: maxDays } = healthConfig;
+
+  // No meeting inside the lookback window is past maxDays either way
+  if (!last) {
+    return component(0, { last_meeting_date: null, days_since_last_meeting: null });
+  }
+
+  const days = Math.max(0, daysBetween(last.slice(0, 10), today));
+  const score = days <= fullDays
+    ? 100
+    : days >= maxDays ? 0 : 100 * (maxDays - days) / (maxDays - fullDays);
+  return component(clamp(score), { last_meeting_date: last.slice(0, 10), days_since_last_meeting: days });
+}
+
+function scoreOverdueInvoices(invoices: OverdueInvoiceRow[], mrr: number | null, today: string): HealthComponent {
+  const overdueBalance = invoices.reduce((sum, i) => sum + (Number(i.balance) || 0), 0);
+  const maxDaysOverdue = invoices.reduce((max, i) => Math.max(max, daysBetween(i.due_date.slice(0, 10), today)), 0);
+  const inputs = {
+    overdue_invoices: invoices.length,
+    overdue_balance: round2(overdueBalance),
+    max_days_overdue: maxDaysOverdue,
+    mrr,
+  };
+  if (invoices.length === 0) return component(100, inputs);
+
+  // Up to 60 points for the amount (one month's MRR overdue costs all 60;
+  // without an MRR, any overdue balance costs half), up to 40 for age
+  const amountPenalty = mrr && mrr > 0 ? Math.min(60, (overdueBalance / mrr) * 60) : 30;
+  const agePenalty = Math.min(40, (maxDaysOverdue / healthConfig.overdueMaxDays) * 40);
+  return component(clamp(100 - amountPenalty - agePenalty), inputs);
+}
+
+function scoreBlockedTasks(tasks: OpenTaskRow[]): HealthComponent {
+  const blocked = tasks.filter((t) => t.status === 'blocked').length;
+  const inputs = {
+    open_tasks: tasks.length,
+    blocked_tasks: blocked,
+    blocked_ratio: tasks.length > 0 ? round2(blocked / tasks.length) : null,
+  };
+  if (tasks.length === 0) return component(null, inputs);
+
+  // Half of open work blocked scores zero
+  return component(clamp(100 - (blocked / tasks.length) * 200), inputs);
+}
+
+function component(score: number | null, inputs: HealthComponent['inputs']): HealthComponent {
+  return {
+    score: score === null ? null : Math.round(score),
+    weight: 0,
+    effective_weight: 0,
+    inputs,
+  };
+}
+
+/**
+ * Weighted average over the components that could be scored; fills in each
+ * component's configured and effective weight
+ */
+function combineComponents(components: HealthComponents): number | null {
+  let totalWeight = 0;
+  for (const key of HEALTH_COMPONENT_KEYS) {
+    components[key].weight = healthConfig.weights[key];
+    if (components[key].score !== null) totalWeight += healthConfig.weights[key];
+  }
+  if (totalWeight <= 0) return null;
+
+  let weighted = 0;
+  for (const key of HEALTH_COMPONENT_KEYS) {
+    const c = components[key];
+    if (c.score === null) continue;
+    c.effective_weight = round2(c.weight / totalWeight);
+    weighted += c.score * (c.weight / totalWeight);
+  }
+  return Math.round(weighted);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizeScoreRow(row: ContractHealthScore): ContractHealthScore {
+  return { ...row, score: row.score !== null ? Number(row.score) : null };
+}
+
+function groupBy<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const list = groups.get(key);
+    if (list) list.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function clamp(n: number): number {
+  return Math.max(0, Math.min(100, n));
+}
@@ -0,0 +1,630 @@
+/**
+ * Contract Import (CSV / XLSX)
+ *
+ * Two steps:
+ *   1. Preview — map the file's columns to contract fields, normalize and
+ *      validate every row, resolve account names, match rows to existing
+ *      contracts and store the resulting plan on a contract_import_jobs row.
+ *      Nothing is written to contracts.
+ *   2. Commit — apply the stored plan in batches in the background. The job's
+ *      cursor is saved after every batch; committing an interrupted job again
+ *      resumes from the cursor. Each batch re-checks the database first, so a
+ *      batch replayed after a crash doesn't insert duplicates.
+ *
+ * Matching follows POST /api/contracts/import: contract_id if the file has
+ * one, else external_id (no fallback), else contract_name. Empty cells are
+ * treated as "not provided" and never clear a value.
+ */
+
+import { select, insert, update } from '../../utils/edge-functions.js';
+import { validateContractEnums, CreateContractDTO } from '../../types/contracts.js';
+import type { ContractFieldChanges } from '../../types/contracts.js';
+import type {
+  ContractImportJob,
+  ImportColumnMapping,
+  ImportCommitError,
+  ImportPlanItem,
+  ImportPreview,
+  ImportRowError,
+} from '../../types/contract-imports.js';
+import { isFormulaLike, type ParsedSheet } from '../../utils/spreadsheet.js';
+import { TRACKED_CONTRACT_FIELDS, recordContractEvent } from './events.js';
+import { AMENDABLE_CONTRACT_FIELDS, createAmendment } from './amendments.js';
+
+const BATCH_SIZE = 25;
+// A 'committing' job with no progress for this long is treated as interrupted
+const STALE_COMMIT_MS = 10 * 60 * 1000;
+export const MAX_IMPORT_ROWS = 5000;
+
+// Contract fields a file may set (same list as the JSON import)
+export const IMPORTABLE_CONTRACT_FIELDS = [
+  'contract_name', 'contract_status', 'contract_type', 'contract_start_date',
+  'contract_end_date', 'contract_renewal_date', 'contract_description', 'amount',
+  'quickbooks_customer_id', 'quickbooks_business_unit_id', 'external_id', 'deal_id',
+  'engagement_type', 'payment_type', 'monthly_points_allotment', 'priority',
+  'customer_display_type', 'hosting', 'account_manager', 'team_manager',
+  'clickup_folder_id', 'slack_channel_internal', 'slack_channel_external',
+  'dollar_per_hour', 'autorenewal', 'initial_term_length', 'subsequent_term_length',
+  'notice_period', 'next_invoice_date', 'account_id',
+];
+
+// Mapping targets that aren't written directly
+const MATCH_ONLY_TARGETS = ['contract_id', 'account_name'];
+
+const NUMERIC_FIELDS = ['amount', 'dollar_per_hour'];
+const INTEGER_FIELDS = ['monthly_points_allotment', 'initial_term_length', 'subsequent_term_length', 'notice_period'];
+const BOOLEAN_FIELDS = ['hosting', 'autorenewal'];
+const DATE_FIELDS = ['contract_start_date', 'contract_end_date', 'contract_renewal_date', 'next_invoice_date'];
+const REQUIRED_FOR_INSERT = ['contract_name', 'contract_status', 'contract_type', 'contract_start_date'];
+
+interface ExistingContract extends Record<string, unknown> {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+}
+
+interface AccountRow {
+  account_id: string;
+  name: string;
+}
+
+export type CommitStartOutcome = 'started' | 'already_running' | 'already_completed' | 'not_found';
+
+// Commits running in this process
+const runningJobs = new Set<string>();
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Effective header -> field mapping for a file. Headers that already name a
+ * contract field map to it; a saved profile (or ad-hoc mapping) overrides by
+ * header, matched case-insensitively.
+ */
+export function resolveColumnMapping(
+  headers: string[],
+  profile?: ImportColumnMapping | null
+): { mapping: ImportColumnMapping; unmapped: string[]; invalidTargets: string[] } {
+  const validTargets = new Set([...IMPORTABLE_CONTRACT_FIELDS, ...MATCH_ONLY_TARGETS]);
+  const profileByHeader = new Map<string, string>();
+  for (const [source, target] of Object.entries(profile || {})) {
+    profileByHeader.set(normalizeHeader(source), target);
+  }
+
+  const mapping: ImportColumnMapping = {};
+  const unmapped: string[] = [];
+  const invalidTargets: string[] = [];
+
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    if (profileByHeader.has(key)) {
+      const target = (profileByHeader.get(key) || '').trim();
+      if (!target || target === 'ignore') {
+        unmapped.push(header);
+      } else if (validTargets.has(target)) {
+        mapping[header] = target;
+      } else {
+        invalidTargets.push(`${header} -> ${target}`);
+      }
+      continue;
+    }
+
+    if (validTargets.has(key)) {
+      mapping[header] = key;
+    } else if (key === 'account' || key === 'account_name' || key === 'client' || key === 'company') {
+      mapping[header] = 'account_name';
+    } else {
+      unmapped.push(header);
+    }
+  }
+
+  return { mapping, unmapped, invalidTargets };
+}
+
+// ============================================================================
+// Value Normalization
+// ============================================================================
+
+function normalizeValue(field: string, raw: string): { value?: unknown; error?: string } {
+  if (NUMERIC_FIELDS.includes(field) || INTEGER_FIELDS.includes(field)) {
+    const cleaned = raw.replace(/[$,\s]/g, '');
+    const num = Number(cleaned);
+    if (!cleaned || !Number.isFinite(num)) return { error: `${field}: "${raw}" is not a number` };
+    if (INTEGER_FIELDS.includes(field) && !Number.isInteger(num)) {
+      return { error: `${field}: "${raw}" must be a whole number` };
+    }
+    return { value: num };
+  }
+
+  if (BOOLEAN_FIELDS.includes(field)) {
+    const v = raw.toLowerCase();
+    if (['true', 't', 'yes', 'y', '1'].includes(v)) return { value: true };
+    if (['false', 'f', 'no', 'n', '0'].includes(v)) return { value: false };
+    return { error: `${field}: "${raw}" is not true/false` };
+  }
+
+  if (DATE_FIELDS.includes(field)) {
+    const date = normalizeDate(raw);
+    if (!date) return { error: `${field}: "${raw}" is not a date (use YYYY-MM-DD or M/D/YYYY)` };
+    return { value: date };
+  }
+
+  // Stored text ends up in exports; don't keep anything a spreadsheet would run
+  if (isFormulaLike(raw)) {
+    return { error: `${field}: "${raw}" starts with =, +, - or @ and would be read as a spreadsheet formula` };
+  }
+
+  return { value: raw };
+}
+
+function normalizeDate(raw: string): string | null {
+  // YYYY-MM-DD, optionally followed by a time (Supabase exports)
+  let match = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  // M/D/YYYY (US spreadsheets)
+  match = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return toIsoDate(+match[3], +match[1], +match[2]);
+
+  return null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().split('T')[0];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined) return b === null || b === undefined;
+  if (typeof b === 'number') return Number(a) === b;
+  if (typeof b === 'string' && typeof a === 'string' && DATE_LIKE.test(a)) return a.slice(0, 10) === b;
+  return a === b;
+}
+const DATE_LIKE = /^\d{4}-\d{2}-\d{2}/;
+
+// ============================================================================
+// Preview (dry run)
+// ============================================================================
+
+export async function buildImportPreview(params: {
+  sheet: ParsedSheet;
+  mapping: ImportColumnMapping;
+  unmapped: string[];
+  fileName: string | null;
+  mappingId: string | null;
+  userId: string;
+}): Promise<ImportPreview> {
+  const { sheet, mapping, unmapped, fileName, mappingId, userId } = params;
+
+  const [accounts, contracts] = await Promise.all([
+    select<AccountRow[]>('accounts', { select: 'account_id, name' }),
+    select<ExistingContract[]>('contracts', {
+      select: ['contract_id', ...IMPORTABLE_CONTRACT_FIELDS.filter((f) => f !== 'contract_id')].join(', '),
+    }),
+  ]);
+
+  // Lowercased account name -> ids (more than one = ambiguous)
+  const accountsByName = new Map<string, string[]>();
+  for (const account of accounts || []) {
+    const key = account.name.trim().toLowerCase();
+    accountsByName.set(key, [...(accountsByName.get(key) || []), account.account_id]);
+  }
+
+  const byId = new Map<string, ExistingContract>();
+  const byExternalId = new Map<string, ExistingContract>();
+  const byName = new Map<string, ExistingContract>();
+  for (const contract of contracts || []) {
+    byId.set(contract.contract_id, contract);
+    if (contract.external_id) byExternalId.set(contract.external_id, contract);
+    byName.set(contract.contract_name.trim().toLowerCase(), contract);
+  }
+
+  const plan: ImportPlanItem[] = [];
+  const rowErrors: ImportRowError[] = [];
+  let unchanged = 0;
+  const seenKeys = new Map<string, number>();
+
+  sheet.rows.forEach((raw, index) => {
+    const rowNumber = sheet.rowNumbers[index] ?? index + 2;
+    const errors: string[] = [];
+    const data: Record<string, unknown> = {};
+    let fileContractId: string | null = null;
+    let accountName: string | null = null;
+
+    for (const [header, target] of Object.entries(mapping)) {
+      const value = raw[header];
+      if (value === undefined || value === '') continue;
+
+      if (target === 'contract_id') {
+        fileContractId = value;
+      } else if (target === 'account_name') {
+        accountName = value;
+      } else {
+        const normalized = normalizeValue(target, value);
+        if (normalized.error) errors.push(normalized.error);
+        else data[target] = normalized.value;
+      }
+    }
+
+    const contractName = typeof data.contract_name === 'string' ? data.contract_name : null;
+
+    // Skip fully blank lines quietly
+    if (Object.keys(data).length === 0 && !fileContractId && !accountName && errors.length === 0) {
+      return;
+    }
+
+    errors.push(...validateContractEnums(data as Partial<CreateContractDTO>));
+
+    if (accountName && !data.account_id) {
+      const ids = accountsByName.get(accountName.trim().toLowerCase()) || [];
+      if (ids.length === 1) data.account_id = ids[0];
+      else if (ids.length === 0) errors.push(`account "${accountName}" not found`);
+      else errors.push(`account "${accountName}" matches ${ids.length} accounts`);
+    }
+
+    // Match to an existing contract
+    let existing: ExistingContract | undefined;
+    if (fileContractId) {
+      existing = byId.get(fileContractId);
+    }
+    if (!existing && typeof data.external_id === 'string') {
+      existing = byExternalId.get(data.external_id);
+    } else if (!existing && !data.external_id && contractName) {
+      existing = byName.get(contractName.trim().toLowerCase());
+    }
+
+    // The same contract twice in one file would make the result order-dependent
+    const key = existing?.contract_id
+      || (typeof data.external_id === 'string' ? `ext:${data.external_id}` : null)
+      || (contractName ? `name:${contractName.trim().toLowerCase()}` : null);
+    if (key) {
+      if (seenKeys.has(key)) {
+        errors.push(`duplicate of row ${seenKeys.get(key)}`);
+      } else {
+        seenKeys.set(key, rowNumber);
+      }
+    }
+
+    if (!existing) {
+      for (const field of REQUIRED_FOR_INSERT) {
+        if (data[field] === undefined) errors.push(`missing ${field}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      rowErrors.push({ row: rowNumber, contract_name: contractName || existing?.contract_name || null, errors });
+      return;
+    }
+
+    if (!existing) {
+      plan.push({
+        row: rowNumber,
+        action: 'insert',
+        contract_name: contractName!,
+        contract_id: null,
+        data,
+        changes: null,
+      });
+      return;
+    }
+
+    const changes: ContractFieldChanges = {};
+    const changedData: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(data)) {
+      if (!sameValue(existing[field], value)) {
+        changes[field] = { from: existing[field] ?? null, to: value };
+        changedData[field] = value;
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      unchanged++;
+      return;
+    }
+
+    plan.push({
+      row: rowNumber,
+      action: 'update',
+      contract_name: existing.contract_name,
+      contract_id: existing.contract_id,
+      data: changedData,
+      changes,
+    });
+  });
+
+  const jobs = await insert<ContractImportJob[]>('contract_import_jobs', {
+    status: 'previewed',
+    file_name: fileName,
+    mapping_id: mappingId,
+    mapping,
+    total_rows: sheet.rows.length,
+    plan,
+    row_errors: rowErrors,
+    created_by: userId,
+  }, { select: 'job_id' });
+
+  const inserts = plan.filter((p) => p.action === 'insert');
+  const updates = plan.filter((p) => p.action === 'update');
+
+  return {
+    job_id: jobs[0].job_id,
+    file_name: fileName,
+    total_rows: sheet.rows.length,
+    summary: {
+      inserts: inserts.length,
+      updates: updates.length,
+      unchanged,
+      errors: rowErrors.length,
+    },
+    unmapped_columns: unmapped,
+    inserts,
+    updates,
+    errors: rowErrors,
+  };
+}
+
+// ============================================================================
+// Commit
+// ============================================================================
+
+export async function getImportJob(jobId: string): Promise<ContractImportJob | null> {
+  const rows = await select<ContractImportJob[]>('contract_import_jobs', {
+    filters: { job_id: jobId },
+    limit: 1,
+  });
+  return rows?.[0] || null;
+}
+
+/**
+ * Start (or resume) committing a previewed job. The work runs in the
+ * background; poll the job for progress.
+ */
+export async function startImportCommit(
+  jobId: string,
+  userId: string
+): Promise<{ outcome: CommitStartOutcome; job: ContractImportJob | null }> {
+  const job = await getImportJob(jobId);
+  if (!job) return { outcome: 'not_found', job: null };
+  if (job.status === 'completed') return { outcome: 'already_completed', job };
+
+  if (runningJobs.has(jobId)) return { outcome: 'already_running', job };
+  if (job.status === 'committing') {
+    const lastProgress = new Date(job.updated_at).getTime();
+    if (Date.now() - lastProgress < STALE_COMMIT_MS) {
+      // Possibly running on another instance
+      return { outcome: 'already_running', job };
+    }
+    console.warn(`[Contract Import] Resuming stale job ${jobId} from row ${job.cursor}`);
+  }
+
+  await update('contract_import_jobs', {
+    status: 'committing',
+    committed_by: userId,
+    commit_started_at: job.commit_started_at || new Date().toISOString(),
+    error_message: null,
+  }, { job_id: jobId });
+
+  runningJobs.add(jobId);
+  setImmediate(async () => {
+    try {
+      await runImportCommit(jobId, userId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[Contract Import] Job ${jobId} failed:`, err);
+      try {
+        await update('contract_import_jobs', { status: 'failed', error_message: message }, { job_id: jobId });
+      } catch (updateErr) {
+        console.error(`[Contract Import] Failed to mark job ${jobId} failed:`, updateErr);
+      }
+    } finally {
+      runningJobs.delete(jobId);
+    }
+  });
+
+  return { outcome: 'started', job: { ...job, status: 'committing' } };
+}
+
+async function runImportCommit(jobId: string, userId: string): Promise<void> {
+  const job = await getImportJob(jobId);
+  if (!job) throw new Error(`Import job ${jobId} not found`);
+
+  const plan = job.plan || [];
+  let { cursor, inserted, updated, failed } = job;
+  const commitErrors: ImportCommitError[] = [...(job.commit_errors || [])];
+  const reason = `Contract import${job.file_name ? ` (${job.file_name})` : ''}`;
+
+  console.log(`[Contract Import] Committing job ${jobId}: ${plan.length - cursor} operation(s) from ${cursor}`);
+
+  while (cursor < plan.length) {
+    const batch = plan.slice(cursor, cursor + BATCH_SIZE);
+    const result = await applyBatch(batch, reason, userId);
+
+    inserted += result.inserted;
+    updated += result.updated;
+    failed += result.errors.length;
+    commitErrors.push(...result.errors);
+    cursor += batch.length;
+
+    await update('contract_import_jobs', {
+      cursor,
+      inserted,
+      updated,
+      failed,
+      commit_errors: commitErrors,
+    }, { job_id: jobId });
+  }
+
+  await update('contract_import_jobs', {
+    status: 'completed',
+    completed_at: new Date().toISOString(),
+  }, { job_id: jobId });
+
+  console.log(`[Contract Import] Job ${jobId} complete: ${inserted} inserted, ${updated} updated, ${failed} failed`);
+}
+
+async function applyBatch(
+  batch: ImportPlanItem[],
+  reason: string,
+  userId: string
+): Promise<{ inserted: number; updated: number; errors: ImportCommitError[] }> {
+  const result = { inserted: 0, updated: 0, errors: [] as ImportCommitError[] };
+  const inserts = batch.filter((item) => item.action === 'insert');
+  const updates = batch.filter((item) => item.action === 'update');
+
+  // Inserts: skip rows that already exist (a replayed batch after a crash)
+  if (inserts.length > 0) {
+    const pending = await filterAlreadyInserted(inserts);
+    result.inserted += inserts.length - pending.length;
+
+    if (pending.length > 0) {
+      try {
+        await insert('contracts', pending.map((item) => item.data));
+        result.inserted += pending.length;
+      } catch {
+        // Retry one at a time so one bad row doesn't fail the batch
+        for (const item of pending) {
+          try {
+            await insert('contracts', item.data);
+            result.inserted++;
+          } catch (err) {
+            result.errors.push({
+              row: item.row,
+              contract_name: item.contract_name,
+              error: err instanceof Error ? err.message : 'Unknown error',
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Updates: diff against the current row so replays don't re-log history
+  if (updates.length > 0) {
+    const ids = updates.map((item) => item.contract_id!);
+    const currentRows = await select<ExistingContract[]>('contracts', {
+      select: ['contract_id', ...IMPORTABLE_CONTRACT_FIELDS.filter((f) => f !== 'contract_id')].join(', '),
+      filters: { contract_id: { in: ids } },
+    });
+    const currentById = new Map((currentRows || []).map((c) => [c.contract_id, c]));
+
+    for (const item of updates) {
+      const current = currentById.get(item.contract_id!);
+      if (!current) {
+        result.errors.push({ row: item.row, contract_name: item.contract_name, error: 'Contract no longer exists' });
+        continue;
+      }
+
+      const changes: ContractFieldChanges = {};
+      for (const [field, value] of Object.entries(item.data)) {
+        if (!sameValue(current[field], value)) {
+          changes[field] = { from: current[field] ?? null, to: value };
+        }
+      }
+      if (Object.keys(changes).length === 0) {
+        result.updated++;
+        continue;
+      }
+
+      try {
+        await update('contracts', item.data, { contract_id: item.contract_id });
+        result.updated++;
+        await recordImportHistory(item.contract_id!, changes, reason, userId);
+      } catch (err) {
+        result.errors.push({
+          row: item.row,
+          contract_name: item.contract_name,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+async function filterAlreadyInserted(items: ImportPlanItem[]): Promise<ImportPlanItem[]> {
+  const externalIds = items
+    .map((item) => item.data.external_id)
+    .filter((id): id is string => typeof id === 'string');
+  const names = items
+    .filter((item) => !item.data.external_id)
+    .map((item) => item.contract_name);
+
+  const existingExternal = new Set<string>();
+  const existingNames = new Set<string>();
+
+  if (externalIds.length > 0) {
+    const rows = await select<Array<{ external_id: string }>>('contracts', {
+      select: 'external_id',
+      filters: { external_id: { in: externalIds } },
+    });
+    for (const row of rows || []) existingExternal.add(row.external_id);
+  }
+  if (names.length > 0) {
+    const rows = await select<Array<{ contract_name: string }>>('contracts', {
+      select: 'contract_name',
+      filters: { contract_name: { in: names } },
+    });
+    for (const row of rows || []) existingNames.add(row.contract_name);
+  }
+
+  return items.filter((item) =>
+    typeof item.data.external_id === 'string'
+      ? !existingExternal.has(item.data.external_id)
+      : !existingNames.has(item.contract_name)
+  );
+}
+
+/**
+ * Same history an edit through PUT /api/contracts/:id leaves behind
+ */
+async function recordImportHistory(
+  contractId: string,
+  changes: ContractFieldChanges,
+  reason: string,
+  userId: string
+): Promise<void> {
+  const pick = (fields: readonly string[]) => {
+    const picked: ContractFieldChanges = {};
+    for (const field of fields) {
+      if (changes[field]) picked[field] = changes[field];
+    }
+    return picked;
+  };
+
+  try {
+    const amendmentChanges = pick(AMENDABLE_CONTRACT_FIELDS);
+    if (Object.keys(amendmentChanges).length > 0) {
+      await createAmendment({
+        contract_id: contractId,
+        effective_date: new Date().toISOString().split('T')[0],
+        amendment_type: 'correction',
+        reason,
+        changes: amendmentChanges,
+        applied: true,
+        created_by: userId,
+      });
+    }
+
+    const eventChanges = pick(TRACKED_CONTRACT_FIELDS);
+    if (Object.keys(eventChanges).length > 0) {
+      await recordContractEvent({
+        contract_id: contractId,
+        event_type: 'updated',
+        source: 'import',
+        reason,
+        changes: eventChanges,
+        created_by: userId,
+      });
+    }
+  } catch (err) {
+    // The contract was updated — history is best-effort, as in PUT
+    console.error(`[Contract Import] Failed to record history for ${contractId}:`, err);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTermEnd, computeNoticeDeadline, computeNextRenewalDate } from './lifecycle.js';
+
+type LifecycleInput = Parameters<typeof computeTermEnd>[0];
+
+// Rows from docs/contracts-export-2026-02-10_10-19-00.csv: term lengths are
+// days, notice_period is mostly negative
+function exportRow(
+  contract_start_date: string,
+  initial_term_length: number,
+  subsequent_term_length: number,
+  notice_period: number
+): LifecycleInput {
+  return {
+    contract_id: 'c1',
+    contract_name: 'Test',
+    contract_status: 'active',
+    contract_start_date,
+    contract_end_date: null,
+    contract_renewal_date: null,
+    initial_term_length,
+    subsequent_term_length,
+    notice_period,
+    autorenewal: true,
+  } as LifecycleInput;
+}
+
+const acacia = exportRow('2026-02-09', 180, 180, 45);
+const agrippon = exportRow('2025-06-01', 180, 90, -45);
+const atlantaMicro = exportRow('2024-01-17', 365, 365, -30);
+const rapidSos = exportRow('2024-01-18', 90, 90, -45);
+
+describe('computeTermEnd', () => {
+  it('adds the initial term in days', () => {
+    assert.equal(computeTermEnd(acacia), '2026-08-08');
+    assert.equal(computeTermEnd(atlantaMicro), '2025-01-16');
+  });
+
+  it('prefers the renewal date, then the end date', () => {
+    assert.equal(computeTermEnd({ ...acacia, contract_end_date: '2026-12-31' }), '2026-12-31');
+    assert.equal(
+      computeTermEnd({ ...acacia, contract_end_date: '2026-12-31', contract_renewal_date: '2026-10-01T00:00:00Z' }),
+      '2026-10-01'
+    );
+  });
+
+  it('returns null without a start date or term', () => {
+    assert.equal(computeTermEnd(exportRow('2025-01-01', 0, 0, 0)), null);
+  });
+});
+
+describe('computeNoticeDeadline', () => {
+  it('lands before the term end for negative and positive notice periods', () => {
+    assert.equal(computeNoticeDeadline(agrippon), '2025-10-14');
+    assert.equal(computeNoticeDeadline(acacia), '2026-06-24');
+    assert.equal(computeNoticeDeadline(atlantaMicro), '2024-12-17');
+  });
+
+  it('is the term end when there is no notice period', () => {
+    assert.equal(computeNoticeDeadline(exportRow('2025-06-27', 365, 0, 0)), '2026-06-27');
+  });
+});
+
+describe('computeNextRenewalDate', () => {
+  it('is the term end while it is still ahead', () => {
+    assert.equal(computeNextRenewalDate(acacia, '2026-02-10'), '2026-08-08');
+  });
+
+  it('steps forward by the subsequent term in days', () => {
+    assert.equal(computeNextRenewalDate(agrippon, '2026-02-10'), '2026-02-26');
+    assert.equal(computeNextRenewalDate(atlantaMicro, '2026-02-10'), '2027-01-16');
+    assert.equal(computeNextRenewalDate(rapidSos, '2026-02-10'), '2026-04-07');
+  });
+
+  it('renews past a term end that falls on today', () => {
+    assert.equal(computeNextRenewalDate(agrippon, '2025-11-28'), '2026-02-26');
+  });
+
+  it('returns null without any term length', () => {
+    assert.equal(
+      computeNextRenewalDate({ ...exportRow('2025-01-01', 0, 0, 0), contract_end_date: '2025-06-30' }, '2026-01-01'),
+      null
+    );
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Contract Lifecycle
+ *
+ * Daily pass over active recurring contracts that acts on the term fields:
+ *   - future-dated amendment now effective         -> apply to the contract row
+ *   - auto-renewing contract past its renewal date -> roll into the next term
+ *   - non-renewing contract past its end date      -> contract_status 'inactive'
+ *   - approaching notice deadline / end date       -> Slack alert at each lead time
+ *
+ * Every change and every alert is written to contract_events, which is also
+ * where alerts are de-duplicated: an alert for a given (type, lead time,
+ * target date) is sent once, and a new target date after a renewal starts a
+ * fresh set.
+ */
+
+import { select, update } from '../../utils/edge-functions.js';
+import { addDays, daysBetween } from '../../utils/dates.js';
+import { postSlackMessage } from '../slack/client.js';
+import { lifecycleConfig } from '../../config/contract-lifecycle.js';
+import { diffContractFields, recordContractEvent } from './events.js';
+import { applyDueAmendments } from './amendments.js';
+import type { Contract } from '../../types/contracts.js';
+
+type LifecycleContract = Pick<
+  Contract,
+  | 'contract_id'
+  | 'contract_name'
+  | 'external_id'
+  | 'contract_status'
+  | 'contract_start_date'
+  | 'contract_end_date'
+  | 'contract_renewal_date'
+  | 'initial_term_length'
+  | 'subsequent_term_length'
+  | 'notice_period'
+  | 'autorenewal'
+  | 'slack_channel_internal'
+>;
+
+type AlertType = 'notice_deadline' | 'ending_soon';
+
+interface AlertEventRow {
+  contract_id: string;
+  metadata: { alert_type?: string; lead_days?: number; target_date?: string } | null;
+}
+
+export interface LifecycleAction {
+  contract_id: string;
+  contract_name: string;
+  action: 'renewed' | 'expired' | 'alert';
+  detail: string;
+}
+
+export interface LifecycleResult {
+  dry_run: boolean;
+  contracts: number;
+  amendments_applied: number;
+  renewed: number;
+  expired: number;
+  alerts_sent: number;
+  skipped: number;
+  actions: LifecycleAction[];
+  errors: Array<{ contract_id: string; error: string }>;
+}
+
+// ============================================================================
+// Term Computation
+// ============================================================================
+
+/**
+ * End of the current term: the renewal date if set, else the end date, else
+ * start + initial term. Null when the contract has none of these.
+ * Term lengths are stored in days (30/90/180/365 in the contracts export).
+ */
+export function computeTermEnd(contract: LifecycleContract): string | null {
+  if (contract.contract_renewal_date) return toDateOnly(contract.contract_renewal_date);
+  if (contract.contract_end_date) return toDateOnly(contract.contract_end_date);
+  if (contract.contract_start_date && contract.initial_term_length) {
+    return addDays(toDateOnly(contract.contract_start_date), contract.initial_term_length);
+  }
+  return null;
+}
+
+/**
+ * Last day notice of non-renewal can be given for the current term.
+ * notice_period is days before the term end; most rows store it negative
+ * (-30), some positive (30), so only the magnitude is used.
+ */
+export function computeNoticeDeadline(contract: LifecycleContract): string | null {
+  const termEnd = computeTermEnd(contract);
+  if (!termEnd) return null;
+  return addDays(termEnd, -Math.abs(contract.notice_period || 0));
+}
+
+/**
+ * First renewal date after `today` for an auto-renewing contract. Terms after
+ * the first use subsequent_term_length, falling back to initial_term_length
+ * (both in days).
+ */
+export function computeNextRenewalDate(contract: LifecycleContract, today: string): string | null {
+  const termEnd = computeTermEnd(contract);
+  if (!termEnd) return null;
+  if (termEnd > today) return termEnd;
+
+  const termDays = contract.subsequent_term_length || contract.initial_term_length;
+  if (!termDays || termDays <= 0) return null;
+
+  const missedTerms = Math.floor(daysBetween(termEnd, today) / termDays) + 1;
+  return addDays(termEnd, termDays * missedTerms);
+}
+
+// ============================================================================
+// Lifecycle Pass
+// ============================================================================
+
+export async function runContractLifecycle(options: { dryRun?: boolean } = {}): Promise<LifecycleResult> {
+  const { dryRun = false } = options;
+  const today = toDateOnly(new Date().toISOString());
+
+  const result: LifecycleResult = {
+    dry_run: dryRun,
+    contracts: 0,
+    amendments_applied: 0,
+    renewed: 0,
+    expired: 0,
+    alerts_sent: 0,
+    skipped: 0,
+    actions: [],
+    errors: [],
+  };
+
+  // Apply pending amendments first — they may move the term dates checked below
+  const amendments = await applyDueAmendments(today, { dryRun });
+  result.amendments_applied = amendments.applied;
+  result.errors.push(...amendments.errors);
+
+  const contracts = await select<LifecycleContract[]>('contracts', {
+    select:
+      'contract_id, contract_name, external_id, contract_status, contract_start_date, contract_end_date, ' +
+      'contract_renewal_date, initial_term_length, subsequent_term_length, notice_period, autorenewal, ' +
+      'slack_channel_internal',
+    filters: { contract_status: 'active', contract_type: 'recurring' },
+  });
+  result.contracts = contracts?.length || 0;
+
+  const sentAlerts = await loadSentAlerts(today);
+
+  for (const contract of contracts || []) {
+    try {
+      const termEnd = computeTermEnd(contract);
+      if (!termEnd) {
+        result.skipped++;
+        continue;
+      }
+
+      if (contract.autorenewal) {
+        if (termEnd <= today) {
+          await renewContract(contract, termEnd, today, dryRun, result);
+          continue;
+        }
+
+        const noticeDeadline = computeNoticeDeadline(contract)!;
+        await maybeAlert(contract, 'notice_deadline', noticeDeadline, termEnd, today, sentAlerts, dryRun, result);
+      } else {
+        if (termEnd < today) {
+          await expireContract(contract, termEnd, dryRun, result);
+          continue;
+        }
+
+        await maybeAlert(contract, 'ending_soon', termEnd, termEnd, today, sentAlerts, dryRun, result);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push({ contract_id: contract.contract_id, error: message });
+      console.error(`[Contract Lifecycle] ${contract.contract_name}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+async function renewContract(
+  contract: LifecycleContract,
+  termEnd: string,
+  today: string,
+  dryRun: boolean,
+  result: LifecycleResult
+): Promise<void> {
+  const nextRenewal = computeNextRenewalDate(contract, today);
+  if (!nextRenewal) {
+    result.skipped++;
+    result.errors.push({
+      contract_id: contract.contract_id,
+      error: 'Auto-renewal due but no subsequent_term_length or initial_term_length set',
+    });
+    return;
+  }
+
+  const updates: Record<string, unknown> = { contract_renewal_date: nextRenewal };
+  // Keep an explicit end date in step with the term it describes
+  if (contract.contract_end_date) {
+    updates.contract_end_date = nextRenewal;
+  }
+  const changes = diffContractFields(contract as unknown as Record<string, unknown>, updates);
+
+  if (!dryRun) {
+    await update('contracts', updates, { contract_id: contract.contract_id });
+    await recordContractEvent({
+      contract_id: contract.contract_id,
+      event_type: 'renewed',
+      source: 'lifecycle',
+      reason: `Auto-renewed: term ended ${termEnd}, next renewal ${nextRenewal}`,
+      changes,
+    });
+  }
+
+  result.renewed++;
+  result.actions.push({
+    contract_id: contract.contract_id,
+    contract_name: contract.contract_name,
+    action: 'renewed',
+    detail: `${termEnd} -> ${nextRenewal}`,
+  });
+  console.log(`[Contract Lifecycle] Renewed ${contract.contract_name}: ${termEnd} -> ${nextRenewal}`);
+}
+
+async function expireContract(
+  contract: LifecycleContract,
+  termEnd: string,
+  dryRun: boolean,
+  result: LifecycleResult
+): Promise<void> {
+  if (!dryRun) {
+    await update('contracts', { contract_status: 'inactive' }, { contract_id: contract.contract_id });
+    await recordContractEvent({
+      contract_id: contract.contract_id,
+      event_type: 'expired',
+      source: 'lifecycle',
+      reason: `Term ended ${termEnd} without auto-renewal`,
+      changes: { contract_status: { from: contract.contract_status, to: 'inactive' } },
+    });
+  }
+
+  result.expired++;
+  result.actions.push({
+    contract_id: contract.contract_id,
+    contract_name: contract.contract_name,
+    action: 'expired',
+    detail: `ended ${termEnd}`,
+  });
+  console.log(`[Contract Lifecycle] Expired ${contract.contract_name} (ended ${termEnd})`);
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * Alert at the smallest configured lead time the target date is within.
+ * Catching up after a missed run sends only the nearest lead time, not
+ * every one that was skipped.
+ */
+async function maybeAlert(
+  contract: LifecycleContract,
+  alertType: AlertType,
+  targetDate: string,
+  termEnd: string,
+  today: string,
+  sentAlerts: Set<string>,
+  dryRun: boolean,
+  result: LifecycleResult
+): Promise<void> {
+  const daysLeft = daysBetween(today, targetDate);
+  if (daysLeft < 0) return;
+
+  const leadDays = [...lifecycleConfig.alertLeadDays].reverse().find(lead => daysLeft <= lead);
+  if (leadDays === undefined) return;
+
+  const key = alertKey(contract.contract_id, alertType, leadDays, targetDate);
+  if (sentAlerts.has(key)) return;
+
+  const text = buildAlertText(contract, alertType, targetDate, termEnd, daysLeft);
+
+  if (!dryRun) {
+    const channel = await postAlert(contract, text);
+    if (!channel) {
+      throw new Error(`Failed to post ${alertType} alert to Slack`);
+    }
+
+    await recordContractEvent({
+      contract_id: contract.contract_id,
+      event_type: 'alert_sent',
+      source: 'lifecycle',
+      reason: `${alertType === 'notice_deadline' ? 'Notice deadline' : 'End date'} in ${daysLeft} day(s)`,
+      metadata: { alert_type: alertType, lead_days: leadDays, target_date: targetDate, channel },
+    });
+    sentAlerts.add(key);
+  }
+
+  result.alerts_sent++;
+  result.actions.push({
+    contract_id: contract.contract_id,
+    contract_name: contract.contract_name,
+    action: 'alert',
+    detail: `${alertType} ${targetDate} (${daysLeft}d, lead ${leadDays}d)`,
+  });
+}
+
+function buildAlertText(
+  contract: LifecycleContract,
+  alertType: AlertType,
+  targetDate: string,
+  termEnd: string,
+  daysLeft: number
+): string {
+  const name = `${contract.contract_name}${contract.external_id ? ` (${contract.external_id})` : ''}`;
+  const when = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+
+  const lines: string[] = [];
+  if (alertType === 'notice_deadline') {
+    lines.push(`:calendar: *Renewal notice deadline ${when}: ${name}*`);
+    lines.push(`*Notice deadline:* ${targetDate}`);
+    lines.push(`*Auto-renews on:* ${termEnd}`);
+    lines.push(`_After the notice deadline this contract renews for another term._`);
+  } else {
+    lines.push(`:hourglass_flowing_sand: *Contract ending ${when}: ${name}*`);
+    lines.push(`*End date:* ${targetDate}`);
+    lines.push(`_This contract does not auto-renew and will be marked inactive after its end date._`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Post to the contract's internal channel, falling back to the lifecycle
+ * alert channel. Returns the channel posted to, or null if neither worked.
+ */
+async function postAlert(contract: LifecycleContract, text: string): Promise<string | null> {
+  if (contract.slack_channel_internal) {
+    try {
+      const res = await postSlackMessage({ channel: contract.slack_channel_internal, text });
+      if (res.ok) return contract.slack_channel_internal;
+      console.warn(
+        `[Contract Lifecycle] Alert to ${contract.slack_channel_internal} failed: ${res.error}`
+      );
+    } catch (err) {
+      console.warn('[Contract Lifecycle] Alert to contract channel threw:', err);
+    }
+  }
+
+  const fallback = lifecycleConfig.fallbackSlackChannel;
+  if (!fallback) return null;
+
+  const note = contract.slack_channel_internal
+    ? `_(posted here because the contract's Slack channel \`${contract.slack_channel_internal}\` rejected the message)_`
+    : `_(posted here because the contract has no slack_channel_internal configured)_`;
+
+  try {
+    const res = await postSlackMessage({ channel: fallback, text: `${text}\n\n${note}` });
+    if (res.ok) return fallback;
+    console.warn(`[Contract Lifecycle] Alert to fallback channel ${fallback} failed: ${res.error}`);
+  } catch (err) {
+    console.error('[Contract Lifecycle] Alert to fallback channel threw:', err);
+  }
+  return null;
+}
+
+/**
+ * Alerts already sent for target dates still inside the alert window
+ */
+async function loadSentAlerts(today: string): Promise<Set<string>> {
+  const maxLead = Math.max(...lifecycleConfig.alertLeadDays);
+  const since = addDays(today, -(maxLead + 1));
+
+  const rows = await select<AlertEventRow[]>('contract_events', {
+    select: 'contract_id, metadata',
+    filters: { event_type: 'alert_sent', created_at: { gte: since } },
+  });
+
+  const keys = new Set<string>();
+  for (const row of rows || []) {
+    const meta = row.metadata;
+    if (!meta?.alert_type || meta.lead_days === undefined || !meta.target_date) continue;
+    keys.add(alertKey(row.contract_id, meta.alert_type, meta.lead_days, meta.target_date));
+  }
+  return keys;
+}
+
+function alertKey(contractId: string, alertType: string, leadDays: number, targetDate: string): string {
+  return `${contractId}:${alertType}:${leadDays}:${targetDate}`;
+}
+
+// ============================================================================
+// Date Helpers (YYYY-MM-DD, UTC)
+// ============================================================================
+
+function toDateOnly(value: string): string {
+  return value.slice(0, 10);
+}
@@ -0,0 +1,229 @@
+/**
+ * Email Delivery Events
+ *
+ * Ingests normalized delivery / bounce / complaint / open events for emailed
+ * client status reports. Each event is matched to its compass_reports row
+ * by report_id or by the message id the transport returned, stored in
+ * compass_report_email_events, and rolled up onto the report:
+ *
+ *   delivery_status  worst outcome seen (bounced > complained > delivered)
+ *   delivered_at / bounced_at / first_opened_at  earliest of each
+ *   open_count       number of open events
+ *
+ * The first bounce on a report is sent to the contract's account manager by
+ * Slack DM (falling back to the contract's internal channel).
+ */
+
+import { select, insert, update } from '../../utils/edge-functions.js';
+import { postSlackMessage, lookupSlackUserIdByEmail } from '../slack/client.js';
+import {
+  isValidEmailEventType,
+  type EmailDeliveryStatus,
+  type EmailEventIngestResult,
+  type EmailEventInput,
+} from '../../types/email.js';
+
+interface ReportRow {
+  report_id: string;
+  contract_id: string;
+  subject: string | null;
+  provider_message_id: string | null;
+  delivery_status: EmailDeliveryStatus | null;
+  delivered_at: string | null;
+  bounced_at: string | null;
+  first_opened_at: string | null;
+  open_count: number | null;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  account_manager: string | null;
+  slack_channel_internal: string | null;
+}
+
+const REPORT_COLUMNS =
+  'report_id,contract_id,subject,provider_message_id,delivery_status,delivered_at,bounced_at,first_opened_at,open_count';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_RANK: Record<EmailDeliveryStatus, number> = {
+  delivered: 1,
+  complained: 2,
+  bounced: 3,
+};
+
+export async function ingestEmailEvents(inputs: unknown[]): Promise<EmailEventIngestResult> {
+  const result: EmailEventIngestResult = {
+    received: inputs.length,
+    recorded: 0,
+    duplicates: 0,
+    unmatched: 0,
+    invalid: 0,
+  };
+
+  // Events for the same report must apply in order, so this stays sequential
+  for (const raw of inputs) {
+    const input = raw as EmailEventInput;
+    if (!input || typeof input.event !== 'string' || !isValidEmailEventType(input.event)) {
+      result.invalid++;
+      continue;
+    }
+    if (!input.report_id && !input.message_id) {
+      result.invalid++;
+      continue;
+    }
+    // A malformed id would fail the uuid filter and abort the rest of the batch
+    if (input.report_id && (typeof input.report_id !== 'string' || !UUID_PATTERN.test(input.report_id))) {
+      result.invalid++;
+      continue;
+    }
+    if (input.message_id && typeof input.message_id !== 'string') {
+      result.invalid++;
+      continue;
+    }
+
+    const occurredAt = input.timestamp && !isNaN(Date.parse(input.timestamp))
+      ? new Date(input.timestamp).toISOString()
+      : new Date().toISOString();
+
+    if (input.event_id) {
+      const existing = await select<Array<{ event_id: string }>>('compass_report_email_events', {
+        select: 'event_id',
+        filters: { provider_event_id: input.event_id },
+        limit: 1,
+      });
+      if (existing.length > 0) {
+        result.duplicates++;
+        continue;
+      }
+    }
+
+    const report = await findReport(input);
+    if (!report) {
+      result.unmatched++;
+      console.warn(
+        `[Email Events] No report for ${input.event} event (report_id=${input.report_id ?? '-'}, message_id=${input.message_id ?? '-'})`
+      );
+      continue;
+    }
+
+    await insert('compass_report_email_events', {
+      report_id: report.report_id,
+      event_type: input.event,
+      recipient: input.recipient ?? null,
+      provider_message_id: input.message_id ?? report.provider_message_id,
+      provider_event_id: input.event_id ?? null,
+      reason: input.reason ?? null,
+      occurred_at: occurredAt,
+      payload: raw as Record<string, unknown>,
+    });
+
+    const changes: Record<string, unknown> = {};
+    if (input.event === 'opened') {
+      changes.open_count = (Number(report.open_count) || 0) + 1;
+      if (!report.first_opened_at || occurredAt < report.first_opened_at) changes.first_opened_at = occurredAt;
+    } else {
+      const status: EmailDeliveryStatus = input.event;
+      if (!report.delivery_status || STATUS_RANK[status] > STATUS_RANK[report.delivery_status]) {
+        changes.delivery_status = status;
+      }
+      if (status === 'delivered' && (!report.delivered_at || occurredAt < report.delivered_at)) {
+        changes.delivered_at = occurredAt;
+      }
+      if (status === 'bounced') {
+        if (!report.bounced_at || occurredAt < report.bounced_at) changes.bounced_at = occurredAt;
+        changes.bounce_reason = [input.recipient, input.reason].filter(Boolean).join(': ') || null;
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await update('compass_reports', changes, { report_id: report.report_id });
+    }
+    result.recorded++;
+
+    if (input.event === 'bounced' && !report.bounced_at) {
+      await notifyBounce(report, input);
+    }
+  }
+
+  console.log(
+    `[Email Events] ${result.recorded}/${result.received} recorded ` +
+    `(${result.duplicates} duplicate, ${result.unmatched} unmatched, ${result.invalid} invalid)`
+  );
+  return result;
+}
+
+async function findReport(input: EmailEventInput): Promise<ReportRow | null> {
+  if (input.report_id) {
+    const rows = await select<ReportRow[]>('compass_reports', {
+      select: REPORT_COLUMNS,
+      filters: { report_id: input.report_id },
+      limit: 1,
+    });
+    if (rows.length > 0) return rows[0];
+  }
+
+  if (input.message_id) {
+    // SMTP ids come with angle brackets; providers often strip them
+    const bare = input.message_id.replace(/^<|>$/g, '');
+    const rows = await select<ReportRow[]>('compass_reports', {
+      select: REPORT_COLUMNS,
+      filters: { provider_message_id: { in: [bare, `<${bare}>`] } },
+      limit: 1,
+    });
+    if (rows.length > 0) return rows[0];
+  }
+
+  return null;
+}
+
+/**
+ * Tell the account manager a client's report bounced. Best effort: failures
+ * are logged, never thrown, so the event is still recorded.
+ */
+async function notifyBounce(report: ReportRow, input: EmailEventInput): Promise<void> {
+  try {
+    const contracts = await select<ContractRow[]>('contracts', {
+      select: 'contract_id,contract_name,external_id,account_manager,slack_channel_internal',
+      filters: { contract_id: report.contract_id },
+      limit: 1,
+    });
+    const contract = contracts[0];
+    if (!contract) return;
+
+    const text = [
+      `:warning: *Status report bounced* for *${contract.contract_name}*${contract.external_id ? ` (${contract.external_id})` : ''}`,
+      `• *Report:* ${report.subject ?? report.report_id}`,
+      input.recipient ? `• *Recipient:* ${input.recipient}` : null,
+      input.reason ? `• *Reason:* ${input.reason}` : null,
+      'Check the recipient list on the contract\'s status report config.',
+    ].filter(Boolean).join('\n');
+
+    if (contract.account_manager) {
+      const managers = await select<Array<{ email: string | null }>>('pulse_clickup_users', {
+        select: 'email',
+        filters: { id: contract.account_manager },
+        limit: 1,
+      });
+      const email = managers[0]?.email;
+      const slackUserId = email ? await lookupSlackUserIdByEmail(email) : null;
+      if (slackUserId) {
+        const posted = await postSlackMessage({ channel: slackUserId, text });
+        if (posted.ok) return;
+        console.warn(`[Email Events] Bounce DM failed: ${posted.error}`);
+      }
+    }
+
+    if (contract.slack_channel_internal) {
+      const posted = await postSlackMessage({ channel: contract.slack_channel_internal, text });
+      if (posted.ok) return;
+      console.warn(`[Email Events] Bounce post to ${contract.slack_channel_internal} failed: ${posted.error}`);
+    }
+
+    console.warn(`[Email Events] Could not notify anyone about bounced report ${report.report_id}`);
+  } catch (err) {
+    console.error(`[Email Events] Bounce notification for report ${report.report_id} threw:`, err);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * n8n webhook transport: hands the rendered email to an n8n workflow, which
+ * does the actual sending. The workflow may answer with { message_id } so
+ * delivery events can be matched; report_id is passed along either way.
+ */
+
+import type { EmailTransport } from './transport.js';
+import type { EmailMessage, EmailSendResult } from '../../types/email.js';
+
+export class N8nEmailTransport implements EmailTransport {
+  readonly name = 'n8n' as const;
+
+  constructor(private readonly webhookUrl: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!this.webhookUrl) {
+      throw new Error('N8N_WEBHOOK_URL is not configured');
+    }
+
+    const response = await fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email_type: message.email_type,
+        to: message.to,
+        report_id: message.report_id ?? null,
+        data: {
+          subject: message.subject,
+          html: message.html,
+          ...(message.text ? { text: message.text } : {}),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Webhook returned ${response.status}: ${errorText.substring(0, 200)}`);
+    }
+
+    // Older workflows answer with plain text or an empty body
+    let messageId: string | null = null;
+    try {
+      const body = (await response.json()) as { message_id?: unknown; messageId?: unknown };
+      const id = body?.message_id ?? body?.messageId;
+      if (typeof id === 'string' && id) messageId = id;
+    } catch {
+      // no JSON body
+    }
+
+    return { transport: this.name, message_id: messageId };
+  }
+}
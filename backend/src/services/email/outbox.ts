@@ -0,0 +1,30 @@
+/**
+ * Outbox transport for local development and testing: each message is
+ * written to <EMAIL_OUTBOX_DIR>/<timestamp>-<message id>.json (the message
+ * plus a standalone .html next to it) instead of being sent.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { EmailTransport } from './transport.js';
+import type { EmailMessage, EmailSendResult } from '../../types/email.js';
+
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox' as const;
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `outbox-${uuidv4()}`;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const base = path.join(this.dir, `${stamp}-${messageId}`);
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${base}.json`, JSON.stringify({ message_id: messageId, ...message }, null, 2), 'utf-8');
+    await writeFile(`${base}.html`, message.html, 'utf-8');
+
+    console.log(`[Email Outbox] Wrote "${message.subject}" for ${message.to.join(', ')} to ${base}.json`);
+    return { transport: this.name, message_id: messageId };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * SMTP transport via nodemailer. The report id goes out as an X-Report-Id
+ * header so bounce processing on the mail provider side can echo it back.
+ */
+
+import nodemailer from 'nodemailer';
+import type { EmailTransport } from './transport.js';
+import type { EmailMessage, EmailSendResult } from '../../types/email.js';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+
+  constructor(
+    private readonly settings: SmtpSettings,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!this.settings.host) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+    if (!this.from) {
+      throw new Error('EMAIL_FROM is not configured');
+    }
+
+    const transporter = nodemailer.createTransport({
+      host: this.settings.host,
+      port: this.settings.port,
+      secure: this.settings.secure,
+      auth: this.settings.user ? { user: this.settings.user, pass: this.settings.pass } : undefined,
+    });
+
+    const info = await transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.report_id ? { 'X-Report-Id': message.report_id } : undefined,
+    });
+
+    if (info.rejected.length > 0 && info.accepted.length === 0) {
+      throw new Error(`SMTP server rejected all recipients: ${info.rejected.map((r) => (typeof r === 'string' ? r : (r as { address: string }).address)).join(', ')}`);
+    }
+
+    return { transport: this.name, message_id: info.messageId || null };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Email Transports
+ *
+ * Client-facing emails go through one EmailTransport, picked by
+ * EMAIL_TRANSPORT:
+ *   n8n    — POST to the n8n webhook (N8N_WEBHOOK_URL), which does the sending
+ *   smtp   — send directly over SMTP (SMTP_HOST / SMTP_USER / SMTP_PASS)
+ *   outbox — write each message to EMAIL_OUTBOX_DIR instead of sending
+ *
+ * send() resolves once the transport has accepted the message and throws
+ * otherwise. Whatever message id it returns is stored so delivery events
+ * can be matched back to the report.
+ */
+
+import { emailConfig } from '../../config/email.js';
+import { N8nEmailTransport } from './n8n.js';
+import { SmtpEmailTransport } from './smtp.js';
+import { OutboxEmailTransport } from './outbox.js';
+import type { EmailMessage, EmailSendResult, EmailTransportName } from '../../types/email.js';
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export function getEmailTransport(name: EmailTransportName = emailConfig.transport): EmailTransport {
+  switch (name) {
+    case 'smtp':
+      return new SmtpEmailTransport(emailConfig.smtp, emailConfig.from);
+    case 'outbox':
+      return new OutboxEmailTransport(emailConfig.outbox.dir);
+    case 'n8n':
+    default:
+      return new N8nEmailTransport(emailConfig.n8n.webhookUrl);
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Accounts-Receivable Aging
+ *
+ * Open QuickBooks invoices (status 'open', balance > 0) bucketed by days past
+ * due — current (not yet due), 1-30, 31-60, 61-90, 90+ — and totalled per
+ * contract, per realm and overall. Balances are QuickBooks' own, so partial
+ * payments are already reflected. Each contract row carries its account
+ * manager so collections can go to the contract owner.
+ */
+
+import { select, selectAll } from '../../utils/edge-functions.js';
+import { postSlackMessage } from '../slack/client.js';
+import { financeConfig } from '../../config/finance.js';
+import {
+  AGING_BUCKETS,
+  type AgingBucket,
+  type AgingTotals,
+  type ArAgingContract,
+  type ArAgingInvoice,
+  type ArAgingRealm,
+  type ArAgingReport,
+} from '../../types/finance.js';
+import { round2 } from '../../utils/numbers.js';
+import { daysBetween } from '../../utils/dates.js';
+
+export interface ArAgingOptions {
+  realmId?: string;
+  contractIds?: string[];
+  includeInvoices?: boolean;
+}
+
+interface OpenInvoiceRow {
+  invoice_id: string;
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  doc_number: string | null;
+  customer_name: string | null;
+  contract_id: string | null;
+  transaction_date: string | null;
+  due_date: string | null;
+  amount: number | null;
+  balance: number | null;
+  last_payment_date: string | null;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  account_manager: string | null;
+}
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  days_1_30: '1-30',
+  days_31_60: '31-60',
+  days_61_90: '61-90',
+  days_90_plus: '90+',
+};
+
+export function agingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+export async function computeArAging(options: ArAgingOptions = {}): Promise<ArAgingReport> {
+  const asOf = new Date().toISOString().slice(0, 10);
+
+  if (options.contractIds && options.contractIds.length === 0) {
+    return { as_of: asOf, totals: emptyTotals(), realms: [], contracts: [] };
+  }
+
+  const filters: Record<string, unknown> = {
+    status: 'open',
+    is_deleted: false,
+    balance: { gt: 0 },
+  };
+  if (options.realmId) filters.quickbooks_realm_id = options.realmId;
+  if (options.contractIds) filters.contract_id = { in: options.contractIds };
+
+  const rows = await selectAll<OpenInvoiceRow>('pulse_invoices', 'invoice_id', {
+    select:
+      'invoice_id,quickbooks_id,quickbooks_realm_id,doc_number,customer_name,contract_id,' +
+      'transaction_date,due_date,amount,balance,last_payment_date',
+    filters,
+  });
+
+  // Contract, account manager and realm names
+  const contractIds = Array.from(new Set(rows.map((r) => r.contract_id).filter((id): id is string => !!id)));
+  const realmIds = Array.from(new Set(rows.map((r) => r.quickbooks_realm_id)));
+
+  const [contracts, realms] = await Promise.all([
+    contractIds.length > 0
+      ? select<ContractRow[]>('contracts', {
+          select: 'contract_id,contract_name,external_id,account_manager',
+          filters: { contract_id: { in: contractIds } },
+        })
+      : Promise.resolve([] as ContractRow[]),
+    realmIds.length > 0
+      ? select<Array<{ name: string; quickbooks_realm_id: string }>>('organizations', {
+          select: 'name,quickbooks_realm_id',
+          filters: { quickbooks_realm_id: { in: realmIds } },
+        })
+      : Promise.resolve([]),
+  ]);
+  const contractsById = new Map((contracts || []).map((c) => [c.contract_id, c]));
+  const realmNames = new Map((realms || []).map((r) => [r.quickbooks_realm_id, r.name]));
+
+  const managerIds = Array.from(new Set((contracts || []).map((c) => c.account_manager).filter((id): id is string => !!id)));
+  const managers = managerIds.length > 0
+    ? await select<Array<{ id: string; full_name: string | null; username: string | null }>>('pulse_clickup_users', {
+        select: 'id,full_name,username',
+        filters: { id: { in: managerIds } },
+      })
+    : [];
+  const managerNames = new Map((managers || []).map((m) => [m.id, m.full_name || m.username]));
+
+  const totals = emptyTotals();
+  const byRealm = new Map<string, ArAgingRealm>();
+  const byContract = new Map<string, ArAgingContract>();
+
+  for (const row of rows) {
+    const balance = Number(row.balance) || 0;
+    const dueDate = row.due_date || row.transaction_date;
+    const daysPastDue = dueDate ? daysBetween(dueDate.slice(0, 10), asOf) : 0;
+    const bucket = agingBucket(daysPastDue);
+
+    const invoice: ArAgingInvoice = {
+      invoice_id: row.invoice_id,
+      quickbooks_id: row.quickbooks_id,
+      quickbooks_realm_id: row.quickbooks_realm_id,
+      doc_number: row.doc_number,
+      customer_name: row.customer_name,
+      contract_id: row.contract_id,
+      transaction_date: row.transaction_date,
+      due_date: row.due_date,
+      amount: Number(row.amount) || 0,
+      balance,
+      days_past_due: Math.max(0, daysPastDue),
+      bucket,
+      last_payment_date: row.last_payment_date,
+    };
+
+    addToTotals(totals, bucket, balance);
+
+    let realm = byRealm.get(row.quickbooks_realm_id);
+    if (!realm) {
+      realm = {
+        quickbooks_realm_id: row.quickbooks_realm_id,
+        realm_name: realmNames.get(row.quickbooks_realm_id) ?? null,
+        ...emptyTotals(),
+      };
+      byRealm.set(row.quickbooks_realm_id, realm);
+    }
+    addToTotals(realm, bucket, balance);
+
+    // Unlinked invoices are grouped per realm + QuickBooks customer
+    const contractKey = row.contract_id || `unlinked:${row.quickbooks_realm_id}:${row.customer_name || ''}`;
+    let contractAging = byContract.get(contractKey);
+    if (!contractAging) {
+      const contract = row.contract_id ? contractsById.get(row.contract_id) : undefined;
+      contractAging = {
+        contract_id: row.contract_id,
+        contract_name: contract?.contract_name ?? null,
+        external_id: contract?.external_id ?? null,
+        customer_name: row.customer_name,
+        account_manager_id: contract?.account_manager ?? null,
+        account_manager_name: contract?.account_manager ? managerNames.get(contract.account_manager) ?? null : null,
+        oldest_days_past_due: 0,
+        ...emptyTotals(),
+        ...(options.includeInvoices ? { invoices: [] } : {}),
+      };
+      byContract.set(contractKey, contractAging);
+    }
+    addToTotals(contractAging, bucket, balance);
+    contractAging.oldest_days_past_due = Math.max(contractAging.oldest_days_past_due, invoice.days_past_due);
+    contractAging.invoices?.push(invoice);
+  }
+
+  // Most overdue first
+  const contractList = Array.from(byContract.values()).sort(
+    (a, b) => overdueTotal(b) - overdueTotal(a) || b.total - a.total
+  );
+  for (const c of contractList) {
+    c.invoices?.sort((a, b) => b.days_past_due - a.days_past_due);
+  }
+
+  return {
+    as_of: asOf,
+    totals,
+    realms: Array.from(byRealm.values()).sort((a, b) => b.total - a.total),
+    contracts: contractList,
+  };
+}
+
+/**
+ * Weekly AR digest to the finance Slack channel: bucket totals, per-realm
+ * totals and the most overdue contracts with their account managers
+ */
+export async function postArAgingDigest(options: { dryRun?: boolean } = {}): Promise<{
+  posted: boolean;
+  channel: string | null;
+  text: string;
+  totals: AgingTotals;
+}> {
+  const channel = financeConfig.slackChannel || null;
+  const report = await computeArAging();
+  const text = buildDigestText(report);
+
+  if (options.dryRun || !channel) {
+    return { posted: false, channel, text, totals: report.totals };
+  }
+
+  const result = await postSlackMessage({ channel, text });
+  if (!result.ok) {
+    throw new Error(`Slack post failed: ${result.error}`);
+  }
+  return { posted: true, channel, text, totals: report.totals };
+}
+
+function buildDigestText(report: ArAgingReport): string {
+  const lines: string[] = [];
+  lines.push(`:receipt: *AR aging — ${report.as_of}*`);
+  lines.push(
+    `*Outstanding:* ${formatMoney(report.totals.total)} across ${report.totals.invoice_count} open invoice(s), ` +
+    `${formatMoney(overdueTotal(report.totals))} past due`
+  );
+  lines.push(AGING_BUCKETS.map((b) => `${BUCKET_LABELS[b]}: ${formatMoney(report.totals[b])}`).join('  |  '));
+
+  if (report.realms.length > 1) {
+    lines.push('');
+    lines.push('*By business unit*');
+    for (const realm of report.realms) {
+      lines.push(
+        `• ${realm.realm_name || realm.quickbooks_realm_id}: ${formatMoney(realm.total)} ` +
+        `(${formatMoney(overdueTotal(realm))} past due)`
+      );
+    }
+  }
+
+  const overdue = report.contracts.filter((c) => overdueTotal(c) > 0).slice(0, financeConfig.digestTopContracts);
+  if (overdue.length > 0) {
+    lines.push('');
+    lines.push('*Most overdue*');
+    for (const c of overdue) {
+      const name = c.contract_name
+        ? `${c.contract_name}${c.external_id ? ` (${c.external_id})` : ''}`
+        : `${c.customer_name || 'Unknown customer'} _(not linked to a contract)_`;
+      lines.push(
+        `• ${name}: ${formatMoney(overdueTotal(c))} past due, oldest ${c.oldest_days_past_due}d` +
+        ` — ${c.account_manager_name || 'no account manager'}`
+      );
+    }
+  } else {
+    lines.push('');
+    lines.push('_Nothing past due_ :tada:');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptyTotals(): AgingTotals {
+  return {
+    current: 0,
+    days_1_30: 0,
+    days_31_60: 0,
+    days_61_90: 0,
+    days_90_plus: 0,
+    total: 0,
+    invoice_count: 0,
+  };
+}
+
+function addToTotals(totals: AgingTotals, bucket: AgingBucket, balance: number): void {
+  totals[bucket] = round2(totals[bucket] + balance);
+  totals.total = round2(totals.total + balance);
+  totals.invoice_count++;
+}
+
+function overdueTotal(totals: AgingTotals): number {
+  return round2(totals.total - totals.current);
+}
+
+function formatMoney(n: number): string {
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
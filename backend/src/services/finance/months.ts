@@ -0,0 +1,32 @@
+/**
+ * Calendar-month helpers for the finance series. Months are 'YYYY-MM'
+ * strings, which sort and compare chronologically.
+ */
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function isValidMonth(value: string): boolean {
+  return MONTH_PATTERN.test(value);
+}
+
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+export function monthRange(from: string, to: string): string[] {
+  const months: string[] = [];
+  for (let m = from; m <= to; m = addMonths(m, 1)) months.push(m);
+  return months;
+}
+
+export function addMonths(month: string, delta: number): string {
+  const [year, mon] = month.split('-').map(Number);
+  const d = new Date(Date.UTC(year, mon - 1 + delta, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+// Last day of the month, YYYY-MM-DD
+export function monthEnd(month: string): string {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon, 0)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,372 @@
+/**
+ * MRR / ARR Series
+ *
+ * Month-by-month recurring revenue per contract and in total. A recurring
+ * contract's MRR for a month is its amount in effect at month end (contract
+ * amendments included, via contract_terms_as_of) while the contract is live
+ * at month end. Month-over-month changes are classed as new, expansion,
+ * contraction or churned; net and gross revenue retention come from those.
+ *
+ * A contract stops being live after contract_end_date. Canceled or inactive
+ * contracts without an end date end on the day their status changed
+ * (contract_events), else on their last update. Active contracts are live
+ * regardless of end date, since renewals move the term forward.
+ *
+ * Recognized revenue is invoiced minus credited in QuickBooks, in the month
+ * of the document's transaction date; project contracts count towards it but
+ * carry no MRR.
+ */
+
+import { selectAll } from '../../utils/edge-functions.js';
+import { getContractTermsAsOf } from '../contracts/amendments.js';
+import { addMonths, currentMonth, isValidMonth, monthEnd, monthRange } from './months.js';
+import type {
+  MrrContractMonth,
+  MrrContractSeries,
+  MrrMonth,
+  MrrMovement,
+  MrrReport,
+} from '../../types/finance.js';
+import { round2 } from '../../utils/numbers.js';
+
+// Longest range one report covers (one as-of terms lookup per month)
+export const MAX_MRR_MONTHS = 36;
+
+export interface MrrOptions {
+  from?: string;          // YYYY-MM, default 11 months before `to`
+  to?: string;            // YYYY-MM, default current month
+  includeContracts?: boolean;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  contract_type: string;
+  contract_start_date: string;
+  contract_end_date: string | null;
+  updated_at: string | null;
+}
+
+interface RevenueDocRow {
+  contract_id: string | null;
+  transaction_date: string | null;
+  amount: number | null;
+  status?: string | null;
+}
+
+export async function computeMrrSeries(options: MrrOptions = {}): Promise<MrrReport> {
+  const to = options.to || currentMonth();
+  const from = options.from || addMonths(to, -11);
+  if (!isValidMonth(from) || !isValidMonth(to)) {
+    throw new Error('from and to must be YYYY-MM');
+  }
+  if (from > to) {
+    throw new Error('from must not be after to');
+  }
+
+  const months = monthRange(from, to);
+  if (months.length > MAX_MRR_MONTHS) {
+    throw new Error(`Range too long: at most ${MAX_MRR_MONTHS} months`);
+  }
+  const baseline = addMonths(from, -1);
+  const dateFilter = { gte: `${from}-01`, lte: monthEnd(to) };
+
+  const [contracts, invoices, creditMemos] = await Promise.all([
+    selectAll<ContractRow>('contracts', 'contract_id', {
+      select:
+        'contract_id,contract_name,external_id,contract_status,contract_type,' +
+        'contract_start_date,contract_end_date,updated_at',
+    }),
+    selectAll<RevenueDocRow & { invoice_id: string }>('pulse_invoices', 'invoice_id', {
+      select: 'invoice_id,contract_id,transaction_date,amount,status',
+      filters: { is_deleted: false, transaction_date: dateFilter },
+    }),
+    selectAll<RevenueDocRow & { credit_memo_id: string }>('pulse_credit_memos', 'credit_memo_id', {
+      select: 'credit_memo_id,contract_id,transaction_date,amount',
+      filters: { is_deleted: false, transaction_date: dateFilter },
+    }),
+  ]);
+
+  // Recurring contracts that could carry MRR somewhere in the range
+  const recurring = contracts.filter(
+    (c) => c.contract_type === 'recurring' &&
+      c.contract_status !== 'pending' &&
+      c.contract_start_date.slice(0, 10) <= monthEnd(to)
+  );
+  const endDates = await resolveEndDates(recurring);
+  const live = recurring.filter((c) => {
+    const end = endDates.get(c.contract_id);
+    return !end || end >= monthEnd(baseline);
+  });
+  const liveIds = live.map((c) => c.contract_id);
+
+  // MRR at each month end, baseline month first
+  const mrrByMonth = new Map<string, Map<string, number>>();
+  for (const month of [baseline, ...months]) {
+    const byContract = new Map<string, number>();
+    if (liveIds.length > 0) {
+      const terms = await getContractTermsAsOf(monthEnd(month), liveIds);
+      for (const contract of live) {
+        if (!isLiveAtMonthEnd(contract, endDates.get(contract.contract_id) ?? null, month)) continue;
+        const amount = terms.get(contract.contract_id)?.amount ?? 0;
+        if (amount > 0) byContract.set(contract.contract_id, amount);
+      }
+    }
+    mrrByMonth.set(month, byContract);
+  }
+
+  // Revenue per contract (or unlinked) per month
+  const revenue = new Map<string, Map<string, { invoiced: number; credited: number }>>();
+  const addRevenue = (doc: RevenueDocRow, field: 'invoiced' | 'credited'): void => {
+    if (!doc.transaction_date) return;
+    const key = doc.contract_id || '';
+    const month = doc.transaction_date.slice(0, 7);
+    let byMonth = revenue.get(key);
+    if (!byMonth) {
+      byMonth = new Map();
+      revenue.set(key, byMonth);
+    }
+    const entry = byMonth.get(month) || { invoiced: 0, credited: 0 };
+    entry[field] += Number(doc.amount) || 0;
+    byMonth.set(month, entry);
+  };
+  for (const doc of invoices) {
+    if (doc.status !== 'void') addRevenue(doc, 'invoiced');
+  }
+  for (const doc of creditMemos) addRevenue(doc, 'credited');
+
+  // Monthly totals and per-contract movements
+  const contractIds = new Set<string>([...liveIds, ...Array.from(revenue.keys()).filter((k) => k)]);
+  const contractsById = new Map(contracts.map((c) => [c.contract_id, c]));
+  const series = new Map<string, MrrContractMonth[]>();
+
+  const monthRows: MrrMonth[] = months.map((month, i) => {
+    const previous = mrrByMonth.get(i === 0 ? baseline : months[i - 1])!;
+    const current = mrrByMonth.get(month)!;
+
+    const row: MrrMonth = {
+      month,
+      starting_mrr: sum(previous.values()),
+      new_mrr: 0,
+      expansion_mrr: 0,
+      contraction_mrr: 0,
+      churned_mrr: 0,
+      net_new_mrr: 0,
+      ending_mrr: sum(current.values()),
+      arr: 0,
+      net_revenue_retention: null,
+      gross_revenue_retention: null,
+      active_contracts: current.size,
+      new_contracts: 0,
+      churned_contracts: 0,
+      invoiced: 0,
+      credited: 0,
+      recognized_revenue: 0,
+      unlinked_revenue: 0,
+    };
+
+    for (const contractId of contractIds) {
+      const before = previous.get(contractId) ?? 0;
+      const after = current.get(contractId) ?? 0;
+      const movement = classifyMovement(before, after);
+
+      if (movement === 'new') {
+        row.new_mrr += after;
+        row.new_contracts++;
+      } else if (movement === 'expansion') {
+        row.expansion_mrr += after - before;
+      } else if (movement === 'contraction') {
+        row.contraction_mrr += before - after;
+      } else if (movement === 'churned') {
+        row.churned_mrr += before;
+        row.churned_contracts++;
+      }
+
+      const rev = revenue.get(contractId)?.get(month);
+      if (options.includeContracts && (movement || rev)) {
+        const list = series.get(contractId) || [];
+        list.push({
+          month,
+          mrr: round2(after),
+          change: round2(after - before),
+          movement,
+          recognized_revenue: rev ? round2(rev.invoiced - rev.credited) : 0,
+        });
+        series.set(contractId, list);
+      }
+    }
+
+    for (const [key, byMonth] of revenue) {
+      const rev = byMonth.get(month);
+      if (!rev) continue;
+      row.invoiced += rev.invoiced;
+      row.credited += rev.credited;
+      if (key) row.recognized_revenue += rev.invoiced - rev.credited;
+      else row.unlinked_revenue += rev.invoiced - rev.credited;
+    }
+
+    row.net_new_mrr = row.new_mrr + row.expansion_mrr - row.contraction_mrr - row.churned_mrr;
+    row.arr = row.ending_mrr * 12;
+    if (row.starting_mrr > 0) {
+      row.net_revenue_retention = round4(
+        (row.starting_mrr + row.expansion_mrr - row.contraction_mrr - row.churned_mrr) / row.starting_mrr
+      );
+      row.gross_revenue_retention = round4(
+        (row.starting_mrr - row.contraction_mrr - row.churned_mrr) / row.starting_mrr
+      );
+    }
+
+    return roundMonth(row);
+  });
+
+  // Range NRR: what the contracts live at the start bring in at the end
+  const startMrr = mrrByMonth.get(baseline)!;
+  const endMrr = mrrByMonth.get(to)!;
+  const startingTotal = sum(startMrr.values());
+  const retainedTotal = sum(Array.from(startMrr.keys()).map((id) => endMrr.get(id) ?? 0));
+  const endingTotal = sum(endMrr.values());
+
+  const report: MrrReport = {
+    from,
+    to,
+    months: monthRows,
+    summary: {
+      starting_mrr: round2(startingTotal),
+      ending_mrr: round2(endingTotal),
+      arr: round2(endingTotal * 12),
+      net_new_mrr: round2(endingTotal - startingTotal),
+      net_revenue_retention: startingTotal > 0 ? round4(retainedTotal / startingTotal) : null,
+      recognized_revenue: round2(monthRows.reduce((total, m) => total + m.recognized_revenue, 0)),
+    },
+  };
+
+  if (options.includeContracts) {
+    report.contracts = Array.from(series.entries())
+      .map(([contractId, list]): MrrContractSeries => {
+        const contract = contractsById.get(contractId);
+        return {
+          contract_id: contractId,
+          contract_name: contract?.contract_name ?? contractId,
+          external_id: contract?.external_id ?? null,
+          contract_status: contract?.contract_status ?? 'unknown',
+          months: list,
+        };
+      })
+      .sort((a, b) => a.contract_name.localeCompare(b.contract_name));
+  }
+
+  return report;
+}
+
+/**
+ * Flatten a report for CSV: one row per month, or one per contract-month
+ */
+export function mrrCsvRows(report: MrrReport, level: 'month' | 'contract'): { headers: string[]; rows: unknown[][] } {
+  if (level === 'contract') {
+    return {
+      headers: ['Month', 'Contract', 'Contract Number', 'Status', 'MRR', 'Change', 'Movement', 'Recognized Revenue'],
+      rows: (report.contracts || []).flatMap((c) =>
+        c.months.map((m) => [
+          m.month, c.contract_name, c.external_id, c.contract_status,
+          m.mrr, m.change, m.movement, m.recognized_revenue,
+        ])
+      ).sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    };
+  }
+
+  return {
+    headers: [
+      'Month', 'Starting MRR', 'New MRR', 'Expansion MRR', 'Contraction MRR', 'Churned MRR',
+      'Net New MRR', 'Ending MRR', 'ARR', 'NRR', 'GRR', 'Active Contracts', 'New Contracts',
+      'Churned Contracts', 'Invoiced', 'Credited', 'Recognized Revenue', 'Unlinked Revenue',
+    ],
+    rows: report.months.map((m) => [
+      m.month, m.starting_mrr, m.new_mrr, m.expansion_mrr, m.contraction_mrr, m.churned_mrr,
+      m.net_new_mrr, m.ending_mrr, m.arr, m.net_revenue_retention, m.gross_revenue_retention,
+      m.active_contracts, m.new_contracts, m.churned_contracts, m.invoiced, m.credited,
+      m.recognized_revenue, m.unlinked_revenue,
+    ]),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Last live day of each ended recurring contract (absent = still live)
+ */
+async function resolveEndDates(contracts: ContractRow[]): Promise<Map<string, string>> {
+  const ends = new Map<string, string>();
+  const needEvent: ContractRow[] = [];
+
+  for (const c of contracts) {
+    if (c.contract_status === 'active') continue;
+    if (c.contract_end_date) ends.set(c.contract_id, c.contract_end_date.slice(0, 10));
+    else needEvent.push(c);
+  }
+  if (needEvent.length === 0) return ends;
+
+  // When the status last moved to canceled/inactive
+  const events = await selectAll<{
+    event_id: string;
+    contract_id: string;
+    changes: Record<string, { from: unknown; to: unknown }> | null;
+    created_at: string;
+  }>('contract_events', 'event_id', {
+    select: 'event_id,contract_id,changes,created_at',
+    filters: { contract_id: { in: needEvent.map((c) => c.contract_id) } },
+  });
+
+  const statusChanged = new Map<string, string>();
+  for (const event of events) {
+    const to = event.changes?.contract_status?.to;
+    if (to !== 'canceled' && to !== 'inactive') continue;
+    const date = event.created_at.slice(0, 10);
+    const existing = statusChanged.get(event.contract_id);
+    if (!existing || date > existing) statusChanged.set(event.contract_id, date);
+  }
+
+  for (const c of needEvent) {
+    const date = statusChanged.get(c.contract_id) ?? c.updated_at?.slice(0, 10);
+    if (date) ends.set(c.contract_id, date);
+  }
+  return ends;
+}
+
+function isLiveAtMonthEnd(contract: ContractRow, endDate: string | null, month: string): boolean {
+  const end = monthEnd(month);
+  if (contract.contract_start_date.slice(0, 10) > end) return false;
+  return !endDate || endDate >= end;
+}
+
+function classifyMovement(before: number, after: number): MrrMovement | null {
+  if (before === 0 && after === 0) return null;
+  if (before === 0) return 'new';
+  if (after === 0) return 'churned';
+  if (after > before) return 'expansion';
+  if (after < before) return 'contraction';
+  return 'flat';
+}
+
+function roundMonth(row: MrrMonth): MrrMonth {
+  for (const key of [
+    'starting_mrr', 'new_mrr', 'expansion_mrr', 'contraction_mrr', 'churned_mrr', 'net_new_mrr',
+    'ending_mrr', 'arr', 'invoiced', 'credited', 'recognized_revenue', 'unlinked_revenue',
+  ] as const) {
+    row[key] = round2(row[key]);
+  }
+  return row;
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,311 @@
+/**
+ * Points-to-Invoice Reconciliation
+ *
+ * Per contract and per month, compares the points billed in QuickBooks
+ * (pulse_invoices + pulse_credit_memos, parsed from the memo by the sync) with
+ * the contract's monthly allotment in effect that month and with the points
+ * delivered (pulse_tasks by date_done). A month is over- or under-billed when
+ * its net billed points miss the allotment by more than the configured
+ * tolerance.
+ *
+ * Documents the sync couldn't attribute are listed as exceptions rather than
+ * silently dropped: memos that didn't parse, contract numbers parsed with too
+ * little confidence to link, contract numbers that matched no contract, and
+ * linked documents without points. Unlinked ones are worked from the memo
+ * triage queue.
+ */
+
+import { selectAll } from '../../utils/edge-functions.js';
+import { getContractTermsAsOf } from '../contracts/amendments.js';
+import { financeConfig } from '../../config/finance.js';
+import { addMonths, currentMonth, isValidMonth, monthEnd, monthRange } from './months.js';
+import type {
+  MemoException,
+  MemoExceptionReason,
+  PointsReconciliationContract,
+  PointsReconciliationMonth,
+  PointsReconciliationReport,
+  ReconciliationStatus,
+} from '../../types/finance.js';
+import { round2 } from '../../utils/numbers.js';
+
+// Longest range one report covers (one as-of terms lookup per month)
+export const MAX_RECONCILIATION_MONTHS = 36;
+
+export interface PointsReconciliationOptions {
+  from?: string;          // YYYY-MM, default 11 months before `to`
+  to?: string;            // YYYY-MM, default current month
+  contractIds?: string[];
+}
+
+interface BillingDocRow {
+  id: string;
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  contract_id: string | null;
+  contract_external_id: string | null;
+  doc_number: string | null;
+  customer_name: string | null;
+  transaction_date: string | null;
+  amount: number | null;
+  points: number | null;
+  memo_raw: string | null;
+  memo_confidence: string | null;
+  status?: string | null;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  contract_start_date: string | null;
+  contract_end_date: string | null;
+  hosting: boolean | null;
+}
+
+interface MonthTally {
+  billed: number;
+  credited: number;
+  delivered: number;
+}
+
+export async function computePointsReconciliation(
+  options: PointsReconciliationOptions = {}
+): Promise<PointsReconciliationReport> {
+  const to = options.to || currentMonth();
+  const from = options.from || addMonths(to, -11);
+  if (!isValidMonth(from) || !isValidMonth(to)) {
+    throw new Error('from and to must be YYYY-MM');
+  }
+  if (from > to) {
+    throw new Error('from must not be after to');
+  }
+
+  const months = monthRange(from, to);
+  if (months.length > MAX_RECONCILIATION_MONTHS) {
+    throw new Error(`Range too long: at most ${MAX_RECONCILIATION_MONTHS} months`);
+  }
+
+  const rangeStart = `${from}-01`;
+  const rangeEnd = monthEnd(to);
+  const dateFilter = { gte: rangeStart, lte: rangeEnd };
+
+  const contractFilter = options.contractIds ? { contract_id: { in: options.contractIds } } : {};
+  const [contracts, invoices, creditMemos, tasks] = await Promise.all([
+    selectAll<ContractRow>('contracts', 'contract_id', {
+      select: 'contract_id,contract_name,external_id,contract_status,contract_start_date,contract_end_date,hosting',
+      filters: contractFilter,
+    }),
+    selectAll<BillingDocRow & { invoice_id: string }>('pulse_invoices', 'invoice_id', {
+      select:
+        'invoice_id,quickbooks_id,quickbooks_realm_id,contract_id,contract_external_id,doc_number,' +
+        'customer_name,transaction_date,amount,points,memo_raw,memo_confidence,status',
+      filters: { is_deleted: false, transaction_date: dateFilter },
+    }),
+    selectAll<BillingDocRow & { credit_memo_id: string }>('pulse_credit_memos', 'credit_memo_id', {
+      select:
+        'credit_memo_id,quickbooks_id,quickbooks_realm_id,contract_id,contract_external_id,doc_number,' +
+        'customer_name,transaction_date,amount,points,memo_raw,memo_confidence',
+      filters: { is_deleted: false, transaction_date: dateFilter },
+    }),
+    selectAll<{ task_id: string; contract_id: string | null; points: number | null; date_done: string | null }>(
+      'pulse_tasks',
+      'task_id',
+      {
+        select: 'task_id,contract_id,points,date_done',
+        filters: { ...contractFilter, status: 'delivered', is_deleted: false, date_done: dateFilter },
+      }
+    ),
+  ]);
+
+  const invoiceDocs = invoices
+    .filter((i) => i.status !== 'void')
+    .map((i) => ({ ...i, id: i.invoice_id }));
+  const creditDocs = creditMemos.map((c) => ({ ...c, id: c.credit_memo_id }));
+
+  // Monthly tallies per contract
+  const tallies = new Map<string, Map<string, MonthTally>>();
+  const tallyFor = (contractId: string, month: string): MonthTally => {
+    let byMonth = tallies.get(contractId);
+    if (!byMonth) {
+      byMonth = new Map();
+      tallies.set(contractId, byMonth);
+    }
+    let tally = byMonth.get(month);
+    if (!tally) {
+      tally = { billed: 0, credited: 0, delivered: 0 };
+      byMonth.set(month, tally);
+    }
+    return tally;
+  };
+
+  const scoped = options.contractIds ? new Set(options.contractIds) : null;
+  const inScope = (contractId: string | null): contractId is string =>
+    !!contractId && (!scoped || scoped.has(contractId));
+
+  for (const doc of invoiceDocs) {
+    if (!inScope(doc.contract_id) || !doc.transaction_date) continue;
+    tallyFor(doc.contract_id, doc.transaction_date.slice(0, 7)).billed += Number(doc.points) || 0;
+  }
+  for (const doc of creditDocs) {
+    if (!inScope(doc.contract_id) || !doc.transaction_date) continue;
+    tallyFor(doc.contract_id, doc.transaction_date.slice(0, 7)).credited += Number(doc.points) || 0;
+  }
+  for (const task of tasks) {
+    if (!inScope(task.contract_id) || !task.date_done) continue;
+    tallyFor(task.contract_id, task.date_done.slice(0, 7)).delivered += Number(task.points) || 0;
+  }
+
+  // Contracts reported: any with activity in the range, plus active
+  // non-hosting contracts (which would otherwise hide a missing invoice)
+  const reported = contracts.filter(
+    (c) => tallies.has(c.contract_id) || (c.contract_status === 'active' && !c.hosting)
+  );
+
+  // Allotment in effect at the end of each month
+  const reportedIds = reported.map((c) => c.contract_id);
+  const allotments = new Map<string, Map<string, number | null>>();
+  if (reportedIds.length > 0) {
+    for (const month of months) {
+      const terms = await getContractTermsAsOf(monthEnd(month), reportedIds);
+      const byContract = new Map<string, number | null>();
+      for (const [contractId, t] of terms) byContract.set(contractId, t.monthly_points_allotment);
+      allotments.set(month, byContract);
+    }
+  }
+
+  const tolerance = financeConfig.pointsVarianceTolerance;
+  const contractRows: PointsReconciliationContract[] = reported.map((contract) => {
+    const byMonth = tallies.get(contract.contract_id);
+    const monthRows = months.map((month): PointsReconciliationMonth => {
+      const tally = byMonth?.get(month) || { billed: 0, credited: 0, delivered: 0 };
+      const netBilled = round2(tally.billed + tally.credited);
+      const allotment = isUnderContract(contract, month)
+        ? allotments.get(month)?.get(contract.contract_id) ?? null
+        : null;
+      const billingVariance = allotment !== null ? round2(netBilled - allotment) : null;
+
+      return {
+        month,
+        points_billed: round2(tally.billed),
+        points_credited: round2(tally.credited),
+        points_net_billed: netBilled,
+        points_delivered: round2(tally.delivered),
+        monthly_points_allotment: allotment,
+        billing_variance: billingVariance,
+        delivery_variance: round2(netBilled - tally.delivered),
+        status: monthStatus(netBilled, billingVariance, tolerance),
+      };
+    });
+
+    const expected = round2(monthRows.reduce((sum, m) => sum + (m.monthly_points_allotment ?? 0), 0));
+    const netBilled = round2(monthRows.reduce((sum, m) => sum + m.points_net_billed, 0));
+    const delivered = round2(monthRows.reduce((sum, m) => sum + m.points_delivered, 0));
+
+    return {
+      contract_id: contract.contract_id,
+      contract_name: contract.contract_name,
+      external_id: contract.external_id,
+      contract_status: contract.contract_status,
+      months: monthRows,
+      totals: {
+        points_net_billed: netBilled,
+        points_delivered: delivered,
+        expected_points: expected,
+        billing_variance: round2(netBilled - expected),
+        delivery_variance: round2(netBilled - delivered),
+      },
+      over_billed_months: monthRows.filter((m) => m.status === 'over_billed').length,
+      under_billed_months: monthRows.filter((m) => m.status === 'under_billed').length,
+    };
+  });
+
+  // Most months off first, then largest absolute variance
+  contractRows.sort(
+    (a, b) =>
+      (b.over_billed_months + b.under_billed_months) - (a.over_billed_months + a.under_billed_months) ||
+      Math.abs(b.totals.billing_variance) - Math.abs(a.totals.billing_variance) ||
+      a.contract_name.localeCompare(b.contract_name)
+  );
+
+  // Exceptions; with a contract filter, keep those carrying the contracts' numbers
+  const externalIds = scoped
+    ? new Set(contracts.map((c) => c.external_id?.toUpperCase()).filter((id): id is string => !!id))
+    : null;
+  const exceptions: MemoException[] = [];
+  const collect = (docs: BillingDocRow[], documentType: MemoException['document_type']): void => {
+    for (const doc of docs) {
+      const reason = exceptionReason(doc);
+      if (!reason) continue;
+      if (scoped) {
+        const matchesContract = doc.contract_id
+          ? scoped.has(doc.contract_id)
+          : !!doc.contract_external_id && externalIds!.has(doc.contract_external_id.toUpperCase());
+        if (!matchesContract) continue;
+      }
+      exceptions.push({
+        document_type: documentType,
+        id: doc.id,
+        quickbooks_id: doc.quickbooks_id,
+        quickbooks_realm_id: doc.quickbooks_realm_id,
+        doc_number: doc.doc_number,
+        customer_name: doc.customer_name,
+        transaction_date: doc.transaction_date,
+        amount: doc.amount !== null ? Number(doc.amount) : null,
+        points: doc.points !== null ? Number(doc.points) : null,
+        contract_external_id: doc.contract_external_id,
+        contract_id: doc.contract_id,
+        memo_raw: doc.memo_raw,
+        reason,
+      });
+    }
+  };
+  collect(invoiceDocs, 'invoice');
+  collect(creditDocs, 'credit_memo');
+  exceptions.sort((a, b) => (b.transaction_date || '').localeCompare(a.transaction_date || ''));
+
+  return {
+    from,
+    to,
+    contracts: contractRows,
+    exceptions,
+    summary: {
+      contracts: contractRows.length,
+      over_billed_months: contractRows.reduce((sum, c) => sum + c.over_billed_months, 0),
+      under_billed_months: contractRows.reduce((sum, c) => sum + c.under_billed_months, 0),
+      unparsed_memos: exceptions.filter((e) => e.reason === 'unparsed_memo').length,
+      low_confidence: exceptions.filter((e) => e.reason === 'low_confidence').length,
+      unmatched_contracts: exceptions.filter((e) => e.reason === 'unmatched_contract').length,
+      missing_points: exceptions.filter((e) => e.reason === 'missing_points').length,
+      unattributed_points: round2(
+        exceptions.filter((e) => !e.contract_id).reduce((sum, e) => sum + (e.points ?? 0), 0)
+      ),
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function exceptionReason(doc: BillingDocRow): MemoExceptionReason | null {
+  if (!doc.contract_external_id) return 'unparsed_memo';
+  if (!doc.contract_id) return doc.memo_confidence === 'low' ? 'low_confidence' : 'unmatched_contract';
+  if (doc.points === null || doc.points === undefined) return 'missing_points';
+  return null;
+}
+
+function monthStatus(netBilled: number, billingVariance: number | null, tolerance: number): ReconciliationStatus {
+  if (billingVariance === null) return netBilled !== 0 ? 'no_allotment' : 'ok';
+  if (billingVariance > tolerance) return 'over_billed';
+  if (billingVariance < -tolerance) return 'under_billed';
+  return 'ok';
+}
+
+// Whether the contract term overlaps the month at all
+function isUnderContract(contract: ContractRow, month: string): boolean {
+  if (contract.contract_start_date && contract.contract_start_date.slice(0, 10) > monthEnd(month)) return false;
+  if (contract.contract_end_date && contract.contract_end_date.slice(0, 10) < `${month}-01`) return false;
+  return true;
+}
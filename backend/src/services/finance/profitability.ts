@@ -0,0 +1,373 @@
+/**
+ * Contract Profitability
+ *
+ * Joins ClickUp time tracking (pulse_time_entries) to contracts through the
+ * task each entry was logged on, costs every entry at the member's internal
+ * rate in effect that day (team_cost_rates, else the configured default), and
+ * sets that against recognized revenue (invoiced minus credited, as in the
+ * MRR series) and delivered points. Per contract, per month and per service
+ * category: hours, effective realized rate, cost per point and margin.
+ *
+ * Service category is the task's ClickUp "Service Category" dropdown (as
+ * stored on pulse_tasks by the sync). Tasks without one fall back to the
+ * process-library phase (matched on the template task name), "Tech Stack" for
+ * the cost-tracking placeholder tasks, else "Other". Revenue isn't invoiced per category, so a contract's revenue
+ * is spread over its categories by share of delivered points (hours when no
+ * points were delivered).
+ */
+
+import { selectAll } from '../../utils/edge-functions.js';
+import { financeConfig } from '../../config/finance.js';
+import { readStoredServiceCategory } from '../clickup/service-category.js';
+import { addMonths, currentMonth, isValidMonth, monthEnd, monthRange } from './months.js';
+import type {
+  ContractProfitability,
+  ProfitabilityCategory,
+  ProfitabilityFigures,
+  ProfitabilityMonth,
+  ProfitabilityReport,
+  TeamCostRate,
+} from '../../types/finance.js';
+import { round2 } from '../../utils/numbers.js';
+import { HOUR_MS } from '../../utils/dates.js';
+
+export const MAX_PROFITABILITY_MONTHS = 24;
+
+// Filter lists are sent in the proxy request; keep them a manageable size
+const CHUNK_SIZE = 200;
+
+export interface ProfitabilityOptions {
+  from?: string;          // YYYY-MM, default 5 months before `to`
+  to?: string;            // YYYY-MM, default current month
+  contractIds?: string[];
+}
+
+interface TimeEntryRow {
+  entry_id: string;
+  task_id: string | null;
+  clickup_user_id: string | null;
+  duration_ms: number;
+  start_date: string;
+  billable: boolean | null;
+}
+
+interface TaskRow {
+  task_id: string;
+  contract_id: string | null;
+  name: string;
+  points: number | null;
+  status: string | null;
+  date_done: string | null;
+  custom_fields: unknown;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  amount: number | null;
+  dollar_per_hour: number | null;
+}
+
+interface Tally {
+  hours: number;
+  billable_hours: number;
+  cost: number;
+  revenue: number;
+  points: number;
+}
+
+interface ContractTally {
+  total: Tally;
+  months: Map<string, Tally>;
+  categories: Map<string, Tally>;
+}
+
+export async function computeProfitability(options: ProfitabilityOptions = {}): Promise<ProfitabilityReport> {
+  const to = options.to || currentMonth();
+  const from = options.from || addMonths(to, -5);
+  if (!isValidMonth(from) || !isValidMonth(to)) {
+    throw new Error('from and to must be YYYY-MM');
+  }
+  if (from > to) {
+    throw new Error('from must not be after to');
+  }
+  const months = monthRange(from, to);
+  if (months.length > MAX_PROFITABILITY_MONTHS) {
+    throw new Error(`Range too long: at most ${MAX_PROFITABILITY_MONTHS} months`);
+  }
+
+  const dateFilter = { gte: `${from}-01`, lte: monthEnd(to) };
+  const scoped = options.contractIds ? new Set(options.contractIds) : null;
+
+  const [entries, deliveredTasks, contracts, invoices, creditMemos, rates, processes] = await Promise.all([
+    selectAll<TimeEntryRow>('pulse_time_entries', 'entry_id', {
+      select: 'entry_id,task_id,clickup_user_id,duration_ms,start_date,billable',
+      filters: { start_date: { gte: `${from}-01T00:00:00Z`, lt: `${addMonths(to, 1)}-01T00:00:00Z` } },
+    }),
+    selectAll<TaskRow>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id,name,points,status,date_done,custom_fields',
+      filters: {
+        ...(options.contractIds ? { contract_id: { in: options.contractIds } } : {}),
+        status: 'delivered',
+        is_deleted: false,
+        date_done: dateFilter,
+      },
+    }),
+    selectAll<ContractRow>('contracts', 'contract_id', {
+      select: 'contract_id,contract_name,external_id,contract_status,amount,dollar_per_hour',
+      filters: options.contractIds ? { contract_id: { in: options.contractIds } } : {},
+    }),
+    selectAll<{ invoice_id: string; contract_id: string | null; transaction_date: string | null; amount: number | null; status: string | null }>(
+      'pulse_invoices',
+      'invoice_id',
+      {
+        select: 'invoice_id,contract_id,transaction_date,amount,status',
+        filters: { is_deleted: false, transaction_date: dateFilter },
+      }
+    ),
+    selectAll<{ credit_memo_id: string; contract_id: string | null; transaction_date: string | null; amount: number | null }>(
+      'pulse_credit_memos',
+      'credit_memo_id',
+      {
+        select: 'credit_memo_id,contract_id,transaction_date,amount',
+        filters: { is_deleted: false, transaction_date: dateFilter },
+      }
+    ),
+    selectAll<TeamCostRate>('team_cost_rates', 'rate_id', {
+      select: 'rate_id,clickup_user_id,hourly_cost,effective_from',
+    }),
+    selectAll<{ process_id: string; name: string; phase: string | null }>('compass_process_library', 'process_id', {
+      select: 'process_id,name,phase',
+      filters: { is_active: true },
+    }),
+  ]);
+
+  // Tasks the time was logged on, beyond those delivered in the range
+  const tasksById = new Map(deliveredTasks.map((t) => [t.task_id, t]));
+  const missingTaskIds = Array.from(
+    new Set(entries.map((e) => e.task_id).filter((id): id is string => !!id && !tasksById.has(id)))
+  );
+  for (let i = 0; i < missingTaskIds.length; i += CHUNK_SIZE) {
+    const tasks = await selectAll<TaskRow>('pulse_tasks', 'task_id', {
+      select: 'task_id,contract_id,name,points,status,date_done,custom_fields',
+      filters: { task_id: { in: missingTaskIds.slice(i, i + CHUNK_SIZE) } },
+    });
+    for (const task of tasks) tasksById.set(task.task_id, task);
+  }
+
+  const phaseByName = new Map<string, string>();
+  for (const p of processes) {
+    if (p.phase) phaseByName.set(normalizeName(p.name), p.phase);
+  }
+  const categoryFor = (task: TaskRow): string => {
+    const category = readStoredServiceCategory(task.custom_fields);
+    if (category) return category;
+    const name = normalizeName(task.name);
+    if (name === 'tech stack') return 'Tech Stack';
+    return phaseByName.get(name) ?? 'Other';
+  };
+
+  // Cost rates per member, oldest first
+  const ratesByUser = new Map<string, TeamCostRate[]>();
+  for (const rate of rates) {
+    const list = ratesByUser.get(rate.clickup_user_id) || [];
+    list.push(rate);
+    ratesByUser.set(rate.clickup_user_id, list);
+  }
+  for (const list of ratesByUser.values()) list.sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  const membersWithoutRate = new Set<string>();
+  const rateFor = (userId: string | null, date: string): number => {
+    const list = userId ? ratesByUser.get(userId) : undefined;
+    if (!list || list.length === 0) {
+      if (userId) membersWithoutRate.add(userId);
+      return financeConfig.defaultCostRate;
+    }
+    // Before the member's first rate took effect, the default applies
+    let rate = financeConfig.defaultCostRate;
+    for (const r of list) {
+      if (r.effective_from <= date) rate = Number(r.hourly_cost);
+    }
+    return rate;
+  };
+
+  const byContract = new Map<string, ContractTally>();
+  const tallyFor = (contractId: string): ContractTally => {
+    let tally = byContract.get(contractId);
+    if (!tally) {
+      tally = { total: emptyTally(), months: new Map(), categories: new Map() };
+      byContract.set(contractId, tally);
+    }
+    return tally;
+  };
+  const unattributed = { hours: 0, cost: 0 };
+
+  // Time and cost
+  for (const entry of entries) {
+    const hours = (Number(entry.duration_ms) || 0) / HOUR_MS;
+    if (hours <= 0) continue;
+    const date = entry.start_date.slice(0, 10);
+    const cost = hours * rateFor(entry.clickup_user_id, date);
+    const task = entry.task_id ? tasksById.get(entry.task_id) : undefined;
+
+    if (!task?.contract_id) {
+      if (!scoped) {
+        unattributed.hours += hours;
+        unattributed.cost += cost;
+      }
+      continue;
+    }
+    if (scoped && !scoped.has(task.contract_id)) continue;
+
+    const contractTally = tallyFor(task.contract_id);
+    const billableHours = entry.billable === false ? 0 : hours;
+    for (const t of [
+      contractTally.total,
+      bucket(contractTally.months, date.slice(0, 7)),
+      bucket(contractTally.categories, categoryFor(task)),
+    ]) {
+      t.hours += hours;
+      t.billable_hours += billableHours;
+      t.cost += cost;
+    }
+  }
+
+  // Delivered points
+  for (const task of deliveredTasks) {
+    if (!task.contract_id || !task.date_done) continue;
+    const points = Number(task.points) || 0;
+    const contractTally = tallyFor(task.contract_id);
+    contractTally.total.points += points;
+    bucket(contractTally.months, task.date_done.slice(0, 7)).points += points;
+    bucket(contractTally.categories, categoryFor(task)).points += points;
+  }
+
+  // Recognized revenue
+  const addRevenue = (contractId: string | null, transactionDate: string | null, amount: number): void => {
+    if (!contractId || !transactionDate || (scoped && !scoped.has(contractId))) return;
+    const contractTally = tallyFor(contractId);
+    contractTally.total.revenue += amount;
+    bucket(contractTally.months, transactionDate.slice(0, 7)).revenue += amount;
+  };
+  for (const inv of invoices) {
+    if (inv.status !== 'void') addRevenue(inv.contract_id, inv.transaction_date, Number(inv.amount) || 0);
+  }
+  for (const cm of creditMemos) addRevenue(cm.contract_id, cm.transaction_date, -(Number(cm.amount) || 0));
+
+  // Spread each contract's revenue over its categories
+  for (const contractTally of byContract.values()) {
+    if (contractTally.categories.size === 0 && contractTally.total.revenue !== 0) {
+      bucket(contractTally.categories, 'Other');
+    }
+    const byPoints = contractTally.total.points > 0;
+    const basis = byPoints ? contractTally.total.points : contractTally.total.hours;
+    for (const t of contractTally.categories.values()) {
+      const share = basis > 0
+        ? (byPoints ? t.points : t.hours) / basis
+        : 1 / contractTally.categories.size;
+      t.revenue = contractTally.total.revenue * share;
+    }
+  }
+
+  // Portfolio roll-ups
+  const totals = emptyTally();
+  const portfolioMonths = new Map<string, Tally>(months.map((m) => [m, emptyTally()]));
+  const portfolioCategories = new Map<string, Tally>();
+  const contractsById = new Map(contracts.map((c) => [c.contract_id, c]));
+
+  const contractRows: ContractProfitability[] = [];
+  for (const [contractId, contractTally] of byContract) {
+    const contract = contractsById.get(contractId);
+    if (!contract) continue;
+
+    addTally(totals, contractTally.total);
+    for (const [month, t] of contractTally.months) addTally(bucket(portfolioMonths, month), t);
+    for (const [category, t] of contractTally.categories) addTally(bucket(portfolioCategories, category), t);
+
+    const figures = toFigures(contractTally.total);
+    const dollarPerHour = contract.dollar_per_hour !== null ? Number(contract.dollar_per_hour) : null;
+    contractRows.push({
+      contract_id: contractId,
+      contract_name: contract.contract_name,
+      external_id: contract.external_id,
+      contract_status: contract.contract_status,
+      mrr: contract.amount !== null ? Number(contract.amount) : null,
+      dollar_per_hour: dollarPerHour,
+      rate_variance: figures.effective_rate !== null && dollarPerHour !== null
+        ? round2(figures.effective_rate - dollarPerHour)
+        : null,
+      ...figures,
+      months: months.map((month): ProfitabilityMonth => ({
+        month,
+        ...toFigures(contractTally.months.get(month) || emptyTally()),
+      })),
+      categories: categoryRows(contractTally.categories),
+    });
+  }
+
+  // Lowest margin first: the contracts to look at before renewal
+  contractRows.sort((a, b) => a.margin - b.margin || a.contract_name.localeCompare(b.contract_name));
+
+  return {
+    from,
+    to,
+    default_cost_rate: financeConfig.defaultCostRate,
+    totals: toFigures(totals),
+    months: months.map((month) => ({ month, ...toFigures(portfolioMonths.get(month)!) })),
+    categories: categoryRows(portfolioCategories),
+    contracts: contractRows,
+    unattributed: { hours: round2(unattributed.hours), cost: round2(unattributed.cost) },
+    members_without_rate: Array.from(membersWithoutRate).sort(),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizeName(name: string | null | undefined): string {
+  return (name ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function emptyTally(): Tally {
+  return { hours: 0, billable_hours: 0, cost: 0, revenue: 0, points: 0 };
+}
+
+function bucket(map: Map<string, Tally>, key: string): Tally {
+  let tally = map.get(key);
+  if (!tally) {
+    tally = emptyTally();
+    map.set(key, tally);
+  }
+  return tally;
+}
+
+function addTally(target: Tally, source: Tally): void {
+  target.hours += source.hours;
+  target.billable_hours += source.billable_hours;
+  target.cost += source.cost;
+  target.revenue += source.revenue;
+  target.points += source.points;
+}
+
+function toFigures(t: Tally): ProfitabilityFigures {
+  const margin = t.revenue - t.cost;
+  return {
+    hours: round2(t.hours),
+    billable_hours: round2(t.billable_hours),
+    cost: round2(t.cost),
+    revenue: round2(t.revenue),
+    points_delivered: round2(t.points),
+    effective_rate: t.hours > 0 ? round2(t.revenue / t.hours) : null,
+    cost_per_point: t.points > 0 ? round2(t.cost / t.points) : null,
+    margin: round2(margin),
+    margin_pct: t.revenue > 0 ? Math.round((margin / t.revenue) * 1000) / 10 : null,
+  };
+}
+
+function categoryRows(categories: Map<string, Tally>): ProfitabilityCategory[] {
+  return Array.from(categories.entries())
+    .map(([category, t]) => ({ category, ...toFigures(t) }))
+    .sort((a, b) => b.hours - a.hours || a.category.localeCompare(b.category));
+}
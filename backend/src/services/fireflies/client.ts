@@ -7,7 +7,11 @@
  * API: https://api.fireflies.ai/graphql
  */
 
-import type { FirefliesTranscript } from '../../types/meetings.js';
+import type {
+  FirefliesTranscript,
+  FirefliesTranscriptSummary,
+  TranscriptSegment,
+} from '../../types/meetings.js';
 
 const FIREFLIES_API_URL = 'https://api.fireflies.ai/graphql';
 
@@ -114,6 +118,20 @@ interface FirefliesTranscriptResponse {
   } | null;
 }
 
+/**
+ * Parse date: Fireflies returns Unix timestamp in ms as a number or string
+ */
+function parseFirefliesDate(value: number | string): string {
+  const dateNum = Number(value);
+  if (!isNaN(dateNum) && dateNum > 1_000_000_000) {
+    // Unix timestamp (ms if > 1e12, seconds if < 1e12)
+    const ms = dateNum > 1e12 ? dateNum : dateNum * 1000;
+    return new Date(ms).toISOString();
+  }
+  // Already an ISO string or other parseable format
+  return new Date(value).toISOString();
+}
+
 /**
  * Fetch a transcript from Fireflies by ID
  *
@@ -134,22 +152,10 @@ export async function fetchTranscript(
 
   const t = data.transcript;
 
-  // Parse date: Fireflies returns Unix timestamp in ms as a number or string
-  let dateStr: string;
-  const dateNum = Number(t.date);
-  if (!isNaN(dateNum) && dateNum > 1_000_000_000) {
-    // Unix timestamp (ms if > 1e12, seconds if < 1e12)
-    const ms = dateNum > 1e12 ? dateNum : dateNum * 1000;
-    dateStr = new Date(ms).toISOString();
-  } else {
-    // Already an ISO string or other parseable format
-    dateStr = new Date(t.date).toISOString();
-  }
-
   return {
     id: t.id,
     title: t.title,
-    date: dateStr,
+    date: parseFirefliesDate(t.date),
     duration: t.duration,
     participants: t.participants || [],
     sentences: t.sentences || [],
@@ -158,3 +164,98 @@ export async function fetchTranscript(
     audio_url: t.audio_url || undefined,
   };
 }
+
+/**
+ * Map Fireflies sentences to our speaker-tagged TranscriptSegment[]
+ */
+export function toTranscriptSegments(transcript: FirefliesTranscript): TranscriptSegment[] {
+  return (transcript.sentences || []).map((s) => ({
+    speaker: s.speaker_name,
+    text: s.text,
+    start_time: s.start_time,
+    end_time: s.end_time,
+  }));
+}
+
+// GraphQL query for listing recent transcripts (metadata only, no sentences)
+const TRANSCRIPTS_QUERY = `
+  query Transcripts($fromDate: DateTime, $limit: Int, $skip: Int) {
+    transcripts(fromDate: $fromDate, limit: $limit, skip: $skip) {
+      id
+      title
+      date
+      duration
+      organizer_email
+      participants
+      meeting_attendees {
+        displayName
+        email
+      }
+    }
+  }
+`;
+
+// Fireflies caps transcripts() at 50 per page
+const LIST_PAGE_SIZE = 50;
+
+interface FirefliesTranscriptsResponse {
+  transcripts: Array<{
+    id: string;
+    title: string | null;
+    date: number | string;
+    duration: number | null;
+    organizer_email: string | null;
+    participants: string[] | null;
+    meeting_attendees: Array<{ displayName: string | null; email: string | null }> | null;
+  }> | null;
+}
+
+/**
+ * List transcripts recorded since `fromDate`, newest first
+ *
+ * Pages through the API up to `maxTranscripts`. Participant emails merge
+ * `participants` and `meeting_attendees` (the calendar invite list).
+ */
+export async function listTranscripts(
+  fromDate: Date,
+  maxTranscripts = 500
+): Promise<FirefliesTranscriptSummary[]> {
+  const results: FirefliesTranscriptSummary[] = [];
+
+  for (let skip = 0; skip < maxTranscripts; skip += LIST_PAGE_SIZE) {
+    const data = await firefliesFetch<FirefliesTranscriptsResponse>(TRANSCRIPTS_QUERY, {
+      fromDate: fromDate.toISOString(),
+      limit: LIST_PAGE_SIZE,
+      skip,
+    });
+    const page = data.transcripts || [];
+
+    for (const t of page) {
+      const emails = new Set<string>();
+      for (const value of t.participants || []) {
+        // participants can hold comma-joined addresses
+        for (const part of value.split(',')) {
+          const email = part.trim().toLowerCase();
+          if (email.includes('@')) emails.add(email);
+        }
+      }
+      for (const attendee of t.meeting_attendees || []) {
+        if (attendee.email) emails.add(attendee.email.trim().toLowerCase());
+      }
+      if (t.organizer_email) emails.add(t.organizer_email.trim().toLowerCase());
+
+      results.push({
+        id: t.id,
+        title: t.title || 'Untitled Meeting',
+        date: parseFirefliesDate(t.date),
+        duration: t.duration || 0,
+        organizer_email: t.organizer_email || null,
+        participant_emails: Array.from(emails),
+      });
+    }
+
+    if (page.length < LIST_PAGE_SIZE) break;
+  }
+
+  return results;
+}
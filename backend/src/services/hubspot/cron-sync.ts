@@ -0,0 +1,561 @@
+/**
+ * HubSpot Cron Sync Service
+ *
+ * Syncs HubSpot companies into the accounts table (keyed on hubspot_account_id)
+ * and links closed-won deals to contracts via contracts.deal_id.
+ * Uses the backend-proxy Edge Function for database operations.
+ *
+ * Incremental runs only fetch records modified since the cursor stored in
+ * pulse_sync_state.last_modified_cursor; full runs page through everything.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  COMPANY_PROPERTIES,
+  DEAL_PROPERTIES,
+  HubSpotObject,
+  HubSpotPage,
+  HubSpotSearchFilter,
+  getCompanies,
+  searchObjects,
+  getDealCompanyIds,
+  fetchWithRetry,
+} from './index.js';
+import { dbProxy } from '../../utils/db-proxy.js';
+
+const PAGE_SIZE = 100;
+const UPSERT_BATCH_SIZE = 50;
+
+interface ExistingAccount {
+  account_id: string;
+  hubspot_account_id: string;
+}
+
+interface ContractForLinking {
+  contract_id: string;
+  account_id: string | null;
+  deal_id: string | null;
+  contract_name: string;
+  contract_start_date: string | null;
+}
+
+interface SyncResults {
+  syncId: string;
+  mode: 'incremental' | 'full';
+  status: 'started' | 'running' | 'completed' | 'failed';
+  companiesProcessed: number;
+  accountsCreated: number;
+  accountsUpdated: number;
+  dealsProcessed: number;
+  dealsLinked: number;
+  dealsAlreadyLinked: number;
+  dealsUnmatched: number;
+  errors: Array<{ context: string; error: string }>;
+  startedAt: Date;
+  completedAt?: Date;
+  durationMs?: number;
+}
+
+/**
+ * HubSpot Cron Sync Service
+ */
+export class HubSpotCronSyncService {
+  // Highest hs_lastmodifieddate seen this run, per entity (becomes the next cursor)
+  private companyCursor: string | null = null;
+  private dealCursor: string | null = null;
+
+  /**
+   * Run the HubSpot sync process
+   */
+  async runSync(options: {
+    mode?: 'incremental' | 'full';
+    syncId?: string;
+    syncDeals?: boolean;
+  } = {}): Promise<SyncResults> {
+    const { mode = 'incremental', syncDeals = true } = options;
+
+    const syncId = options.syncId || uuidv4();
+    const startedAt = new Date();
+
+    const results: SyncResults = {
+      syncId,
+      mode,
+      status: 'running',
+      companiesProcessed: 0,
+      accountsCreated: 0,
+      accountsUpdated: 0,
+      dealsProcessed: 0,
+      dealsLinked: 0,
+      dealsAlreadyLinked: 0,
+      dealsUnmatched: 0,
+      errors: [],
+      startedAt,
+    };
+
+    try {
+      // Check if a sync is already running
+      const existingSync = await this.checkForRunningSync();
+      if (existingSync.isRunning) {
+        console.log(`[HubSpot Cron Sync] Skipping - sync already in progress (started ${existingSync.startedAt})`);
+        results.status = 'completed';
+        results.errors.push({
+          context: 'startup',
+          error: `Sync skipped - another sync already in progress since ${existingSync.startedAt}`,
+        });
+        return results;
+      }
+
+      // Cursors from the previous successful run (ignored in full mode)
+      const cursors = mode === 'incremental'
+        ? await this.getCursors()
+        : { companies: null, deals: null };
+      this.companyCursor = cursors.companies;
+      this.dealCursor = cursors.deals;
+
+      await this.logSyncStart(syncId, mode);
+
+      // 1. Load existing HubSpot-linked accounts so we know insert vs update
+      const accountMap = await this.getAccountMap();
+      console.log(`[HubSpot Cron Sync] ${accountMap.size} accounts already linked to HubSpot`);
+
+      // 2. Sync companies -> accounts, one page at a time
+      console.log(`[HubSpot Cron Sync] Syncing companies (${cursors.companies ? `modified since ${cursors.companies}` : 'all'})...`);
+      await this.forEachPage(
+        (after) => cursors.companies
+          ? searchObjects('companies', this.modifiedSinceFilter(cursors.companies), COMPANY_PROPERTIES, after, PAGE_SIZE)
+          : getCompanies(PAGE_SIZE, after, COMPANY_PROPERTIES),
+        async (companies) => {
+          try {
+            await this.storeCompanies(companies, accountMap, results);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            results.errors.push({ context: 'companies', error: message });
+            console.error('[HubSpot Cron Sync] Failed to store company page:', message);
+          }
+        }
+      );
+
+      // 3. Link closed-won deals to contracts
+      if (syncDeals) {
+        console.log(`[HubSpot Cron Sync] Linking closed-won deals (${cursors.deals ? `modified since ${cursors.deals}` : 'all'})...`);
+        const contracts = await this.getContractsForLinking();
+
+        const dealFilters: HubSpotSearchFilter[] = [
+          { propertyName: 'hs_is_closed_won', operator: 'EQ', value: 'true' },
+          ...(cursors.deals ? this.modifiedSinceFilter(cursors.deals) : []),
+        ];
+
+        await this.forEachPage(
+          (after) => searchObjects('deals', dealFilters, DEAL_PROPERTIES, after, PAGE_SIZE),
+          async (deals) => {
+            try {
+              await this.linkDeals(deals, accountMap, contracts, results);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              results.errors.push({ context: 'deals', error: message });
+              console.error('[HubSpot Cron Sync] Failed to link deal page:', message);
+            }
+          }
+        );
+      }
+
+      results.status = 'completed';
+      results.completedAt = new Date();
+      results.durationMs = results.completedAt.getTime() - startedAt.getTime();
+
+      await this.logSyncComplete(syncId, 'success', results);
+
+      console.log(`[HubSpot Cron Sync] Completed in ${results.durationMs}ms`);
+
+    } catch (error) {
+      results.status = 'failed';
+      results.completedAt = new Date();
+      results.durationMs = results.completedAt.getTime() - startedAt.getTime();
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      results.errors.push({ context: 'sync', error: message });
+
+      await this.logSyncComplete(syncId, 'failed', results, message);
+
+      console.error('[HubSpot Cron Sync] Fatal error:', message);
+    }
+
+    return results;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HubSpot paging
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Walk a paginated HubSpot endpoint, handing each page to the handler
+   */
+  private async forEachPage(
+    fetchPage: (after?: string) => Promise<HubSpotPage>,
+    handler: (objects: HubSpotObject[]) => Promise<void>
+  ): Promise<void> {
+    let after: string | undefined;
+
+    do {
+      const page = await fetchWithRetry(() => fetchPage(after));
+      const objects = (page.results || []).filter((o) => !o.archived);
+
+      if (objects.length > 0) {
+        await handler(objects);
+      }
+
+      after = page.paging?.next?.after;
+
+      if (after) {
+        // Rate limit protection
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    } while (after);
+  }
+
+  /**
+   * Build a search filter for records modified at or after the cursor.
+   * HubSpot expects epoch milliseconds for datetime comparisons.
+   */
+  private modifiedSinceFilter(cursor: string): HubSpotSearchFilter[] {
+    return [{
+      propertyName: 'hs_lastmodifieddate',
+      operator: 'GTE',
+      value: String(new Date(cursor).getTime()),
+    }];
+  }
+
+  /**
+   * Keep the later of the current cursor and a record's modified date
+   */
+  private advanceCursor(current: string | null, modified: string | null | undefined): string | null {
+    if (!modified) return current;
+    if (!current || new Date(modified).getTime() > new Date(current).getTime()) {
+      return new Date(modified).toISOString();
+    }
+    return current;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Companies -> accounts
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get a map of hubspot_account_id -> account_id for linked accounts
+   */
+  private async getAccountMap(): Promise<Map<string, string>> {
+    const { data, error } = await dbProxy.select<ExistingAccount[]>('accounts', {
+      columns: 'account_id, hubspot_account_id',
+    });
+
+    if (error) {
+      throw new Error(`Failed to load accounts: ${error.message}`);
+    }
+
+    const map = new Map<string, string>();
+    for (const account of data || []) {
+      if (account.hubspot_account_id) {
+        map.set(account.hubspot_account_id, account.account_id);
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Upsert a page of companies into accounts.
+   *
+   * New accounts get status 'active'; existing accounts keep whatever status
+   * they already have, since account status is managed in this app, not HubSpot.
+   */
+  private async storeCompanies(
+    companies: HubSpotObject[],
+    accountMap: Map<string, string>,
+    results: SyncResults
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const newRows: Record<string, unknown>[] = [];
+    const existingRows: Record<string, unknown>[] = [];
+
+    for (const company of companies) {
+      const props = company.properties || {};
+      const name = props.name?.trim() || props.domain?.trim();
+
+      this.companyCursor = this.advanceCursor(
+        this.companyCursor,
+        props.hs_lastmodifieddate || company.updatedAt
+      );
+
+      if (!name) {
+        console.warn(`[HubSpot Cron Sync] Skipping company ${company.id} - no name or domain`);
+        continue;
+      }
+
+      const row: Record<string, unknown> = {
+        hubspot_account_id: company.id,
+        name,
+        hubspot_owner_id: props.hubspot_owner_id || null,
+        industry: props.industry || null,
+        website: props.website || props.domain || null,
+        updated_at: now,
+      };
+
+      if (accountMap.has(company.id)) {
+        existingRows.push(row);
+      } else {
+        newRows.push({ ...row, status: 'active' });
+      }
+    }
+
+    for (let i = 0; i < existingRows.length; i += UPSERT_BATCH_SIZE) {
+      const batch = existingRows.slice(i, i + UPSERT_BATCH_SIZE);
+      const { error } = await dbProxy.upsert('accounts', batch, { onConflict: 'hubspot_account_id' });
+      if (error) {
+        throw new Error(`Failed to update accounts: ${error.message}`);
+      }
+      results.accountsUpdated += batch.length;
+    }
+
+    for (let i = 0; i < newRows.length; i += UPSERT_BATCH_SIZE) {
+      const batch = newRows.slice(i, i + UPSERT_BATCH_SIZE);
+      const { data, error } = await dbProxy.upsert<ExistingAccount[]>('accounts', batch, {
+        onConflict: 'hubspot_account_id',
+        select: 'account_id, hubspot_account_id',
+      });
+      if (error) {
+        throw new Error(`Failed to insert accounts: ${error.message}`);
+      }
+      for (const account of data || []) {
+        accountMap.set(account.hubspot_account_id, account.account_id);
+      }
+      results.accountsCreated += batch.length;
+    }
+
+    results.companiesProcessed += companies.length;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Closed-won deals -> contracts
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get contracts with the fields needed to match deals
+   */
+  private async getContractsForLinking(): Promise<ContractForLinking[]> {
+    const { data, error } = await dbProxy.select<ContractForLinking[]>('contracts', {
+      columns: 'contract_id, account_id, deal_id, contract_name, contract_start_date',
+    });
+
+    if (error) {
+      throw new Error(`Failed to load contracts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Link a page of closed-won deals to contracts.
+   *
+   * A deal is matched to a contract on the same account (via the deal's
+   * associated company) that has no deal_id yet. When several candidates
+   * exist, the one whose start date is closest to the deal's close date wins.
+   * Contracts that already carry a deal_id are never overwritten.
+   */
+  private async linkDeals(
+    deals: HubSpotObject[],
+    accountMap: Map<string, string>,
+    contracts: ContractForLinking[],
+    results: SyncResults
+  ): Promise<void> {
+    const dealCompanies = await fetchWithRetry(() => getDealCompanyIds(deals.map((d) => d.id)));
+
+    for (const deal of deals) {
+      results.dealsProcessed++;
+      this.dealCursor = this.advanceCursor(
+        this.dealCursor,
+        deal.properties?.hs_lastmodifieddate || deal.updatedAt
+      );
+
+      if (contracts.some((c) => c.deal_id === deal.id)) {
+        results.dealsAlreadyLinked++;
+        continue;
+      }
+
+      const accountIds = (dealCompanies.get(deal.id) || [])
+        .map((companyId) => accountMap.get(companyId))
+        .filter((id): id is string => !!id);
+
+      const candidates = contracts.filter(
+        (c) => !c.deal_id && c.account_id && accountIds.includes(c.account_id)
+      );
+
+      if (candidates.length === 0) {
+        results.dealsUnmatched++;
+        continue;
+      }
+
+      const closeTime = deal.properties?.closedate
+        ? new Date(deal.properties.closedate).getTime()
+        : null;
+
+      const best = closeTime === null
+        ? candidates[0]
+        : candidates.reduce((a, b) => {
+            const distA = a.contract_start_date
+              ? Math.abs(new Date(a.contract_start_date).getTime() - closeTime)
+              : Number.MAX_SAFE_INTEGER;
+            const distB = b.contract_start_date
+              ? Math.abs(new Date(b.contract_start_date).getTime() - closeTime)
+              : Number.MAX_SAFE_INTEGER;
+            return distB < distA ? b : a;
+          });
+
+      const { error } = await dbProxy.update('contracts', {
+        deal_id: deal.id,
+        updated_at: new Date().toISOString(),
+      }, { contract_id: best.contract_id });
+
+      if (error) {
+        results.errors.push({ context: `deal:${deal.id}`, error: error.message });
+        continue;
+      }
+
+      // Keep the in-memory list current so the same contract isn't matched twice
+      best.deal_id = deal.id;
+      results.dealsLinked++;
+      console.log(`[HubSpot Cron Sync] Linked deal ${deal.id} (${deal.properties?.dealname || 'unnamed'}) to contract ${best.contract_name}`);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Sync state
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the incremental cursors stored by the last successful run
+   */
+  private async getCursors(): Promise<{ companies: string | null; deals: string | null }> {
+    const { data } = await dbProxy.select<Array<{ entity_type: string; last_modified_cursor: string | null }>>('pulse_sync_state', {
+      columns: 'entity_type, last_modified_cursor',
+      filters: { service: 'hubspot' },
+    });
+
+    const rows = data || [];
+    return {
+      companies: rows.find((r) => r.entity_type === 'companies')?.last_modified_cursor || null,
+      deals: rows.find((r) => r.entity_type === 'deals')?.last_modified_cursor || null,
+    };
+  }
+
+  /**
+   * Check if a sync is already running
+   */
+  private async checkForRunningSync(): Promise<{ isRunning: boolean; startedAt?: string }> {
+    const { data, error } = await dbProxy.select<Array<{ status: string; updated_at: string }>>('pulse_sync_state', {
+      columns: 'status, updated_at',
+      filters: { service: 'hubspot', entity_type: 'companies' },
+      single: true,
+    });
+
+    if (error || !data || data.length === 0) {
+      return { isRunning: false };
+    }
+
+    const state = data[0];
+    if (state.status !== 'running') {
+      return { isRunning: false };
+    }
+
+    // Check if the sync has been running for more than 1 hour (likely crashed)
+    const updatedAt = new Date(state.updated_at);
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    if (updatedAt < oneHourAgo) {
+      console.log('[HubSpot Cron Sync] Previous sync appears stale (>1 hour), allowing new sync');
+      return { isRunning: false };
+    }
+
+    return { isRunning: true, startedAt: state.updated_at };
+  }
+
+  /**
+   * Log sync start
+   */
+  private async logSyncStart(syncId: string, mode: string): Promise<void> {
+    await dbProxy.insert('pulse_sync_logs', {
+      id: syncId,
+      service: 'hubspot',
+      entity_type: 'companies',
+      sync_mode: mode,
+      status: 'started',
+      started_at: new Date().toISOString(),
+    });
+
+    for (const entityType of ['companies', 'deals']) {
+      await dbProxy.upsert('pulse_sync_state', {
+        service: 'hubspot',
+        entity_type: entityType,
+        status: 'running',
+        sync_mode: mode,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'service,entity_type' });
+    }
+  }
+
+  /**
+   * Log sync complete
+   *
+   * Cursors only advance on success, so a failed run is retried from the
+   * same point next time.
+   */
+  private async logSyncComplete(
+    syncId: string,
+    status: 'success' | 'failed',
+    results: SyncResults,
+    errorMessage?: string
+  ): Promise<void> {
+    const recordsProcessed = results.companiesProcessed + results.dealsProcessed;
+
+    await dbProxy.update('pulse_sync_logs', {
+      status,
+      records_processed: recordsProcessed,
+      error_message: errorMessage || null,
+      completed_at: new Date().toISOString(),
+    }, { id: syncId });
+
+    // A page that failed to store must be picked up again next run, so hold
+    // that entity's cursor back if any of its pages errored
+    const companyErrors = results.errors.some((e) => e.context === 'companies');
+    const dealErrors = results.errors.some((e) => e.context === 'deals' || e.context.startsWith('deal:'));
+
+    const entities: Array<{ entityType: string; processed: number; cursor: string | null }> = [
+      { entityType: 'companies', processed: results.companiesProcessed, cursor: companyErrors ? null : this.companyCursor },
+      { entityType: 'deals', processed: results.dealsProcessed, cursor: dealErrors ? null : this.dealCursor },
+    ];
+
+    for (const entity of entities) {
+      const stateUpdate: Record<string, unknown> = {
+        service: 'hubspot',
+        entity_type: entity.entityType,
+        status: status === 'success' ? 'completed' : 'failed',
+        last_sync_at: new Date().toISOString(),
+        records_processed: entity.processed,
+        error_message: errorMessage || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (status === 'success') {
+        stateUpdate.last_successful_sync_at = new Date().toISOString();
+        if (entity.cursor) {
+          stateUpdate.last_modified_cursor = entity.cursor;
+        }
+        if (results.mode === 'full') {
+          stateUpdate.last_full_sync_at = new Date().toISOString();
+        }
+      }
+
+      await dbProxy.upsert('pulse_sync_state', stateUpdate, { onConflict: 'service,entity_type' });
+    }
+  }
+}
+
+export default HubSpotCronSyncService;
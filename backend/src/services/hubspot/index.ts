@@ -13,6 +13,57 @@ interface HubSpotConfig {
   apiKey: string;
 }
 
+/**
+ * Company properties we pull into the accounts table
+ */
+export const COMPANY_PROPERTIES = [
+  'name',
+  'domain',
+  'website',
+  'industry',
+  'hubspot_owner_id',
+  'hs_lastmodifieddate',
+];
+
+/**
+ * Deal properties needed to link closed-won deals to contracts
+ */
+export const DEAL_PROPERTIES = [
+  'dealname',
+  'dealstage',
+  'amount',
+  'closedate',
+  'hs_is_closed_won',
+  'hs_lastmodifieddate',
+];
+
+export interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt?: string;
+  updatedAt?: string;
+  archived?: boolean;
+}
+
+export interface HubSpotPage {
+  results: HubSpotObject[];
+  total?: number;
+  paging?: { next?: { after: string } };
+}
+
+export interface HubSpotSearchFilter {
+  propertyName: string;
+  operator: 'EQ' | 'NEQ' | 'GT' | 'GTE' | 'LT' | 'LTE' | 'HAS_PROPERTY' | 'NOT_HAS_PROPERTY';
+  value?: string;
+}
+
+interface HubSpotAssociationBatchResponse {
+  results: Array<{
+    from: { id: string };
+    to: Array<{ toObjectId: string | number }>;
+  }>;
+}
+
 function getConfig(): HubSpotConfig {
   const apiKey = process.env.HUBSPOT_API_KEY;
 
@@ -59,12 +110,45 @@ export async function getCompany(companyId: string) {
 /**
  * Get all companies with pagination
  */
-export async function getCompanies(limit = 100, after?: string) {
+export async function getCompanies(
+  limit = 100,
+  after?: string,
+  properties: string[] = COMPANY_PROPERTIES
+): Promise<HubSpotPage> {
   const params = new URLSearchParams({ limit: limit.toString() });
   if (after) {
     params.append('after', after);
   }
-  return hubSpotFetch(`/crm/v3/objects/companies?${params}`);
+  if (properties.length > 0) {
+    params.append('properties', properties.join(','));
+  }
+  return hubSpotFetch<HubSpotPage>(`/crm/v3/objects/companies?${params}`);
+}
+
+/**
+ * Search companies or deals via the CRM search API.
+ * Results are sorted by hs_lastmodifieddate ascending so a caller can
+ * checkpoint the last value it saw.
+ *
+ * Note: HubSpot caps search paging at 10,000 results per query.
+ */
+export async function searchObjects(
+  objectType: 'companies' | 'deals',
+  filters: HubSpotSearchFilter[],
+  properties: string[],
+  after?: string,
+  limit = 100
+): Promise<HubSpotPage> {
+  return hubSpotFetch<HubSpotPage>(`/crm/v3/objects/${objectType}/search`, {
+    method: 'POST',
+    body: JSON.stringify({
+      filterGroups: filters.length > 0 ? [{ filters }] : [],
+      sorts: [{ propertyName: 'hs_lastmodifieddate', direction: 'ASCENDING' }],
+      properties,
+      limit,
+      after,
+    }),
+  });
 }
 
 /**
@@ -77,10 +161,70 @@ export async function getCompanyDeals(companyId: string) {
 }
 
 /**
- * Sync companies from HubSpot to accounts table
- * TODO: Implement full sync logic
+ * Get the company IDs associated with each of a batch of deals.
+ * Returns a map of deal ID -> company IDs.
+ */
+export async function getDealCompanyIds(dealIds: string[]): Promise<Map<string, string[]>> {
+  const map = new Map<string, string[]>();
+  if (dealIds.length === 0) {
+    return map;
+  }
+
+  const response = await hubSpotFetch<HubSpotAssociationBatchResponse>(
+    '/crm/v4/associations/deals/companies/batch/read',
+    {
+      method: 'POST',
+      body: JSON.stringify({ inputs: dealIds.map((id) => ({ id })) }),
+    }
+  );
+
+  for (const result of response.results || []) {
+    map.set(
+      String(result.from.id),
+      (result.to || []).map((t) => String(t.toObjectId))
+    );
+  }
+
+  return map;
+}
+
+/**
+ * Check if error is retryable (rate limit, network issues)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    return (
+      message.includes('429') ||
+      message.includes('rate limit') ||
+      message.includes('econnreset') ||
+      message.includes('etimedout') ||
+      message.includes('fetch failed')
+    );
+  }
+  return false;
+}
+
+/**
+ * Retry wrapper with exponential backoff
  */
-export async function syncCompanies(): Promise<{ synced: number; errors: number }> {
-  console.log('HubSpot sync not yet implemented');
-  return { synced: 0, errors: 0 };
+export async function fetchWithRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt === maxRetries) {
+        throw error;
+      }
+
+      const delay = Math.pow(2, attempt) * 1000;
+      console.log(`HubSpot API retry ${attempt}/${maxRetries} after ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw new Error('Max retries exceeded');
 }
@@ -0,0 +1,474 @@
+/**
+ * Action Item Tracker
+ *
+ * Action items live as JSON on compass_notes, one array per note. This
+ * flattens them across notes (dated within ACTION_ITEMS_LOOKBACK_DAYS) so
+ * they can be filtered by contract, assignee, status and due date, updated in
+ * bulk, and sent out as a weekly digest.
+ *
+ * An item's assignee is resolved to a ClickUp member from its ClickUp task
+ * (when pushed) or by matching the free-text assignee. Bulk updates to a
+ * pushed item carry over to its task: completing closes it, and a new
+ * assignee replaces the task's. The weekly digest DMs each member their open
+ * and overdue items across all accounts; items nobody matched go to the
+ * contract's account manager. Digests that can't be DMed go to
+ * ACTION_ITEMS_SLACK_CHANNEL.
+ *
+ * Listing and the digest never write: ids missing on older notes are derived
+ * (see normalizeActionItems) and saved by the next bulk update or push.
+ */
+
+import { select, selectAll, update } from '../../utils/edge-functions.js';
+import { postSlackMessage, lookupSlackUserIdByEmail } from '../slack/client.js';
+import { ClickUpClient } from '../clickup/client.js';
+import { actionItemsConfig } from '../../config/action-items.js';
+import { DAY_MS, daysBetween } from '../../utils/dates.js';
+import {
+  normalizeActionItems,
+  matchAssignee,
+  loadClickUpUsers,
+  setClickUpTaskClosed,
+  type ClickUpUserRow,
+} from './action-items.js';
+import type {
+  ActionItem,
+  ActionItemQuery,
+  ActionItemRow,
+  ActionItemTaskLink,
+  BulkUpdateActionItemsDTO,
+} from '../../types/notes.js';
+
+// Items listed per digest section before "...and N more"
+const DIGEST_SECTION_LIMIT = 25;
+
+interface NoteRow {
+  note_id: string;
+  contract_id: string;
+  title: string;
+  note_date: string;
+  meeting_id: string | null;
+  action_items: unknown;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  account_manager: string | null;
+}
+
+export interface BulkUpdateResult {
+  updated: number;
+  not_found: Array<{ note_id: string; id: string }>;
+  // Pushed items whose ClickUp task couldn't be updated (the note still was)
+  clickup_errors: Array<{ note_id: string; id: string; error: string }>;
+}
+
+// A bulk change to a pushed item that has to reach its ClickUp task
+interface PushedItemChange {
+  link: ActionItemTaskLink;
+  item: ActionItem;
+  completed?: boolean;
+  assignee?: string | null;
+}
+
+export interface ActionItemDigestResult {
+  dry_run: boolean;
+  open_items: number;
+  overdue_items: number;
+  recipients: number;
+  sent: number;
+  digests: Array<{ recipient: string | null; channel: string | null; open: number; overdue: number }>;
+  errors: Array<{ recipient?: string | null; error: string }>;
+}
+
+// ============================================================================
+// Query
+// ============================================================================
+
+export async function listActionItems(query: ActionItemQuery = {}): Promise<ActionItemRow[]> {
+  const { rows } = await loadActionItems(query);
+  return rows;
+}
+
+async function loadActionItems(
+  query: ActionItemQuery
+): Promise<{ rows: ActionItemRow[]; contracts: Map<string, ContractRow>; users: ClickUpUserRow[] }> {
+  const since = new Date(Date.now() - actionItemsConfig.lookbackDays * DAY_MS).toISOString().slice(0, 10);
+
+  const notes = await selectAll<NoteRow>('compass_notes', 'note_id', {
+    select: 'note_id,contract_id,title,note_date,meeting_id,action_items',
+    filters: {
+      note_date: { gte: since },
+      ...(query.contract_id ? { contract_id: query.contract_id } : {}),
+    },
+  });
+  const withItems = notes.filter((n) => Array.isArray(n.action_items) && n.action_items.length > 0);
+
+  const contractIds = Array.from(new Set(withItems.map((n) => n.contract_id)));
+  const noteIds = withItems.map((n) => n.note_id);
+  const [contractRows, links, users] = await Promise.all([
+    contractIds.length > 0
+      ? select<ContractRow[]>('contracts', {
+          select: 'contract_id,contract_name,account_manager',
+          filters: { contract_id: { in: contractIds } },
+        })
+      : Promise.resolve([] as ContractRow[]),
+    noteIds.length > 0
+      ? selectAll<ActionItemTaskLink>('compass_action_item_tasks', 'link_id', {
+          select: 'link_id,note_id,item_id,assignee_clickup_id',
+          filters: { note_id: { in: noteIds } },
+        })
+      : Promise.resolve([] as ActionItemTaskLink[]),
+    loadClickUpUsers(),
+  ]);
+
+  const contracts = new Map(contractRows.map((c) => [c.contract_id, c]));
+  const linkAssignee = new Map(links.map((l) => [`${l.note_id}:${l.item_id}`, l.assignee_clickup_id]));
+  const today = new Date().toISOString().slice(0, 10);
+  const assigneeNeedle = query.assignee?.trim().toLowerCase();
+  const status = query.status || 'open';
+
+  const rows: ActionItemRow[] = [];
+  for (const note of withItems) {
+    const { items } = normalizeActionItems(note.action_items, note.note_id);
+
+    for (const item of items) {
+      const dueDate = item.due ? item.due.slice(0, 10) : null;
+      const overdue = !item.completed && !!dueDate && dueDate < today;
+
+      if (status === 'open' && item.completed) continue;
+      if (status === 'completed' && !item.completed) continue;
+      if (status === 'overdue' && !overdue) continue;
+      if (query.due_from && (!dueDate || dueDate < query.due_from)) continue;
+      if (query.due_to && (!dueDate || dueDate > query.due_to)) continue;
+
+      const assigneeClickupId = linkAssignee.get(`${note.note_id}:${item.id}`)
+        ?? matchAssignee(item.assignee, users)?.id
+        ?? null;
+
+      if (assigneeNeedle &&
+          assigneeClickupId !== query.assignee &&
+          !(item.assignee || '').toLowerCase().includes(assigneeNeedle)) {
+        continue;
+      }
+
+      rows.push({
+        ...item,
+        id: item.id as string,
+        note_id: note.note_id,
+        note_title: note.title,
+        note_date: note.note_date,
+        meeting_id: note.meeting_id,
+        contract_id: note.contract_id,
+        contract_name: contracts.get(note.contract_id)?.contract_name ?? note.contract_id,
+        assignee_clickup_id: assigneeClickupId,
+        overdue,
+      });
+    }
+  }
+
+  // Soonest due first (undated last), then newest note
+  rows.sort((a, b) => {
+    const aDue = a.due ? a.due.slice(0, 10) : '9999-12-31';
+    const bDue = b.due ? b.due.slice(0, 10) : '9999-12-31';
+    if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+    return b.note_date.localeCompare(a.note_date);
+  });
+
+  return { rows, contracts, users };
+}
+
+// ============================================================================
+// Bulk update
+// ============================================================================
+
+/**
+ * Apply completed / assignee / due changes, one write per note (which also
+ * saves derived ids). Items that no longer exist on their note are reported
+ * back. Pushed items then get the same change on their ClickUp task.
+ */
+export async function bulkUpdateActionItems(
+  updates: BulkUpdateActionItemsDTO['items']
+): Promise<BulkUpdateResult> {
+  const result: BulkUpdateResult = { updated: 0, not_found: [], clickup_errors: [] };
+
+  const byNote = new Map<string, BulkUpdateActionItemsDTO['items']>();
+  for (const change of updates) {
+    const list = byNote.get(change.note_id) || [];
+    list.push(change);
+    byNote.set(change.note_id, list);
+  }
+
+  const noteIds = Array.from(byNote.keys());
+  const [notes, links] = await Promise.all([
+    select<Array<{ note_id: string; action_items: unknown }>>('compass_notes', {
+      select: 'note_id,action_items',
+      filters: { note_id: { in: noteIds } },
+    }),
+    selectAll<ActionItemTaskLink>('compass_action_item_tasks', 'link_id', {
+      select: 'link_id,note_id,item_id,clickup_task_id,assignee_clickup_id,completed_at',
+      filters: { note_id: { in: noteIds } },
+    }),
+  ]);
+  const notesById = new Map(notes.map((n) => [n.note_id, n]));
+  const linksByItem = new Map(links.map((l) => [`${l.note_id}:${l.item_id}`, l]));
+  const pushedChanges: PushedItemChange[] = [];
+
+  for (const [noteId, changes] of byNote) {
+    const note = notesById.get(noteId);
+    if (!note) {
+      result.not_found.push(...changes.map((c) => ({ note_id: noteId, id: c.id })));
+      continue;
+    }
+
+    const { items } = normalizeActionItems(note.action_items, noteId);
+    let applied = 0;
+
+    for (const change of changes) {
+      const item = items.find((i) => i.id === change.id);
+      if (!item) {
+        result.not_found.push({ note_id: noteId, id: change.id });
+        continue;
+      }
+
+      const link = linksByItem.get(`${noteId}:${item.id}`);
+      const pushed: PushedItemChange | null = link ? { link, item } : null;
+
+      if (change.completed !== undefined && change.completed !== !!item.completed) {
+        item.completed = change.completed;
+        if (change.completed) {
+          item.completed_at = new Date().toISOString();
+        } else {
+          delete item.completed_at;
+        }
+        if (pushed) pushed.completed = change.completed;
+      }
+      if (change.assignee !== undefined) {
+        if (change.assignee) item.assignee = change.assignee;
+        else delete item.assignee;
+        if (pushed) pushed.assignee = change.assignee;
+      }
+      if (pushed && (pushed.completed !== undefined || pushed.assignee !== undefined)) {
+        pushedChanges.push(pushed);
+      }
+      if (change.due !== undefined) {
+        if (change.due) item.due = change.due;
+        else delete item.due;
+      }
+      applied++;
+    }
+
+    if (applied > 0) {
+      await update('compass_notes', { action_items: items }, { note_id: noteId });
+      result.updated += applied;
+    }
+  }
+
+  if (pushedChanges.length > 0) {
+    await syncPushedItemChanges(pushedChanges, result);
+  }
+
+  return result;
+}
+
+/**
+ * Carry completion and assignee changes over to the items' ClickUp tasks and
+ * their compass_action_item_tasks links. Failures are collected, not thrown:
+ * the notes are already saved. A task that can't be closed keeps its link
+ * open, so the item is re-synced when someone closes the task in ClickUp.
+ */
+async function syncPushedItemChanges(changes: PushedItemChange[], result: BulkUpdateResult): Promise<void> {
+  const token = process.env.CLICKUP_API_TOKEN;
+  const client = token ? new ClickUpClient(token) : null;
+  const users = changes.some((c) => c.assignee) ? await loadClickUpUsers() : [];
+
+  for (const { link, item, completed, assignee } of changes) {
+    const fail = (error: string) => {
+      console.error(`[Action Items] ClickUp task ${link.clickup_task_id} for item ${link.item_id}: ${error}`);
+      result.clickup_errors.push({ note_id: link.note_id, id: link.item_id, error });
+    };
+
+    // Skip closing a task whose closure is what completed the link
+    if (completed !== undefined && (!completed || !link.completed_at)) {
+      try {
+        if (!client) throw new Error('CLICKUP_API_TOKEN is not set');
+        await setClickUpTaskClosed(client, link.clickup_task_id, completed);
+        await update(
+          'compass_action_item_tasks',
+          { completed_at: completed ? item.completed_at ?? new Date().toISOString() : null },
+          { link_id: link.link_id }
+        );
+      } catch (err) {
+        fail(`task not ${completed ? 'closed' : 'reopened'}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    if (assignee !== undefined) {
+      // The link's assignee outranks the item's free text in the tracker, so
+      // it has to follow the change even when ClickUp can't
+      const assigneeId = assignee ? matchAssignee(assignee, users)?.id ?? null : null;
+      try {
+        if (assigneeId !== link.assignee_clickup_id) {
+          await update('compass_action_item_tasks', { assignee_clickup_id: assigneeId }, { link_id: link.link_id });
+        }
+        if (assignee && !assigneeId) {
+          throw new Error(`no ClickUp member matches "${assignee}"`);
+        }
+        if (assigneeId !== link.assignee_clickup_id) {
+          if (!client) throw new Error('CLICKUP_API_TOKEN is not set');
+          const toIds = (id: string | null) => (id && !Number.isNaN(parseInt(id, 10)) ? [parseInt(id, 10)] : []);
+          await client.updateTask(link.clickup_task_id, {
+            assignees: { add: toIds(assigneeId), rem: toIds(link.assignee_clickup_id) },
+          });
+        }
+      } catch (err) {
+        fail(`task assignee not updated: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Weekly digest
+// ============================================================================
+
+export async function postActionItemDigest(
+  options: { dryRun?: boolean } = {}
+): Promise<ActionItemDigestResult> {
+  const dryRun = options.dryRun ?? false;
+  const { rows, contracts, users } = await loadActionItems({ status: 'open' });
+
+  const result: ActionItemDigestResult = {
+    dry_run: dryRun,
+    open_items: rows.length,
+    overdue_items: rows.filter((r) => r.overdue).length,
+    recipients: 0,
+    sent: 0,
+    digests: [],
+    errors: [],
+  };
+
+  // Assigned items go to the assignee; unmatched ones to the account manager
+  const byRecipient = new Map<string | null, { assigned: ActionItemRow[]; unassigned: ActionItemRow[] }>();
+  for (const row of rows) {
+    const recipient = row.assignee_clickup_id ?? contracts.get(row.contract_id)?.account_manager ?? null;
+    const bucket = byRecipient.get(recipient) || { assigned: [], unassigned: [] };
+    (row.assignee_clickup_id ? bucket.assigned : bucket.unassigned).push(row);
+    byRecipient.set(recipient, bucket);
+  }
+  result.recipients = byRecipient.size;
+
+  const usersById = new Map(users.map((u) => [u.id, u]));
+
+  for (const [recipientId, bucket] of byRecipient) {
+    const user = recipientId ? usersById.get(recipientId) ?? null : null;
+    const name = user?.full_name || user?.username || null;
+    const all = [...bucket.assigned, ...bucket.unassigned];
+    const text = buildDigestText(name, bucket.assigned, bucket.unassigned);
+
+    const digest = {
+      recipient: recipientId,
+      channel: null as string | null,
+      open: all.length,
+      overdue: all.filter((r) => r.overdue).length,
+    };
+
+    if (!dryRun) {
+      try {
+        digest.channel = await postDigest(user, name, text);
+        if (digest.channel) result.sent++;
+        else result.errors.push({ recipient: recipientId, error: 'Digest could not be delivered' });
+      } catch (err) {
+        result.errors.push({ recipient: recipientId, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    result.digests.push(digest);
+  }
+
+  console.log(
+    `[Action Items] Digest: ${result.open_items} open (${result.overdue_items} overdue) for ` +
+    `${result.recipients} recipient(s), ${result.sent} sent${dryRun ? ' (dry run)' : ''}`
+  );
+  return result;
+}
+
+function buildDigestText(name: string | null, assigned: ActionItemRow[], unassigned: ActionItemRow[]): string {
+  const all = [...assigned, ...unassigned];
+  const overdueCount = all.filter((r) => r.overdue).length;
+  const accounts = new Set(all.map((r) => r.contract_id)).size;
+
+  const lines: string[] = [];
+  lines.push(`:clipboard: *Open action items${name ? ` for ${name}` : ' (no owner)'}*`);
+  lines.push(`_${all.length} open, ${overdueCount} overdue across ${accounts} account(s)_`);
+
+  const section = (title: string, items: ActionItemRow[]) => {
+    if (items.length === 0) return;
+    lines.push('');
+    lines.push(`*${title}*`);
+    for (const row of items.slice(0, DIGEST_SECTION_LIMIT)) {
+      lines.push(formatDigestLine(row));
+    }
+    if (items.length > DIGEST_SECTION_LIMIT) {
+      lines.push(`_...and ${items.length - DIGEST_SECTION_LIMIT} more_`);
+    }
+  };
+
+  section('Overdue', assigned.filter((r) => r.overdue));
+  section('Open', assigned.filter((r) => !r.overdue));
+  section('Unassigned on your accounts', unassigned);
+
+  return lines.join('\n');
+}
+
+function formatDigestLine(row: ActionItemRow): string {
+  const parts = [`• ${row.item}`, `_${row.contract_name}_`];
+  if (row.due) {
+    const due = row.due.slice(0, 10);
+    if (row.overdue) {
+      const days = daysBetween(due, new Date().toISOString().slice(0, 10));
+      parts.push(`due ${due} (${days} day${days === 1 ? '' : 's'} overdue)`);
+    } else {
+      parts.push(`due ${due}`);
+    }
+  }
+  if (row.clickup_task_url) parts.push(`<${row.clickup_task_url}|ClickUp>`);
+  return parts.join(' · ');
+}
+
+/**
+ * DM the recipient (matched to Slack by email); fall back to
+ * ACTION_ITEMS_SLACK_CHANNEL. Returns the Slack user / channel used, or null.
+ */
+async function postDigest(user: ClickUpUserRow | null, name: string | null, text: string): Promise<string | null> {
+  let reason = user ? 'recipient has no email in ClickUp' : 'items have no assignee or account manager';
+
+  if (user?.email) {
+    try {
+      const slackUserId = await lookupSlackUserIdByEmail(user.email);
+      if (slackUserId) {
+        const posted = await postSlackMessage({ channel: slackUserId, text });
+        if (posted.ok) return slackUserId;
+        reason = `DM failed: ${posted.error}`;
+      } else {
+        reason = `no Slack user for ${user.email}`;
+      }
+    } catch (err) {
+      reason = `DM threw: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    console.warn(`[Action Items] Could not DM ${name}: ${reason}`);
+  }
+
+  const fallback = actionItemsConfig.fallbackSlackChannel;
+  if (!fallback) {
+    console.error('[Action Items] No ACTION_ITEMS_SLACK_CHANNEL configured — cannot post digest');
+    return null;
+  }
+
+  const posted = await postSlackMessage({
+    channel: fallback,
+    text: `${text}\n\n_(posted here because ${reason})_`,
+  });
+  if (posted.ok) return fallback;
+  console.error(`[Action Items] Fallback channel post failed: ${posted.error}`);
+  return null;
+}
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeActionItems, preserveActionItemLinks } from './action-items.js';
+
+const NOTE_ID = '6f1c2a9e-1b2c-4d3e-8f00-123456789abc';
+
+describe('normalizeActionItems', () => {
+  it('derives the same ids on every read of an unsaved note', () => {
+    const raw = ['Send the deck', { text: 'Book the review', assignee: 'Sarah' }];
+    const first = normalizeActionItems(raw, NOTE_ID).items;
+    const second = normalizeActionItems(raw, NOTE_ID).items;
+
+    assert.deepEqual(first, second);
+    assert.notEqual(first[0].id, first[1].id);
+    assert.deepEqual(first[1], { id: first[1].id, item: 'Book the review', assignee: 'Sarah' });
+  });
+
+  it('keeps stored ids and drops entries that are not items', () => {
+    const { items } = normalizeActionItems([{ id: 'a1', item: 'Ship it' }, null, 42], NOTE_ID);
+    assert.deepEqual(items, [{ id: 'a1', item: 'Ship it' }]);
+  });
+
+  it('derives a different id once the note\'s items change', () => {
+    const before = normalizeActionItems(['Send the deck', 'Book the review'], NOTE_ID).items;
+    const after = normalizeActionItems(['Call Acme', 'Send the deck', 'Book the review'], NOTE_ID).items;
+    assert.equal(after.some((item) => item.id === before[0].id), false);
+  });
+});
+
+describe('preserveActionItemLinks', () => {
+  const existing = [
+    { id: 'a1', item: 'Send the deck', clickup_task_id: 't1', clickup_task_url: 'https://app.clickup.com/t/t1' },
+    { id: 'a2', item: 'Book the review' },
+  ];
+
+  it('keeps ids and tasks the client dropped, matching by text', () => {
+    const items = preserveActionItemLinks(
+      [{ item: 'Send the deck', completed: true }, 'Book the review', { item: 'New follow-up' }],
+      existing,
+      NOTE_ID
+    );
+    assert.deepEqual(items, [
+      { id: 'a1', item: 'Send the deck', completed: true, clickup_task_id: 't1', clickup_task_url: 'https://app.clickup.com/t/t1' },
+      { id: 'a2', item: 'Book the review' },
+      { item: 'New follow-up' },
+    ]);
+  });
+
+  it('keeps the task of an item edited under its id', () => {
+    const items = preserveActionItemLinks([{ id: 'a1', item: 'Send the final deck' }], existing, NOTE_ID);
+    assert.equal(items[0].clickup_task_id, 't1');
+  });
+});
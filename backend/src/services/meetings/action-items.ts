@@ -0,0 +1,356 @@
+/**
+ * Meeting Action Items → ClickUp
+ *
+ * Action items on meeting notes can be pushed into the contract's ClickUp
+ * ToDos list (the same list Tally intake creates tasks in). Each pushed item
+ * is linked to its task in compass_action_item_tasks; when the task closes
+ * (webhook, or the ClickUp cron sync catching up) the item is marked
+ * completed on the note.
+ *
+ * Items are addressed by an id stored on the item itself. Older notes (and
+ * Master Marketer output) have no ids, or use `text` instead of `item`;
+ * normalizeActionItems fixes both up. Missing ids are derived from the note,
+ * position and text, so reads get stable ids without writing; the next write
+ * to the note (push, bulk update, completion sync) stores them.
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+import { select, insert, update } from '../../utils/edge-functions.js';
+import { ClickUpClient } from '../clickup/client.js';
+import type { ActionItem, ActionItemPushResult, ActionItemTaskLink, PushActionItemsDTO } from '../../types/notes.js';
+
+export interface ClickUpUserRow {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  email: string | null;
+}
+
+interface NoteRow {
+  note_id: string;
+  contract_id: string;
+  title: string;
+  note_date: string;
+  action_items: unknown;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  account_manager: string | null;
+}
+
+interface PulseTaskRow {
+  clickup_task_id: string;
+  status: string | null;
+  date_done: string | null;
+}
+
+// ============================================================================
+// Normalization & assignee matching
+// ============================================================================
+
+/**
+ * Coerce stored action items to ActionItem[] with ids. An item without an id
+ * gets the same one on every read until it's saved; if the note's items are
+ * edited in between, the derived id changes rather than pointing at another
+ * item.
+ */
+export function normalizeActionItems(raw: unknown, noteId: string): { items: ActionItem[] } {
+  if (!Array.isArray(raw)) return { items: [] };
+
+  const items: ActionItem[] = [];
+
+  raw.forEach((entry: unknown, index: number) => {
+    if (typeof entry === 'string') {
+      items.push({ id: derivedItemId(noteId, index, entry), item: entry, completed: false });
+      return;
+    }
+    if (!entry || typeof entry !== 'object') return;
+
+    const { text, ...rest } = entry as ActionItem & { text?: string };
+    const item: ActionItem = { ...rest, item: rest.item ?? text ?? '' };
+    if (!item.id) item.id = derivedItemId(noteId, index, item.item);
+    items.push(item);
+  });
+
+  return { items };
+}
+
+function derivedItemId(noteId: string, index: number, text: string): string {
+  return uuidv5(`${index}:${text}`, noteId);
+}
+
+/**
+ * Action items from a note edit, keeping the id and ClickUp task of items
+ * that already exist. Clients that don't send these back would otherwise
+ * orphan the task links and let the item be pushed a second time. Items
+ * without an id are matched to an existing one by text.
+ */
+export function preserveActionItemLinks(incoming: unknown, existing: unknown, noteId: string): ActionItem[] {
+  const { items: before } = normalizeActionItems(existing, noteId);
+  const unclaimed = new Set(before);
+
+  const items: ActionItem[] = [];
+  for (const entry of Array.isArray(incoming) ? incoming : []) {
+    if (!entry || (typeof entry !== 'string' && typeof entry !== 'object')) continue;
+    const { text, ...rest } = (typeof entry === 'string' ? { item: entry } : entry) as ActionItem & { text?: string };
+    const item: ActionItem = { ...rest, item: rest.item ?? text ?? '' };
+
+    const match = (item.id ? before.find((b) => b.id === item.id) : undefined)
+      ?? (!item.id ? Array.from(unclaimed).find((b) => b.item === item.item) : undefined);
+    if (match && unclaimed.has(match)) {
+      unclaimed.delete(match);
+      item.id = match.id;
+      if (match.clickup_task_id && !item.clickup_task_id) {
+        item.clickup_task_id = match.clickup_task_id;
+        item.clickup_task_url = match.clickup_task_url;
+      }
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Match the free-text assignee from a meeting ("Sarah", "sarah@acme.com",
+ * "Sarah Chen") to a ClickUp member: exact email, full name or username
+ * first, then a first name that only one member has.
+ */
+export function matchAssignee(
+  assignee: string | undefined,
+  users: ClickUpUserRow[]
+): ClickUpUserRow | null {
+  const needle = assignee?.trim().toLowerCase();
+  if (!needle) return null;
+
+  const exact = users.find((u) =>
+    u.email?.toLowerCase() === needle ||
+    u.full_name?.toLowerCase() === needle ||
+    u.username?.toLowerCase() === needle
+  );
+  if (exact) return exact;
+
+  const firstName = needle.split(/\s+/)[0];
+  const byFirstName = users.filter((u) =>
+    (u.full_name || u.username || '').toLowerCase().split(/\s+/)[0] === firstName
+  );
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
+
+export async function loadClickUpUsers(): Promise<ClickUpUserRow[]> {
+  return select<ClickUpUserRow[]>('pulse_clickup_users', {
+    select: 'id,full_name,username,email',
+    filters: { is_assignable: true },
+  });
+}
+
+// ============================================================================
+// Push
+// ============================================================================
+
+/**
+ * Create a ClickUp task for each selected item. Items already pushed are
+ * reported, not duplicated. Assignee: the explicit choice, else the matched
+ * meeting assignee, else the contract's account manager.
+ */
+export async function pushActionItems(params: {
+  note: NoteRow;
+  contract: ContractRow;
+  client: ClickUpClient;
+  listId: string;
+  selections: PushActionItemsDTO['items'];
+  userId: string;
+}): Promise<ActionItemPushResult[]> {
+  const { note, contract, client, listId, selections, userId } = params;
+  const { items } = normalizeActionItems(note.action_items, note.note_id);
+  const [users, links] = await Promise.all([
+    loadClickUpUsers(),
+    select<ActionItemTaskLink[]>('compass_action_item_tasks', {
+      select: 'item_id,clickup_task_id,clickup_task_url',
+      filters: { note_id: note.note_id },
+    }),
+  ]);
+  const linkByItem = new Map(links.map((l) => [l.item_id, l]));
+  const results: ActionItemPushResult[] = [];
+
+  for (const selection of selections) {
+    const item = items.find((i) => i.id === selection.id);
+    if (!item) {
+      results.push({ id: selection.id, outcome: 'not_found' });
+      continue;
+    }
+    // A task created by an earlier push whose note write didn't land
+    const link = linkByItem.get(item.id as string);
+    if (link && !item.clickup_task_id) {
+      item.clickup_task_id = link.clickup_task_id;
+      item.clickup_task_url = link.clickup_task_url ?? undefined;
+    }
+    if (item.clickup_task_id) {
+      results.push({
+        id: selection.id,
+        outcome: 'already_pushed',
+        clickup_task_id: item.clickup_task_id,
+        clickup_task_url: item.clickup_task_url,
+      });
+      continue;
+    }
+
+    const assigneeId = selection.assignee_clickup_id
+      || matchAssignee(item.assignee, users)?.id
+      || contract.account_manager
+      || null;
+    const assigneeNum = assigneeId ? parseInt(assigneeId, 10) : NaN;
+    const due = selection.due || item.due;
+    const dueMs = due ? Date.parse(due) : NaN;
+
+    const description = [
+      `Action item from **${note.title}** (${note.note_date.slice(0, 10)}).`,
+      item.assignee ? `Assigned in the meeting to: ${item.assignee}` : null,
+    ].filter(Boolean).join('\n\n');
+
+    let task: { id: string; url: string };
+    try {
+      task = await client.createTask(listId, {
+        name: (selection.name || item.item).slice(0, 250),
+        markdown_content: description,
+        assignees: Number.isNaN(assigneeNum) ? undefined : [assigneeNum],
+        due_date: Number.isNaN(dueMs) ? undefined : dueMs,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[Action Items] Failed to push item ${item.id} on note ${note.note_id}:`, message);
+      results.push({ id: selection.id, outcome: 'failed', error: message });
+      continue;
+    }
+
+    // The task exists now: record it on the item even if the link row fails,
+    // so a retry reports already_pushed instead of creating a second task
+    item.clickup_task_id = task.id;
+    item.clickup_task_url = task.url;
+    if (!item.due && due && !Number.isNaN(dueMs)) item.due = due;
+
+    const result: ActionItemPushResult = {
+      id: selection.id,
+      outcome: 'created',
+      clickup_task_id: task.id,
+      clickup_task_url: task.url,
+      assignee_clickup_id: assigneeId,
+    };
+
+    try {
+      await insert('compass_action_item_tasks', {
+        note_id: note.note_id,
+        contract_id: contract.contract_id,
+        item_id: item.id,
+        clickup_task_id: task.id,
+        clickup_task_url: task.url,
+        assignee_clickup_id: assigneeId,
+        pushed_by: userId,
+      });
+      console.log(`[Action Items] Created ClickUp task ${task.id} for item ${item.id} on note ${note.note_id}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[Action Items] Created task ${task.id} for item ${item.id} but failed to link it:`, message);
+      result.error = `Task created but not linked, completion won't sync: ${message}`;
+    }
+
+    results.push(result);
+  }
+
+  // Save task links (and any derived ids, so they survive later edits)
+  await update('compass_notes', { action_items: items }, { note_id: note.note_id });
+
+  return results;
+}
+
+/**
+ * Move a pushed item's task to its list's closed status, or back to the open
+ * status when the item is reopened. Throws if the list has no such status.
+ */
+export async function setClickUpTaskClosed(
+  client: ClickUpClient,
+  taskId: string,
+  closed: boolean
+): Promise<void> {
+  const task = (await client.getTask(taskId)) as { list?: { id: string } };
+  if (!task.list?.id) throw new Error(`ClickUp task ${taskId} has no list`);
+
+  const list = await client.getList(task.list.id);
+  const target = (list.statuses || []).find((s) => s.type === (closed ? 'closed' : 'open'));
+  if (!target) {
+    throw new Error(`List ${list.name} has no ${closed ? 'closed' : 'open'} status`);
+  }
+  await client.updateTask(taskId, { status: target.status });
+}
+
+// ============================================================================
+// Completion sync
+// ============================================================================
+
+/**
+ * Mark items completed whose linked ClickUp task is now delivered in
+ * pulse_tasks. Pass task ids to check just those (webhook), or nothing to
+ * sweep every open link (cron). Returns the number of items completed.
+ */
+export async function syncActionItemCompletion(clickupTaskIds?: string[]): Promise<number> {
+  if (clickupTaskIds && clickupTaskIds.length === 0) return 0;
+
+  const links = await select<ActionItemTaskLink[]>('compass_action_item_tasks', {
+    select: 'link_id,note_id,item_id,clickup_task_id,completed_at',
+    filters: {
+      completed_at: { is: null },
+      ...(clickupTaskIds ? { clickup_task_id: { in: clickupTaskIds } } : {}),
+    },
+  });
+  if (links.length === 0) return 0;
+
+  const tasks = await select<PulseTaskRow[]>('pulse_tasks', {
+    select: 'clickup_task_id,status,date_done',
+    filters: { clickup_task_id: { in: links.map((l) => l.clickup_task_id) }, status: 'delivered' },
+  });
+  const doneByTask = new Map(tasks.map((t) => [t.clickup_task_id, t.date_done || new Date().toISOString()]));
+
+  const closedByNote = new Map<string, Array<{ link: ActionItemTaskLink; completedAt: string }>>();
+  for (const link of links) {
+    const completedAt = doneByTask.get(link.clickup_task_id);
+    if (!completedAt) continue;
+    const list = closedByNote.get(link.note_id) || [];
+    list.push({ link, completedAt });
+    closedByNote.set(link.note_id, list);
+  }
+
+  let completed = 0;
+  for (const [noteId, closed] of closedByNote) {
+    try {
+      const notes = await select<Array<{ action_items: unknown }>>('compass_notes', {
+        select: 'action_items',
+        filters: { note_id: noteId },
+        limit: 1,
+      });
+      if (notes.length > 0) {
+        const { items } = normalizeActionItems(notes[0].action_items, noteId);
+        for (const { link, completedAt } of closed) {
+          const item = items.find((i) => i.id === link.item_id);
+          if (item && !item.completed) {
+            item.completed = true;
+            item.completed_at = completedAt;
+          }
+        }
+        await update('compass_notes', { action_items: items }, { note_id: noteId });
+      }
+
+      for (const { link, completedAt } of closed) {
+        await update('compass_action_item_tasks', { completed_at: completedAt }, { link_id: link.link_id });
+        completed++;
+      }
+    } catch (err) {
+      console.error(`[Action Items] Failed to sync completion for note ${noteId}:`, err);
+    }
+  }
+
+  if (completed > 0) {
+    console.log(`[Action Items] Marked ${completed} action item(s) completed from ClickUp`);
+  }
+  return completed;
+}
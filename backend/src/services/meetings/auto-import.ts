@@ -0,0 +1,333 @@
+/**
+ * Fireflies Auto-Import
+ *
+ * Scheduled importer for recorded meetings. Lists Fireflies transcripts from
+ * the last few days and matches each one to a contract with the rules in
+ * meeting_import_rules, in order of precedence:
+ *
+ *   1. calendar_tag    [TAG] or #TAG in the invite title
+ *   2. email_domain    an external participant's domain (plus the domain of
+ *                      the contract's account website, unless disabled)
+ *   3. title_keyword   substring of the title
+ *
+ * Calendar tags can only be read from the invite title: Fireflies' transcript
+ * API carries the calendar event's title and attendee list (used for the
+ * email_domain tier) but not its description or other event fields.
+ *
+ * The first tier with any match decides. One contract: the meeting is created
+ * and goes through the usual Master Marketer / RAG processing. More than one
+ * (ambiguous) or none (unmatched): the meeting waits in meeting_import_queue
+ * for someone to pick the contract or dismiss it. Meetings with only internal
+ * participants and no match are skipped rather than queued.
+ *
+ * A transcript already in compass_meetings or in the queue (any status) is
+ * never imported again.
+ */
+
+import { select, insert, update } from '../../utils/edge-functions.js';
+import { listTranscripts, fetchTranscript, toTranscriptSegments } from '../fireflies/client.js';
+import { startImportedMeetingProcessing } from './processing.js';
+import { meetingImportConfig } from '../../config/meeting-import.js';
+import { DAY_MS } from '../../utils/dates.js';
+import type { FirefliesTranscriptSummary, MeetingSource } from '../../types/meetings.js';
+import type {
+  FirefliesImportResult,
+  MeetingImportMatch,
+  MeetingImportRule,
+  MeetingImportRuleType,
+} from '../../types/meeting-imports.js';
+
+interface ContractRow {
+  contract_id: string;
+  account_id: string | null;
+}
+
+interface MatchContext {
+  rules: MeetingImportRule[];
+  // account website domains as implicit email_domain rules
+  accountDomains: Array<{ contract_id: string; domain: string }>;
+  internalDomains: string[];
+}
+
+type MatchOutcome =
+  | { kind: 'matched'; match: MeetingImportMatch }
+  | { kind: 'ambiguous'; candidates: string[] }
+  | { kind: 'unmatched' }
+  | { kind: 'internal' };
+
+export async function runFirefliesImport(
+  options: { dryRun?: boolean } = {}
+): Promise<FirefliesImportResult> {
+  const dryRun = options.dryRun ?? false;
+  const result: FirefliesImportResult = {
+    dry_run: dryRun,
+    listed: 0,
+    already_seen: 0,
+    internal_skipped: 0,
+    imported: 0,
+    queued: 0,
+    imports: [],
+    errors: [],
+  };
+
+  const since = new Date(Date.now() - meetingImportConfig.lookbackDays * DAY_MS);
+  const transcripts = await listTranscripts(since, meetingImportConfig.maxTranscripts);
+  result.listed = transcripts.length;
+  if (transcripts.length === 0) return result;
+
+  const seen = await loadSeenExternalIds(transcripts.map((t) => t.id));
+  const context = await loadMatchContext();
+
+  // Sequential: each import fetches the full transcript and starts background
+  // processing, and the Fireflies API is rate limited
+  for (const transcript of transcripts) {
+    if (seen.has(transcript.id)) {
+      result.already_seen++;
+      continue;
+    }
+
+    const outcome = matchTranscript(transcript, context);
+
+    if (outcome.kind === 'internal') {
+      result.internal_skipped++;
+      continue;
+    }
+
+    try {
+      if (outcome.kind === 'matched') {
+        if (!dryRun) {
+          await importFirefliesMeeting(transcript.id, outcome.match.contract_id, outcome.match);
+        }
+        result.imported++;
+        result.imports.push({
+          external_id: transcript.id,
+          title: transcript.title,
+          contract_id: outcome.match.contract_id,
+          matched_by: `${outcome.match.rule_type}:${outcome.match.value}`,
+        });
+      } else {
+        if (!dryRun) {
+          await insert('meeting_import_queue', {
+            source: 'fireflies',
+            external_id: transcript.id,
+            title: transcript.title,
+            meeting_date: transcript.date,
+            duration_seconds: transcript.duration ? Math.round(transcript.duration * 60) : null,
+            participant_emails: transcript.participant_emails,
+            reason: outcome.kind,
+            candidate_contract_ids: outcome.kind === 'ambiguous' ? outcome.candidates : null,
+            status: 'pending',
+          });
+        }
+        result.queued++;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[Meeting Import] Fireflies transcript ${transcript.id} failed:`, message);
+      result.errors.push({ external_id: transcript.id, error: message });
+    }
+  }
+
+  console.log(
+    `[Meeting Import] ${result.listed} listed: ${result.imported} imported, ${result.queued} queued, ` +
+    `${result.already_seen} already seen, ${result.internal_skipped} internal` +
+    (dryRun ? ' (dry run)' : '')
+  );
+  return result;
+}
+
+/**
+ * Create a compass_meetings row for a Fireflies transcript and start
+ * processing. Used by the importer and when a queued meeting is assigned.
+ * Throws if the transcript is gone or was already imported.
+ */
+export async function importFirefliesMeeting(
+  externalId: string,
+  contractId: string,
+  match: MeetingImportMatch | null
+): Promise<{ meeting_id: string }> {
+  const transcript = await fetchTranscript(externalId);
+  if (!transcript) {
+    throw new Error(`Transcript ${externalId} not found in Fireflies`);
+  }
+
+  const segments = toTranscriptSegments(transcript);
+
+  const rows = await insert<Array<{ meeting_id: string }>>('compass_meetings', {
+    contract_id: contractId,
+    meeting_date: transcript.date,
+    source: 'fireflies' as MeetingSource,
+    external_id: transcript.id,
+    title: transcript.title,
+    participants: transcript.participants,
+    duration_seconds: transcript.duration ? Math.round(transcript.duration * 60) : null,
+    recording_url: transcript.audio_url || transcript.transcript_url || null,
+    transcript: segments,
+    raw_metadata: {
+      fireflies_summary: transcript.summary || null,
+      auto_import: match
+        ? { rule_type: match.rule_type, value: match.value }
+        : { reviewed: true },
+      master_marketer: { status: 'pending' },
+    },
+  }, { select: 'meeting_id' });
+
+  const meeting = rows[0];
+  startImportedMeetingProcessing(
+    meeting,
+    contractId,
+    'fireflies',
+    segments,
+    transcript.title,
+    transcript.date,
+    transcript.participants || []
+  );
+  return meeting;
+}
+
+/**
+ * Mark a queue entry resolved once its meeting exists (or it was dismissed)
+ */
+export async function resolveQueueItem(
+  queueId: string,
+  status: 'imported' | 'dismissed',
+  userId: string,
+  meetingId: string | null = null
+): Promise<void> {
+  await update('meeting_import_queue', {
+    status,
+    meeting_id: meetingId,
+    resolved_by: userId,
+    resolved_at: new Date().toISOString(),
+  }, { queue_id: queueId });
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+const TIER_ORDER: Array<MeetingImportRuleType> = ['calendar_tag', 'email_domain', 'title_keyword'];
+
+function matchTranscript(transcript: FirefliesTranscriptSummary, context: MatchContext): MatchOutcome {
+  const externalDomains = new Set(
+    transcript.participant_emails
+      .map((email) => email.split('@')[1] || '')
+      .filter((domain) => domain && !isDomainOf(domain, context.internalDomains))
+  );
+  const title = transcript.title.toLowerCase();
+
+  for (const tier of TIER_ORDER) {
+    const matches: MeetingImportMatch[] = [];
+
+    for (const rule of context.rules) {
+      if (rule.rule_type !== tier) continue;
+      const value = rule.value.trim().toLowerCase();
+      if (!value) continue;
+
+      const hit =
+        tier === 'calendar_tag' ? hasTag(title, value)
+        : tier === 'email_domain' ? [...externalDomains].some((d) => isDomainOf(d, [value]))
+        : title.includes(value);
+      if (hit) matches.push({ contract_id: rule.contract_id, rule_type: tier, value: rule.value });
+    }
+
+    if (tier === 'email_domain') {
+      for (const { contract_id, domain } of context.accountDomains) {
+        if ([...externalDomains].some((d) => isDomainOf(d, [domain]))) {
+          matches.push({ contract_id, rule_type: 'account_domain', value: domain });
+        }
+      }
+    }
+
+    const contractIds = Array.from(new Set(matches.map((m) => m.contract_id)));
+    if (contractIds.length === 1) return { kind: 'matched', match: matches[0] };
+    if (contractIds.length > 1) return { kind: 'ambiguous', candidates: contractIds };
+  }
+
+  if (externalDomains.size === 0 && context.internalDomains.length > 0) {
+    return { kind: 'internal' };
+  }
+  return { kind: 'unmatched' };
+}
+
+// domain equals one of the bases or is a subdomain of one
+function isDomainOf(domain: string, bases: string[]): boolean {
+  return bases.some((base) => domain === base || domain.endsWith(`.${base}`));
+}
+
+// [TAG] or #TAG, not part of a longer word
+function hasTag(title: string, tag: string): boolean {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\[${escaped}\\]|(^|[^\\w])#${escaped}(?![\\w-])`).test(title);
+}
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+async function loadSeenExternalIds(externalIds: string[]): Promise<Set<string>> {
+  const [meetings, queued] = await Promise.all([
+    select<Array<{ external_id: string }>>('compass_meetings', {
+      select: 'external_id',
+      filters: { source: 'fireflies', external_id: { in: externalIds } },
+    }),
+    select<Array<{ external_id: string }>>('meeting_import_queue', {
+      select: 'external_id',
+      filters: { source: 'fireflies', external_id: { in: externalIds } },
+    }),
+  ]);
+  return new Set([...meetings, ...queued].map((r) => r.external_id));
+}
+
+async function loadMatchContext(): Promise<MatchContext> {
+  const [rules, contracts] = await Promise.all([
+    select<MeetingImportRule[]>('meeting_import_rules', {
+      filters: { is_active: true },
+    }),
+    select<ContractRow[]>('contracts', {
+      select: 'contract_id,account_id',
+      filters: { contract_status: 'active' },
+    }),
+  ]);
+
+  const activeIds = new Set(contracts.map((c) => c.contract_id));
+  const internalDomains = meetingImportConfig.internalDomains;
+
+  const accountDomains: MatchContext['accountDomains'] = [];
+  if (meetingImportConfig.useAccountDomains) {
+    const accountIds = Array.from(new Set(contracts.map((c) => c.account_id).filter((id): id is string => !!id)));
+    const accounts = accountIds.length > 0
+      ? await select<Array<{ account_id: string; website: string | null }>>('accounts', {
+          select: 'account_id,website',
+          filters: { account_id: { in: accountIds } },
+        })
+      : [];
+    const domainByAccount = new Map<string, string>();
+    for (const account of accounts) {
+      const domain = websiteDomain(account.website);
+      if (domain && !isDomainOf(domain, internalDomains)) domainByAccount.set(account.account_id, domain);
+    }
+    for (const contract of contracts) {
+      const domain = contract.account_id ? domainByAccount.get(contract.account_id) : undefined;
+      if (domain) accountDomains.push({ contract_id: contract.contract_id, domain });
+    }
+  }
+
+  return {
+    // Rules on inactive contracts stay in place but don't match
+    rules: rules.filter((r) => activeIds.has(r.contract_id)),
+    accountDomains,
+    internalDomains,
+  };
+}
+
+// 'https://www.acme.com/about' or 'acme.com' -> 'acme.com'
+function websiteDomain(website: string | null): string | null {
+  if (!website) return null;
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+    return url.hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Meeting Processing
+ *
+ * Background pipeline for meetings with transcripts: Master Marketer analysis
+ * (sentiment + auto-generated meeting note) and RAG ingestion of the raw
+ * transcript. Used by the meetings routes and the Fireflies auto-importer.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { MeetingSource, TranscriptSegment } from '../../types/meetings.js';
+import type { ActionItem } from '../../types/notes.js';
+import { submitMeetingNotes, pollUntilComplete } from '../master-marketer/client.js';
+import type { MeetingNotesSubmission, ProcessingState, JobOutput } from '../master-marketer/types.js';
+import { update as edgeFnUpdate, insert as edgeFnInsert } from '../../utils/edge-functions.js';
+import { ingestContent } from '../rag/ingestion.js';
+
+/**
+ * Update the processing state in raw_metadata via the edge-functions proxy.
+ * Uses service-role so it works even after the user JWT expires.
+ */
+async function updateProcessingState(
+  meetingId: string,
+  state: ProcessingState['master_marketer']
+): Promise<void> {
+  try {
+    await edgeFnUpdate(
+      'compass_meetings',
+      { raw_metadata: { master_marketer: state } },
+      { meeting_id: meetingId }
+    );
+  } catch (err) {
+    console.error(`Failed to update processing state for meeting ${meetingId}:`, err);
+  }
+}
+
+/**
+ * Write the AI analysis results back to the database:
+ * 1. Update compass_meetings.sentiment with the AI sentiment
+ * 2. Insert a compass_note with note_type='meeting', is_auto_generated=true
+ */
+async function writeProcessingResults(
+  meetingId: string,
+  contractId: string,
+  title: string,
+  date: string,
+  output: JobOutput
+): Promise<void> {
+  // 1. Update meeting sentiment
+  await edgeFnUpdate(
+    'compass_meetings',
+    {
+      sentiment: {
+        label: output.sentiment.label,
+        confidence: output.sentiment.confidence,
+        bullets: output.key_topics,
+        highlights: [],
+        topics: output.key_topics,
+        model: 'master-marketer',
+        version: 1,
+        generated_at: new Date().toISOString(),
+      },
+      raw_metadata: {
+        master_marketer: {
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+        },
+      },
+    },
+    { meeting_id: meetingId }
+  );
+
+  // 2. Build note content from the AI output
+  const contentParts: string[] = [];
+  if (output.summary) {
+    contentParts.push(`## Summary\n\n${output.summary}`);
+  }
+  if (output.decisions && output.decisions.length > 0) {
+    contentParts.push(`## Decisions\n\n${output.decisions.map((d) => `- ${d}`).join('\n')}`);
+  }
+  if (output.key_topics && output.key_topics.length > 0) {
+    contentParts.push(`## Key Topics\n\n${output.key_topics.map((t) => `- ${t}`).join('\n')}`);
+  }
+
+  const actionItems: ActionItem[] = (output.action_items || []).map((item) => ({
+    id: uuidv4(),
+    item,
+    completed: false,
+  }));
+
+  // Calculate week number from the meeting date
+  const meetingDate = new Date(date);
+  const startOfYear = new Date(meetingDate.getFullYear(), 0, 1);
+  const dayOfYear = Math.floor(
+    (meetingDate.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000)
+  );
+  const weekNumber = Math.ceil((dayOfYear + startOfYear.getDay() + 1) / 7);
+
+  const noteContent = contentParts.join('\n\n');
+
+  const insertedNotes = await edgeFnInsert<{ note_id: string }[]>('compass_notes', {
+    contract_id: contractId,
+    meeting_id: meetingId,
+    note_type: 'meeting',
+    title: `Meeting Notes: ${title}`,
+    content_raw: noteContent,
+    note_date: date,
+    week_number: weekNumber,
+    year: meetingDate.getFullYear(),
+    status: 'published',
+    action_items: actionItems,
+    is_auto_generated: true,
+  }, { select: 'note_id' });
+
+  // Auto-embed the generated summary note.
+  // The raw transcript is embedded separately under source_type='meeting' at
+  // create/update time — do NOT re-ingest under that source_id here, or the
+  // summary would overwrite the transcript chunks (ingestContent deletes by
+  // source_id before inserting).
+  if (noteContent && process.env.OPENAI_API_KEY && insertedNotes?.[0]) {
+    try {
+      await ingestContent({
+        contract_id: contractId,
+        source_type: 'note',
+        source_id: insertedNotes[0].note_id,
+        title: `Meeting Notes: ${title}`,
+        content: noteContent,
+      });
+    } catch (embedErr) {
+      console.error('[Meetings] Note embedding failed (non-blocking):', embedErr);
+    }
+  }
+}
+
+/**
+ * Core background pipeline: submit transcript to Master Marketer, poll for results, write back.
+ * Runs as fire-and-forget — errors are logged and written to raw_metadata.
+ */
+export async function processMeetingInBackground(
+  meetingId: string,
+  contractId: string,
+  transcript: string,
+  title: string,
+  date: string,
+  participants: string[],
+  source: MeetingSource
+): Promise<void> {
+  try {
+    // Mark as submitted
+    await updateProcessingState(meetingId, {
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+    });
+
+    // Submit to Master Marketer
+    const submission: MeetingNotesSubmission = {
+      title,
+      date,
+      participants,
+      transcript,
+      metadata: {
+        source,
+        meeting_id: meetingId,
+        contract_id: contractId,
+      },
+    };
+
+    const { jobId } = await submitMeetingNotes(submission);
+
+    // Update state with job ID
+    await updateProcessingState(meetingId, {
+      status: 'polling',
+      job_id: jobId,
+      submitted_at: new Date().toISOString(),
+    });
+
+    // Poll until complete
+    const result = await pollUntilComplete(jobId);
+
+    if (!result.output) {
+      throw new Error('Master Marketer returned completed status but no output');
+    }
+
+    // Write results back
+    await writeProcessingResults(meetingId, contractId, title, date, result.output);
+
+    console.log(`Meeting ${meetingId} processed successfully (job ${jobId})`);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    console.error(`Background processing failed for meeting ${meetingId}:`, errorMessage);
+
+    await updateProcessingState(meetingId, {
+      status: 'failed',
+      error: errorMessage,
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Format transcript segments into a plain text string for Master Marketer
+ */
+export function formatTranscriptText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s) => (s.speaker ? `${s.speaker}: ${s.text}` : s.text))
+    .join('\n');
+}
+
+/**
+ * After an imported or uploaded meeting is saved and the response sent: embed
+ * the transcript for RAG and, if configured, run Master Marketer processing.
+ * Both are fire-and-forget.
+ */
+export function startImportedMeetingProcessing(
+  meeting: { meeting_id: string },
+  contractId: string,
+  source: MeetingSource,
+  segments: TranscriptSegment[],
+  title: string,
+  date: string,
+  participants: string[]
+): void {
+  const transcriptText = formatTranscriptText(segments);
+
+  // Embed the raw transcript so the chat can cite direct quotes. (Manual-create
+  // embeds inline; imports need their own because the response was already
+  // sent and MM no longer handles transcript ingestion.)
+  if (transcriptText && process.env.OPENAI_API_KEY) {
+    ingestContent({
+      contract_id: contractId,
+      source_type: 'meeting',
+      source_id: meeting.meeting_id,
+      title: title || 'Meeting',
+      content: transcriptText,
+    }).catch((embedErr) => {
+      console.error(`[Meetings] ${source} transcript embedding failed (non-blocking):`, embedErr);
+    });
+  }
+
+  // Auto-process if Master Marketer is configured
+  if (process.env.MASTER_MARKETER_URL && process.env.MASTER_MARKETER_API_KEY) {
+    processMeetingInBackground(
+      meeting.meeting_id,
+      contractId,
+      transcriptText,
+      title || 'Untitled Meeting',
+      date,
+      participants,
+      source
+    ).catch(() => {
+      // Already handled inside processMeetingInBackground
+    });
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Otter.ai API Client
+ *
+ * Fetches conversation transcripts (speeches) from Otter.
+ *
+ * Environment variables: OTTER_API_KEY, OTTER_API_URL (optional)
+ * API: https://otter.ai/forward/api/v1
+ */
+
+import type { OtterTranscript, TranscriptSegment } from '../../types/meetings.js';
+import { transcriptSpeakers } from '../../utils/transcript.js';
+
+const DEFAULT_OTTER_API_URL = 'https://otter.ai/forward/api/v1';
+
+interface OtterConfig {
+  apiKey: string;
+  apiUrl: string;
+}
+
+function getConfig(): OtterConfig {
+  const apiKey = process.env.OTTER_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('OTTER_API_KEY is required');
+  }
+
+  return { apiKey, apiUrl: process.env.OTTER_API_URL || DEFAULT_OTTER_API_URL };
+}
+
+/**
+ * Low-level GET with Bearer auth. Returns null on 404.
+ */
+async function otterFetch<T>(path: string, params: Record<string, string>): Promise<T | null> {
+  const config = getConfig();
+
+  const response = await fetch(`${config.apiUrl}${path}?${new URLSearchParams(params)}`, {
+    headers: { Authorization: `Bearer ${config.apiKey}` },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Otter API error: ${response.status} - ${error}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+interface OtterSpeechResponse {
+  speech: {
+    otid: string;
+    title: string | null;
+    start_time: number; // Unix seconds
+    end_time?: number;
+    duration: number; // seconds
+    summary?: string | null;
+    speakers?: Array<{ id: number | string; speaker_name: string }>;
+    transcripts?: Array<{
+      transcript: string;
+      speaker_id?: number | string | null;
+      start_offset: number; // ms from start
+      end_offset: number;
+    }>;
+  } | null;
+}
+
+/**
+ * Fetch a conversation from Otter by ID
+ *
+ * Maps Otter's speaker ids to names on each segment.
+ * Returns null if the conversation is not found.
+ */
+export async function fetchSpeech(otid: string): Promise<OtterTranscript | null> {
+  const data = await otterFetch<OtterSpeechResponse>('/speech', { otid });
+
+  if (!data?.speech) {
+    return null;
+  }
+
+  const s = data.speech;
+
+  const speakerNames = new Map<string, string>();
+  for (const speaker of s.speakers || []) {
+    speakerNames.set(String(speaker.id), speaker.speaker_name);
+  }
+
+  const segments: TranscriptSegment[] = (s.transcripts || [])
+    .filter((t) => t.transcript && t.transcript.trim())
+    .map((t) => {
+      const speaker = t.speaker_id !== null && t.speaker_id !== undefined
+        ? speakerNames.get(String(t.speaker_id))
+        : undefined;
+      return {
+        ...(speaker ? { speaker } : {}),
+        text: t.transcript.trim(),
+        start_time: t.start_offset / 1000,
+        end_time: t.end_offset / 1000,
+      };
+    });
+
+  // Named speakers who never spoke are still attendees
+  const participants = Array.from(new Set([
+    ...transcriptSpeakers(segments),
+    ...(s.speakers || []).map((sp) => sp.speaker_name).filter(Boolean),
+  ]));
+
+  return {
+    id: s.otid,
+    title: s.title || 'Otter Conversation',
+    date: new Date(s.start_time * 1000).toISOString(),
+    duration_seconds: Math.round(s.duration || 0),
+    participants,
+    segments,
+    summary: s.summary || undefined,
+    url: `https://otter.ai/u/${s.otid}`,
+  };
+}
@@ -8,8 +8,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import OAuthClient from 'intuit-oauth';
 import { QuickBooksClient, fetchWithRetry, QuickBooksInvoice, QuickBooksCreditMemo, QuickBooksPayment } from './client.js';
-import { parseInvoiceMemo, parseCreditMemoMemo, getRawMemoText } from './memo-parser.js';
+import { parseInvoiceMemo, parseCreditMemoMemo, getRawMemoText, isAutoLinkConfidence, ParsedMemo } from './memo-parser.js';
 import { dbProxy } from '../../utils/db-proxy.js';
+import { selectAll } from '../../utils/edge-functions.js';
+import { round2 } from '../../utils/numbers.js';
+import { syncConfig } from '../../config/sync-config.js';
+import type { MemoAssignment, MemoDocumentType } from '../../types/finance.js';
+import { applyPaymentsToInvoices, LinkedInvoice, PaymentLinks } from './payment-applications.js';
 
 /**
  * Create a fresh OAuth client instance
@@ -37,6 +42,14 @@ interface ContractToSync {
 // Map of external_id (MID number) -> contract_id (UUID)
 type ContractLookupMap = Map<string, string>;
 
+// Contract link written to an invoice/credit memo row
+interface MemoLink {
+  contract_id: string | null;
+  contract_external_id: string | null;
+  points: number | null;
+  memo_confidence: string;
+}
+
 interface OrganizationWithRealm {
   organization_id: string;
   quickbooks_realm_id: string;
@@ -73,6 +86,12 @@ interface SyncResults {
  * QuickBooks Cron Sync Service
  */
 export class QuickBooksCronSyncService {
+  // Payments seen this run, applied to their invoices once all realms are stored
+  private paymentLinks: PaymentLinks[] = [];
+
+  // Manual contract assignments, keyed realm:document_type:quickbooks_id
+  private memoAssignments = new Map<string, MemoAssignment>();
+
   /**
    * Run the QuickBooks sync process
    */
@@ -91,6 +110,7 @@ export class QuickBooksCronSyncService {
 
     const syncId = uuidv4();
     const startedAt = new Date();
+    this.paymentLinks = [];
 
     const results: SyncResults = {
       syncId,
@@ -132,6 +152,10 @@ export class QuickBooksCronSyncService {
       const contractLookupMap = this.buildContractLookupMap(contracts);
       console.log(`[QuickBooks Cron Sync] Built contract lookup map with ${contractLookupMap.size} entries`);
 
+      // 1c. Manual assignments from the triage queue override the parsed memo
+      this.memoAssignments = await this.getMemoAssignments();
+      console.log(`[QuickBooks Cron Sync] Loaded ${this.memoAssignments.size} manual memo assignments`);
+
       // 2. Group contracts by realm (business unit)
       const contractsByRealm = this.groupContractsByRealm(contracts);
       console.log(`[QuickBooks Cron Sync] Contracts span ${Object.keys(contractsByRealm).length} QuickBooks realms`);
@@ -201,7 +225,7 @@ export class QuickBooksCronSyncService {
 
       // 5. Link payments to invoices
       console.log('[QuickBooks Cron Sync] Linking payments to invoices...');
-      await this.linkPaymentsToInvoices();
+      await this.linkPaymentsToInvoices(results);
 
       results.status = 'completed';
       results.completedAt = new Date();
@@ -296,6 +320,58 @@ export class QuickBooksCronSyncService {
     return map;
   }
 
+  /**
+   * Load manual contract assignments made from the memo triage queue. Throws
+   * rather than syncing without them: the upserts would overwrite assigned
+   * contracts and points with whatever the memo parses to.
+   */
+  private async getMemoAssignments(): Promise<Map<string, MemoAssignment>> {
+    const assignments = await selectAll<MemoAssignment>('quickbooks_memo_assignments', 'assignment_id', {
+      select: 'assignment_id,quickbooks_realm_id,document_type,quickbooks_id,contract_id,contract_external_id,points,ignored',
+    });
+
+    const map = new Map<string, MemoAssignment>();
+    for (const assignment of assignments) {
+      map.set(`${assignment.quickbooks_realm_id}:${assignment.document_type}:${assignment.quickbooks_id}`, assignment);
+    }
+    return map;
+  }
+
+  /**
+   * Contract link for a synced invoice/credit memo. A manual assignment wins;
+   * otherwise only exact/high confidence parses are linked automatically, and
+   * low confidence numbers are kept as a suggestion for triage.
+   */
+  private resolveMemoLink(
+    documentType: MemoDocumentType,
+    quickbooksId: string,
+    realmId: string,
+    parsed: ParsedMemo,
+    contractLookupMap: ContractLookupMap
+  ): MemoLink {
+    const assignment = this.memoAssignments.get(`${realmId}:${documentType}:${quickbooksId}`);
+    if (assignment && !assignment.ignored && assignment.contract_id) {
+      return {
+        contract_id: assignment.contract_id,
+        contract_external_id: assignment.contract_external_id ?? parsed.contractNumber,
+        points: assignment.points ?? parsed.points,
+        memo_confidence: 'manual',
+      };
+    }
+
+    const confidence = parsed.confidence || (parsed.contractNumber ? 'exact' : 'none');
+    const contractId = parsed.contractNumber && isAutoLinkConfidence(confidence)
+      ? contractLookupMap.get(parsed.contractNumber) || null
+      : null;
+
+    return {
+      contract_id: contractId,
+      contract_external_id: parsed.contractNumber,
+      points: parsed.points,
+      memo_confidence: confidence,
+    };
+  }
+
   /**
    * Get OAuth tokens for a realm from pulse_sync_tokens table
    * Tokens are stored with service='quickbooks' and identifier=realmId
@@ -465,31 +541,27 @@ export class QuickBooksCronSyncService {
     contractLookupMap: ContractLookupMap
   ): Promise<void> {
     const batch = invoices.map(invoice => {
-      const parsed = parseInvoiceMemo(invoice);
+      const parsed = parseInvoiceMemo(invoice, { tolerant: syncConfig.quickbooks.memoParsing === 'tolerant' });
 
       // Look up the correct contract_id using the parsed contract number
       // If no match found, contract_id will be null (unlinked invoice)
-      const contractId = parsed.contractNumber
-        ? contractLookupMap.get(parsed.contractNumber) || null
-        : null;
+      const link = this.resolveMemoLink('invoice', invoice.Id, realmId, parsed, contractLookupMap);
 
-      if (parsed.contractNumber && !contractId) {
-        console.warn(`[QuickBooks Cron Sync] Invoice ${invoice.DocNumber}: contract ${parsed.contractNumber} not found in lookup map`);
+      if (link.contract_external_id && !link.contract_id && link.memo_confidence !== 'low') {
+        console.warn(`[QuickBooks Cron Sync] Invoice ${invoice.DocNumber}: contract ${link.contract_external_id} not found in lookup map`);
       }
 
       return {
         quickbooks_id: invoice.Id,
         quickbooks_realm_id: realmId,
         quickbooks_customer_id: invoice.CustomerRef?.value,
-        contract_id: contractId,
+        ...link,
         doc_number: invoice.DocNumber || null,
         customer_name: invoice.CustomerRef?.name || null,
         transaction_date: invoice.TxnDate,
         due_date: invoice.DueDate || null,
         amount: invoice.TotalAmt,
         balance: invoice.Balance,
-        contract_external_id: parsed.contractNumber,
-        points: parsed.points,
         memo_raw: getRawMemoText(invoice),
         status: invoice.Balance === 0 ? 'paid' : 'open',
         raw_data: JSON.stringify(invoice),
@@ -523,29 +595,25 @@ export class QuickBooksCronSyncService {
     contractLookupMap: ContractLookupMap
   ): Promise<void> {
     const batch = creditMemos.map(creditMemo => {
-      const parsed = parseCreditMemoMemo(creditMemo);
+      const parsed = parseCreditMemoMemo(creditMemo, { tolerant: syncConfig.quickbooks.memoParsing === 'tolerant' });
 
       // Look up the correct contract_id using the parsed contract number
-      const contractId = parsed.contractNumber
-        ? contractLookupMap.get(parsed.contractNumber) || null
-        : null;
+      const link = this.resolveMemoLink('credit_memo', creditMemo.Id, realmId, parsed, contractLookupMap);
 
-      if (parsed.contractNumber && !contractId) {
-        console.warn(`[QuickBooks Cron Sync] Credit memo ${creditMemo.DocNumber}: contract ${parsed.contractNumber} not found in lookup map`);
+      if (link.contract_external_id && !link.contract_id && link.memo_confidence !== 'low') {
+        console.warn(`[QuickBooks Cron Sync] Credit memo ${creditMemo.DocNumber}: contract ${link.contract_external_id} not found in lookup map`);
       }
 
       return {
         quickbooks_id: creditMemo.Id,
         quickbooks_realm_id: realmId,
         quickbooks_customer_id: creditMemo.CustomerRef?.value,
-        contract_id: contractId,
+        ...link,
         doc_number: creditMemo.DocNumber || null,
         customer_name: creditMemo.CustomerRef?.name || null,
         transaction_date: creditMemo.TxnDate,
         amount: creditMemo.TotalAmt,
         balance: creditMemo.Balance || 0,
-        contract_external_id: parsed.contractNumber,
-        points: parsed.points,
         memo_raw: getRawMemoText(creditMemo),
         raw_data: JSON.stringify(creditMemo),
         last_synced_at: new Date().toISOString(),
@@ -604,6 +672,13 @@ export class QuickBooksCronSyncService {
         last_synced_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
+
+      this.paymentLinks.push({
+        quickbooks_payment_id: payment.Id,
+        quickbooks_realm_id: realmId,
+        payment_date: payment.TxnDate || null,
+        linked_invoices: linkedInvoices,
+      });
     }
 
     // Batch upsert
@@ -650,69 +725,73 @@ export class QuickBooksCronSyncService {
   }
 
   /**
-   * Extract linked invoice IDs from a payment
+   * Extract linked invoices and the amount applied to each from a payment.
+   * Line-level LinkedTxn is authoritative (line.Amount is the amount applied
+   * to that invoice); top-level LinkedTxn is only used when there are no
+   * lines, and its amount is only trusted for a single-invoice payment.
    */
-  private extractLinkedInvoices(payment: QuickBooksPayment): Array<{ id: string; amount: number }> {
-    const linkedInvoices: Array<{ id: string; amount: number }> = [];
-    const processedIds = new Set<string>();
-
-    // Check top-level LinkedTxn
-    if (payment.LinkedTxn && Array.isArray(payment.LinkedTxn)) {
-      for (const txn of payment.LinkedTxn) {
-        if (txn.TxnType === 'Invoice' && txn.TxnId && !processedIds.has(txn.TxnId)) {
-          linkedInvoices.push({
-            id: txn.TxnId,
-            amount: txn.Amount || payment.TotalAmt,
-          });
-          processedIds.add(txn.TxnId);
-        }
-      }
-    }
+  private extractLinkedInvoices(payment: QuickBooksPayment): LinkedInvoice[] {
+    const applied = new Map<string, number>();
 
-    // Check Line items
     if (payment.Line && Array.isArray(payment.Line)) {
       for (const line of payment.Line) {
-        // Check LinkedTxn in line items
+        const lineInvoiceIds = new Set<string>();
+
         if (line.LinkedTxn && Array.isArray(line.LinkedTxn)) {
           for (const txn of line.LinkedTxn) {
-            if (txn.TxnType === 'Invoice' && txn.TxnId && !processedIds.has(txn.TxnId)) {
-              linkedInvoices.push({
-                id: txn.TxnId,
-                amount: line.Amount || txn.Amount || 0,
-              });
-              processedIds.add(txn.TxnId);
-            }
+            if (txn.TxnType === 'Invoice' && txn.TxnId) lineInvoiceIds.add(txn.TxnId);
           }
         }
 
-        // Check LineEx.any array for txnId
-        if (line.LineEx?.any && Array.isArray(line.LineEx.any)) {
+        // Older payloads only carry the invoice ID in LineEx.any
+        if (lineInvoiceIds.size === 0 && line.LineEx?.any && Array.isArray(line.LineEx.any)) {
           const txnIdObj = line.LineEx.any.find(
             item => item.value?.Name === 'txnId' && item.value?.Value
           );
+          if (txnIdObj) lineInvoiceIds.add(txnIdObj.value!.Value);
+        }
 
-          if (txnIdObj && !processedIds.has(txnIdObj.value!.Value)) {
-            linkedInvoices.push({
-              id: txnIdObj.value!.Value,
-              amount: line.Amount || 0,
-            });
-            processedIds.add(txnIdObj.value!.Value);
-          }
+        // A line applies its Amount to the invoice it links; if a line links
+        // several (rare), split by each LinkedTxn.Amount when present
+        for (const invoiceId of lineInvoiceIds) {
+          const txnAmount = line.LinkedTxn?.find(t => t.TxnId === invoiceId)?.Amount;
+          const amount = lineInvoiceIds.size === 1 ? (line.Amount || 0) : (txnAmount || 0);
+          applied.set(invoiceId, (applied.get(invoiceId) || 0) + amount);
         }
       }
     }
 
-    return linkedInvoices;
+    if (applied.size === 0 && payment.LinkedTxn && Array.isArray(payment.LinkedTxn)) {
+      const invoiceTxns = payment.LinkedTxn.filter(txn => txn.TxnType === 'Invoice' && txn.TxnId);
+      for (const txn of invoiceTxns) {
+        const amount = txn.Amount ?? (invoiceTxns.length === 1 ? payment.TotalAmt : 0);
+        applied.set(txn.TxnId, (applied.get(txn.TxnId) || 0) + amount);
+      }
+    }
+
+    return Array.from(applied, ([id, amount]) => ({ id, amount: round2(amount) }));
   }
 
   /**
-   * Link payments to invoices in the database (update invoice payment status)
-   * This is a simplified version - could be enhanced to track partial payments
+   * Apply this run's payments to their invoices (pulse_payment_applications)
+   * and roll the paid totals onto pulse_invoices. Failures are recorded but
+   * don't fail the sync — the invoice Balance from QuickBooks stays correct.
    */
-  private async linkPaymentsToInvoices(): Promise<void> {
-    // Note: The invoice balance field from QuickBooks already reflects payments
-    // This method could be used for additional payment tracking if needed
-    console.log('[QuickBooks Cron Sync] Payment-invoice linking handled by QB balance field');
+  private async linkPaymentsToInvoices(results: SyncResults): Promise<void> {
+    if (this.paymentLinks.length === 0) return;
+
+    try {
+      const applied = await applyPaymentsToInvoices(this.paymentLinks);
+      console.log(
+        `[QuickBooks Cron Sync] Applied ${applied.payments} payments: ${applied.applications} applications, ` +
+        `${applied.invoices_updated} invoices updated, ${applied.payments_linked} payments linked to contracts` +
+        (applied.unmatched_invoices > 0 ? `, ${applied.unmatched_invoices} linked invoices not synced` : '')
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      results.errors.push({ context: 'payment-linking', error: message });
+      console.error('[QuickBooks Cron Sync] Payment-invoice linking failed:', message);
+    }
   }
 
   /**
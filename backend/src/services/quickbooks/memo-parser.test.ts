@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseCustomerMemo,
+  parseCustomerMemoTolerant,
+  parseInvoiceMemo,
+  parseCreditMemoMemo,
+  isAutoLinkConfidence,
+  type ParsedMemo,
+} from './memo-parser.js';
+
+// Memo variants as typed into QuickBooks
+const FIXTURES: Array<[memo: string, expected: ParsedMemo]> = [
+  // exact
+  ['ContractNumber:MID20250001;Points:600;', { contractNumber: 'MID20250001', points: 600, confidence: 'exact' }],
+  ['contractnumber:MID20250001;points:13.5;', { contractNumber: 'MID20250001', points: 13.5, confidence: 'exact' }],
+  ['ContractNumber:MID20250001;Points:-25;', { contractNumber: 'MID20250001', points: -25, confidence: 'exact' }],
+  ['ContractNumber:MID20250001;Points:1,200;', { contractNumber: 'MID20250001', points: 1200, confidence: 'exact' }],
+  ['ContractNumber:MID20250001;', { contractNumber: 'MID20250001', points: null, confidence: 'exact' }],
+  // high
+  ['ContractNumber:MID20250001 Points:600', { contractNumber: 'MID20250001', points: 600, confidence: 'high' }],
+  ['ContractNumber: MID20250001; Points: 600', { contractNumber: 'MID20250001', points: 600, confidence: 'high' }],
+  ['Contract #MID20250001 - 600 pts', { contractNumber: 'MID20250001', points: 600, confidence: 'high' }],
+  ['Contract No. MID-20250001, Points 13.5', { contractNumber: 'MID20250001', points: 13.5, confidence: 'high' }],
+  ['Contract: MID 20250001 Points -25', { contractNumber: 'MID20250001', points: -25, confidence: 'high' }],
+  ['Contract #MID20250001 Points - 600', { contractNumber: 'MID20250001', points: 600, confidence: 'high' }],
+  ['Contract #MID20250001 Points: 1,200', { contractNumber: 'MID20250001', points: 1200, confidence: 'high' }],
+  ['Contract #MID20250001 Point=-12.5', { contractNumber: 'MID20250001', points: -12.5, confidence: 'high' }],
+  // low
+  ['MID20250001 600 points', { contractNumber: 'MID20250001', points: 600, confidence: 'low' }],
+  ['Retainer - MID 20250001', { contractNumber: 'MID20250001', points: null, confidence: 'low' }],
+  ['MID20250001 / MID20250001 1,200 pts', { contractNumber: 'MID20250001', points: 1200, confidence: 'low' }],
+  // none
+  ['Monthly retainer', { contractNumber: null, points: null, confidence: 'none' }],
+  ['MID20250001 and MID20250002, 300 points', { contractNumber: null, points: 300, confidence: 'none' }],
+  ['', { contractNumber: null, points: null, confidence: 'none' }],
+];
+
+describe('parseCustomerMemoTolerant', () => {
+  for (const [memo, expected] of FIXTURES) {
+    it(`parses ${JSON.stringify(memo)}`, () => {
+      assert.deepEqual(parseCustomerMemoTolerant(memo), expected);
+    });
+  }
+
+  it('links exact and high matches only', () => {
+    assert.equal(isAutoLinkConfidence('exact'), true);
+    assert.equal(isAutoLinkConfidence('high'), true);
+    assert.equal(isAutoLinkConfidence('low'), false);
+    assert.equal(isAutoLinkConfidence('none'), false);
+  });
+});
+
+describe('parseCustomerMemo (strict)', () => {
+  it('ignores loose variants', () => {
+    assert.equal(parseCustomerMemo('Contract #MID20250001 - 600 pts').contractNumber, null);
+  });
+
+  it('reads { value } memo objects', () => {
+    assert.equal(parseCustomerMemo({ value: 'ContractNumber:MID20250001;Points:600;' }).points, 600);
+  });
+});
+
+describe('parseInvoiceMemo / parseCreditMemoMemo', () => {
+  it('prefers the most confident field in tolerant mode', () => {
+    const parsed = parseInvoiceMemo(
+      { PrivateNote: 'MID20250002 100 pts', CustomerMemo: { value: 'Contract #MID20250001 Points 600' } },
+      { tolerant: true }
+    );
+    assert.deepEqual(parsed, { contractNumber: 'MID20250001', points: 600, confidence: 'high' });
+  });
+
+  it('takes the first field with a contract number in strict mode', () => {
+    const parsed = parseCreditMemoMemo({
+      PrivateNote: 'ContractNumber:MID20250001;Points:-50;',
+      CustomerMemo: 'ContractNumber:MID20250002;Points:50;',
+    });
+    assert.equal(parsed.contractNumber, 'MID20250001');
+    assert.equal(parsed.points, -50);
+  });
+});
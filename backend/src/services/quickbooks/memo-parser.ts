@@ -3,11 +3,44 @@
  *
  * Parses contract numbers and points from invoice/credit memo memo fields.
  * Expected format: "ContractNumber:MID20250001;Points:600;"
+ *
+ * Tolerant mode also accepts the hand-typed variants seen in QuickBooks and
+ * says how sure it is:
+ *   exact - "ContractNumber:MID20250001;Points:600;" (any case)
+ *   high  - labelled contract number, loose punctuation/spacing:
+ *           "ContractNumber:MID20250001 Points:600", "ContractNumber: MID20250001; Points: 600",
+ *           "Contract #MID20250001 - 600 pts", "Contract No. MID-20250001, Points 13.5"
+ *   low   - a lone MID number with no label: "MID20250001 600 points", "Retainer - MID 20250001"
+ *   none  - nothing usable, or several different unlabelled MID numbers
+ * Only exact and high are linked automatically; low goes to the triage queue
+ * with the number as a suggestion.
  */
 
+export type MemoConfidence = 'exact' | 'high' | 'low' | 'none';
+
 export interface ParsedMemo {
   contractNumber: string | null;
   points: number | null;
+  confidence?: MemoConfidence;
+}
+
+export interface MemoParseOptions {
+  tolerant?: boolean;
+}
+
+const CONFIDENCE_RANK: Record<MemoConfidence, number> = { none: 0, low: 1, high: 2, exact: 3 };
+
+// A points figure: optional sign, thousands commas ("1,200"), decimals ("13.5")
+const POINTS_NUMBER = String.raw`-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?`;
+
+function parsePoints(raw: string): number | null {
+  const points = parseFloat(raw.replace(/,/g, ''));
+  return isNaN(points) ? null : points;
+}
+
+// Confidence levels the sync links to a contract without review
+export function isAutoLinkConfidence(confidence: MemoConfidence | undefined): boolean {
+  return confidence === 'exact' || confidence === 'high';
 }
 
 /**
@@ -27,17 +60,16 @@ export function parseCustomerMemo(
   }
 
   if (!memoText) {
-    return { contractNumber: null, points: null };
+    return { contractNumber: null, points: null, confidence: 'none' };
   }
 
   // STRICT FORMAT: "ContractNumber:MID20250001;Points:600;" or "Points:13.5;" or "Points:-25;"
   // Contract number must start with MID
   // Points can be decimal (e.g., 13.5, 24.5) or negative (e.g., -25)
-  const exactPattern = memoText.match(/ContractNumber:(MID[^;]+);Points:(-?[\d.]+);?/i);
+  const exactPattern = memoText.match(new RegExp(`ContractNumber:(MID[^;]+);Points:(${POINTS_NUMBER});?`, 'i'));
   if (exactPattern) {
     const contractNumber = exactPattern[1].trim();
-    const points = parseFloat(exactPattern[2]);
-    return { contractNumber, points: isNaN(points) ? null : points };
+    return { contractNumber, points: parsePoints(exactPattern[2]), confidence: 'exact' };
   }
 
   // Also try contract only (in case points is missing): "ContractNumber:MID20250001;"
@@ -45,68 +77,126 @@ export function parseCustomerMemo(
   if (contractOnlyPattern) {
     const contractNumber = contractOnlyPattern[1].trim();
     // Look for points separately (supports decimals and negatives)
-    const pointsMatch = memoText.match(/Points:(-?[\d.]+);?/i);
-    const points = pointsMatch ? parseFloat(pointsMatch[1]) : null;
-    return { contractNumber, points: (points !== null && !isNaN(points)) ? points : null };
+    const pointsMatch = memoText.match(new RegExp(`Points:(${POINTS_NUMBER});?`, 'i'));
+    return { contractNumber, points: pointsMatch ? parsePoints(pointsMatch[1]) : null, confidence: 'exact' };
   }
 
   // No match - return nulls
-  return { contractNumber: null, points: null };
+  return { contractNumber: null, points: null, confidence: 'none' };
 }
 
 /**
- * Parse memo from an invoice (checks PrivateNote first, then CustomerMemo)
+ * Tolerant parse of one memo text: the strict format first, then labelled and
+ * unlabelled contract numbers with loose separators. Contract numbers are
+ * normalised to "MID" + digits.
  */
-export function parseInvoiceMemo(invoice: {
-  PrivateNote?: string;
-  CustomerMemo?: { value: string } | string;
-  Memo?: string;
-}): ParsedMemo {
-  // Check PrivateNote first (internal notes)
-  if (invoice.PrivateNote) {
-    const parsed = parseCustomerMemo(invoice.PrivateNote);
-    if (parsed.contractNumber) {
-      return parsed;
-    }
+export function parseCustomerMemoTolerant(
+  customerMemo: { value: string } | string | null | undefined
+): ParsedMemo {
+  const memoText = typeof customerMemo === 'string'
+    ? customerMemo
+    : customerMemo && typeof customerMemo === 'object' ? customerMemo.value || '' : '';
+
+  if (!memoText) {
+    return { contractNumber: null, points: null, confidence: 'none' };
   }
 
-  // Fall back to CustomerMemo
-  if (invoice.CustomerMemo) {
-    const parsed = parseCustomerMemo(invoice.CustomerMemo);
-    if (parsed.contractNumber) {
-      return parsed;
-    }
+  // Strict format, as long as it captured a clean number
+  // (a missing semicolon makes the strict pattern swallow the rest of the memo)
+  const strict = parseCustomerMemo(memoText);
+  if (strict.contractNumber && /^MID\d+$/i.test(strict.contractNumber)) {
+    return { ...strict, contractNumber: strict.contractNumber.toUpperCase() };
   }
 
-  // Fall back to Memo field
-  if (invoice.Memo) {
-    return parseCustomerMemo(invoice.Memo);
+  const points = findPoints(memoText);
+
+  // "ContractNumber MID...", "Contract #MID...", "Contract No. MID-...", "Contract: MID ..."
+  const labelled = memoText.match(/contract\s*(?:number|num|no\.?|#)?\s*[:#=\-]*\s*(MID[\s-]*\d{4,})/i);
+  if (labelled) {
+    return { contractNumber: normalizeContractNumber(labelled[1]), points, confidence: 'high' };
   }
 
-  return { contractNumber: null, points: null };
+  // A single distinct bare MID number
+  const bare = Array.from(memoText.matchAll(/\bMID[\s-]*(\d{4,})\b/gi)).map((m) => `MID${m[1]}`);
+  const distinct = Array.from(new Set(bare));
+  if (distinct.length === 1) {
+    return { contractNumber: distinct[0], points, confidence: 'low' };
+  }
+
+  return { contractNumber: null, points, confidence: 'none' };
+}
+
+function findPoints(memoText: string): number | null {
+  // "Points:600", "Points 600", "Points=13.5", "Point: -25", "Points -25", "Points - 600", "Points: 1,200"
+  // A dash is only a separator when a space follows it; "Points -25" is negative
+  const labelled = memoText.match(new RegExp(`points?\\s*(?:[:=]|-(?=\\s))?\\s*(${POINTS_NUMBER})`, 'i'));
+  // "600 pts", "13.5 points", "1,200 points"
+  const suffixed = labelled ? null : memoText.match(new RegExp(`(${POINTS_NUMBER})\\s*(?:pts?|points?)\\b`, 'i'));
+  const match = labelled || suffixed;
+  return match ? parsePoints(match[1]) : null;
+}
+
+function normalizeContractNumber(raw: string): string {
+  return raw.replace(/[\s-]/g, '').toUpperCase();
 }
 
 /**
- * Parse memo from a credit memo (checks PrivateNote first, then CustomerMemo)
+ * Parse memo fields in priority order. Strict: the first field with a
+ * contract number wins, else the last field's result. Tolerant: the most
+ * confident match wins, earlier fields breaking ties.
  */
-export function parseCreditMemoMemo(creditMemo: {
-  CustomerMemo?: { value: string } | string;
-  PrivateNote?: string;
-}): ParsedMemo {
-  // Check PrivateNote first (this is where the correct data is)
-  if (creditMemo.PrivateNote) {
-    const parsed = parseCustomerMemo(creditMemo.PrivateNote);
-    if (parsed.contractNumber) {
-      return parsed;
+function parseMemoFields(
+  fields: Array<{ value: string } | string | undefined>,
+  options: MemoParseOptions
+): ParsedMemo {
+  let result: ParsedMemo = { contractNumber: null, points: null, confidence: 'none' };
+
+  for (const field of fields) {
+    if (!field) continue;
+
+    if (!options.tolerant) {
+      result = parseCustomerMemo(field);
+      if (result.contractNumber) return result;
+      continue;
     }
-  }
 
-  // Fall back to CustomerMemo
-  if (creditMemo.CustomerMemo) {
-    return parseCustomerMemo(creditMemo.CustomerMemo);
+    const parsed = parseCustomerMemoTolerant(field);
+    if (CONFIDENCE_RANK[parsed.confidence || 'none'] > CONFIDENCE_RANK[result.confidence || 'none']) {
+      result = parsed;
+    } else if (!result.contractNumber && result.points === null && parsed.points !== null) {
+      result = parsed;
+    }
   }
 
-  return { contractNumber: null, points: null };
+  return result;
+}
+
+/**
+ * Parse memo from an invoice (checks PrivateNote first, then CustomerMemo, then Memo)
+ */
+export function parseInvoiceMemo(
+  invoice: {
+    PrivateNote?: string;
+    CustomerMemo?: { value: string } | string;
+    Memo?: string;
+  },
+  options: MemoParseOptions = {}
+): ParsedMemo {
+  return parseMemoFields([invoice.PrivateNote, invoice.CustomerMemo, invoice.Memo], options);
+}
+
+/**
+ * Parse memo from a credit memo (checks PrivateNote first, then CustomerMemo)
+ */
+export function parseCreditMemoMemo(
+  creditMemo: {
+    CustomerMemo?: { value: string } | string;
+    PrivateNote?: string;
+  },
+  options: MemoParseOptions = {}
+): ParsedMemo {
+  // PrivateNote is where the correct data is
+  return parseMemoFields([creditMemo.PrivateNote, creditMemo.CustomerMemo], options);
 }
 
 /**
@@ -141,6 +231,7 @@ export function getRawMemoText(item: {
 
 export default {
   parseCustomerMemo,
+  parseCustomerMemoTolerant,
   parseInvoiceMemo,
   parseCreditMemoMemo,
   getRawMemoText,
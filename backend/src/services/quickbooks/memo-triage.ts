@@ -0,0 +1,253 @@
+/**
+ * QuickBooks Memo Triage
+ *
+ * Invoices and credit memos the sync couldn't link to a contract (memo didn't
+ * parse, parsed with low confidence, or named an unknown contract number).
+ * Each item carries the tolerant parser's best guess and the contract it
+ * points at, if any.
+ *
+ * Assigning a contract (or marking a document as intentionally unlinked)
+ * writes quickbooks_memo_assignments, which the sync re-applies on every run,
+ * and updates the synced row straight away.
+ */
+
+import { select, selectAll, update, upsert, del } from '../../utils/edge-functions.js';
+import { parseCustomerMemoTolerant } from './memo-parser.js';
+import type {
+  MemoAssignment,
+  MemoDocumentType,
+  MemoTriageItem,
+  StoredMemoConfidence,
+} from '../../types/finance.js';
+
+const DOCUMENT_TABLES: Record<MemoDocumentType, { table: string; idColumn: string }> = {
+  invoice: { table: 'pulse_invoices', idColumn: 'invoice_id' },
+  credit_memo: { table: 'pulse_credit_memos', idColumn: 'credit_memo_id' },
+};
+
+export interface MemoTriageOptions {
+  documentType?: MemoDocumentType;
+  realmId?: string;
+  includeIgnored?: boolean;
+}
+
+interface UnlinkedDocRow {
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  doc_number: string | null;
+  customer_name: string | null;
+  transaction_date: string | null;
+  amount: number | null;
+  points: number | null;
+  memo_raw: string | null;
+  memo_confidence: StoredMemoConfidence | null;
+  contract_external_id: string | null;
+  status?: string | null;
+  [idColumn: string]: unknown;
+}
+
+interface ContractRow {
+  contract_id: string;
+  contract_name: string;
+  external_id: string;
+  contract_status: string;
+}
+
+export async function listMemoTriage(options: MemoTriageOptions = {}): Promise<MemoTriageItem[]> {
+  const types: MemoDocumentType[] = options.documentType ? [options.documentType] : ['invoice', 'credit_memo'];
+
+  const [assignments, ...docsByType] = await Promise.all([
+    selectAll<MemoAssignment>('quickbooks_memo_assignments', 'assignment_id', {
+      select: 'assignment_id,quickbooks_realm_id,document_type,quickbooks_id,contract_id,ignored,note',
+      filters: { ignored: true },
+    }),
+    ...types.map((type) => fetchUnlinked(type, options.realmId)),
+  ]);
+  const ignored = new Map(
+    assignments.map((a) => [`${a.quickbooks_realm_id}:${a.document_type}:${a.quickbooks_id}`, a])
+  );
+
+  const items: MemoTriageItem[] = [];
+  types.forEach((type, i) => {
+    const { idColumn } = DOCUMENT_TABLES[type];
+    for (const row of docsByType[i]) {
+      if (type === 'invoice' && row.status === 'void') continue;
+
+      const assignment = ignored.get(`${row.quickbooks_realm_id}:${type}:${row.quickbooks_id}`);
+      if (assignment && !options.includeIgnored) continue;
+
+      // Stored number first; re-parse memos synced before tolerant parsing
+      const parsedNumber = row.contract_external_id || parseCustomerMemoTolerant(row.memo_raw).contractNumber;
+
+      items.push({
+        document_type: type,
+        id: row[idColumn] as string,
+        quickbooks_id: row.quickbooks_id,
+        quickbooks_realm_id: row.quickbooks_realm_id,
+        doc_number: row.doc_number,
+        customer_name: row.customer_name,
+        transaction_date: row.transaction_date,
+        amount: row.amount !== null ? Number(row.amount) : null,
+        points: row.points !== null ? Number(row.points) : null,
+        memo_raw: row.memo_raw,
+        memo_confidence: row.memo_confidence,
+        parsed_contract_external_id: parsedNumber,
+        suggested_contract: null,
+        ignored: !!assignment,
+        note: assignment?.note ?? null,
+      });
+    }
+  });
+
+  // Contracts the parsed numbers point at (any status: the sync only links active ones)
+  const numbers = Array.from(
+    new Set(items.map((i) => i.parsed_contract_external_id).filter((n): n is string => !!n))
+  );
+  if (numbers.length > 0) {
+    const contracts = await selectAll<ContractRow>('contracts', 'contract_id', {
+      select: 'contract_id,contract_name,external_id,contract_status',
+      filters: { external_id: { in: numbers } },
+    });
+    const byNumber = new Map(contracts.map((c) => [c.external_id.toUpperCase(), c]));
+    for (const item of items) {
+      const contract = item.parsed_contract_external_id
+        ? byNumber.get(item.parsed_contract_external_id.toUpperCase())
+        : undefined;
+      if (contract) item.suggested_contract = contract;
+    }
+  }
+
+  return items.sort((a, b) => (b.transaction_date || '').localeCompare(a.transaction_date || ''));
+}
+
+/**
+ * Link a document to a contract by hand. Returns null when the document or
+ * contract doesn't exist.
+ */
+export async function assignMemoContract(params: {
+  documentType: MemoDocumentType;
+  id: string;
+  contractId: string;
+  points?: number | null;
+  note?: string | null;
+  userId?: string | null;
+}): Promise<MemoAssignment | null> {
+  const { table, idColumn } = DOCUMENT_TABLES[params.documentType];
+
+  const [docs, contracts] = await Promise.all([
+    select<Array<{ quickbooks_id: string; quickbooks_realm_id: string }>>(table, {
+      select: 'quickbooks_id,quickbooks_realm_id',
+      filters: { [idColumn]: params.id },
+      limit: 1,
+    }),
+    select<Array<{ contract_id: string; external_id: string | null }>>('contracts', {
+      select: 'contract_id,external_id',
+      filters: { contract_id: params.contractId },
+      limit: 1,
+    }),
+  ]);
+  const doc = docs?.[0];
+  const contract = contracts?.[0];
+  if (!doc || !contract) return null;
+
+  const rows = await upsert<MemoAssignment[]>('quickbooks_memo_assignments', {
+    quickbooks_realm_id: doc.quickbooks_realm_id,
+    document_type: params.documentType,
+    quickbooks_id: doc.quickbooks_id,
+    contract_id: contract.contract_id,
+    contract_external_id: contract.external_id,
+    points: params.points ?? null,
+    ignored: false,
+    note: params.note ?? null,
+    created_by: params.userId ?? null,
+  }, { onConflict: 'quickbooks_realm_id,document_type,quickbooks_id', select: '*' });
+
+  // Link now rather than waiting for the next sync
+  await update(table, {
+    contract_id: contract.contract_id,
+    contract_external_id: contract.external_id,
+    ...(params.points !== undefined && params.points !== null ? { points: params.points } : {}),
+    memo_confidence: 'manual',
+  }, { [idColumn]: params.id });
+
+  if (params.documentType === 'invoice') {
+    await update('pulse_payment_applications', { contract_id: contract.contract_id }, { invoice_id: params.id });
+  }
+
+  return rows[0];
+}
+
+/**
+ * Mark a document as intentionally not linked to a contract, taking it out
+ * of the queue. Returns null when the document doesn't exist.
+ */
+export async function ignoreMemoDocument(params: {
+  documentType: MemoDocumentType;
+  id: string;
+  note?: string | null;
+  userId?: string | null;
+}): Promise<MemoAssignment | null> {
+  const { table, idColumn } = DOCUMENT_TABLES[params.documentType];
+
+  const docs = await select<Array<{ quickbooks_id: string; quickbooks_realm_id: string; contract_id: string | null }>>(table, {
+    select: 'quickbooks_id,quickbooks_realm_id,contract_id',
+    filters: { [idColumn]: params.id },
+    limit: 1,
+  });
+  const doc = docs?.[0];
+  if (!doc) return null;
+
+  const rows = await upsert<MemoAssignment[]>('quickbooks_memo_assignments', {
+    quickbooks_realm_id: doc.quickbooks_realm_id,
+    document_type: params.documentType,
+    quickbooks_id: doc.quickbooks_id,
+    contract_id: null,
+    contract_external_id: null,
+    points: null,
+    ignored: true,
+    note: params.note ?? null,
+    created_by: params.userId ?? null,
+  }, { onConflict: 'quickbooks_realm_id,document_type,quickbooks_id', select: '*' });
+
+  return rows[0];
+}
+
+/**
+ * Drop a manual assignment. The document goes back to whatever its memo
+ * parses to on the next sync. Returns false when there was none.
+ */
+export async function removeMemoAssignment(params: {
+  documentType: MemoDocumentType;
+  id: string;
+}): Promise<boolean> {
+  const { table, idColumn } = DOCUMENT_TABLES[params.documentType];
+
+  const docs = await select<Array<{ quickbooks_id: string; quickbooks_realm_id: string }>>(table, {
+    select: 'quickbooks_id,quickbooks_realm_id',
+    filters: { [idColumn]: params.id },
+    limit: 1,
+  });
+  const doc = docs?.[0];
+  if (!doc) return false;
+
+  const deleted = await del<MemoAssignment[]>('quickbooks_memo_assignments', {
+    quickbooks_realm_id: doc.quickbooks_realm_id,
+    document_type: params.documentType,
+    quickbooks_id: doc.quickbooks_id,
+  }, { select: 'assignment_id' });
+
+  return (deleted || []).length > 0;
+}
+
+async function fetchUnlinked(type: MemoDocumentType, realmId?: string): Promise<UnlinkedDocRow[]> {
+  const { table, idColumn } = DOCUMENT_TABLES[type];
+  const filters: Record<string, unknown> = { contract_id: { is: null }, is_deleted: false };
+  if (realmId) filters.quickbooks_realm_id = realmId;
+
+  return selectAll<UnlinkedDocRow>(table, idColumn, {
+    select:
+      `${idColumn},quickbooks_id,quickbooks_realm_id,doc_number,customer_name,transaction_date,` +
+      `amount,points,memo_raw,memo_confidence,contract_external_id${type === 'invoice' ? ',status' : ''}`,
+    filters,
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * QuickBooks Payment Applications
+ *
+ * A QuickBooks payment can pay several invoices, and an invoice can be paid by
+ * several payments. The payment's LinkedTxn lines say which invoices it was
+ * applied to and for how much; this module stores those as
+ * pulse_payment_applications rows and rolls them up onto each invoice
+ * (amount_paid, last_payment_date). It also links payments that arrived
+ * before their invoices to the invoice's contract.
+ *
+ * Applications for a payment are replaced on every sync, so a payment
+ * re-applied or unapplied in QuickBooks is reflected here.
+ */
+
+import { selectAll, upsert, update, del } from '../../utils/edge-functions.js';
+import { round2 } from '../../utils/numbers.js';
+import type { PaymentApplication } from '../../types/finance.js';
+
+// Filter lists are sent in the proxy request; keep them a manageable size
+const CHUNK_SIZE = 200;
+
+export interface LinkedInvoice {
+  id: string;       // QuickBooks invoice ID
+  amount: number;   // amount of the payment applied to it
+}
+
+export interface PaymentLinks {
+  quickbooks_payment_id: string;
+  quickbooks_realm_id: string;
+  payment_date: string | null;
+  linked_invoices: LinkedInvoice[];
+}
+
+export interface PaymentApplicationResult {
+  payments: number;
+  applications: number;
+  invoices_updated: number;
+  payments_linked: number;       // payments given a contract_id from their invoices
+  unmatched_invoices: number;    // linked invoice IDs not (yet) in pulse_invoices
+}
+
+interface PaymentRow {
+  payment_id: string;
+  quickbooks_id: string;
+  contract_id: string | null;
+}
+
+interface InvoiceRow {
+  invoice_id: string;
+  quickbooks_id: string;
+  contract_id: string | null;
+  amount_paid: number | null;
+  last_payment_date: string | null;
+}
+
+/**
+ * Replace the applications for these payments and refresh the paid totals of
+ * every invoice they touch (now or before)
+ */
+export async function applyPaymentsToInvoices(payments: PaymentLinks[]): Promise<PaymentApplicationResult> {
+  const result: PaymentApplicationResult = {
+    payments: payments.length,
+    applications: 0,
+    invoices_updated: 0,
+    payments_linked: 0,
+    unmatched_invoices: 0,
+  };
+
+  const byRealm = new Map<string, PaymentLinks[]>();
+  for (const payment of payments) {
+    const list = byRealm.get(payment.quickbooks_realm_id);
+    if (list) list.push(payment);
+    else byRealm.set(payment.quickbooks_realm_id, [payment]);
+  }
+
+  for (const [realmId, realmPayments] of byRealm) {
+    const paymentIds = realmPayments.map((p) => p.quickbooks_payment_id);
+
+    // Invoices touched: linked now, or linked before this sync
+    const touchedInvoiceIds = new Set<string>();
+    for (const p of realmPayments) {
+      for (const link of p.linked_invoices) touchedInvoiceIds.add(link.id);
+    }
+    const previous = await selectInChunks<Pick<PaymentApplication, 'application_id' | 'quickbooks_invoice_id'>>(
+      'pulse_payment_applications', 'application_id', 'quickbooks_payment_id', paymentIds,
+      { quickbooks_realm_id: realmId }, 'application_id,quickbooks_invoice_id'
+    );
+    for (const app of previous) touchedInvoiceIds.add(app.quickbooks_invoice_id);
+
+    const [paymentRows, invoiceRows] = await Promise.all([
+      selectInChunks<PaymentRow>(
+        'pulse_payments', 'payment_id', 'quickbooks_id', paymentIds,
+        { quickbooks_realm_id: realmId }, 'payment_id,quickbooks_id,contract_id'
+      ),
+      selectInChunks<InvoiceRow>(
+        'pulse_invoices', 'invoice_id', 'quickbooks_id', Array.from(touchedInvoiceIds),
+        { quickbooks_realm_id: realmId }, 'invoice_id,quickbooks_id,contract_id,amount_paid,last_payment_date'
+      ),
+    ]);
+    const paymentsByQbId = new Map(paymentRows.map((p) => [p.quickbooks_id, p]));
+    const invoicesByQbId = new Map(invoiceRows.map((i) => [i.quickbooks_id, i]));
+
+    // 1. Replace applications
+    const applications: Array<Record<string, unknown>> = [];
+    for (const p of realmPayments) {
+      const paymentRow = paymentsByQbId.get(p.quickbooks_payment_id);
+      for (const link of p.linked_invoices) {
+        const invoice = invoicesByQbId.get(link.id);
+        if (!invoice) result.unmatched_invoices++;
+        applications.push({
+          quickbooks_realm_id: realmId,
+          quickbooks_payment_id: p.quickbooks_payment_id,
+          quickbooks_invoice_id: link.id,
+          payment_id: paymentRow?.payment_id ?? null,
+          invoice_id: invoice?.invoice_id ?? null,
+          contract_id: invoice?.contract_id ?? paymentRow?.contract_id ?? null,
+          amount: link.amount,
+          payment_date: p.payment_date,
+        });
+      }
+    }
+
+    for (const ids of chunk(paymentIds, CHUNK_SIZE)) {
+      await del('pulse_payment_applications', {
+        quickbooks_realm_id: realmId,
+        quickbooks_payment_id: { in: ids },
+      });
+    }
+    for (const batch of chunk(applications, 100)) {
+      await upsert('pulse_payment_applications', batch, {
+        onConflict: 'quickbooks_realm_id,quickbooks_payment_id,quickbooks_invoice_id',
+      });
+      result.applications += batch.length;
+    }
+
+    // 2. Payments synced before their invoice had a contract
+    for (const p of realmPayments) {
+      const paymentRow = paymentsByQbId.get(p.quickbooks_payment_id);
+      if (!paymentRow || paymentRow.contract_id) continue;
+      const contractId = p.linked_invoices
+        .map((link) => invoicesByQbId.get(link.id)?.contract_id)
+        .find((id): id is string => !!id);
+      if (!contractId) continue;
+
+      await update('pulse_payments', { contract_id: contractId }, { payment_id: paymentRow.payment_id });
+      result.payments_linked++;
+    }
+
+    // 3. Roll applications up onto the touched invoices
+    const allApplications = await selectInChunks<Pick<PaymentApplication, 'application_id' | 'quickbooks_invoice_id' | 'amount' | 'payment_date'>>(
+      'pulse_payment_applications', 'application_id', 'quickbooks_invoice_id', Array.from(touchedInvoiceIds),
+      { quickbooks_realm_id: realmId }, 'application_id,quickbooks_invoice_id,amount,payment_date'
+    );
+
+    const rollup = new Map<string, { paid: number; lastDate: string | null }>();
+    for (const app of allApplications) {
+      const entry = rollup.get(app.quickbooks_invoice_id) || { paid: 0, lastDate: null };
+      entry.paid += Number(app.amount) || 0;
+      if (app.payment_date && (!entry.lastDate || app.payment_date > entry.lastDate)) {
+        entry.lastDate = app.payment_date;
+      }
+      rollup.set(app.quickbooks_invoice_id, entry);
+    }
+
+    for (const invoice of invoiceRows) {
+      const entry = rollup.get(invoice.quickbooks_id) || { paid: 0, lastDate: null };
+      const paid = round2(entry.paid);
+      if (Number(invoice.amount_paid || 0) === paid && (invoice.last_payment_date || null) === entry.lastDate) continue;
+
+      await update('pulse_invoices', {
+        amount_paid: paid,
+        last_payment_date: entry.lastDate,
+      }, { invoice_id: invoice.invoice_id });
+      result.invoices_updated++;
+    }
+  }
+
+  return result;
+}
+
+async function selectInChunks<T extends object>(
+  table: string,
+  keyColumn: string,
+  inColumn: string,
+  values: string[],
+  filters: Record<string, unknown>,
+  selectCols: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const part of chunk(values, CHUNK_SIZE)) {
+    rows.push(...await selectAll<T>(table, keyColumn, {
+      select: selectCols,
+      filters: { ...filters, [inColumn]: { in: part } },
+    }));
+  }
+  return rows;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
@@ -1,4 +1,6 @@
 import { select, insert, update } from '../../utils/edge-functions.js';
+import { getEmailTransport } from '../email/transport.js';
+import { nextRunAt } from '../../utils/scheduling.js';
 import type {
   ClientReportConfig,
   StatusReportPayload,
@@ -76,6 +78,18 @@ export class ClientStatusReportService {
     const config = configs[0];
     console.log(`[StatusReport] Generating for config ${configId}, contract ${config.contract_id}`);
 
+    // Next slot before sending: if the schedule can't be computed the config
+    // is disabled below, rather than left due and resent on every cron tick
+    let nextRunAt: string | null = null;
+    try {
+      nextRunAt = computeNextRunAt(config);
+    } catch (err) {
+      console.error(
+        `[StatusReport] Invalid schedule for config ${configId}, disabling after this send:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+
     // 2. Fetch contract details
     const contracts = await select<ContractRow[]>(
       'contracts',
@@ -230,56 +244,38 @@ export class ClientStatusReportService {
     const reportId = reportRows[0].report_id;
     console.log(`[StatusReport] Created report ${reportId}, sending to ${config.recipients.length} recipients`);
 
-    // 9. Send via n8n webhook
-    const webhookUrl = process.env.N8N_WEBHOOK_URL;
-    if (!webhookUrl) {
-      await update(
-        'compass_reports',
-        { send_status: 'failed' },
-        { report_id: reportId }
-      );
-      throw new Error('N8N_WEBHOOK_URL is not configured');
-    }
+    // 9. Send via the configured email transport
+    const transport = getEmailTransport();
 
     try {
-      const webhookPayload = {
+      const sent = await transport.send({
         email_type: 'status_report',
         to: config.recipients,
-        data: {
-          subject,
-          html,
-        },
-      };
-
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(webhookPayload),
+        subject,
+        html,
+        report_id: reportId,
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Webhook returned ${response.status}: ${errorText.substring(0, 200)}`);
-      }
-
-      // 10. Mark as sent
+      // 10. Mark as sent, keeping the message id to match delivery events
       await update(
         'compass_reports',
         {
           send_status: 'sent',
           sent_at: new Date().toISOString(),
+          transport: sent.transport,
+          provider_message_id: sent.message_id,
         },
         { report_id: reportId }
       );
 
-      console.log(`[StatusReport] Report ${reportId} sent successfully`);
+      console.log(`[StatusReport] Report ${reportId} sent via ${sent.transport}`);
     } catch (sendError) {
       const message = sendError instanceof Error ? sendError.message : 'Unknown send error';
-      console.error(`[StatusReport] Failed to send report ${reportId}:`, message);
+      console.error(`[StatusReport] Failed to send report ${reportId} via ${transport.name}:`, message);
 
       await update(
         'compass_reports',
-        { send_status: 'failed' },
+        { send_status: 'failed', transport: transport.name, send_error: message },
         { report_id: reportId }
       );
 
@@ -287,12 +283,11 @@ export class ClientStatusReportService {
     }
 
     // 11. Update config's last_run_at and next_run_at
-    const nextRunAt = computeNextRunAt(config);
     await update(
       'compass_report_configs',
       {
         last_run_at: new Date().toISOString(),
-        next_run_at: nextRunAt,
+        ...(nextRunAt ? { next_run_at: nextRunAt } : { enabled: false }),
       },
       { config_id: configId }
     );
@@ -353,72 +348,17 @@ export class ClientStatusReportService {
  * Compute the next run time based on cadence, day, send_time, and timezone.
  * Returns an ISO string in UTC.
  */
-export function computeNextRunAt(config: ClientReportConfig): string {
-  const now = new Date();
-
-  // Parse send_time (HH:MM:SS)
-  const [hours, minutes] = config.send_time.split(':').map(Number);
-
-  // We compute in UTC and offset by the timezone.
-  // For simplicity, handle common US timezone offsets.
-  const tzOffsetHours = getTimezoneOffsetHours(config.timezone);
-
-  // Convert send_time from local to UTC
-  const utcHours = hours + tzOffsetHours;
-
-  if (config.cadence === 'weekly' && config.day_of_week !== null) {
-    // Find the next occurrence of the target day of week
-    const targetDay = config.day_of_week; // 0=Sunday
-    let next = new Date(now);
-    next.setUTCHours(utcHours, minutes, 0, 0);
-
-    // Calculate days until next target day
-    const currentDay = next.getUTCDay();
-    let daysUntil = targetDay - currentDay;
-    if (daysUntil < 0) daysUntil += 7;
-    if (daysUntil === 0 && next <= now) daysUntil = 7;
-
-    next.setUTCDate(next.getUTCDate() + daysUntil);
-    return next.toISOString();
-  }
-
-  if (config.cadence === 'monthly' && config.day_of_month !== null) {
-    const targetDay = config.day_of_month;
-    let next = new Date(now);
-    next.setUTCHours(utcHours, minutes, 0, 0);
-    next.setUTCDate(targetDay);
-
-    // If we're past the target day this month, move to next month
-    if (next <= now) {
-      next.setUTCMonth(next.getUTCMonth() + 1);
-      next.setUTCDate(targetDay);
-    }
-
-    return next.toISOString();
-  }
-
-  // Fallback: 1 hour from now
-  const fallback = new Date(now.getTime() + 60 * 60 * 1000);
-  return fallback.toISOString();
-}
-
-/**
- * Get approximate UTC offset for common IANA timezones.
- * Returns positive number = hours to ADD to local to get UTC.
- * (e.g. America/New_York = +5 in EST, +4 in EDT)
- */
-function getTimezoneOffsetHours(timezone: string): number {
-  // Use a reference date to compute the actual offset
-  try {
-    const now = new Date();
-    const localStr = now.toLocaleString('en-US', { timeZone: timezone });
-    const localDate = new Date(localStr);
-    const diffMs = now.getTime() - localDate.getTime();
-    return Math.round(diffMs / (1000 * 60 * 60));
-  } catch {
-    // Fallback to EST offset
-    return 5;
-  }
+export function computeNextRunAt(config: ClientReportConfig, after: Date = new Date()): string {
+  return nextRunAt(
+    {
+      cadence: config.cadence,
+      dayOfWeek: config.day_of_week,
+      dayOfMonth: config.day_of_month,
+      time: config.send_time,
+      timezone: config.timezone,
+    },
+    after
+  ).toISOString();
 }
 
 // ============================================================================
@@ -1,7 +1,13 @@
-import { insert, update, select } from '../../utils/edge-functions.js';
+import { insert, update, select, selectAll, rpc } from '../../utils/edge-functions.js';
+import { getContractTermsAsOf } from '../contracts/amendments.js';
+import { computeContractHealth, getLatestHealthScores, toHealthSummary } from '../contracts/health.js';
+import { resolveReportPeriod, type ReportBucket } from './periods.js';
 import type {
+  ReportType,
   ReportTrigger,
   ReportSummary,
+  ReportComparison,
+  ReportSentimentMix,
   ContractFinancials,
   ReportMeetingEntry,
   PointProductionWeek,
@@ -33,6 +39,12 @@ interface PointsSummaryRow {
   points_burden: number | null;
 }
 
+// Row from contract_points_summary_as_of()
+interface BurdenRow {
+  contract_id: string;
+  points_burden: number | null;
+}
+
 // Raw row from pulse_clickup_users
 interface ClickUpUserRow {
   id: string;
@@ -42,6 +54,7 @@ interface ClickUpUserRow {
 // Raw meeting row
 interface MeetingRow {
   meeting_id: string;
+  contract_id: string;
   meeting_date: string;
   title: string | null;
   sentiment: {
@@ -51,8 +64,18 @@ interface MeetingRow {
   } | null;
 }
 
+// Raw plan deliverable row
+interface PlanRow {
+  deliverable_id: string;
+  contract_id: string;
+  deliverable_type: 'roadmap' | 'points_plan';
+  created_at: string;
+}
+
 // Raw task row
 interface TaskRow {
+  task_id: string;
+  contract_id: string;
   points: number | null;
   date_done: string | null;
   updated_at: string;
@@ -61,12 +84,13 @@ interface TaskRow {
 interface GenerateOptions {
   triggeredBy: ReportTrigger;
   userId?: string;
-  reportType?: 'weekly' | 'monthly' | 'quarterly';
+  reportType?: ReportType;
 }
 
 interface GenerateResult {
   reportId: string;
   summary: ReportSummary;
+  timings: Record<string, number>; // ms per data-gathering phase
 }
 
 export class ManagementReportService {
@@ -74,15 +98,16 @@ export class ManagementReportService {
   async generateReport(options: GenerateOptions): Promise<GenerateResult> {
     const { triggeredBy, userId, reportType = 'weekly' } = options;
 
-    // 1. Calculate period: 90 days back from today
-    const periodEnd = new Date();
-    const periodStart = new Date();
-    periodStart.setDate(periodStart.getDate() - 90);
-
-    const periodEndStr = periodEnd.toISOString().split('T')[0];
-    const periodStartStr = periodStart.toISOString().split('T')[0];
+    // 1. Resolve the period, comparison period and trend buckets for the type
+    const period = resolveReportPeriod(reportType);
+    const periodStartStr = period.start;
+    const periodEndStr = period.end;
+    const trendStartStr = period.buckets[0].start;
 
-    console.log(`[Management Report] Starting generation (${triggeredBy}), period ${periodStartStr} to ${periodEndStr}`);
+    console.log(
+      `[Management Report] Starting ${reportType} generation (${triggeredBy}), ` +
+      `period ${periodStartStr} to ${periodEndStr}`
+    );
 
     // 2. Insert placeholder row
     const placeholderData: Record<string, unknown> = {
@@ -106,11 +131,22 @@ export class ManagementReportService {
     const reportId = inserted[0].report_id;
     console.log(`[Management Report] Created placeholder row: ${reportId}`);
 
+    const timings: Record<string, number> = {};
+    const timed = async <T>(phase: string, work: () => Promise<T>): Promise<T> => {
+      const phaseStart = Date.now();
+      try {
+        return await work();
+      } finally {
+        timings[phase] = Date.now() - phaseStart;
+      }
+    };
+
     try {
-      // 3. Fetch data from three separate tables and join in TypeScript
+      // 3. Fetch everything set-based (one query per table for all
+      // contracts), then join and bucket in memory
 
       // 3a. Active non-hosting contracts
-      const contractRows = await select<ContractRow[]>(
+      const contractRows = await timed('contracts', () => select<ContractRow[]>(
         'contracts',
         {
           select: 'contract_id,contract_name,external_id,priority,amount,monthly_points_allotment,account_manager,team_manager,engagement_type',
@@ -119,62 +155,148 @@ export class ManagementReportService {
             hosting: false,
           },
         }
-      );
+      ));
+      const contractIds = contractRows.map((c) => c.contract_id);
 
       console.log(`[Management Report] Found ${contractRows.length} active contracts`);
 
-      // 3b. Points summaries for all contracts (materialized view)
-      const pointsRows = await select<PointsSummaryRow[]>(
-        'contract_points_summary',
-        {
-          select: 'contract_id,points_purchased,points_credited,points_delivered,points_working,points_balance,points_burden',
-        }
-      );
-      const pointsMap = new Map(pointsRows.map((p) => [p.contract_id, p]));
-
-      // 3c. ClickUp users for manager name lookups
       const managerIds = new Set<string>();
       for (const c of contractRows) {
         if (c.account_manager) managerIds.add(c.account_manager);
         if (c.team_manager) managerIds.add(c.team_manager);
       }
-      const usersMap = new Map<string, string>();
-      if (managerIds.size > 0) {
-        const userRows = await select<ClickUpUserRow[]>(
-          'pulse_clickup_users',
-          {
+
+      // 3b. Reference data and activity, all independent of each other
+      const [
+        pointsRows,
+        termsMap,
+        { healthMap, computedHealth, previousHealthMap },
+        { burdenAtEnd, burdenAtPreviousEnd },
+        userRows,
+        meetingRows,
+        planRows,
+        taskRows,
+      ] = await Promise.all([
+        // Points summaries (materialized view)
+        timed('points_summary', () => contractIds.length > 0
+          ? selectAll<PointsSummaryRow>('contract_points_summary', 'contract_id', {
+            select: 'contract_id,points_purchased,points_credited,points_delivered,points_working,points_balance,points_burden',
+            filters: { contract_id: { in: contractIds } },
+          })
+          : Promise.resolve([])),
+
+        // MRR and allotment in effect at period end (from contract_amendments)
+        timed('contract_terms', () => getContractTermsAsOf(periodEndStr, contractIds)),
+
+        // Health scores: latest stored by period end, computed now for any
+        // contract the daily run hasn't scored yet, plus stored scores at the
+        // end of the previous period for the comparison
+        timed('health', async () => {
+          const [current, previous] = await Promise.all([
+            getLatestHealthScores(contractIds, periodEndStr),
+            getLatestHealthScores(contractIds, period.previousEnd),
+          ]);
+          const computed = await computeContractHealth(contractIds.filter((id) => !current.has(id)));
+          return { healthMap: current, computedHealth: computed, previousHealthMap: previous };
+        }),
+
+        // Points burden at the end of each period for the on-track counts
+        timed('burden_as_of', async () => {
+          const [atEnd, atPreviousEnd] = await Promise.all([
+            rpc<BurdenRow[]>('contract_points_summary_as_of', { p_as_of: periodEndStr }),
+            rpc<BurdenRow[]>('contract_points_summary_as_of', { p_as_of: period.previousEnd }),
+          ]);
+          return { burdenAtEnd: toBurdenMap(atEnd), burdenAtPreviousEnd: toBurdenMap(atPreviousEnd) };
+        }),
+
+        // ClickUp users for manager name lookups
+        timed('managers', () => managerIds.size > 0
+          ? select<ClickUpUserRow[]>('pulse_clickup_users', {
             select: 'id,full_name',
             filters: { id: { in: Array.from(managerIds) } },
-          }
-        );
-        for (const u of userRows) {
-          if (u.full_name) usersMap.set(u.id, u.full_name);
-        }
-      }
+          })
+          : Promise.resolve([])),
 
-      // 4. Build snapshots for each contract
-      const snapshots: ReportContractSnapshot[] = [];
+        // Meetings with sentiment in the period and the one before it
+        timed('meetings', () => contractIds.length > 0
+          ? selectAll<MeetingRow>('compass_meetings', 'meeting_id', {
+            select: 'meeting_id,contract_id,meeting_date,title,sentiment',
+            filters: {
+              contract_id: { in: contractIds },
+              meeting_date: { gte: period.previousStart, lte: endOfDay(periodEndStr) },
+              sentiment: { neq: null },
+            },
+          })
+          : Promise.resolve([])),
 
-      for (let i = 0; i < contractRows.length; i++) {
-        const contract = contractRows[i];
-        const points = pointsMap.get(contract.contract_id);
-        console.log(`[Management Report] Processing ${i + 1}/${contractRows.length}: ${contract.contract_name}`);
+        // Plan deliverables (roadmaps for strategic, points plans for tactical)
+        timed('plans', () => contractIds.length > 0
+          ? selectAll<PlanRow>('compass_deliverables', 'deliverable_id', {
+            select: 'deliverable_id,contract_id,deliverable_type,created_at',
+            filters: {
+              contract_id: { in: contractIds },
+              deliverable_type: { in: ['roadmap', 'points_plan'] },
+            },
+          })
+          : Promise.resolve([])),
 
-        // 4a. Fetch meetings with sentiment in the 90-day window
-        const meetings = await select<MeetingRow[]>(
-          'compass_meetings',
-          {
-            select: 'meeting_id,meeting_date,title,sentiment',
+        // Delivered tasks across the trend window
+        timed('tasks', () => contractIds.length > 0
+          ? selectAll<TaskRow>('pulse_tasks', 'task_id', {
+            select: 'task_id,contract_id,points,date_done,updated_at',
             filters: {
-              contract_id: contract.contract_id,
-              meeting_date: { gte: periodStart.toISOString() },
-              sentiment: { neq: null },
+              contract_id: { in: contractIds },
+              status: 'delivered',
+              date_done: { gte: trendStartStr, lte: endOfDay(periodEndStr) },
             },
-            order: [{ column: 'meeting_date', ascending: true }],
-          }
-        );
+          })
+          : Promise.resolve([])),
+      ]);
+
+      console.log(
+        `[Management Report] Fetched ${meetingRows.length} meetings, ${planRows.length} plans, ` +
+        `${taskRows.length} delivered tasks`
+      );
 
-        const meetingEntries: ReportMeetingEntry[] = meetings.map((m) => ({
+      // 4. Join and build snapshots for each contract
+      const assembleStart = Date.now();
+
+      const pointsMap = new Map(pointsRows.map((p) => [p.contract_id, p]));
+      const usersMap = new Map<string, string>();
+      for (const u of userRows) {
+        if (u.full_name) usersMap.set(u.id, u.full_name);
+      }
+      const meetingsByContract = groupByContract(
+        meetingRows.sort((a, b) => a.meeting_date.localeCompare(b.meeting_date))
+      );
+      const tasksByContract = groupByContract(taskRows);
+
+      // Latest plan per contract and type
+      const lastPlans = new Map<string, string>();
+      for (const plan of planRows) {
+        const key = `${plan.contract_id}:${plan.deliverable_type}`;
+        const existing = lastPlans.get(key);
+        if (!existing || plan.created_at > existing) lastPlans.set(key, plan.created_at);
+      }
+
+      const snapshots: ReportContractSnapshot[] = [];
+      const sentiment = emptySentimentMix();
+      const previousSentiment = emptySentimentMix();
+      let previousPointsDelivered = 0;
+
+      for (const contract of contractRows) {
+        const points = pointsMap.get(contract.contract_id);
+        const terms = termsMap.get(contract.contract_id);
+
+        // 4a. Meetings: the period's go in the snapshot, both periods feed the sentiment mix
+        const meetings = meetingsByContract.get(contract.contract_id) ?? [];
+        const periodMeetings = meetings.filter((m) => m.meeting_date.slice(0, 10) >= periodStartStr);
+        for (const m of meetings) {
+          const mix = m.meeting_date.slice(0, 10) >= periodStartStr ? sentiment : previousSentiment;
+          mix[m.sentiment!.label] += 1;
+        }
+
+        const meetingEntries: ReportMeetingEntry[] = periodMeetings.map((m) => ({
           meeting_id: m.meeting_id,
           meeting_date: m.meeting_date,
           title: m.title,
@@ -183,45 +305,22 @@ export class ManagementReportService {
           bullets: m.sentiment!.bullets || [],
         }));
 
-        // 4b. Fetch last plan date from compass_deliverables
+        // 4b. Last plan date for the contract's engagement type
         const planType = contract.engagement_type === 'strategic' ? 'roadmap' : 'points_plan';
-        const planRows = await select<{ created_at: string }[]>(
-          'compass_deliverables',
-          {
-            select: 'created_at',
-            filters: {
-              contract_id: contract.contract_id,
-              deliverable_type: planType,
-            },
-            order: [{ column: 'created_at', ascending: false }],
-            limit: 1,
-          }
-        );
-        const lastPlanDate = planRows.length > 0 ? planRows[0].created_at : null;
-
-        // 4c. Fetch delivered tasks in the 90-day window
-        const tasks = await select<TaskRow[]>(
-          'pulse_tasks',
-          {
-            select: 'points,date_done,updated_at',
-            filters: {
-              contract_id: contract.contract_id,
-              status: 'delivered',
-              date_done: { gte: periodStart.toISOString() },
-            },
-          }
-        );
+        const lastPlanDate = lastPlans.get(`${contract.contract_id}:${planType}`) ?? null;
 
-        // 4d. Bucket tasks into 13 weekly Monday-Sunday buckets
-        const weeklyBuckets = buildWeeklyBuckets(periodStart, periodEnd, tasks);
+        // 4c. Bucket tasks at the report's granularity; the last two buckets
+        // are the period and the comparison period
+        const production = buildProductionBuckets(period.buckets, tasksByContract.get(contract.contract_id) ?? []);
+        previousPointsDelivered += production[production.length - 2]?.points_delivered ?? 0;
 
-        // 4e. Assemble snapshot
-        const burden = Number(points?.points_burden) || 0;
-        const deliveryStatus = burden <= 0 ? 'on-track' : 'off-track';
+        // 4d. Assemble snapshot
+        const healthRow = healthMap.get(contract.contract_id) ?? computedHealth.get(contract.contract_id);
+        const health = healthRow ? toHealthSummary(healthRow) : null;
 
         const financials: ContractFinancials = {
-          mrr: contract.amount,
-          monthly_points_allotment: contract.monthly_points_allotment,
+          mrr: terms ? terms.amount : contract.amount,
+          monthly_points_allotment: terms ? terms.monthly_points_allotment : contract.monthly_points_allotment,
           points_purchased: points?.points_purchased ?? null,
           points_credited: points?.points_credited ?? null,
           points_delivered: points?.points_delivered ?? null,
@@ -235,28 +334,79 @@ export class ManagementReportService {
           contract_name: contract.contract_name,
           contract_number: contract.external_id,
           priority: contract.priority,
-          delivery_status: deliveryStatus,
+          delivery_status: health?.status ?? null,
+          health,
           engagement_type: contract.engagement_type,
           last_plan_date: lastPlanDate,
           account_manager_name: contract.account_manager ? (usersMap.get(contract.account_manager) ?? null) : null,
           team_manager_name: contract.team_manager ? (usersMap.get(contract.team_manager) ?? null) : null,
           financials,
           meetings_90d: meetingEntries,
-          point_production_90d: weeklyBuckets,
+          point_production_90d: production,
         });
       }
 
       // 5. Compute summary counts
-      const onTrack = snapshots.filter((s) => s.delivery_status === 'on-track').length;
-      const offTrack = snapshots.filter((s) => s.delivery_status !== 'on-track').length;
+      const scores = snapshots
+        .map((s) => s.health?.score)
+        .filter((score): score is number => score !== null && score !== undefined);
+      const pointsDelivered = snapshots.reduce(
+        (sum, s) => sum + (s.point_production_90d[s.point_production_90d.length - 1]?.points_delivered ?? 0),
+        0
+      );
+      // On track: points burden <= 0, the label used before health scores
+      const onTrack = countOnTrack(contractIds, burdenAtEnd);
+      const healthy = snapshots.filter((s) => s.health?.status === 'healthy').length;
+      const atRisk = snapshots.filter((s) => s.health?.status === 'at_risk').length;
+      const critical = snapshots.filter((s) => s.health?.status === 'critical').length;
+      const averageScore = average(scores);
       const summary: ReportSummary = {
         total_contracts: snapshots.length,
+        healthy,
+        at_risk: atRisk,
+        critical,
+        unscored: snapshots.filter((s) => !s.health?.status).length,
+        average_health_score: averageScore,
+        granularity: period.granularity,
+        points_delivered: pointsDelivered,
+        sentiment,
         on_track: onTrack,
-        off_track: offTrack,
+        off_track: snapshots.length - onTrack,
       };
 
+      // 5a. Period-over-period deltas. Health compares stored scores at the
+      // end of each period, so contracts unscored back then don't count.
+      const previousHealth = Array.from(previousHealthMap.values());
+      const previousScores = previousHealth
+        .map((h) => h.score)
+        .filter((score): score is number => score !== null && score !== undefined);
+      const previousAverage = average(previousScores);
+      const comparison: ReportComparison = {
+        previous_period_start: period.previousStart,
+        previous_period_end: period.previousEnd,
+        on_track_change: onTrack - countOnTrack(contractIds, burdenAtPreviousEnd),
+        healthy_change: healthy - previousHealth.filter((h) => h.status === 'healthy').length,
+        at_risk_change: atRisk - previousHealth.filter((h) => h.status === 'at_risk').length,
+        critical_change: critical - previousHealth.filter((h) => h.status === 'critical').length,
+        average_health_score_change:
+          averageScore !== null && previousAverage !== null ? averageScore - previousAverage : null,
+        previous_points_delivered: previousPointsDelivered,
+        points_delivered_change: pointsDelivered - previousPointsDelivered,
+        points_delivered_change_pct: previousPointsDelivered > 0
+          ? Math.round(((pointsDelivered - previousPointsDelivered) / previousPointsDelivered) * 1000) / 10
+          : null,
+        previous_sentiment: previousSentiment,
+        sentiment_change: {
+          positive: sentiment.positive - previousSentiment.positive,
+          neutral: sentiment.neutral - previousSentiment.neutral,
+          negative: sentiment.negative - previousSentiment.negative,
+        },
+      };
+      summary.comparison = comparison;
+      timings.assemble = Date.now() - assembleStart;
+
       // 6. Update report row with completed data
-      await update(
+      await timed('save', () => update(
         'pulse_management_reports',
         {
           status: 'completed',
@@ -264,16 +414,21 @@ export class ManagementReportService {
           contracts: snapshots,
         },
         { report_id: reportId }
-      );
+      ));
 
-      console.log(`[Management Report] Completed: ${summary.total_contracts} contracts (${summary.on_track} on-track, ${summary.off_track} off-track)`);
+      console.log(
+        `[Management Report] Completed: ${summary.total_contracts} contracts ` +
+        `(${summary.healthy} healthy, ${summary.at_risk} at risk, ${summary.critical} critical, ${summary.unscored} unscored), ` +
+        `${pointsDelivered} points delivered (${comparison.points_delivered_change >= 0 ? '+' : ''}${comparison.points_delivered_change})`
+      );
+      console.log(`[Management Report] Phase timings (ms): ${formatTimings(timings)}`);
 
-      return { reportId, summary };
+      return { reportId, summary, timings };
 
     } catch (error) {
       // 7. On error: mark as failed
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[Management Report] Failed:`, error);
+      console.error(`[Management Report] Failed (phase timings ms: ${formatTimings(timings)}):`, error);
 
       await update(
         'pulse_management_reports',
@@ -290,52 +445,64 @@ export class ManagementReportService {
 }
 
 /**
- * Build 13 weekly Monday-Sunday buckets and sum delivered points per week.
+ * Sum delivered points into the period's trend buckets.
  */
-function buildWeeklyBuckets(
-  periodStart: Date,
-  periodEnd: Date,
+function buildProductionBuckets(
+  buckets: ReportBucket[],
   tasks: TaskRow[]
 ): PointProductionWeek[] {
-  const buckets: PointProductionWeek[] = [];
-
-  // Find the first Monday on or after periodStart
-  const start = new Date(periodStart);
-  const dayOfWeek = start.getUTCDay(); // 0=Sun, 1=Mon, ...
-  const daysUntilMonday = dayOfWeek === 0 ? 1 : dayOfWeek === 1 ? 0 : 8 - dayOfWeek;
-  start.setUTCDate(start.getUTCDate() + daysUntilMonday);
-  start.setUTCHours(0, 0, 0, 0);
-
-  // Generate up to 13 weekly buckets
-  for (let i = 0; i < 13; i++) {
-    const weekStart = new Date(start);
-    weekStart.setUTCDate(start.getUTCDate() + i * 7);
-
-    if (weekStart > periodEnd) break;
-
-    const weekEnd = new Date(weekStart);
-    weekEnd.setUTCDate(weekStart.getUTCDate() + 6);
-
-    buckets.push({
-      week_start: weekStart.toISOString().split('T')[0],
-      week_end: weekEnd.toISOString().split('T')[0],
-      points_delivered: 0,
-    });
-  }
+  const production: PointProductionWeek[] = buckets.map((b) => ({
+    week_start: b.start,
+    week_end: b.end,
+    points_delivered: 0,
+  }));
 
-  // Sum points into buckets
   for (const task of tasks) {
     const taskDate = task.date_done ? new Date(task.date_done) : new Date(task.updated_at);
     const taskDateStr = taskDate.toISOString().split('T')[0];
     const points = Number(task.points) || 0;
 
-    for (const bucket of buckets) {
-      if (taskDateStr >= bucket.week_start && taskDateStr <= bucket.week_end) {
-        bucket.points_delivered += points;
-        break;
-      }
-    }
+    const bucket = production.find((b) => taskDateStr >= b.week_start && taskDateStr <= b.week_end);
+    if (bucket) bucket.points_delivered += points;
   }
 
-  return buckets;
+  return production;
+}
+
+function toBurdenMap(rows: BurdenRow[] | null): Map<string, number> {
+  return new Map((rows || []).map((r) => [r.contract_id, Number(r.points_burden) || 0]));
+}
+
+// Contracts with no points history have no burden, so count as on track
+function countOnTrack(contractIds: string[], burden: Map<string, number>): number {
+  return contractIds.filter((id) => (burden.get(id) ?? 0) <= 0).length;
+}
+
+function groupByContract<T extends { contract_id: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.contract_id);
+    if (list) list.push(row);
+    else grouped.set(row.contract_id, [row]);
+  }
+  return grouped;
+}
+
+function formatTimings(timings: Record<string, number>): string {
+  return Object.entries(timings).map(([phase, ms]) => `${phase}=${ms}`).join(', ');
+}
+
+function emptySentimentMix(): ReportSentimentMix {
+  return { positive: 0, neutral: 0, negative: 0 };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0
+    ? Math.round(values.reduce((a, b) => a + b, 0) / values.length)
+    : null;
+}
+
+// Inclusive upper bound for timestamp columns filtered by a YYYY-MM-DD date
+function endOfDay(date: string): string {
+  return `${date}T23:59:59.999Z`;
 }
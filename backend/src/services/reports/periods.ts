@@ -0,0 +1,102 @@
+/**
+ * Report periods per management report type.
+ *
+ *   weekly    → last full Monday–Sunday week, trend of 13 weekly buckets
+ *   monthly   → last full calendar month,     trend of 12 monthly buckets
+ *   quarterly → last full calendar quarter,   trend of 8 quarterly buckets
+ *
+ * Periods are always complete, so a report generated mid-week covers the
+ * previous week. Trend buckets share the period's granularity and end with
+ * the period itself, which makes the last bucket the current period and the
+ * one before it the comparison period. All dates are UTC YYYY-MM-DD.
+ */
+
+import type { ReportGranularity, ReportType } from '../../types/reports.js';
+
+export interface ReportBucket {
+  start: string;
+  end: string;
+}
+
+export interface ReportPeriod {
+  type: ReportType;
+  granularity: ReportGranularity;
+  start: string;
+  end: string;
+  previousStart: string;
+  previousEnd: string;
+  // Oldest bucket first; the last entry is the period itself
+  buckets: ReportBucket[];
+}
+
+const PERIOD_SHAPES: Record<ReportType, { granularity: ReportGranularity; trendBuckets: number }> = {
+  weekly: { granularity: 'week', trendBuckets: 13 },
+  monthly: { granularity: 'month', trendBuckets: 12 },
+  quarterly: { granularity: 'quarter', trendBuckets: 8 },
+};
+
+export function resolveReportPeriod(type: ReportType, asOf: Date = new Date()): ReportPeriod {
+  const { granularity, trendBuckets } = PERIOD_SHAPES[type];
+
+  // Step back from the bucket containing asOf to the last complete one
+  const current = bucketContaining(asOf, granularity);
+  const buckets: ReportBucket[] = [];
+  let bucket = shiftBucket(current, granularity, -1);
+  for (let i = 0; i < trendBuckets; i++) {
+    buckets.unshift(bucket);
+    bucket = shiftBucket(bucket, granularity, -1);
+  }
+
+  const period = buckets[buckets.length - 1];
+  const previous = buckets[buckets.length - 2];
+
+  return {
+    type,
+    granularity,
+    start: period.start,
+    end: period.end,
+    previousStart: previous.start,
+    previousEnd: previous.end,
+    buckets,
+  };
+}
+
+function bucketContaining(date: Date, granularity: ReportGranularity): ReportBucket {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (granularity === 'week') {
+    const day = date.getUTCDay(); // 0=Sun, 1=Mon, ...
+    const monday = new Date(Date.UTC(year, month, date.getUTCDate() - (day === 0 ? 6 : day - 1)));
+    return { start: toDateStr(monday), end: toDateStr(addUtcDays(monday, 6)) };
+  }
+
+  const months = granularity === 'month' ? 1 : 3;
+  const firstMonth = month - (month % months);
+  return {
+    start: toDateStr(new Date(Date.UTC(year, firstMonth, 1))),
+    end: toDateStr(new Date(Date.UTC(year, firstMonth + months, 0))),
+  };
+}
+
+function shiftBucket(bucket: ReportBucket, granularity: ReportGranularity, delta: number): ReportBucket {
+  const start = new Date(`${bucket.start}T00:00:00Z`);
+  if (granularity === 'week') {
+    return bucketContaining(addUtcDays(start, delta * 7), granularity);
+  }
+  const months = granularity === 'month' ? 1 : 3;
+  return bucketContaining(
+    new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + delta * months, 1)),
+    granularity
+  );
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d;
+}
+
+function toDateStr(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
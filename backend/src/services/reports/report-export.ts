@@ -0,0 +1,458 @@
+/**
+ * Management Report Export
+ *
+ * Renders a stored pulse_management_reports row for presenting outside the
+ * app:
+ *   PDF  — a summary page, then one page per contract with its point
+ *          production sparkline and meeting sentiment bullets
+ *   XLSX — one sheet per section (Summary, Contracts, Point Production, Meetings)
+ *
+ * Works from the stored snapshot only, so old reports export the way they
+ * were generated.
+ */
+
+import PDFDocument from 'pdfkit';
+import { buildXlsx, type SheetData } from '../../utils/spreadsheet.js';
+import type {
+  ManagementReport,
+  PointProductionWeek,
+  ReportContractSnapshot,
+  ReportMeetingEntry,
+  ReportSentimentMix,
+} from '../../types/reports.js';
+
+export type ReportExportFormat = 'pdf' | 'xlsx';
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['pdf', 'xlsx'];
+
+export function isValidReportExportFormat(value: string): value is ReportExportFormat {
+  return REPORT_EXPORT_FORMATS.includes(value as ReportExportFormat);
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  healthy: 'Healthy',
+  at_risk: 'At risk',
+  critical: 'Critical',
+  'on-track': 'On track',
+  'off-track': 'Off track',
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  healthy: '#2e7d32',
+  at_risk: '#ef6c00',
+  critical: '#c62828',
+  'on-track': '#2e7d32',
+  'off-track': '#c62828',
+};
+
+const SENTIMENT_COLORS: Record<ReportMeetingEntry['sentiment_label'], string> = {
+  positive: '#2e7d32',
+  neutral: '#757575',
+  negative: '#c62828',
+};
+
+const MUTED = '#666666';
+const PAGE_MARGIN = 50;
+
+// ============================================================================
+// Snapshot readers
+// ============================================================================
+
+function snapshotMeetings(contract: ReportContractSnapshot): ReportMeetingEntry[] {
+  return contract.meetings_90d ?? [];
+}
+
+function snapshotProduction(contract: ReportContractSnapshot): PointProductionWeek[] {
+  return contract.point_production_90d ?? [];
+}
+
+function periodPoints(contract: ReportContractSnapshot): number {
+  const production = snapshotProduction(contract);
+  return production[production.length - 1]?.points_delivered ?? 0;
+}
+
+function statusLabel(status: string | null | undefined): string {
+  return status ? (STATUS_LABELS[status] ?? status) : 'Unscored';
+}
+
+function reportTitle(report: ManagementReport): string {
+  const type = report.report_type.charAt(0).toUpperCase() + report.report_type.slice(1);
+  return `${type} Management Report`;
+}
+
+function signed(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function money(value: number | null): string {
+  return value === null ? '—' : `$${Math.round(Number(value)).toLocaleString('en-US')}`;
+}
+
+function num(value: number | null): string {
+  return value === null ? '—' : String(Math.round(Number(value) * 10) / 10);
+}
+
+export function reportExportFileBase(report: ManagementReport): string {
+  return `management-report-${report.report_type}-${report.period_start}-to-${report.period_end}`;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+export async function buildReportXlsx(report: ManagementReport): Promise<Buffer> {
+  const contracts = report.contracts ?? [];
+  const summary = report.summary;
+  const comparison = summary?.comparison;
+
+  const summaryRows: unknown[][] = [
+    ['Report type', report.report_type, null],
+    ['Period start', report.period_start, null],
+    ['Period end', report.period_end, null],
+    ['Generated at', report.generated_at, null],
+  ];
+  if (comparison) {
+    summaryRows.push(
+      ['Previous period start', comparison.previous_period_start, null],
+      ['Previous period end', comparison.previous_period_end, null],
+    );
+  }
+  if (summary) {
+    summaryRows.push(['Total contracts', summary.total_contracts, null]);
+    if (summary.healthy !== undefined) {
+      summaryRows.push(
+        ['Healthy', summary.healthy, comparison?.healthy_change ?? null],
+        ['At risk', summary.at_risk ?? null, comparison?.at_risk_change ?? null],
+        ['Critical', summary.critical ?? null, comparison?.critical_change ?? null],
+        ['Unscored', summary.unscored ?? null, null],
+        ['Average health score', summary.average_health_score ?? null, comparison?.average_health_score_change ?? null],
+      );
+    }
+    if (summary.on_track !== undefined) {
+      summaryRows.push(['On track (points burden <= 0)', summary.on_track, comparison?.on_track_change ?? null]);
+    }
+    if (summary.healthy === undefined && summary.off_track !== undefined) {
+      summaryRows.push(['Off track', summary.off_track, null]);
+    }
+    if (summary.points_delivered !== undefined) {
+      summaryRows.push(['Points delivered', summary.points_delivered, comparison?.points_delivered_change ?? null]);
+    }
+    if (summary.sentiment) {
+      for (const label of ['positive', 'neutral', 'negative'] as const) {
+        summaryRows.push([
+          `${label.charAt(0).toUpperCase()}${label.slice(1)} meetings`,
+          summary.sentiment[label],
+          comparison?.sentiment_change[label] ?? null,
+        ]);
+      }
+    }
+  }
+
+  const sheets: SheetData[] = [
+    {
+      name: 'Summary',
+      headers: ['Metric', 'Value', 'Change vs previous period'],
+      rows: summaryRows,
+    },
+    {
+      name: 'Contracts',
+      headers: [
+        'Contract', 'Contract Number', 'Priority', 'Engagement', 'Health Status', 'Health Score',
+        'Account Manager', 'Team Manager', 'MRR', 'Monthly Points', 'Points Purchased',
+        'Points Credited', 'Points Delivered', 'Points Working', 'Points Balance', 'Points Burden',
+        'Points Delivered (Period)', 'Meetings (Period)', 'Last Plan Date',
+      ],
+      rows: contracts.map((c) => [
+        c.contract_name,
+        c.contract_number,
+        c.priority,
+        c.engagement_type,
+        statusLabel(c.health?.status ?? c.delivery_status),
+        c.health?.score ?? null,
+        c.account_manager_name,
+        c.team_manager_name,
+        c.financials.mrr,
+        c.financials.monthly_points_allotment,
+        c.financials.points_purchased,
+        c.financials.points_credited,
+        c.financials.points_delivered,
+        c.financials.points_working,
+        c.financials.points_balance,
+        c.financials.points_burden,
+        periodPoints(c),
+        snapshotMeetings(c).length,
+        c.last_plan_date ? c.last_plan_date.split('T')[0] : null,
+      ]),
+    },
+    {
+      name: 'Point Production',
+      headers: ['Contract', 'Contract Number', 'Bucket Start', 'Bucket End', 'Points Delivered'],
+      rows: contracts.flatMap((c) =>
+        snapshotProduction(c).map((b) => [
+          c.contract_name, c.contract_number, b.week_start, b.week_end, b.points_delivered,
+        ])
+      ),
+    },
+    {
+      name: 'Meetings',
+      headers: ['Contract', 'Contract Number', 'Meeting Date', 'Title', 'Sentiment', 'Confidence', 'Bullets'],
+      rows: contracts.flatMap((c) =>
+        snapshotMeetings(c).map((m) => [
+          c.contract_name,
+          c.contract_number,
+          m.meeting_date.split('T')[0],
+          m.title,
+          m.sentiment_label,
+          m.sentiment_confidence,
+          m.bullets.join('\n'),
+        ])
+      ),
+    },
+  ];
+
+  return buildXlsx(sheets);
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+export async function renderReportPdf(report: ManagementReport): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margin: PAGE_MARGIN,
+    info: { Title: `${reportTitle(report)} ${report.period_start} to ${report.period_end}` },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  renderSummaryPage(doc, report);
+  for (const contract of report.contracts ?? []) {
+    doc.addPage();
+    renderContractPage(doc, report, contract);
+  }
+
+  doc.end();
+  return done;
+}
+
+function renderSummaryPage(doc: PDFKit.PDFDocument, report: ManagementReport): void {
+  const summary = report.summary;
+  const comparison = summary?.comparison;
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor('black').text(reportTitle(report));
+  doc.font('Helvetica').fontSize(11).fillColor(MUTED)
+    .text(`Period ${report.period_start} to ${report.period_end}`)
+    .text(`Generated ${report.generated_at.split('T')[0]}`);
+  if (comparison) {
+    doc.text(`Compared with ${comparison.previous_period_start} to ${comparison.previous_period_end}`);
+  }
+  doc.moveDown(1.5);
+
+  if (!summary) {
+    doc.fillColor('black').text('This report has no summary.');
+    return;
+  }
+
+  const rows: Array<[string, string, string]> = [['Contracts', String(summary.total_contracts), '']];
+  // Reports from before health scores only have the on/off track split
+  if (summary.healthy !== undefined) {
+    rows.push(
+      ['Healthy', String(summary.healthy), signed(comparison?.healthy_change)],
+      ['At risk', String(summary.at_risk ?? 0), signed(comparison?.at_risk_change)],
+      ['Critical', String(summary.critical ?? 0), signed(comparison?.critical_change)],
+      ['Unscored', String(summary.unscored ?? 0), ''],
+      ['Average health score', summary.average_health_score == null ? '—' : String(summary.average_health_score),
+        signed(comparison?.average_health_score_change)],
+    );
+  }
+  if (summary.on_track !== undefined) {
+    rows.push(['On track (points burden <= 0)', String(summary.on_track), signed(comparison?.on_track_change)]);
+  }
+  if (summary.healthy === undefined && summary.off_track !== undefined) {
+    rows.push(['Off track', String(summary.off_track), '']);
+  }
+  if (summary.points_delivered !== undefined) {
+    const pct = comparison?.points_delivered_change_pct;
+    rows.push([
+      'Points delivered',
+      num(summary.points_delivered),
+      `${signed(comparison?.points_delivered_change)}${pct !== null && pct !== undefined ? ` (${signed(pct)}%)` : ''}`,
+    ]);
+  }
+  if (summary.sentiment) {
+    rows.push(['Meeting sentiment', sentimentText(summary.sentiment), comparison ? sentimentText(comparison.sentiment_change, true) : '']);
+  }
+
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('black').text('Summary');
+  doc.moveDown(0.5);
+  drawTable(doc, ['', 'This period', 'Change'], rows, [width * 0.45, width * 0.3, width * 0.25]);
+
+  // One line per contract so the room can find the page it wants
+  const contracts = report.contracts ?? [];
+  if (contracts.length > 0) {
+    doc.moveDown(1.5);
+    doc.font('Helvetica-Bold').fontSize(13).fillColor('black').text('Contracts', PAGE_MARGIN);
+    doc.moveDown(0.5);
+    drawTable(
+      doc,
+      ['Contract', 'Health', 'Score', 'Points (period)'],
+      contracts.map((c) => [
+        c.contract_number ? `${c.contract_name} (${c.contract_number})` : c.contract_name,
+        statusLabel(c.health?.status ?? c.delivery_status),
+        c.health?.score === null || c.health?.score === undefined ? '—' : String(c.health.score),
+        num(periodPoints(c)),
+      ]),
+      [width * 0.5, width * 0.18, width * 0.12, width * 0.2]
+    );
+  }
+}
+
+function renderContractPage(
+  doc: PDFKit.PDFDocument,
+  report: ManagementReport,
+  contract: ReportContractSnapshot
+): void {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const status = contract.health?.status ?? contract.delivery_status;
+
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('black').text(contract.contract_name);
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED).text(
+    [contract.contract_number, contract.priority, contract.engagement_type].filter(Boolean).join(' · ') ||
+      `${report.period_start} to ${report.period_end}`
+  );
+  doc.moveDown(0.5);
+
+  doc.font('Helvetica-Bold').fontSize(11)
+    .fillColor(status ? (STATUS_COLORS[status] ?? 'black') : MUTED)
+    .text(
+      `${statusLabel(status)}${contract.health?.score !== null && contract.health?.score !== undefined ? ` · ${contract.health.score}/100` : ''}`
+    );
+  doc.font('Helvetica').fontSize(10).fillColor('black')
+    .text(`Account manager: ${contract.account_manager_name ?? '—'}    Team manager: ${contract.team_manager_name ?? '—'}`)
+    .text(`Last plan: ${contract.last_plan_date ? contract.last_plan_date.split('T')[0] : 'none'}`);
+  doc.moveDown(0.8);
+
+  const f = contract.financials;
+  drawTable(
+    doc,
+    ['MRR', 'Monthly pts', 'Purchased', 'Delivered', 'Balance', 'Burden'],
+    [[
+      money(f.mrr), num(f.monthly_points_allotment), num(f.points_purchased),
+      num(f.points_delivered), num(f.points_balance), num(f.points_burden),
+    ]],
+    Array(6).fill(width / 6)
+  );
+  doc.moveDown(1);
+
+  // Sparkline
+  const production = snapshotProduction(contract);
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('black').text('Point production', PAGE_MARGIN);
+  doc.moveDown(0.3);
+  if (production.length > 0) {
+    drawSparkline(doc, production, PAGE_MARGIN, doc.y, width, 70);
+  } else {
+    doc.font('Helvetica').fontSize(10).fillColor(MUTED).text('No production data.');
+  }
+  doc.moveDown(1);
+
+  // Meeting sentiment
+  const meetings = snapshotMeetings(contract);
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('black').text('Meeting sentiment', PAGE_MARGIN);
+  doc.moveDown(0.3);
+  if (meetings.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor(MUTED).text('No meetings with sentiment in this period.');
+    return;
+  }
+  for (const meeting of meetings) {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(SENTIMENT_COLORS[meeting.sentiment_label])
+      .text(`${meeting.meeting_date.split('T')[0]} · ${meeting.sentiment_label}`, PAGE_MARGIN, doc.y, { continued: true })
+      .font('Helvetica').fillColor('black')
+      .text(`  ${meeting.title ?? 'Untitled meeting'}`);
+    for (const bullet of meeting.bullets) {
+      doc.fontSize(9).fillColor('#333333').text(`•  ${bullet}`, PAGE_MARGIN + 12, doc.y, { width: width - 12 });
+    }
+    doc.moveDown(0.4);
+  }
+}
+
+function sentimentText(mix: ReportSentimentMix, asChange = false): string {
+  const fmt = (v: number) => (asChange ? signed(v) : String(v));
+  return `${fmt(mix.positive)} pos / ${fmt(mix.neutral)} neu / ${fmt(mix.negative)} neg`;
+}
+
+/**
+ * Plain grid of text rows with a bold header, starting a new page when the
+ * next row won't fit.
+ */
+function drawTable(doc: PDFKit.PDFDocument, headers: string[], rows: string[][], widths: number[]): void {
+  const rowHeight = 18;
+  const bottom = doc.page.height - PAGE_MARGIN;
+
+  const drawRow = (values: string[], bold: boolean) => {
+    if (doc.y + rowHeight > bottom) doc.addPage();
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor('black');
+    values.forEach((value, i) => {
+      doc.text(value, x + 2, y + 4, { width: widths[i] - 4, height: rowHeight, ellipsis: true, lineBreak: false });
+      x += widths[i];
+    });
+    doc.moveTo(PAGE_MARGIN, y + rowHeight).lineTo(x, y + rowHeight).lineWidth(0.5).strokeColor('#dddddd').stroke();
+    doc.x = PAGE_MARGIN;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(headers, true);
+  for (const row of rows) drawRow(row, false);
+}
+
+/**
+ * Line of points delivered per bucket, with the first/last bucket dates and
+ * the peak value labelled. The final bucket (the report period) is marked.
+ */
+function drawSparkline(
+  doc: PDFKit.PDFDocument,
+  buckets: PointProductionWeek[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const max = Math.max(...buckets.map((b) => b.points_delivered), 1);
+  const step = buckets.length > 1 ? width / (buckets.length - 1) : 0;
+  const pointAt = (i: number) => ({
+    px: x + i * step,
+    py: y + height - (buckets[i].points_delivered / max) * height,
+  });
+
+  doc.moveTo(x, y + height).lineTo(x + width, y + height).lineWidth(0.5).strokeColor('#cccccc').stroke();
+
+  const first = pointAt(0);
+  doc.moveTo(first.px, first.py);
+  for (let i = 1; i < buckets.length; i++) {
+    const p = pointAt(i);
+    doc.lineTo(p.px, p.py);
+  }
+  doc.lineWidth(1.5).strokeColor('#1565c0').stroke();
+
+  const last = pointAt(buckets.length - 1);
+  doc.circle(last.px, last.py, 3).fillColor('#1565c0').fill();
+
+  doc.font('Helvetica').fontSize(8).fillColor(MUTED);
+  doc.text(`peak ${num(max)}`, x, y - 10, { lineBreak: false });
+  doc.text(buckets[0].week_start, x, y + height + 4, { lineBreak: false });
+  doc.text(
+    `${buckets[buckets.length - 1].week_start}: ${num(buckets[buckets.length - 1].points_delivered)} pts`,
+    x, y + height + 4, { width, align: 'right', lineBreak: false }
+  );
+  doc.x = PAGE_MARGIN;
+  doc.y = y + height + 18;
+}
@@ -3,7 +3,8 @@
  *
  * Uses a bot token (xoxb-...) from SLACK_BOT_TOKEN. Bot needs the
  * chat:write scope, plus chat:write.public if posting to channels it
- * hasn't been invited to.
+ * hasn't been invited to. Looking users up by email (for DMs) needs
+ * users:read.email.
  */
 
 interface SlackPostResult {
@@ -38,3 +39,20 @@ export async function postSlackMessage(params: {
   const data = (await response.json()) as { ok: boolean; error?: string; ts?: string };
   return data;
 }
+
+/**
+ * Slack user ID for an email address, or null if there's no match (or no
+ * token). Posting to a user ID delivers a DM from the bot.
+ */
+export async function lookupSlackUserIdByEmail(email: string): Promise<string | null> {
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) return null;
+
+  const response = await fetch(
+    `https://slack.com/api/users.lookupByEmail?email=${encodeURIComponent(email)}`,
+    { headers: { 'Authorization': `Bearer ${token}` } }
+  );
+
+  const data = (await response.json()) as { ok: boolean; error?: string; user?: { id: string } };
+  return data.ok && data.user ? data.user.id : null;
+}
@@ -2,12 +2,15 @@
  * Strategy Notes — Scheduler
  *
  * Finds configs where next_run_at <= now(), generates notes,
- * and updates next_run_at for the following week.
+ * and updates next_run_at for the following week. A config whose schedule
+ * can't be computed is disabled instead of generated, so it can't produce a
+ * note on every tick.
  */
 
 import { select, update } from '../../utils/edge-functions.js';
 import { NoteConfig } from '../../types/note-configs.js';
 import { generateStrategyNote } from './generate.js';
+import { nextRunAt } from '../../utils/scheduling.js';
 
 // ============================================================================
 // Schedule Computation
@@ -20,61 +23,25 @@ import { generateStrategyNote } from './generate.js';
 export function computeNextRunAt(
   dayOfWeek: number,
   generateTime: string,
-  timezone: string
+  timezone: string,
+  after: Date = new Date()
 ): string {
-  const [hours, minutes] = generateTime.split(':').map(Number);
-  const now = new Date();
-
-  // Start from today and find the next matching day of week
-  for (let offset = 0; offset <= 7; offset++) {
-    const candidate = new Date(now);
-    candidate.setDate(candidate.getDate() + offset);
-
-    if (candidate.getDay() === dayOfWeek) {
-      // Build a date string in the target timezone
-      // We'll use a simple approach: construct the time, then adjust for timezone
-      const year = candidate.getFullYear();
-      const month = String(candidate.getMonth() + 1).padStart(2, '0');
-      const day = String(candidate.getDate()).padStart(2, '0');
-      const dateStr = `${year}-${month}-${day}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
-
-      // Get the UTC offset for this timezone at this date
-      const tzDate = new Date(dateStr);
-      const utcStr = tzDate.toLocaleString('en-US', { timeZone: 'UTC' });
-      const tzStr = tzDate.toLocaleString('en-US', { timeZone: timezone });
-      const utcDate = new Date(utcStr);
-      const localDate = new Date(tzStr);
-      const offsetMs = utcDate.getTime() - localDate.getTime();
-
-      // Create the correct UTC time
-      const resultDate = new Date(`${dateStr}Z`);
-      resultDate.setTime(resultDate.getTime() - offsetMs);
-
-      // Skip if this time has already passed today
-      if (offset === 0 && resultDate.getTime() <= now.getTime()) {
-        continue;
-      }
-
-      return resultDate.toISOString();
-    }
-  }
-
-  // Fallback: one week from now
-  const fallback = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-  return fallback.toISOString();
+  return nextRunAt({ cadence: 'weekly', dayOfWeek, time: generateTime, timezone }, after).toISOString();
 }
 
 /**
- * Compute the next_run_at one week from the current run time.
+ * Compute the next_run_at after the current run: the following week's
+ * slot in local time, not a fixed 7 × 24h (which drifts across DST).
  */
 function computeNextWeekRunAt(config: NoteConfig): string {
-  // Simply add 7 days to the current next_run_at, or compute fresh
-  if (config.next_run_at) {
-    const next = new Date(config.next_run_at);
-    next.setDate(next.getDate() + 7);
-    return next.toISOString();
-  }
-  return computeNextRunAt(config.day_of_week, config.generate_time, config.timezone);
+  const now = new Date();
+  const lastSlot = config.next_run_at ? new Date(config.next_run_at) : now;
+  return computeNextRunAt(
+    config.day_of_week,
+    config.generate_time,
+    config.timezone,
+    lastSlot > now ? lastSlot : now
+  );
 }
 
 // ============================================================================
@@ -129,11 +96,30 @@ export async function processScheduledNotes(): Promise<SchedulerResult> {
 
   // Process each config
   for (const config of configs) {
+    let nextRun: string;
+    try {
+      nextRun = computeNextWeekRunAt(config);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[Scheduler] Invalid schedule for config ${config.config_id}, disabling it:`, msg);
+      result.failed++;
+      result.errors.push(`Config ${config.config_id}: ${msg} (disabled)`);
+      try {
+        await update(
+          'compass_note_configs',
+          { enabled: false, updated_at: new Date().toISOString() },
+          { config_id: config.config_id }
+        );
+      } catch (disableErr) {
+        console.error(`[Scheduler] Failed to disable config ${config.config_id}:`, disableErr);
+      }
+      continue;
+    }
+
     try {
       await generateStrategyNote(config);
 
       // Update next_run_at to next week
-      const nextRun = computeNextWeekRunAt(config);
       await update(
         'compass_note_configs',
         { next_run_at: nextRun, updated_at: new Date().toISOString() },
@@ -0,0 +1,172 @@
+/**
+ * Zoom API Client
+ *
+ * Fetches cloud recording transcripts from Zoom using a Server-to-Server
+ * OAuth app (scope: cloud_recording:read:admin or recording:read).
+ *
+ * Environment variables: ZOOM_ACCOUNT_ID, ZOOM_CLIENT_ID, ZOOM_CLIENT_SECRET
+ * API: https://api.zoom.us/v2
+ */
+
+import type { ZoomTranscript } from '../../types/meetings.js';
+import { parseVttTranscript, transcriptSpeakers } from '../../utils/transcript.js';
+
+const ZOOM_API_URL = 'https://api.zoom.us/v2';
+const ZOOM_OAUTH_URL = 'https://zoom.us/oauth/token';
+
+interface ZoomConfig {
+  accountId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+function getConfig(): ZoomConfig {
+  const accountId = process.env.ZOOM_ACCOUNT_ID;
+  const clientId = process.env.ZOOM_CLIENT_ID;
+  const clientSecret = process.env.ZOOM_CLIENT_SECRET;
+
+  if (!accountId || !clientId || !clientSecret) {
+    throw new Error('ZOOM_ACCOUNT_ID, ZOOM_CLIENT_ID and ZOOM_CLIENT_SECRET are required');
+  }
+
+  return { accountId, clientId, clientSecret };
+}
+
+export function isZoomConfigured(): boolean {
+  return Boolean(
+    process.env.ZOOM_ACCOUNT_ID && process.env.ZOOM_CLIENT_ID && process.env.ZOOM_CLIENT_SECRET
+  );
+}
+
+// Server-to-Server tokens last an hour; reuse until shortly before expiry
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
+    return cachedToken.token;
+  }
+
+  const config = getConfig();
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64');
+  const params = new URLSearchParams({
+    grant_type: 'account_credentials',
+    account_id: config.accountId,
+  });
+
+  const response = await fetch(`${ZOOM_OAUTH_URL}?${params}`, {
+    method: 'POST',
+    headers: { Authorization: `Basic ${credentials}` },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Zoom OAuth error: ${response.status} - ${error}`);
+  }
+
+  const data = (await response.json()) as { access_token: string; expires_in: number };
+  cachedToken = {
+    token: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+  return data.access_token;
+}
+
+/**
+ * Low-level GET with Bearer auth. Returns null on 404.
+ */
+async function zoomFetch<T>(path: string): Promise<T | null> {
+  const token = await getAccessToken();
+
+  const response = await fetch(`${ZOOM_API_URL}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Zoom API error: ${response.status} - ${error}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+interface ZoomRecordingsResponse {
+  uuid: string;
+  id: number;
+  topic: string;
+  start_time: string;
+  duration: number; // minutes
+  share_url?: string;
+  recording_files?: Array<{
+    id: string;
+    file_type: string; // 'MP4', 'M4A', 'TRANSCRIPT', 'CHAT', ...
+    file_extension?: string;
+    recording_type?: string; // 'audio_transcript' for the transcript
+    download_url: string;
+    status?: string;
+  }>;
+}
+
+/**
+ * Zoom requires instance UUIDs that start with "/" or contain "//" to be
+ * double-encoded in the path.
+ */
+function encodeMeetingId(meetingIdOrUuid: string): string {
+  if (meetingIdOrUuid.startsWith('/') || meetingIdOrUuid.includes('//')) {
+    return encodeURIComponent(encodeURIComponent(meetingIdOrUuid));
+  }
+  return encodeURIComponent(meetingIdOrUuid);
+}
+
+/**
+ * Fetch a meeting's cloud recording and its transcript from Zoom
+ *
+ * Accepts a numeric meeting ID (resolves to the latest occurrence) or an
+ * instance UUID. Returns null if the recording is not found. A recording
+ * whose transcript isn't available yet comes back with has_transcript=false.
+ */
+export async function fetchRecordingTranscript(
+  meetingIdOrUuid: string
+): Promise<ZoomTranscript | null> {
+  const recording = await zoomFetch<ZoomRecordingsResponse>(
+    `/meetings/${encodeMeetingId(meetingIdOrUuid)}/recordings`
+  );
+
+  if (!recording) {
+    return null;
+  }
+
+  const transcriptFile = (recording.recording_files || []).find(
+    (f) => f.file_type === 'TRANSCRIPT' && f.status !== 'processing'
+  );
+
+  let segments: ZoomTranscript['segments'] = [];
+  if (transcriptFile) {
+    const token = await getAccessToken();
+    const response = await fetch(transcriptFile.download_url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Zoom transcript download error: ${response.status} - ${error}`);
+    }
+
+    segments = parseVttTranscript(await response.text());
+  }
+
+  return {
+    uuid: recording.uuid,
+    meeting_id: String(recording.id),
+    topic: recording.topic,
+    start_time: new Date(recording.start_time).toISOString(),
+    duration: recording.duration,
+    participants: transcriptSpeakers(segments),
+    segments,
+    has_transcript: Boolean(transcriptFile),
+    share_url: recording.share_url || undefined,
+  };
+}
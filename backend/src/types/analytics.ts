@@ -0,0 +1,92 @@
+// Pulse analytics types
+
+// Mapped task statuses (see STATUS_MAPPINGS in config/sync-config.ts)
+export type TaskStatus = 'not_started' | 'working' | 'blocked' | 'at_risk' | 'delivered' | 'archived';
+
+// Lead time distribution, in days
+export interface LeadTimeStats {
+  count: number;
+  avg_days: number | null;
+  median_days: number | null;
+  p90_days: number | null;
+}
+
+// Time-in-status for one status across a group of tasks
+export interface StatusTimeStats {
+  total_hours: number;
+  avg_hours_per_task: number;
+  tasks: number;
+}
+
+// Cycle-time metrics for a group of tasks (whole contract or one list type)
+export interface CycleTimeBreakdown {
+  tasks_analyzed: number;
+  tasks_with_history: number;
+  time_in_status: Record<string, StatusTimeStats>;
+  lead_time: LeadTimeStats;
+  // Share (0-1) of tracked time spent in 'blocked' (waiting on client)
+  blocked_share: number | null;
+}
+
+export interface CycleTimeReport {
+  contract_id: string;
+  generated_at: string;
+  overall: CycleTimeBreakdown;
+  by_list_type: Record<string, CycleTimeBreakdown>;
+}
+
+// ============================================================================
+// Team capacity
+// ============================================================================
+
+export type CapacityWeekPhase = 'past' | 'current' | 'upcoming';
+
+export interface CapacityWeek {
+  week_start: string;               // Monday, YYYY-MM-DD
+  phase: CapacityWeekPhase;
+  available_hours: number;
+  logged_hours: number | null;      // past and current weeks
+  utilization: number | null;       // logged / available
+  committed_hours: number | null;   // current and upcoming weeks, open tasks due that week
+  committed_points: number | null;
+  committed_tasks: number | null;
+  load: number | null;              // committed / available
+  overloaded: boolean;
+}
+
+export interface CapacityContractLoad {
+  contract_id: string | null;       // null = tasks not on a contract
+  contract_name: string | null;
+  hours: number;
+  points: number;
+  tasks: number;
+}
+
+export type CapacityWarningType = 'overloaded' | 'overdue_tasks' | 'unestimated_tasks';
+
+export interface CapacityWarning {
+  type: CapacityWarningType;
+  week_start?: string;
+  message: string;
+}
+
+export interface CapacityMember {
+  clickup_user_id: string;
+  name: string | null;
+  email: string | null;
+  weekly_capacity_hours: number;
+  weeks: CapacityWeek[];
+  overdue: { tasks: number; points: number; hours: number };  // open, due before this week
+  unscheduled: { tasks: number; points: number };             // open, no due date
+  contracts: CapacityContractLoad[];                          // committed over the upcoming window
+  warnings: CapacityWarning[];
+}
+
+export interface CapacityReport {
+  generated_at: string;
+  team_manager_id: string | null;
+  week_starts: string[];
+  hours_per_point: number;
+  members: CapacityMember[];
+  totals: Array<Pick<CapacityWeek, 'week_start' | 'phase' | 'available_hours' | 'logged_hours' | 'committed_hours' | 'committed_points'>>;
+}
@@ -0,0 +1,39 @@
+// Churn-risk signal types for contract_risk_signals table
+
+export type RiskSignalType =
+  | 'negative_sentiment'
+  | 'negative_points_balance'
+  | 'no_delivery'
+  | 'missed_payments'
+  | 'notice_window';
+
+export type RiskSignalStatus = 'active' | 'resolved';
+
+// A signal found on this run. The fingerprint captures the state being
+// alerted on; a changed fingerprint re-alerts, an unchanged one doesn't.
+export interface DetectedRiskSignal {
+  contract_id: string;
+  signal_type: RiskSignalType;
+  fingerprint: string;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+// Full database record (one per contract per signal type)
+export interface ContractRiskSignal {
+  signal_id: string;
+  contract_id: string;
+  signal_type: RiskSignalType;
+  status: RiskSignalStatus;
+  fingerprint: string;
+  alerted_fingerprint: string | null;
+  summary: string;
+  details: Record<string, unknown>;
+  first_detected_at: string;
+  last_detected_at: string;
+  last_alerted_at: string | null;
+  alert_channel: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -1,5 +1,8 @@
 // Client status report types for compass_report_configs and compass_reports tables
 
+import type { EmailDeliveryStatus, EmailTransportName } from './email.js';
+import { isValidTimeOfDay, isValidTimeZone } from '../utils/scheduling.js';
+
 // ============================================================================
 // Cadence
 // ============================================================================
@@ -22,7 +25,7 @@ export interface ClientReportConfig {
   enabled: boolean;
   cadence: ReportCadence;
   day_of_week: number | null;
-  day_of_month: number | null;
+  day_of_month: number | null;   // 1-31; 29-31 run on the last day of shorter months
   send_time: string;        // HH:MM:SS
   timezone: string;
   lookback_days: number;
@@ -112,6 +115,15 @@ export interface CompassReport {
   recipients: string[] | null;
   send_status: string;
   sent_at: string | null;
+  transport: EmailTransportName | null;
+  provider_message_id: string | null;
+  send_error: string | null;
+  delivery_status: EmailDeliveryStatus | null;
+  delivered_at: string | null;
+  bounced_at: string | null;
+  bounce_reason: string | null;
+  first_opened_at: string | null;
+  open_count: number;
   created_at: string;
 }
 
@@ -125,6 +137,10 @@ export interface CompassReportListItem {
   recipients: string[] | null;
   send_status: string;
   sent_at: string | null;
+  delivery_status: EmailDeliveryStatus | null;
+  bounce_reason: string | null;
+  first_opened_at: string | null;
+  open_count: number;
   created_at: string;
 }
 
@@ -154,13 +170,19 @@ export function validateReportConfigInput(input: ClientReportConfigInput): strin
   if (input.cadence === 'monthly') {
     if (input.day_of_month === undefined || input.day_of_month === null) {
       errors.push('day_of_month is required for monthly cadence');
-    } else if (input.day_of_month < 1 || input.day_of_month > 28) {
-      errors.push('day_of_month must be 1-28');
+    } else if (input.day_of_month < 1 || input.day_of_month > 31) {
+      errors.push('day_of_month must be 1-31');
     }
   }
 
   if (!input.send_time) {
     errors.push('send_time is required');
+  } else if (!isValidTimeOfDay(input.send_time)) {
+    errors.push('send_time must be HH:MM or HH:MM:SS');
+  }
+
+  if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+    errors.push(`timezone must be an IANA timezone (e.g. America/New_York), got "${input.timezone}"`);
   }
 
   if (!input.recipients || !Array.isArray(input.recipients) || input.recipients.length === 0) {
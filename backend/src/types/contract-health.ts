@@ -0,0 +1,52 @@
+// Contract health score types for contract_health_scores table
+
+export type HealthStatus = 'healthy' | 'at_risk' | 'critical';
+
+export type HealthComponentKey =
+  | 'points_burden_trend'
+  | 'sentiment_trend'
+  | 'meeting_recency'
+  | 'overdue_invoices'
+  | 'blocked_tasks';
+
+export const HEALTH_COMPONENT_KEYS: HealthComponentKey[] = [
+  'points_burden_trend',
+  'sentiment_trend',
+  'meeting_recency',
+  'overdue_invoices',
+  'blocked_tasks',
+];
+
+export type HealthWeights = Record<HealthComponentKey, number>;
+
+// One scored component. score is 0-100, or null when there is no data to
+// score it (its weight is then spread over the other components).
+export interface HealthComponent {
+  score: number | null;
+  weight: number;              // configured weight
+  effective_weight: number;    // share of the total score actually used (0-1)
+  inputs: Record<string, number | string | null>;
+}
+
+export type HealthComponents = Record<HealthComponentKey, HealthComponent>;
+
+// Full database record
+export interface ContractHealthScore {
+  score_id: string;
+  contract_id: string;
+  score_date: string;          // YYYY-MM-DD
+  score: number | null;        // 0-100, null when no component could be scored
+  status: HealthStatus | null;
+  components: HealthComponents;
+  weights: HealthWeights;
+  created_at: string;
+  updated_at: string;
+}
+
+// Compact version embedded in management report snapshots
+export interface ContractHealthSummary {
+  score: number | null;
+  status: HealthStatus | null;
+  score_date: string;
+  components: Record<HealthComponentKey, number | null>;
+}
@@ -0,0 +1,81 @@
+// Contract CSV/XLSX import types
+
+import type { ContractFieldChanges } from './contracts.js';
+
+export type ImportJobStatus = 'previewed' | 'committing' | 'completed' | 'failed';
+
+// { "Source Column": "contract_field" } — target may also be 'account_name'
+// (resolved to account_id) or '' / 'ignore' to skip the column
+export type ImportColumnMapping = Record<string, string>;
+
+export interface ContractImportMapping {
+  mapping_id: string;
+  name: string;
+  description: string | null;
+  mapping: ImportColumnMapping;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One planned write, produced by the dry run and applied on commit
+export interface ImportPlanItem {
+  row: number;                       // 1-based data row in the file (header excluded)
+  action: 'insert' | 'update';
+  contract_name: string;
+  contract_id: string | null;        // set for updates
+  data: Record<string, unknown>;     // fields to write
+  changes: ContractFieldChanges | null; // update diff against the current contract
+}
+
+export interface ImportRowError {
+  row: number;
+  contract_name: string | null;
+  errors: string[];
+}
+
+export interface ImportCommitError {
+  row: number;
+  contract_name: string;
+  error: string;
+}
+
+export interface ContractImportJob {
+  job_id: string;
+  status: ImportJobStatus;
+  file_name: string | null;
+  mapping_id: string | null;
+  mapping: ImportColumnMapping | null;
+  total_rows: number;
+  plan: ImportPlanItem[];
+  row_errors: ImportRowError[];
+  cursor: number;
+  inserted: number;
+  updated: number;
+  failed: number;
+  commit_errors: ImportCommitError[];
+  error_message: string | null;
+  created_by: string | null;
+  committed_by: string | null;
+  commit_started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Dry-run response
+export interface ImportPreview {
+  job_id: string;
+  file_name: string | null;
+  total_rows: number;
+  summary: {
+    inserts: number;
+    updates: number;
+    unchanged: number;
+    errors: number;
+  };
+  unmapped_columns: string[];
+  inserts: ImportPlanItem[];
+  updates: ImportPlanItem[];
+  errors: ImportRowError[];
+}
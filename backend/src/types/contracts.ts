@@ -181,3 +181,46 @@ export function validateContractEnums(data: Partial<CreateContractDTO>): string[
 
   return errors;
 }
+
+// Contract event log (contract_events)
+export type ContractEventType = 'renewed' | 'expired' | 'alert_sent' | 'updated' | 'amended';
+export type ContractEventSource = 'lifecycle' | 'api' | 'import';
+
+export type ContractFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface ContractEvent {
+  event_id: string;
+  contract_id: string;
+  event_type: ContractEventType;
+  source: ContractEventSource;
+  reason: string | null;
+  changes: ContractFieldChanges | null;
+  metadata: Record<string, unknown> | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Contract amendments / change orders (contract_amendments)
+export type AmendmentType = 'upsell' | 'downsell' | 'change_order' | 'renewal' | 'correction';
+export const AMENDMENT_TYPE_VALUES: AmendmentType[] = ['upsell', 'downsell', 'change_order', 'renewal', 'correction'];
+
+export interface ContractAmendment {
+  amendment_id: string;
+  contract_id: string;
+  effective_date: string;
+  amendment_type: AmendmentType;
+  reason: string | null;
+  changes: ContractFieldChanges;
+  applied_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Commercial terms in effect on a date (contract_terms_as_of)
+export interface ContractTermsAsOf {
+  contract_id: string;
+  amount: number | null;
+  monthly_points_allotment: number | null;
+  dollar_per_hour: number | null;
+}
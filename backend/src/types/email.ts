@@ -0,0 +1,76 @@
+// Outbound email and delivery event types (client status reports)
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+export type EmailTransportName = 'n8n' | 'smtp' | 'outbox';
+
+export const EMAIL_TRANSPORT_VALUES: EmailTransportName[] = ['n8n', 'smtp', 'outbox'];
+
+export function isValidEmailTransport(value: string): value is EmailTransportName {
+  return EMAIL_TRANSPORT_VALUES.includes(value as EmailTransportName);
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  email_type: string;                 // e.g. 'status_report'; n8n routes on this
+  report_id?: string;                 // echoed back on delivery events
+}
+
+export interface EmailSendResult {
+  transport: EmailTransportName;
+  message_id: string | null;          // provider message id, when the transport returns one
+}
+
+// ============================================================================
+// Delivery events (compass_report_email_events table)
+// ============================================================================
+
+export type EmailEventType = 'delivered' | 'bounced' | 'complained' | 'opened';
+
+export const EMAIL_EVENT_TYPE_VALUES: EmailEventType[] = ['delivered', 'bounced', 'complained', 'opened'];
+
+export function isValidEmailEventType(value: string): value is EmailEventType {
+  return EMAIL_EVENT_TYPE_VALUES.includes(value as EmailEventType);
+}
+
+// Rolled up onto compass_reports.delivery_status; opens don't change it
+export type EmailDeliveryStatus = 'delivered' | 'bounced' | 'complained';
+
+// Normalized event as posted to /api/webhooks/email-events. The sender (n8n
+// workflow or provider webhook mapping) identifies the report by report_id,
+// or by the message id the transport returned at send time.
+export interface EmailEventInput {
+  event: EmailEventType;
+  report_id?: string;
+  message_id?: string;
+  event_id?: string;                  // provider's id, for de-duplicating retries
+  recipient?: string;
+  reason?: string;
+  timestamp?: string;                 // ISO; defaults to receipt time
+}
+
+export interface CompassReportEmailEvent {
+  event_id: string;
+  report_id: string;
+  event_type: EmailEventType;
+  recipient: string | null;
+  provider_message_id: string | null;
+  provider_event_id: string | null;
+  reason: string | null;
+  occurred_at: string;
+  payload: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface EmailEventIngestResult {
+  received: number;
+  recorded: number;
+  duplicates: number;
+  unmatched: number;
+  invalid: number;
+}
@@ -0,0 +1,308 @@
+// Finance types: payment applications, accounts-receivable aging, points
+// reconciliation and the memo triage queue
+
+// One payment amount applied to one invoice (pulse_payment_applications)
+export interface PaymentApplication {
+  application_id: string;
+  quickbooks_realm_id: string;
+  quickbooks_payment_id: string;
+  quickbooks_invoice_id: string;
+  payment_id: string | null;
+  invoice_id: string | null;
+  contract_id: string | null;
+  amount: number;
+  payment_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+export type AgingTotals = Record<AgingBucket, number> & {
+  total: number;
+  invoice_count: number;
+};
+
+export interface ArAgingInvoice {
+  invoice_id: string;
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  doc_number: string | null;
+  customer_name: string | null;
+  contract_id: string | null;
+  transaction_date: string | null;
+  due_date: string | null;
+  amount: number;
+  balance: number;
+  days_past_due: number;
+  bucket: AgingBucket;
+  last_payment_date: string | null;
+}
+
+export interface ArAgingContract extends AgingTotals {
+  contract_id: string | null;       // null groups invoices not linked to a contract
+  contract_name: string | null;
+  external_id: string | null;
+  customer_name: string | null;
+  account_manager_id: string | null;
+  account_manager_name: string | null;
+  oldest_days_past_due: number;
+  invoices?: ArAgingInvoice[];
+}
+
+export interface ArAgingRealm extends AgingTotals {
+  quickbooks_realm_id: string;
+  realm_name: string | null;
+}
+
+export interface ArAgingReport {
+  as_of: string;                    // YYYY-MM-DD
+  totals: AgingTotals;
+  realms: ArAgingRealm[];
+  contracts: ArAgingContract[];
+}
+
+// ============================================================================
+// Points reconciliation
+// ============================================================================
+
+export type ReconciliationStatus = 'ok' | 'over_billed' | 'under_billed' | 'no_allotment';
+
+export interface PointsReconciliationMonth {
+  month: string;                    // YYYY-MM
+  points_billed: number;            // invoice points (excluding void)
+  points_credited: number;          // credit memo points
+  points_net_billed: number;        // billed + credited
+  points_delivered: number;         // delivered task points (by date_done)
+  monthly_points_allotment: number | null; // in effect at month end
+  billing_variance: number | null;  // net billed - allotment
+  delivery_variance: number;        // net billed - delivered
+  status: ReconciliationStatus;
+}
+
+export interface PointsReconciliationContract {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  months: PointsReconciliationMonth[];
+  totals: {
+    points_net_billed: number;
+    points_delivered: number;
+    expected_points: number;        // sum of monthly allotments
+    billing_variance: number;
+    delivery_variance: number;
+  };
+  over_billed_months: number;
+  under_billed_months: number;
+}
+
+export type MemoExceptionReason = 'unparsed_memo' | 'low_confidence' | 'unmatched_contract' | 'missing_points';
+
+// An invoice or credit memo whose points can't be attributed to a contract
+export interface MemoException {
+  document_type: 'invoice' | 'credit_memo';
+  id: string;
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  doc_number: string | null;
+  customer_name: string | null;
+  transaction_date: string | null;
+  amount: number | null;
+  points: number | null;
+  contract_external_id: string | null;
+  contract_id: string | null;
+  memo_raw: string | null;
+  reason: MemoExceptionReason;
+}
+
+export interface PointsReconciliationReport {
+  from: string;                     // YYYY-MM
+  to: string;                       // YYYY-MM
+  contracts: PointsReconciliationContract[];
+  exceptions: MemoException[];
+  summary: {
+    contracts: number;
+    over_billed_months: number;
+    under_billed_months: number;
+    unparsed_memos: number;
+    low_confidence: number;
+    unmatched_contracts: number;
+    missing_points: number;
+    unattributed_points: number;    // points on documents with no contract
+  };
+}
+
+// ============================================================================
+// Memo triage
+// ============================================================================
+
+export type MemoDocumentType = 'invoice' | 'credit_memo';
+
+export const MEMO_DOCUMENT_TYPES: MemoDocumentType[] = ['invoice', 'credit_memo'];
+
+export type StoredMemoConfidence = 'exact' | 'high' | 'low' | 'none' | 'manual';
+
+// Manual contract assignment for a QuickBooks document (quickbooks_memo_assignments)
+export interface MemoAssignment {
+  assignment_id: string;
+  quickbooks_realm_id: string;
+  document_type: MemoDocumentType;
+  quickbooks_id: string;
+  contract_id: string | null;
+  contract_external_id: string | null;
+  points: number | null;
+  ignored: boolean;
+  note?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// An invoice or credit memo the sync couldn't link to a contract
+export interface MemoTriageItem {
+  document_type: MemoDocumentType;
+  id: string;
+  quickbooks_id: string;
+  quickbooks_realm_id: string;
+  doc_number: string | null;
+  customer_name: string | null;
+  transaction_date: string | null;
+  amount: number | null;
+  points: number | null;
+  memo_raw: string | null;
+  memo_confidence: StoredMemoConfidence | null;
+  parsed_contract_external_id: string | null;
+  suggested_contract: {
+    contract_id: string;
+    contract_name: string;
+    external_id: string;
+    contract_status: string;
+  } | null;
+  ignored: boolean;
+  note: string | null;
+}
+
+// ============================================================================
+// MRR / revenue series
+// ============================================================================
+
+export type MrrMovement = 'new' | 'expansion' | 'contraction' | 'churned' | 'flat';
+
+export interface MrrContractMonth {
+  month: string;                    // YYYY-MM
+  mrr: number;                      // in effect at month end
+  change: number;                   // vs previous month end
+  movement: MrrMovement | null;     // null = no MRR either month
+  recognized_revenue: number;       // invoiced - credited in the month
+}
+
+export interface MrrContractSeries {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  months: MrrContractMonth[];
+}
+
+export interface MrrMonth {
+  month: string;                    // YYYY-MM
+  starting_mrr: number;
+  new_mrr: number;
+  expansion_mrr: number;
+  contraction_mrr: number;          // positive amounts
+  churned_mrr: number;              // positive amounts
+  net_new_mrr: number;
+  ending_mrr: number;
+  arr: number;                      // ending_mrr * 12
+  net_revenue_retention: number | null;   // (start + expansion - contraction - churn) / start
+  gross_revenue_retention: number | null; // (start - contraction - churn) / start
+  active_contracts: number;
+  new_contracts: number;
+  churned_contracts: number;
+  invoiced: number;
+  credited: number;
+  recognized_revenue: number;       // invoiced - credited, linked to a contract
+  unlinked_revenue: number;         // invoiced - credited, no contract
+}
+
+export interface MrrReport {
+  from: string;                     // YYYY-MM
+  to: string;                       // YYYY-MM
+  months: MrrMonth[];
+  contracts?: MrrContractSeries[];
+  summary: {
+    starting_mrr: number;           // at the end of the month before `from`
+    ending_mrr: number;
+    arr: number;
+    net_new_mrr: number;
+    net_revenue_retention: number | null; // MRR at `to` from contracts live at the start / starting MRR
+    recognized_revenue: number;
+  };
+}
+
+// ============================================================================
+// Profitability
+// ============================================================================
+
+// Internal hourly cost of a ClickUp member from a date (team_cost_rates)
+export interface TeamCostRate {
+  rate_id: string;
+  clickup_user_id: string;
+  hourly_cost: number;
+  effective_from: string;           // YYYY-MM-DD
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfitabilityFigures {
+  hours: number;
+  billable_hours: number;
+  cost: number;                     // hours x member cost rate
+  revenue: number;                  // invoiced - credited
+  points_delivered: number;
+  effective_rate: number | null;    // revenue / hours
+  cost_per_point: number | null;    // cost / points delivered
+  margin: number;                   // revenue - cost
+  margin_pct: number | null;        // margin / revenue
+}
+
+export interface ProfitabilityMonth extends ProfitabilityFigures {
+  month: string;                    // YYYY-MM
+}
+
+// Revenue is allocated to categories by their share of delivered points
+export interface ProfitabilityCategory extends ProfitabilityFigures {
+  category: string;
+}
+
+export interface ContractProfitability extends ProfitabilityFigures {
+  contract_id: string;
+  contract_name: string;
+  external_id: string | null;
+  contract_status: string;
+  mrr: number | null;               // current terms
+  dollar_per_hour: number | null;   // contracted rate
+  rate_variance: number | null;     // effective_rate - dollar_per_hour
+  months: ProfitabilityMonth[];
+  categories: ProfitabilityCategory[];
+}
+
+export interface ProfitabilityReport {
+  from: string;                     // YYYY-MM
+  to: string;                       // YYYY-MM
+  default_cost_rate: number;
+  totals: ProfitabilityFigures;
+  months: ProfitabilityMonth[];
+  categories: ProfitabilityCategory[];
+  contracts: ContractProfitability[];
+  unattributed: {                   // time on tasks without a contract
+    hours: number;
+    cost: number;
+  };
+  members_without_rate: string[];   // ClickUp user IDs costed at the default rate
+}
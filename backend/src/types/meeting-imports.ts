@@ -0,0 +1,87 @@
+// Meeting auto-import types for meeting_import_rules and meeting_import_queue tables
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+// How a recorded meeting is matched to a contract:
+//   email_domain   a participant's email domain ('acme.com', subdomains included)
+//   title_keyword  case-insensitive substring of the meeting title
+//   calendar_tag   tag written in the calendar invite title as [TAG] or #TAG
+//                  (only the title: Fireflies doesn't return the invite body)
+export type MeetingImportRuleType = 'email_domain' | 'title_keyword' | 'calendar_tag';
+
+export const MEETING_IMPORT_RULE_TYPE_VALUES: MeetingImportRuleType[] = [
+  'email_domain',
+  'title_keyword',
+  'calendar_tag',
+];
+
+export function isValidMeetingImportRuleType(value: string): value is MeetingImportRuleType {
+  return MEETING_IMPORT_RULE_TYPE_VALUES.includes(value as MeetingImportRuleType);
+}
+
+export interface MeetingImportRule {
+  rule_id: string;
+  contract_id: string;
+  rule_type: MeetingImportRuleType;
+  value: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Review queue
+// ============================================================================
+
+export type MeetingImportQueueStatus = 'pending' | 'imported' | 'dismissed';
+
+export const MEETING_IMPORT_QUEUE_STATUS_VALUES: MeetingImportQueueStatus[] = ['pending', 'imported', 'dismissed'];
+
+export function isValidMeetingImportQueueStatus(value: string): value is MeetingImportQueueStatus {
+  return MEETING_IMPORT_QUEUE_STATUS_VALUES.includes(value as MeetingImportQueueStatus);
+}
+
+// unmatched: no rule matched; ambiguous: rules for more than one contract matched
+export type MeetingImportQueueReason = 'unmatched' | 'ambiguous';
+
+export interface MeetingImportQueueItem {
+  queue_id: string;
+  source: 'fireflies';
+  external_id: string;
+  title: string | null;
+  meeting_date: string | null;
+  duration_seconds: number | null;
+  participant_emails: string[] | null;
+  reason: MeetingImportQueueReason;
+  candidate_contract_ids: string[] | null;
+  status: MeetingImportQueueStatus;
+  meeting_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Importer run
+// ============================================================================
+
+export interface MeetingImportMatch {
+  contract_id: string;
+  rule_type: MeetingImportRuleType | 'account_domain';
+  value: string;
+}
+
+export interface FirefliesImportResult {
+  dry_run: boolean;
+  listed: number;
+  already_seen: number;           // imported before or already in the queue
+  internal_skipped: number;       // only internal participants, no rule matched
+  imported: number;
+  queued: number;
+  imports: Array<{ external_id: string; title: string; contract_id: string; matched_by: string }>;
+  errors: Array<{ external_id?: string; error: string }>;
+}
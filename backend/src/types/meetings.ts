@@ -77,6 +77,42 @@ export interface CreateMeetingFromFirefliesDTO {
   fireflies_id?: string; // Direct Fireflies meeting ID
 }
 
+// Transcript file formats accepted by POST /api/compass/meetings/upload
+export type TranscriptFileFormat = 'vtt' | 'srt' | 'docx' | 'txt';
+
+export const TRANSCRIPT_FILE_FORMATS: TranscriptFileFormat[] = ['vtt', 'srt', 'docx', 'txt'];
+
+// Format from the file extension; browsers send inconsistent MIME types for .vtt/.srt
+export function transcriptFileFormat(fileName: string): TranscriptFileFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  return TRANSCRIPT_FILE_FORMATS.includes(ext as TranscriptFileFormat)
+    ? (ext as TranscriptFileFormat)
+    : null;
+}
+
+// Multipart fields sent alongside the file on upload
+export interface UploadMeetingTranscriptDTO {
+  contract_id: string;
+  meeting_date: string; // ISO timestamp
+  title?: string; // defaults to the file name
+  participants?: string; // comma-separated; defaults to speakers in the transcript
+  recording_url?: string;
+}
+
+// For creating from a Zoom cloud recording
+export interface CreateMeetingFromZoomDTO {
+  contract_id: string;
+  zoom_url?: string; // Meeting join URL (https://zoom.us/j/123...)
+  zoom_meeting_id?: string; // Numeric meeting ID or a specific instance UUID
+}
+
+// For creating from an Otter conversation
+export interface CreateMeetingFromOtterDTO {
+  contract_id: string;
+  otter_url?: string; // URL to the Otter conversation
+  otter_id?: string; // Direct Otter conversation ID (otid)
+}
+
 // For updating an existing meeting
 export interface UpdateMeetingDTO {
   meeting_date?: string;
@@ -183,6 +219,42 @@ function isValidUrl(string: string): boolean {
   }
 }
 
+// Fireflies transcript listing entry (no sentences), used by the auto-importer
+export interface FirefliesTranscriptSummary {
+  id: string;
+  title: string;
+  date: string; // ISO
+  duration: number; // minutes
+  organizer_email: string | null;
+  participant_emails: string[]; // lowercased, participants + calendar attendees
+}
+
+// Zoom cloud recording with its transcript, mapped from the recordings API
+// and the recording's VTT transcript file
+export interface ZoomTranscript {
+  uuid: string; // Meeting instance UUID (unique per occurrence)
+  meeting_id: string; // Numeric meeting ID (shared by recurring occurrences)
+  topic: string;
+  start_time: string; // ISO
+  duration: number; // minutes
+  participants: string[]; // Speakers found in the transcript
+  segments: TranscriptSegment[];
+  has_transcript: boolean; // false while Zoom is still processing, or if transcription is off
+  share_url?: string;
+}
+
+// Otter conversation with its transcript, mapped from the speech API
+export interface OtterTranscript {
+  id: string; // otid
+  title: string;
+  date: string; // ISO
+  duration_seconds: number;
+  participants: string[];
+  segments: TranscriptSegment[];
+  summary?: string;
+  url: string;
+}
+
 // Helper to extract Fireflies ID from URL
 export function extractFirefliesId(urlOrId: string): string | null {
   // If it's already just an ID (no slashes or protocol)
@@ -208,3 +280,46 @@ export function extractFirefliesId(urlOrId: string): string | null {
     return null;
   }
 }
+
+// Helper to extract a Zoom meeting ID (or instance UUID) from a join URL
+export function extractZoomMeetingId(urlOrId: string): string | null {
+  const value = urlOrId.trim();
+
+  // Numeric ID as typed or copied from the Zoom client: "123 4567 8901"
+  const digits = value.replace(/[\s-]/g, '');
+  if (/^\d{9,12}$/.test(digits)) {
+    return digits;
+  }
+
+  // Instance UUIDs are base64 ("4444AAAiAAAAAiAiAiiAii==") and may contain "/"
+  if (!value.includes('://')) {
+    return value || null;
+  }
+
+  try {
+    const url = new URL(value);
+    // Join URLs look like: https://acme.zoom.us/j/12345678901?pwd=...
+    // or the web client: https://zoom.us/wc/12345678901/join
+    const match = url.pathname.match(/\/(?:j|s|w|wc)\/(\d{9,12})(?:\/|$)/);
+    // Recording share links (/rec/share/...) don't expose the meeting ID
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper to extract an Otter conversation ID from URL
+export function extractOtterId(urlOrId: string): string | null {
+  if (!urlOrId.includes('/') && !urlOrId.includes(':')) {
+    return urlOrId;
+  }
+
+  try {
+    const url = new URL(urlOrId);
+    // Otter URLs look like: https://otter.ai/u/<otid> or https://otter.ai/note/<otid>
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    return pathParts[pathParts.length - 1] || null;
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,7 @@
 // Types for compass_note_configs table
 
+import { isValidTimeOfDay, isValidTimeZone } from '../utils/scheduling.js';
+
 export type AutoNoteType = 'strategy' | 'abm' | 'paid' | 'content' | 'web';
 
 export const AUTO_NOTE_TYPE_VALUES: AutoNoteType[] = ['strategy', 'abm', 'paid', 'content', 'web'];
@@ -65,8 +67,13 @@ export function validateNoteConfigData(data: Record<string, unknown>): string[]
   }
 
   const generateTime = data.generate_time as string | undefined;
-  if (generateTime !== undefined && !/^\d{2}:\d{2}$/.test(generateTime)) {
-    errors.push('Invalid generate_time format. Expected HH:MM');
+  if (generateTime !== undefined && (typeof generateTime !== 'string' || !isValidTimeOfDay(generateTime))) {
+    errors.push('Invalid generate_time. Expected HH:MM (00:00-23:59)');
+  }
+
+  const timezone = data.timezone as string | undefined;
+  if (timezone !== undefined && !isValidTimeZone(timezone)) {
+    errors.push(`Invalid timezone: ${timezone}. Expected an IANA timezone (e.g. America/New_York)`);
   }
 
   const lookbackDays = data.lookback_days as number | undefined;
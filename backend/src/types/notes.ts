@@ -16,10 +16,95 @@ export function isValidNoteStatus(value: string): value is NoteStatus {
 
 // Action item structure for meeting notes
 export interface ActionItem {
+  id?: string; // stable id, derived until first saved (push / bulk update)
   item: string;
   assignee?: string;
   due?: string; // ISO date string
   completed?: boolean;
+  completed_at?: string; // set when the linked ClickUp task closes
+  clickup_task_id?: string; // set once pushed to the contract's ToDos list
+  clickup_task_url?: string;
+}
+
+// Push selected action items to ClickUp
+// POST /api/compass/notes/:id/action-items/push
+export interface PushActionItemsDTO {
+  items: Array<{
+    id: string;
+    name?: string; // task name override; defaults to the item text
+    assignee_clickup_id?: string; // pulse_clickup_users.id; defaults to the matched assignee
+    due?: string; // ISO date; defaults to the item's due date
+  }>;
+}
+
+export interface ActionItemPushResult {
+  id: string;
+  outcome: 'created' | 'already_pushed' | 'not_found' | 'failed';
+  clickup_task_id?: string;
+  clickup_task_url?: string;
+  assignee_clickup_id?: string | null;
+  error?: string;
+}
+
+// ============================================================================
+// Cross-note action item tracker (GET/PATCH /api/compass/action-items)
+// ============================================================================
+
+// open: not completed; overdue: open and due before today
+export type ActionItemStatusFilter = 'open' | 'overdue' | 'completed' | 'all';
+
+export const ACTION_ITEM_STATUS_FILTER_VALUES: ActionItemStatusFilter[] = ['open', 'overdue', 'completed', 'all'];
+
+export function isValidActionItemStatusFilter(value: string): value is ActionItemStatusFilter {
+  return ACTION_ITEM_STATUS_FILTER_VALUES.includes(value as ActionItemStatusFilter);
+}
+
+export interface ActionItemQuery {
+  contract_id?: string;
+  assignee?: string; // ClickUp user id, or case-insensitive match on the assignee text
+  status?: ActionItemStatusFilter; // default 'open'
+  due_from?: string; // YYYY-MM-DD, inclusive
+  due_to?: string; // YYYY-MM-DD, inclusive
+}
+
+// One action item with its note and contract, flattened for the tracker
+export interface ActionItemRow extends ActionItem {
+  id: string;
+  note_id: string;
+  note_title: string;
+  note_date: string;
+  meeting_id: string | null;
+  contract_id: string;
+  contract_name: string;
+  assignee_clickup_id: string | null; // ClickUp task assignee, else the matched assignee text
+  overdue: boolean;
+}
+
+// PATCH /api/compass/action-items
+export interface BulkUpdateActionItemsDTO {
+  items: Array<{
+    note_id: string;
+    id: string;
+    completed?: boolean;
+    assignee?: string | null;
+    due?: string | null;
+  }>;
+}
+
+// Link between an action item and its ClickUp task (compass_action_item_tasks table)
+export interface ActionItemTaskLink {
+  link_id: string;
+  note_id: string;
+  contract_id: string;
+  item_id: string;
+  clickup_task_id: string;
+  clickup_task_url: string | null;
+  assignee_clickup_id: string | null;
+  pushed_by: string | null;
+  pushed_at: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // Database record
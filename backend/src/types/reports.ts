@@ -1,8 +1,11 @@
 // Management report types for pulse_management_reports table
 
+import type { ContractHealthSummary, HealthStatus } from './contract-health.js';
+
 export type ReportType = 'weekly' | 'monthly' | 'quarterly';
 export type ReportStatus = 'generating' | 'completed' | 'failed';
 export type ReportTrigger = 'manual' | 'scheduled';
+export type ReportGranularity = 'week' | 'month' | 'quarter';
 
 export const REPORT_TYPE_VALUES: ReportType[] = ['weekly', 'monthly', 'quarterly'];
 export const REPORT_STATUS_VALUES: ReportStatus[] = ['generating', 'completed', 'failed'];
@@ -20,11 +23,47 @@ export function isValidReportTrigger(value: string): value is ReportTrigger {
   return REPORT_TRIGGER_VALUES.includes(value as ReportTrigger);
 }
 
-// Summary counts for the whole report
+// Meeting counts by sentiment label
+export interface ReportSentimentMix {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+// Change against the period before (current minus previous)
+export interface ReportComparison {
+  previous_period_start: string;
+  previous_period_end: string;
+  on_track_change: number;  // contracts with points burden <= 0 at period end
+  healthy_change: number;   // health score statuses
+  at_risk_change: number;
+  critical_change: number;
+  average_health_score_change: number | null;
+  previous_points_delivered: number;
+  points_delivered_change: number;
+  points_delivered_change_pct: number | null; // null when the previous period delivered nothing
+  previous_sentiment: ReportSentimentMix;
+  sentiment_change: ReportSentimentMix;
+}
+
+// Summary counts for the whole report (by contract health status). The
+// health counts are absent on reports generated before health scores.
 export interface ReportSummary {
   total_contracts: number;
-  on_track: number;
-  off_track: number;
+  healthy?: number;
+  at_risk?: number;
+  critical?: number;
+  unscored?: number;
+  average_health_score?: number | null;
+  // Totals for the report period; absent on reports generated before period types
+  granularity?: ReportGranularity;
+  points_delivered?: number;
+  sentiment?: ReportSentimentMix;
+  comparison?: ReportComparison;
+  // Points burden <= 0 at period end (the binary label reports used before
+  // health scores); absent on the first health-score reports
+  on_track?: number;
+  off_track?: number;
 }
 
 // Financial snapshot from contract_performance_view
@@ -39,7 +78,7 @@ export interface ContractFinancials {
   points_burden: number | null;
 }
 
-// Single meeting entry within 90-day window
+// Single meeting entry within the report period
 export interface ReportMeetingEntry {
   meeting_id: string;
   meeting_date: string;
@@ -49,7 +88,9 @@ export interface ReportMeetingEntry {
   bullets: string[];
 }
 
-// Weekly point production bucket (13 weeks over 90 days)
+// Point production bucket at the report's granularity (summary.granularity),
+// ending with the period. Reports generated before period types always used
+// 13 weekly buckets, hence the field names.
 export interface PointProductionWeek {
   week_start: string; // YYYY-MM-DD
   week_end: string;   // YYYY-MM-DD
@@ -62,12 +103,15 @@ export interface ReportContractSnapshot {
   contract_name: string;
   contract_number: string | null;
   priority: string | null;
-  delivery_status: string | null;
+  delivery_status: HealthStatus | string | null; // health status; 'on-track'/'off-track' in older reports
+  health: ContractHealthSummary | null;
   account_manager_name: string | null;
   team_manager_name: string | null;
   financials: ContractFinancials;
   engagement_type: 'strategic' | 'tactical' | null;
   last_plan_date: string | null;
+  // Keys kept from when every report covered 90 days; they now hold the
+  // report period (meetings) and its buckets plus the comparison period's
   meetings_90d: ReportMeetingEntry[];
   point_production_90d: PointProductionWeek[];
 }
@@ -132,6 +132,48 @@ export async function select<T = unknown>(
   return data;
 }
 
+/**
+ * SELECT every matching row, paging past the 1000-row response cap.
+ * Pages are ordered by keyColumn (must be unique) and de-duplicated on it, so
+ * a proxy that ignores offset stops the loop instead of repeating page one.
+ */
+export async function selectAll<T extends object>(
+  table: string,
+  keyColumn: string,
+  options?: {
+    select?: string;
+    filters?: Filters;
+  },
+  pageSize = 1000
+): Promise<T[]> {
+  const all: T[] = [];
+  const seen = new Set<string>();
+
+  for (let page = 0; page < 500; page++) {
+    const rows = (await select<T[]>(table, {
+      select: options?.select,
+      filters: options?.filters,
+      order: [{ column: keyColumn, ascending: true }],
+      limit: pageSize,
+      offset: page * pageSize,
+    })) || [];
+
+    let added = 0;
+    for (const row of rows) {
+      const key = String((row as Record<string, unknown>)[keyColumn]);
+      if (!seen.has(key)) {
+        seen.add(key);
+        all.push(row);
+        added++;
+      }
+    }
+
+    if (rows.length < pageSize || added === 0) break;
+  }
+
+  return all;
+}
+
 /**
  * INSERT query
  */
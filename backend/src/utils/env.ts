@@ -0,0 +1,19 @@
+/**
+ * Environment variable parsing for config modules
+ */
+
+/**
+ * Positive integer from an env var, or the fallback when unset or invalid
+ */
+export function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Positive number from an env var, or the fallback when unset or invalid
+ */
+export function parseFloatEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
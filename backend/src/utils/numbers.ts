@@ -0,0 +1,10 @@
+/**
+ * Numeric helpers for money and point figures
+ */
+
+/**
+ * Round to cents (or hundredths of a point) for display and storage
+ */
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextRunAt, zonedTimeToUtc, isValidTimeOfDay, type Schedule } from './scheduling.js';
+
+const NY = 'America/New_York';
+
+function weekly(dayOfWeek: number, time: string, timezone = NY): Schedule {
+  return { cadence: 'weekly', dayOfWeek, time, timezone };
+}
+
+function iso(date: Date): string {
+  return date.toISOString();
+}
+
+describe('zonedTimeToUtc', () => {
+  it('keeps the wall clock time across DST', () => {
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 7, day: 6, hours: 9, minutes: 0 }, NY)), '2026-07-06T13:00:00.000Z');
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 1, day: 5, hours: 9, minutes: 0 }, NY)), '2026-01-05T14:00:00.000Z');
+  });
+
+  it('moves a time in the spring-forward gap past the gap', () => {
+    // 2026-03-08: 02:00 EST jumps to 03:00 EDT, so 02:30 doesn't exist
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 3, day: 8, hours: 2, minutes: 30 }, NY)), '2026-03-08T07:30:00.000Z');
+  });
+
+  it('uses the first occurrence of a time in the fall-back overlap', () => {
+    // 2026-11-01: 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 11, day: 1, hours: 1, minutes: 30 }, NY)), '2026-11-01T05:30:00.000Z');
+  });
+
+  it('handles zones without DST and southern-hemisphere DST', () => {
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 7, day: 6, hours: 9, minutes: 0 }, 'America/Phoenix')), '2026-07-06T16:00:00.000Z');
+    // Sydney is on AEDT (+11) in January and AEST (+10) in July
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 1, day: 5, hours: 9, minutes: 0 }, 'Australia/Sydney')), '2026-01-04T22:00:00.000Z');
+    assert.equal(iso(zonedTimeToUtc({ year: 2026, month: 7, day: 6, hours: 9, minutes: 0 }, 'Australia/Sydney')), '2026-07-05T23:00:00.000Z');
+  });
+});
+
+describe('nextRunAt', () => {
+  it('steps across spring forward at the same local time', () => {
+    // Monday 09:00 NY: Mar 2 is EST, Mar 9 is EDT
+    const first = nextRunAt(weekly(1, '09:00'), new Date('2026-03-01T12:00:00Z'));
+    assert.equal(iso(first), '2026-03-02T14:00:00.000Z');
+    assert.equal(iso(nextRunAt(weekly(1, '09:00'), first)), '2026-03-09T13:00:00.000Z');
+  });
+
+  it('steps across fall back at the same local time', () => {
+    // Monday 09:00 NY: Oct 26 is EDT, Nov 2 is EST
+    const first = nextRunAt(weekly(1, '09:00'), new Date('2026-10-25T12:00:00Z'));
+    assert.equal(iso(first), '2026-10-26T13:00:00.000Z');
+    assert.equal(iso(nextRunAt(weekly(1, '09:00'), first)), '2026-11-02T14:00:00.000Z');
+  });
+
+  it('runs a schedule inside the gap once, after the gap', () => {
+    // Sunday 02:30 on the spring-forward day
+    const run = nextRunAt(weekly(0, '02:30'), new Date('2026-03-07T12:00:00Z'));
+    assert.equal(iso(run), '2026-03-08T07:30:00.000Z');
+    assert.equal(iso(nextRunAt(weekly(0, '02:30'), run)), '2026-03-15T06:30:00.000Z');
+  });
+
+  it('runs a schedule inside the overlap once, on the first occurrence', () => {
+    // Sunday 01:30 on the fall-back day
+    const run = nextRunAt(weekly(0, '01:30'), new Date('2026-10-31T12:00:00Z'));
+    assert.equal(iso(run), '2026-11-01T05:30:00.000Z');
+    assert.equal(iso(nextRunAt(weekly(0, '01:30'), run)), '2026-11-08T06:30:00.000Z');
+  });
+
+  it('uses the local date, not the UTC date', () => {
+    // 2026-03-03T03:00Z is still Monday evening in New York
+    const run = nextRunAt(weekly(1, '22:00'), new Date('2026-03-03T02:00:00Z'));
+    assert.equal(iso(run), '2026-03-03T03:00:00.000Z');
+  });
+
+  it('clamps monthly day 31 to the end of shorter months', () => {
+    const schedule: Schedule = { cadence: 'monthly', dayOfMonth: 31, time: '09:00', timezone: NY };
+    assert.equal(iso(nextRunAt(schedule, new Date('2026-02-01T00:00:00Z'))), '2026-02-28T14:00:00.000Z');
+    assert.equal(iso(nextRunAt(schedule, new Date('2026-03-31T14:00:00Z'))), '2026-04-30T13:00:00.000Z');
+  });
+
+  it('falls back to the default timezone for unknown zones', () => {
+    const run = nextRunAt(weekly(1, '09:00', 'Mars/Olympus'), new Date('2026-07-05T12:00:00Z'));
+    assert.equal(iso(run), '2026-07-06T13:00:00.000Z');
+  });
+
+  it('rejects impossible times', () => {
+    assert.throws(() => nextRunAt(weekly(1, '25:99'), new Date('2026-07-05T12:00:00Z')));
+  });
+});
+
+describe('isValidTimeOfDay', () => {
+  it('accepts HH:MM and HH:MM:SS within a day', () => {
+    assert.equal(isValidTimeOfDay('00:00'), true);
+    assert.equal(isValidTimeOfDay('23:59:59'), true);
+    assert.equal(isValidTimeOfDay('25:99'), false);
+    assert.equal(isValidTimeOfDay('9:00'), false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Cadence scheduling in IANA timezones.
+ *
+ * Every config that runs "on <day> at <time> in <timezone>" (client status
+ * reports, strategy note configs) computes next_run_at here, so the wall
+ * clock time holds across DST changes: a 09:00 America/New_York send is
+ * 13:00 UTC in summer and 14:00 UTC in winter.
+ *
+ * Rules:
+ * - Times that don't exist on a spring-forward day (02:30 when clocks jump
+ *   02:00 → 03:00) run at the same offset past the gap (03:30).
+ * - Times that happen twice on a fall-back day run on the first occurrence.
+ * - Monthly day_of_month 29-31 runs on the last day of shorter months.
+ * - Unknown timezones fall back to DEFAULT_TIMEZONE (logged), so a bad row
+ *   still gets a next run instead of firing on every cron tick.
+ */
+
+export type ScheduleCadence = 'weekly' | 'monthly';
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface Schedule {
+  cadence: ScheduleCadence;
+  dayOfWeek?: number | null;   // 0=Sunday ... 6=Saturday, weekly
+  dayOfMonth?: number | null;  // 1-31, monthly
+  time: string;                // local HH:MM or HH:MM:SS
+  timezone: string;            // IANA, e.g. 'America/Chicago'
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+
+export function isValidTimeOfDay(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+export function isValidTimeZone(value: string): boolean {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First run strictly after `after` (default now).
+ */
+export function nextRunAt(schedule: Schedule, after: Date = new Date()): Date {
+  const timezone = isValidTimeZone(schedule.timezone) ? schedule.timezone : DEFAULT_TIMEZONE;
+  if (timezone !== schedule.timezone) {
+    console.warn(`[Scheduling] Unknown timezone "${schedule.timezone}", using ${DEFAULT_TIMEZONE}`);
+  }
+
+  const match = TIME_PATTERN.exec(schedule.time);
+  if (!match) {
+    throw new Error(`Invalid schedule time "${schedule.time}", expected HH:MM`);
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+
+  // Walk forward over local calendar dates from the local date of `after`
+  const today = localParts(after, timezone);
+
+  if (schedule.cadence === 'weekly') {
+    const dayOfWeek = schedule.dayOfWeek;
+    if (dayOfWeek === null || dayOfWeek === undefined || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new Error('Weekly schedules need day_of_week 0-6');
+    }
+    for (let offset = 0; offset <= 7; offset++) {
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+      if (date.getUTCDay() !== dayOfWeek) continue;
+      const run = zonedTimeToUtc(
+        { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hours, minutes },
+        timezone
+      );
+      if (run > after) return run;
+    }
+  } else {
+    const dayOfMonth = schedule.dayOfMonth;
+    if (dayOfMonth === null || dayOfMonth === undefined || dayOfMonth < 1 || dayOfMonth > 31) {
+      throw new Error('Monthly schedules need day_of_month 1-31');
+    }
+    for (let offset = 0; offset <= 1; offset++) {
+      const monthStart = new Date(Date.UTC(today.year, today.month - 1 + offset, 1));
+      const year = monthStart.getUTCFullYear();
+      const month = monthStart.getUTCMonth() + 1;
+      const day = Math.min(dayOfMonth, daysInMonth(year, month));
+      const run = zonedTimeToUtc({ year, month, day, hours, minutes }, timezone);
+      if (run > after) return run;
+    }
+  }
+
+  // Unreachable for valid schedules: a week (or two months) always has a match
+  throw new Error('Could not compute next run');
+}
+
+// ============================================================================
+// Timezone conversion
+// ============================================================================
+
+interface WallTime {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Instant at which the wall clock in `timezone` reads the given local time.
+ */
+export function zonedTimeToUtc(local: WallTime, timezone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hours, local.minutes);
+
+  // The offset can differ either side of a transition, so try both the
+  // offset at the naive instant and the offset at the first guess
+  const firstOffset = offsetMs(new Date(asUtc), timezone);
+  const first = asUtc - firstOffset;
+  const secondOffset = offsetMs(new Date(first), timezone);
+  const second = asUtc - secondOffset;
+
+  const candidates = Array.from(new Set([first, second]));
+  const exact = candidates.filter((t) => sameWallTime(localParts(new Date(t), timezone), local));
+  if (exact.length > 0) {
+    // Fall-back overlap: earliest occurrence
+    return new Date(Math.min(...exact));
+  }
+  // Spring-forward gap: the candidate past the gap
+  return new Date(Math.max(...candidates));
+}
+
+/**
+ * Offset of `timezone` from UTC at `instant`, in ms (negative west of UTC).
+ */
+function offsetMs(instant: Date, timezone: string): number {
+  const p = localParts(instant, timezone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes, p.seconds);
+  return wallAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+function localParts(instant: Date, timezone: string): WallTime & { seconds: number } {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+}
+
+function sameWallTime(a: WallTime, b: WallTime): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day &&
+    a.hours === b.hours && a.minutes === b.minutes;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
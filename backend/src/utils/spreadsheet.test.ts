@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv, isFormulaLike } from './spreadsheet.js';
+
+describe('parseCsv', () => {
+  it('numbers data rows as the file does, header first and blank lines included', () => {
+    const sheet = parseCsv('contract_name;amount\nAcme;100\n\nGlobex;200\n');
+    assert.deepEqual(sheet.rows, [
+      { contract_name: 'Acme', amount: '100' },
+      { contract_name: 'Globex', amount: '200' },
+    ]);
+    assert.deepEqual(sheet.rowNumbers, [2, 4]);
+  });
+});
+
+describe('formula injection', () => {
+  it('flags text a spreadsheet would evaluate, not signed numbers', () => {
+    assert.equal(isFormulaLike('=HYPERLINK("http://x")'), true);
+    assert.equal(isFormulaLike('+1 555 0100'), true);
+    assert.equal(isFormulaLike('@SUM(A1)'), true);
+    assert.equal(isFormulaLike('-2+3'), true);
+    assert.equal(isFormulaLike('-30'), false);
+    assert.equal(isFormulaLike('1,200.50'), false);
+    assert.equal(isFormulaLike('Acme - Hosting'), false);
+  });
+
+  it('writes formula-like text as text in CSV', () => {
+    assert.equal(toCsv(['name', 'notice'], [['=1+1', -30]]), "name,notice\r\n'=1+1,-30\r\n");
+  });
+});
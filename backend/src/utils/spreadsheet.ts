@@ -0,0 +1,227 @@
+/**
+ * Tabular file parsing and writing (CSV / XLSX).
+ *
+ * Parsing: both formats come back as a header row plus one record per data
+ * row, keyed by header, with every value as a trimmed string ('' for empty
+ * cells). XLSX dates are returned as YYYY-MM-DD so they read the same as a
+ * CSV export.
+ *
+ * Writing: toCsv / buildXlsx take headers plus rows of raw values. Text that
+ * a spreadsheet would run as a formula (=, +, -, @) is written with a leading
+ * apostrophe so it opens as text.
+ */
+import ExcelJS from 'exceljs';
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+  // Row in the file for each entry in rows, as a spreadsheet app shows it
+  // (header is row 1; blank lines still count)
+  rowNumbers: number[];
+}
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: unknown[][];
+}
+
+/**
+ * Parse CSV text. The delimiter (comma, semicolon or tab) is sniffed from the
+ * header line — Supabase table exports use semicolons. Quoted fields may
+ * contain delimiters, doubled quotes and newlines.
+ */
+export function parseCsv(text: string): ParsedSheet {
+  // Strip UTF-8 BOM (Excel "CSV UTF-8" saves one)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = sniffDelimiter(input);
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return toSheet(records);
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export async function parseXlsx(buffer: Buffer): Promise<ParsedSheet> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, narrower than Node's Buffer<ArrayBufferLike>
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [], rowNumbers: [] };
+
+  const records: string[][] = [];
+  const recordNumbers: number[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    // Cell indexes are 1-based
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(cellToString(row.getCell(col).value));
+    }
+    records.push(values);
+    recordNumbers.push(row.number);
+  });
+
+  return toSheet(records, recordNumbers);
+}
+
+function sniffDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n/) >= 0 ? text.search(/\r?\n/) : text.length);
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * recordNumbers: file row of each record (defaults to its 1-based position)
+ */
+function toSheet(records: string[][], recordNumbers?: number[]): ParsedSheet {
+  const nonEmpty = records
+    .map((values, i) => ({ values, number: recordNumbers?.[i] ?? i + 1 }))
+    .filter((r) => r.values.some((v) => v.trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [], rowNumbers: [] };
+
+  const headers = nonEmpty[0].values.map((h) => h.trim());
+  const dataRecords = nonEmpty.slice(1);
+  const rows = dataRecords.map(({ values }) => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      if (header) row[header] = (values[i] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { headers: headers.filter(Boolean), rows, rowNumbers: dataRecords.map((r) => r.number) };
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((r) => r.text).join('');
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    if ('error' in value) return '';
+    return '';
+  }
+  return String(value).trim();
+}
+
+// ============================================================================
+// Formula injection
+// ============================================================================
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d[\d,]*(\.\d+)?$/;
+
+/**
+ * Whether a text value would be run as a formula when opened in a
+ * spreadsheet. Plain signed numbers ("-30") are not.
+ */
+export function isFormulaLike(value: string): boolean {
+  return FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value.trim());
+}
+
+function neutralizeFormula(value: string): string {
+  return isFormulaLike(value) ? `'${value}` : value;
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function csvEscape(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = value instanceof Date ? value.toISOString() : neutralizeFormula(String(value));
+  if (/[",\n\r]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Comma-separated, CRLF line endings, RFC 4180 quoting
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((values) => values.map(csvEscape).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One worksheet per entry, bold frozen header row, columns sized to content
+ */
+export async function buildXlsx(sheets: SheetData[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+
+  for (const data of sheets) {
+    // Excel sheet names: max 31 chars, no []:*?/\
+    const sheet = workbook.addWorksheet(data.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+    sheet.addRow(data.headers);
+    for (const row of data.rows) {
+      sheet.addRow(row.map((v) => (v === null || v === undefined ? null : typeof v === 'string' ? neutralizeFormula(v) : v)));
+    }
+
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    data.headers.forEach((header, i) => {
+      const longest = Math.max(
+        header.length,
+        ...data.rows.slice(0, 200).map((r) => (r[i] === null || r[i] === undefined ? 0 : String(r[i]).length))
+      );
+      sheet.getColumn(i + 1).width = Math.min(60, Math.max(10, longest + 2));
+    });
+  }
+
+  const out = await workbook.xlsx.writeBuffer();
+  return Buffer.from(out as ArrayBuffer);
+}
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseVttTranscript,
+  parseSrtTranscript,
+  parsePlainTranscript,
+  parseTranscriptFile,
+  transcriptSpeakers,
+} from './transcript.js';
+
+describe('parseVttTranscript', () => {
+  it('reads Zoom "Name: text" cues', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:04.500',
+      'Jane Doe: Thanks for joining.',
+      '',
+      '2',
+      '00:00:05.000 --> 00:00:07.000',
+      'Dr. Raj Patel: Happy to be here.',
+      '',
+    ].join('\n');
+    assert.deepEqual(parseVttTranscript(vtt), [
+      { speaker: 'Jane Doe', text: 'Thanks for joining.', start_time: 1, end_time: 4.5 },
+      { speaker: 'Dr. Raj Patel', text: 'Happy to be here.', start_time: 5, end_time: 7 },
+    ]);
+  });
+
+  it('reads Teams <v Name> voice tags and drops NOTE blocks', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE exported from Teams',
+      '',
+      '00:00:01.000 --> 00:00:02.000',
+      '<v Jean-Luc van der Berg>Morning all.</v>',
+      '',
+    ].join('\n');
+    assert.deepEqual(parseVttTranscript(vtt), [
+      { speaker: 'Jean-Luc van der Berg', text: 'Morning all.', start_time: 1, end_time: 2 },
+    ]);
+  });
+
+  it('keeps labels that are not names in the text', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      'Note: the budget is due Friday.',
+      '',
+      '00:00:03.000 --> 00:00:05.000',
+      'Action items: send the deck.',
+      '',
+      '00:00:05.000 --> 00:00:07.000',
+      'So the plan is: ship it.',
+      '',
+    ].join('\n');
+    const segments = parseVttTranscript(vtt);
+    assert.deepEqual(segments.map((s) => s.speaker), [undefined, undefined, undefined]);
+    assert.equal(segments[1].text, 'Action items: send the deck.');
+  });
+});
+
+describe('parseSrtTranscript', () => {
+  it('reads comma decimal timestamps and speaker prefixes', () => {
+    const srt = [
+      '1',
+      '00:00:01,250 --> 00:00:03,000',
+      'Speaker 1: Can everyone hear me?',
+      '',
+      '2',
+      '00:00:03,500 --> 00:00:05,000',
+      'Yes, loud and clear.',
+      '',
+    ].join('\r\n');
+    assert.deepEqual(parseSrtTranscript(srt), [
+      { speaker: 'Speaker 1', text: 'Can everyone hear me?', start_time: 1.25, end_time: 3 },
+      { text: 'Yes, loud and clear.', start_time: 3.5, end_time: 5 },
+    ]);
+  });
+});
+
+describe('parsePlainTranscript', () => {
+  it('reads Otter "Name  0:03" headers', () => {
+    const txt = 'Jane Doe  0:03\nLet us start.\nWith the roadmap.\n\nRaj Patel  1:15\nSounds good.\n';
+    assert.deepEqual(parsePlainTranscript(txt), [
+      { speaker: 'Jane Doe', text: 'Let us start. With the roadmap.', start_time: 3 },
+      { speaker: 'Raj Patel', text: 'Sounds good.', start_time: 75 },
+    ]);
+  });
+
+  it('reads Meet "[00:01:23] Name: text" lines', () => {
+    const txt = '[00:01:23] Jane Doe: First point.\n[00:01:30] Raj Patel: Second point.\n';
+    assert.deepEqual(parsePlainTranscript(txt), [
+      { speaker: 'Jane Doe', text: 'First point.', start_time: 83 },
+      { speaker: 'Raj Patel', text: 'Second point.', start_time: 90 },
+    ]);
+  });
+
+  it('carries non-name labels on as the previous speaker\'s text', () => {
+    const txt = [
+      'Jane Doe: Here is where we landed.',
+      'Note: pricing is still open.',
+      'Action items: Raj to send the deck.',
+      'Next steps: review on Friday.',
+    ].join('\n');
+    const segments = parsePlainTranscript(txt);
+    assert.deepEqual(transcriptSpeakers(segments), ['Jane Doe']);
+    assert.equal(segments.length, 1);
+    assert.match(segments[0].text, /Action items: Raj to send the deck\./);
+  });
+
+  it('reads DOCX text, where paragraphs come out separated by blank lines', () => {
+    // Layout of a Teams .docx transcript after mammoth's raw text extraction
+    const docxText = 'Jane Doe   0:03\n\nWelcome everyone.\n\nRaj Patel   0:10\n\nThanks, Jane.\n\n';
+    assert.deepEqual(parsePlainTranscript(docxText), [
+      { speaker: 'Jane Doe', text: 'Welcome everyone.', start_time: 3 },
+      { speaker: 'Raj Patel', text: 'Thanks, Jane.', start_time: 10 },
+    ]);
+  });
+});
+
+describe('parseTranscriptFile', () => {
+  it('dispatches text formats by file format', async () => {
+    const segments = await parseTranscriptFile('txt', Buffer.from('\uFEFFJane Doe: Hello.\r\n'));
+    assert.deepEqual(segments, [{ speaker: 'Jane Doe', text: 'Hello.' }]);
+  });
+});
@@ -1,3 +1,6 @@
+import mammoth from 'mammoth';
+import type { TranscriptFileFormat, TranscriptSegment } from '../types/meetings.js';
+
 /**
  * Transcript text extraction for RAG ingestion.
  *
@@ -30,3 +33,203 @@ export function extractTranscriptText(transcript: unknown): string {
 
   return '';
 }
+
+/**
+ * Parse an uploaded transcript file by format. DOCX text is extracted first
+ * and then read like a .txt export.
+ */
+export async function parseTranscriptFile(
+  format: TranscriptFileFormat,
+  buffer: Buffer
+): Promise<TranscriptSegment[]> {
+  switch (format) {
+    case 'vtt':
+      return parseVttTranscript(buffer.toString('utf8'));
+    case 'srt':
+      return parseSrtTranscript(buffer.toString('utf8'));
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return parsePlainTranscript(value);
+    }
+    case 'txt':
+      return parsePlainTranscript(buffer.toString('utf8'));
+  }
+}
+
+/**
+ * Parse a WebVTT transcript (Zoom cloud recording transcripts, Teams/Meet
+ * exports) into speaker-tagged segments.
+ *
+ * Speakers are read from a "Name: text" prefix (Zoom) or a <v Name> voice
+ * tag; a prefix only counts when it reads like a name, so "Note: ..." stays
+ * in the text. Cue identifiers, NOTE/STYLE blocks and inline tags are dropped.
+ */
+export function parseVttTranscript(vtt: string): TranscriptSegment[] {
+  return parseCues(vtt);
+}
+
+/**
+ * Parse a SubRip (.srt) transcript. Same cue structure as VTT with comma
+ * decimal timestamps; speakers come from a "Name: text" prefix.
+ */
+export function parseSrtTranscript(srt: string): TranscriptSegment[] {
+  return parseCues(srt);
+}
+
+function parseCues(input: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = normalizeText(input).split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((l) => l.trim() !== '');
+    const timingIndex = lines.findIndex((l) => l.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    const start_time = parseTimestamp(startRaw);
+    const end_time = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+
+    let speaker: string | undefined;
+    let text = lines.slice(timingIndex + 1).join(' ');
+
+    const voice = text.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+    if (voice) {
+      speaker = voice[1].trim();
+    }
+    text = text.replace(/<[^>]+>/g, '').trim();
+
+    if (!speaker) {
+      const prefixed = text.match(/^([^:]{1,60}):\s+(.+)$/);
+      if (prefixed && isSpeakerName(prefixed[1])) {
+        speaker = prefixed[1].trim();
+        text = prefixed[2].trim();
+      }
+    }
+
+    if (!text) continue;
+
+    segments.push({
+      ...(speaker ? { speaker } : {}),
+      text,
+      ...(start_time !== null ? { start_time } : {}),
+      ...(end_time !== null ? { end_time } : {}),
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a plain-text transcript (.txt, or text extracted from .docx).
+ *
+ * Handles the common export layouts:
+ *   - Otter / Teams:  "Jane Doe  0:03" header line, then the text
+ *   - Meet / Zoom:    "[00:01:23] Jane Doe: text" or "Jane Doe: text" per line
+ * Lines that match neither, including "Label: text" lines whose label isn't
+ * name-like, carry on the previous speaker's segment.
+ */
+export function parsePlainTranscript(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const rawLine of normalizeText(text).split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const header = line.match(/^(.{1,60}?)\s{2,}\(?(\d{1,2}:\d{2}(?::\d{2})?)\)?$/)
+      || line.match(/^(.{1,60}?)\s+\((\d{1,2}:\d{2}(?::\d{2})?)\)$/);
+    if (header) {
+      const start = parseTimestamp(header[2]);
+      segments.push({ speaker: header[1].trim(), text: '', ...(start !== null ? { start_time: start } : {}) });
+      continue;
+    }
+
+    const tagged = line.match(/^(?:\[?(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?)\]?\s+)?([^:[\]]{1,60}):\s+(.+)$/);
+    if (tagged && isSpeakerName(tagged[2])) {
+      const start = tagged[1] ? parseTimestamp(tagged[1]) : null;
+      segments.push({
+        speaker: tagged[2].trim(),
+        text: tagged[3].trim(),
+        ...(start !== null ? { start_time: start } : {}),
+      });
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    if (last) {
+      last.text = last.text ? `${last.text} ${line}` : line;
+    } else {
+      segments.push({ text: line });
+    }
+  }
+
+  // Headers with nothing under them
+  return segments.filter((s) => s.text);
+}
+
+/**
+ * Duration in whole seconds from the last cue's end (or start) time, or null
+ * when the transcript has no timestamps.
+ */
+export function transcriptDurationSeconds(segments: TranscriptSegment[]): number | null {
+  let max: number | null = null;
+  for (const s of segments) {
+    const t = s.end_time ?? s.start_time;
+    if (t !== undefined && (max === null || t > max)) max = t;
+  }
+  return max === null ? null : Math.round(max);
+}
+
+/**
+ * Unique speaker names in order of first appearance
+ */
+export function transcriptSpeakers(segments: TranscriptSegment[]): string[] {
+  const speakers = new Set<string>();
+  for (const s of segments) {
+    if (s.speaker) speakers.add(s.speaker);
+  }
+  return Array.from(speakers);
+}
+
+// Labels that look like "Name:" prefixes in notes pasted into transcripts
+const NON_SPEAKER_LABELS = new Set([
+  'note', 'notes', 'action item', 'action items', 'next steps', 'summary', 'agenda',
+  'decision', 'decisions', 'question', 'answer', 'todo', 'to do', 'fyi', 'update',
+  'reminder', 'important', 'attendees', 'participants', 'subject', 'date', 'time',
+]);
+
+// A capitalized word ("Jane", "O'Brien", "Jean-Luc"), an initial or title
+// ("J.", "Dr."), a number ("Speaker 2") or a name particle ("van", "de")
+const NAME_WORD = /^(?:\p{Lu}[\p{L}'’-]*|\p{Lu}\.|(?:Dr|Mr|Mrs|Ms|Mx|Prof|Jr|Sr)\.|\d+|(?:de|da|di|del|der|van|von|la|le|bin|al))$/u;
+
+/**
+ * Whether a "Label:" prefix reads like a speaker name: up to five
+ * capitalized words, no sentence punctuation, and not a notes heading.
+ */
+function isSpeakerName(label: string): boolean {
+  const value = label.trim();
+  if (!value || /[!?;,"()]/.test(value)) return false;
+  if (NON_SPEAKER_LABELS.has(value.toLowerCase())) return false;
+
+  const words = value.split(/\s+/);
+  if (words.length > 5 || !/^\p{Lu}/u.test(words[0])) return false;
+  return words.every((w) => NAME_WORD.test(w));
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * "01:02:03.456", "02:03.456" or "01:02:03,456" (SRT) → seconds
+ */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(fraction.padEnd(3, '0')) / 1000 : 0)
+  );
+}